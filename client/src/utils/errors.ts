@@ -0,0 +1,35 @@
+import { TRPCClientError } from '@trpc/client';
+import type { AppRouter } from '../../../server/src';
+
+type ErrorData = NonNullable<TRPCClientError<AppRouter>['data']>;
+
+// Stable codes the server attaches to expected failures (not found, conflict, forbidden, ...)
+export type DomainErrorCode = NonNullable<ErrorData['domainCode']>;
+
+// The domain code of a failed call, or null for network failures and unexpected server errors
+export const getDomainErrorCode = (error: unknown): DomainErrorCode | null => {
+  if (error instanceof TRPCClientError) {
+    const data = (error as TRPCClientError<AppRouter>).data;
+    return data?.domainCode ?? null;
+  }
+  return null;
+};
+
+export const isDomainError = (error: unknown, code: DomainErrorCode): boolean =>
+  getDomainErrorCode(error) === code;
+
+// Picks a handler by domain code, falling back for anything unexpected:
+//
+//   matchDomainError(error, {
+//     NOT_FOUND: () => 'This listing was removed',
+//     FORBIDDEN: () => 'Only the seller can do that',
+//   }, () => 'Something went wrong');
+export const matchDomainError = <T>(
+  error: unknown,
+  handlers: Partial<Record<DomainErrorCode, (message: string) => T>>,
+  fallback: (error: unknown) => T
+): T => {
+  const code = getDomainErrorCode(error);
+  const handler = code ? handlers[code] : undefined;
+  return handler && error instanceof Error ? handler(error.message) : fallback(error);
+};
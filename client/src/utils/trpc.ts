@@ -1,10 +1,41 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpSubscriptionLink, loggerLink, splitLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+const ACCESS_TOKEN_KEY = 'amancores.access_token';
+
+// Store the access token returned by `login`/`refresh`, or clear it on logout
+export const setAccessToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+  }
+};
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    // Subscriptions stream over server-sent events; EventSource cannot send headers,
+    // so the access token travels as a connection param instead
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: httpSubscriptionLink({
+        url: '/api',
+        transformer: superjson,
+        connectionParams() {
+          const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+          return token ? { token } : null;
+        },
+      }),
+      false: httpBatchLink({
+        url: '/api',
+        transformer: superjson,
+        headers() {
+          const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+          return token ? { Authorization: `Bearer ${token}` } : {};
+        },
+      }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
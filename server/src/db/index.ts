@@ -9,3 +9,8 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Either the pool or an open transaction, for helpers that must join the caller's transaction
+export type DbExecutor = typeof db | DbTransaction;
@@ -4,14 +4,33 @@ import {
   pgTable, 
   timestamp, 
   numeric, 
+  doublePrecision,
   integer, 
   boolean,
   varchar,
   jsonb,
   index,
-  foreignKey
+  uniqueIndex,
+  foreignKey,
+  pgEnum,
+  customType
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { getTableColumns, relations, sql, type AnyColumn } from 'drizzle-orm';
+
+// Postgres full-text document; drizzle has no built-in column type for it
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+// Search documents for users and posts. Their rows are returned all over the API, so rather than
+// carry a stored tsvector they are indexed by expression; queries must build the same expression.
+export const userSearchDocument = (user: { username: AnyColumn; display_name: AnyColumn; bio: AnyColumn }) =>
+  sql`(setweight(to_tsvector('simple', ${user.username}), 'A') || setweight(to_tsvector('simple', coalesce(${user.display_name}, '')), 'B') || setweight(to_tsvector('english', coalesce(${user.bio}, '')), 'C'))`;
+
+export const postSearchDocument = (post: { content: AnyColumn }) =>
+  sql`to_tsvector('english', ${post.content})`;
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -22,14 +41,56 @@ export const usersTable = pgTable('users', {
   bio: text('bio'),
   avatar_url: text('avatar_url'),
   is_verified: boolean('is_verified').default(false).notNull(),
+  is_admin: boolean('is_admin').default(false).notNull(), // granted directly in the database
   follower_count: integer('follower_count').default(0).notNull(),
   following_count: integer('following_count').default(0).notNull(),
   post_count: integer('post_count').default(0).notNull(),
+  // Aggregates of the reviews the user received, as buyer or seller
+  review_count: integer('review_count').default(0).notNull(),
+  rating_sum: integer('rating_sum').default(0).notNull(),
+  average_rating: doublePrecision('average_rating').generatedAlwaysAs(
+    sql`"rating_sum"::double precision / nullif("review_count", 0)`
+  ),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
   usernameIdx: index('username_idx').on(table.username),
   emailIdx: index('email_idx').on(table.email),
+  searchIdx: index('users_search_idx').using('gin', userSearchDocument(table)),
+}));
+
+// Credentials table - one row per login method so passkeys can sit next to passwords
+export const credentialsTable = pgTable('credentials', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  type: varchar('type', { length: 20 }).notNull().default('password'),
+  secret_hash: text('secret_hash').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index('credentials_user_id_idx').on(table.user_id),
+  uniqueUserType: uniqueIndex('unique_credential_type_idx').on(table.user_id, table.type),
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+  }),
+}));
+
+// Sessions table - refresh tokens are stored hashed, access tokens are stateless but bound to a session
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  refresh_token_hash: varchar('refresh_token_hash', { length: 64 }).notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'),
+  last_used_at: timestamp('last_used_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index('sessions_user_id_idx').on(table.user_id),
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+  }),
 }));
 
 // Posts table
@@ -43,12 +104,27 @@ export const postsTable = pgTable('posts', {
   reply_count: integer('reply_count').default(0).notNull(),
   is_pinned: boolean('is_pinned').default(false).notNull(),
   parent_post_id: integer('parent_post_id'),
+  repost_of_id: integer('repost_of_id'), // set for reposts; empty content means a plain repost, otherwise a quote
+  // Deleted posts stay behind as tombstones so replies keep their place in threads;
+  // the purge job later drops their likes and media and sets purged_at
+  deleted_at: timestamp('deleted_at'),
+  purged_at: timestamp('purged_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
   userIdIdx: index('posts_user_id_idx').on(table.user_id),
   parentPostIdIdx: index('posts_parent_post_id_idx').on(table.parent_post_id),
+  repostOfIdIdx: index('posts_repost_of_id_idx').on(table.repost_of_id),
   createdAtIdx: index('posts_created_at_idx').on(table.created_at),
+  searchIdx: index('posts_search_idx').using('gin', postSearchDocument(table)),
+  // A user can plainly repost a post once (until they undo it); quotes are unrestricted
+  uniquePlainRepost: uniqueIndex('unique_plain_repost_idx')
+    .on(table.user_id, table.repost_of_id)
+    .where(sql`${table.content} = '' and ${table.deleted_at} is null`),
+  // Tombstones still waiting for the purge job
+  purgePendingIdx: index('posts_purge_pending_idx')
+    .on(table.deleted_at)
+    .where(sql`${table.deleted_at} is not null and ${table.purged_at} is null`),
   userFk: foreignKey({
     columns: [table.user_id],
     foreignColumns: [usersTable.id],
@@ -57,6 +133,10 @@ export const postsTable = pgTable('posts', {
     columns: [table.parent_post_id],
     foreignColumns: [table.id],
   }),
+  repostOfFk: foreignKey({
+    columns: [table.repost_of_id],
+    foreignColumns: [table.id],
+  }),
 }));
 
 // Listings table for marketplace
@@ -70,22 +150,44 @@ export const listingsTable = pgTable('listings', {
   category: varchar('category', { length: 50 }).notNull(),
   condition: varchar('condition', { length: 20 }).notNull(),
   location: varchar('location', { length: 100 }),
+  // Optional map position in degrees, used by the "nearest" sort
+  latitude: doublePrecision('latitude'),
+  longitude: doublePrecision('longitude'),
   media_urls: jsonb('media_urls').$type<string[]>(),
   is_active: boolean('is_active').default(true).notNull(),
   view_count: integer('view_count').default(0).notNull(),
+  // Units listed, and how many of them are not yet paid for. See lib/stock.ts.
+  quantity: integer('quantity').default(1).notNull(),
+  quantity_available: integer('quantity_available').default(1).notNull(),
+  // Checkout hold: the buyer buying the remaining stock, and until when. See lib/reservations.ts.
+  reserved_by: integer('reserved_by'),
+  reserved_until: timestamp('reserved_until'),
+  // Maintained by Postgres; title matches outrank description matches
+  search_vector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', "description"), 'B')`
+  ),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
   userIdIdx: index('listings_user_id_idx').on(table.user_id),
+  searchVectorIdx: index('listings_search_vector_idx').using('gin', table.search_vector),
   categoryIdx: index('listings_category_idx').on(table.category),
   locationIdx: index('listings_location_idx').on(table.location),
   priceIdx: index('listings_price_idx').on(table.price),
+  viewCountIdx: index('listings_view_count_idx').on(table.view_count),
   createdAtIdx: index('listings_created_at_idx').on(table.created_at),
   isActiveIdx: index('listings_is_active_idx').on(table.is_active),
+  reservedUntilIdx: index('listings_reserved_until_idx')
+    .on(table.reserved_until)
+    .where(sql`${table.reserved_by} is not null`),
   userFk: foreignKey({
     columns: [table.user_id],
     foreignColumns: [usersTable.id],
   }),
+  reservedByFk: foreignKey({
+    columns: [table.reserved_by],
+    foreignColumns: [usersTable.id],
+  }),
 }));
 
 // Follows table for user relationships
@@ -97,7 +199,7 @@ export const followsTable = pgTable('follows', {
 }, (table) => ({
   followerIdx: index('follows_follower_id_idx').on(table.follower_id),
   followingIdx: index('follows_following_id_idx').on(table.following_id),
-  uniqueFollow: index('unique_follow_idx').on(table.follower_id, table.following_id),
+  uniqueFollow: uniqueIndex('unique_follow_idx').on(table.follower_id, table.following_id),
   followerFk: foreignKey({
     columns: [table.follower_id],
     foreignColumns: [usersTable.id],
@@ -117,7 +219,7 @@ export const likesTable = pgTable('likes', {
 }, (table) => ({
   userIdIdx: index('likes_user_id_idx').on(table.user_id),
   postIdIdx: index('likes_post_id_idx').on(table.post_id),
-  uniqueLike: index('unique_like_idx').on(table.user_id, table.post_id),
+  uniqueLike: uniqueIndex('unique_like_idx').on(table.user_id, table.post_id),
   userFk: foreignKey({
     columns: [table.user_id],
     foreignColumns: [usersTable.id],
@@ -128,16 +230,76 @@ export const likesTable = pgTable('likes', {
   }),
 }));
 
+// Users mentioned in a post, resolved from @username at write time
+export const postMentionsTable = pgTable('post_mentions', {
+  id: serial('id').primaryKey(),
+  post_id: integer('post_id').notNull(),
+  user_id: integer('user_id').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  postIdIdx: index('post_mentions_post_id_idx').on(table.post_id),
+  userIdIdx: index('post_mentions_user_id_idx').on(table.user_id),
+  uniqueMention: uniqueIndex('unique_post_mention_idx').on(table.post_id, table.user_id),
+  postFk: foreignKey({
+    columns: [table.post_id],
+    foreignColumns: [postsTable.id],
+  }).onDelete('cascade'),
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+  }),
+}));
+
+// Hashtags, stored lowercase without the leading #
+export const hashtagsTable = pgTable('hashtags', {
+  id: serial('id').primaryKey(),
+  tag: varchar('tag', { length: 100 }).notNull().unique(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const postHashtagsTable = pgTable('post_hashtags', {
+  id: serial('id').primaryKey(),
+  post_id: integer('post_id').notNull(),
+  hashtag_id: integer('hashtag_id').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  postIdIdx: index('post_hashtags_post_id_idx').on(table.post_id),
+  hashtagIdIdx: index('post_hashtags_hashtag_id_idx').on(table.hashtag_id, table.created_at),
+  uniquePostHashtag: uniqueIndex('unique_post_hashtag_idx').on(table.post_id, table.hashtag_id),
+  postFk: foreignKey({
+    columns: [table.post_id],
+    foreignColumns: [postsTable.id],
+  }).onDelete('cascade'),
+  hashtagFk: foreignKey({
+    columns: [table.hashtag_id],
+    foreignColumns: [hashtagsTable.id],
+  }),
+}));
+
+// Transaction lifecycle states - allowed moves live in handlers/create_transaction.ts
+export const transactionStatusEnum = pgEnum('transaction_status', [
+  'pending',
+  'paid',
+  'shipped',
+  'delivered',
+  'completed',
+  'cancelled',
+  'refunded',
+  'disputed',
+]);
+
 // Transactions table for marketplace
 export const transactionsTable = pgTable('transactions', {
   id: serial('id').primaryKey(),
   listing_id: integer('listing_id').notNull(),
   buyer_id: integer('buyer_id').notNull(),
   seller_id: integer('seller_id').notNull(),
-  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+  quantity: integer('quantity').default(1).notNull(),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(), // total for all units
   currency: varchar('currency', { length: 3 }).notNull(),
-  status: varchar('status', { length: 20 }).notNull().default('pending'),
+  status: transactionStatusEnum('status').notNull().default('pending'),
   payment_method: varchar('payment_method', { length: 50 }),
+  version: integer('version').default(1).notNull(), // bumped on every status change for optimistic concurrency
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -160,6 +322,362 @@ export const transactionsTable = pgTable('transactions', {
   }),
 }));
 
+// Transaction events table - append-only audit trail, rows are never updated or deleted
+export const transactionEventsTable = pgTable('transaction_events', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').notNull(),
+  actor_id: integer('actor_id'), // null when the change came from the system
+  event_type: varchar('event_type', {
+    length: 30,
+    enum: ['created', 'status_changed', 'amount_changed', 'payment_method_changed'],
+  }).notNull(),
+  from_value: text('from_value'),
+  to_value: text('to_value'),
+  reason: text('reason'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  transactionIdIdx: index('transaction_events_transaction_id_idx').on(table.transaction_id),
+  createdAtIdx: index('transaction_events_created_at_idx').on(table.created_at),
+  transactionFk: foreignKey({
+    columns: [table.transaction_id],
+    foreignColumns: [transactionsTable.id],
+  }),
+  actorFk: foreignKey({
+    columns: [table.actor_id],
+    foreignColumns: [usersTable.id],
+  }),
+}));
+
+// Offer negotiation states - who may move an offer on is decided in handlers/create_offer.ts
+export const offerStatusEnum = pgEnum('offer_status', [
+  'pending', // waiting for the seller
+  'countered', // waiting for the buyer
+  'accepted',
+  'declined',
+  'withdrawn',
+  'expired',
+]);
+
+// Offers table - a buyer's proposed price for a listing, countered back and forth until settled
+export const offersTable = pgTable('offers', {
+  id: serial('id').primaryKey(),
+  listing_id: integer('listing_id').notNull(),
+  buyer_id: integer('buyer_id').notNull(),
+  seller_id: integer('seller_id').notNull(),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(), // the proposal currently on the table
+  currency: varchar('currency', { length: 3 }).notNull(),
+  status: offerStatusEnum('status').notNull().default('pending'),
+  expires_at: timestamp('expires_at').notNull(), // reset by every counter
+  transaction_id: integer('transaction_id'), // set once the accepted offer became a transaction
+  version: integer('version').default(1).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  listingIdIdx: index('offers_listing_id_idx').on(table.listing_id),
+  buyerIdIdx: index('offers_buyer_id_idx').on(table.buyer_id),
+  sellerIdIdx: index('offers_seller_id_idx').on(table.seller_id),
+  // A buyer negotiates one offer per listing at a time
+  uniqueOpenOffer: uniqueIndex('unique_open_offer_idx')
+    .on(table.listing_id, table.buyer_id)
+    .where(sql`${table.status} in ('pending', 'countered')`),
+  openExpiryIdx: index('offers_open_expires_at_idx')
+    .on(table.expires_at)
+    .where(sql`${table.status} in ('pending', 'countered')`),
+  listingFk: foreignKey({
+    columns: [table.listing_id],
+    foreignColumns: [listingsTable.id],
+  }),
+  buyerFk: foreignKey({
+    columns: [table.buyer_id],
+    foreignColumns: [usersTable.id],
+  }),
+  sellerFk: foreignKey({
+    columns: [table.seller_id],
+    foreignColumns: [usersTable.id],
+  }),
+  transactionFk: foreignKey({
+    columns: [table.transaction_id],
+    foreignColumns: [transactionsTable.id],
+  }),
+}));
+
+// Payment intent states - moved forward by provider responses and webhooks, see handlers/create_payment.ts
+export const paymentIntentStatusEnum = pgEnum('payment_intent_status', [
+  'authorized', // funds held, not yet taken
+  'captured',
+  'failed',
+  'refunded',
+]);
+
+// Payment intents table - one attempt to charge the buyer for a transaction through a provider
+export const paymentIntentsTable = pgTable('payment_intents', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').notNull(),
+  provider: varchar('provider', { length: 30 }).notNull(),
+  provider_intent_id: varchar('provider_intent_id', { length: 100 }).notNull(), // the provider's reference
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  status: paymentIntentStatusEnum('status').notNull(),
+  failure_reason: text('failure_reason'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  transactionIdIdx: index('payment_intents_transaction_id_idx').on(table.transaction_id),
+  uniqueProviderIntent: uniqueIndex('unique_provider_intent_idx').on(table.provider, table.provider_intent_id),
+  transactionFk: foreignKey({
+    columns: [table.transaction_id],
+    foreignColumns: [transactionsTable.id],
+  }),
+}));
+
+// Dispute states - the seller answers an open dispute, an admin resolves it. See handlers/create_dispute.ts.
+export const disputeStatusEnum = pgEnum('dispute_status', [
+  'open', // waiting for the seller
+  'under_review', // the seller answered, waiting for an admin
+  'resolved',
+]);
+
+export const disputeReasonEnum = pgEnum('dispute_reason', ['not_received', 'not_as_described', 'damaged', 'other']);
+
+export const disputeResolutionEnum = pgEnum('dispute_resolution', [
+  'full_refund',
+  'partial_refund', // part of the money back to the buyer, the rest released to the seller
+  'release_to_seller',
+]);
+
+// Disputes table - a buyer's complaint about a paid transaction, at most one per transaction
+export const disputesTable = pgTable('disputes', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').notNull(),
+  buyer_id: integer('buyer_id').notNull(),
+  seller_id: integer('seller_id').notNull(),
+  reason: disputeReasonEnum('reason').notNull(),
+  description: text('description').notNull(),
+  evidence_urls: jsonb('evidence_urls').$type<string[]>().notNull(),
+  seller_response: text('seller_response'),
+  seller_evidence_urls: jsonb('seller_evidence_urls').$type<string[]>(),
+  responded_at: timestamp('responded_at'),
+  status: disputeStatusEnum('status').notNull().default('open'),
+  resolution: disputeResolutionEnum('resolution'),
+  refund_amount: numeric('refund_amount', { precision: 12, scale: 2 }), // what went back to the buyer
+  refund_pending: boolean('refund_pending').default(false).notNull(), // the provider has not returned it yet
+  resolution_note: text('resolution_note'),
+  resolved_by: integer('resolved_by'), // null when a party settled it by refunding or completing
+  resolved_at: timestamp('resolved_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueTransaction: uniqueIndex('unique_dispute_transaction_idx').on(table.transaction_id),
+  statusIdx: index('disputes_status_idx').on(table.status, table.created_at),
+  transactionFk: foreignKey({
+    columns: [table.transaction_id],
+    foreignColumns: [transactionsTable.id],
+  }),
+  buyerFk: foreignKey({
+    columns: [table.buyer_id],
+    foreignColumns: [usersTable.id],
+  }),
+  sellerFk: foreignKey({
+    columns: [table.seller_id],
+    foreignColumns: [usersTable.id],
+  }),
+  resolvedByFk: foreignKey({
+    columns: [table.resolved_by],
+    foreignColumns: [usersTable.id],
+  }),
+}));
+
+// Payout states - requested by the seller, settled by operators
+export const payoutStatusEnum = pgEnum('payout_status', ['requested', 'paid', 'failed']);
+
+// Payouts table - a seller withdrawing from their balance
+export const payoutsTable = pgTable('payouts', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  status: payoutStatusEnum('status').notNull().default('requested'),
+  failure_reason: text('failure_reason'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index('payouts_user_id_idx').on(table.user_id),
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+  }),
+}));
+
+// Ledger account kinds. Platform accounts (escrow, platform_fees, payouts) have no user; buyer
+// accounts stand for money coming in from outside, so they run negative.
+export const ledgerAccountTypeEnum = pgEnum('ledger_account_type', [
+  'buyer',
+  'escrow',
+  'seller_balance',
+  'platform_fees',
+  'payouts', // money on its way to sellers' bank accounts
+]);
+
+// Ledger accounts table - one per kind, owner and currency; balances are the sum of their entries
+export const ledgerAccountsTable = pgTable('ledger_accounts', {
+  id: serial('id').primaryKey(),
+  type: ledgerAccountTypeEnum('type').notNull(),
+  user_id: integer('user_id'),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueUserAccount: uniqueIndex('unique_user_ledger_account_idx')
+    .on(table.type, table.user_id, table.currency)
+    .where(sql`${table.user_id} is not null`),
+  uniquePlatformAccount: uniqueIndex('unique_platform_ledger_account_idx')
+    .on(table.type, table.currency)
+    .where(sql`${table.user_id} is null`),
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+  }),
+}));
+
+export const ledgerJournalKindEnum = pgEnum('ledger_journal_kind', [
+  'payment', // buyer -> escrow
+  'release', // escrow -> seller balance and platform fees
+  'refund', // escrow -> buyer
+  'payout', // seller balance -> payouts
+  'payout_reversal', // payouts -> seller balance
+]);
+
+// Ledger journals table - one money movement; its entries always sum to zero. See lib/ledger.ts.
+export const ledgerJournalsTable = pgTable('ledger_journals', {
+  id: serial('id').primaryKey(),
+  kind: ledgerJournalKindEnum('kind').notNull(),
+  transaction_id: integer('transaction_id'),
+  payout_id: integer('payout_id'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  transactionIdIdx: index('ledger_journals_transaction_id_idx').on(table.transaction_id),
+  payoutIdIdx: index('ledger_journals_payout_id_idx').on(table.payout_id),
+  transactionFk: foreignKey({
+    columns: [table.transaction_id],
+    foreignColumns: [transactionsTable.id],
+  }),
+  payoutFk: foreignKey({
+    columns: [table.payout_id],
+    foreignColumns: [payoutsTable.id],
+  }),
+}));
+
+// Ledger entries table - a signed amount booked to one account; positive adds to its balance
+export const ledgerEntriesTable = pgTable('ledger_entries', {
+  id: serial('id').primaryKey(),
+  journal_id: integer('journal_id').notNull(),
+  account_id: integer('account_id').notNull(),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  journalIdIdx: index('ledger_entries_journal_id_idx').on(table.journal_id),
+  accountIdIdx: index('ledger_entries_account_id_idx').on(table.account_id),
+  journalFk: foreignKey({
+    columns: [table.journal_id],
+    foreignColumns: [ledgerJournalsTable.id],
+  }).onDelete('cascade'),
+  accountFk: foreignKey({
+    columns: [table.account_id],
+    foreignColumns: [ledgerAccountsTable.id],
+  }),
+}));
+
+// Reviews table - each side of a completed transaction may review the other once
+export const reviewsTable = pgTable('reviews', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').notNull(),
+  reviewer_id: integer('reviewer_id').notNull(),
+  reviewee_id: integer('reviewee_id').notNull(),
+  reviewer_role: varchar('reviewer_role', { length: 10, enum: ['buyer', 'seller'] }).notNull(), // the reviewer's side of the transaction
+  rating: integer('rating').notNull(), // 1 to 5
+  text: text('text').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  revieweeIdx: index('reviews_reviewee_id_idx').on(table.reviewee_id, table.reviewer_role, table.created_at),
+  uniqueReview: uniqueIndex('unique_review_idx').on(table.transaction_id, table.reviewer_id),
+  transactionFk: foreignKey({
+    columns: [table.transaction_id],
+    foreignColumns: [transactionsTable.id],
+  }),
+  reviewerFk: foreignKey({
+    columns: [table.reviewer_id],
+    foreignColumns: [usersTable.id],
+  }),
+  revieweeFk: foreignKey({
+    columns: [table.reviewee_id],
+    foreignColumns: [usersTable.id],
+  }),
+}));
+
+// Listing columns minus the search vector and the checkout hold (which would reveal the buyer),
+// for queries whose rows go back to clients. The seller's review aggregates ride along so buyers
+// can judge who they are dealing with; like getSellerReputation, they only count reviews buyers
+// left, not the ones the seller received when buying.
+const {
+  search_vector: _searchVector,
+  reserved_by: _reservedBy,
+  reserved_until: _reservedUntil,
+  ...publicListingColumns
+} = getTableColumns(listingsTable);
+const listingSellerId = sql`${listingsTable}.${sql.identifier('user_id')}`;
+const sellerReviews = sql`from ${reviewsTable} where ${reviewsTable.reviewee_id} = ${listingSellerId} and ${reviewsTable.reviewer_role} = 'buyer'`;
+export const listingColumns = {
+  ...publicListingColumns,
+  seller_review_count: sql<number>`(select count(*) ${sellerReviews})`.mapWith(Number),
+  seller_average_rating: sql<number | null>`(select avg(${reviewsTable.rating}) ${sellerReviews})`.mapWith(Number),
+};
+
+// Conversations table - a buyer asking a seller, usually about one of the seller's listings
+export const conversationsTable = pgTable('conversations', {
+  id: serial('id').primaryKey(),
+  listing_id: integer('listing_id').notNull(), // every conversation starts from a listing
+  buyer_id: integer('buyer_id').notNull(), // the user who started the conversation
+  seller_id: integer('seller_id').notNull(),
+  last_message_at: timestamp('last_message_at').defaultNow().notNull(), // orders the inbox
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  buyerIdx: index('conversations_buyer_id_idx').on(table.buyer_id, table.last_message_at),
+  sellerIdx: index('conversations_seller_id_idx').on(table.seller_id, table.last_message_at),
+  uniqueListingBuyer: uniqueIndex('unique_conversation_listing_buyer_idx').on(table.listing_id, table.buyer_id),
+  listingFk: foreignKey({
+    columns: [table.listing_id],
+    foreignColumns: [listingsTable.id],
+  }),
+  buyerFk: foreignKey({
+    columns: [table.buyer_id],
+    foreignColumns: [usersTable.id],
+  }),
+  sellerFk: foreignKey({
+    columns: [table.seller_id],
+    foreignColumns: [usersTable.id],
+  }),
+}));
+
+// Messages table
+export const messagesTable = pgTable('messages', {
+  id: serial('id').primaryKey(),
+  conversation_id: integer('conversation_id').notNull(),
+  sender_id: integer('sender_id').notNull(),
+  body: text('body').notNull(),
+  read_at: timestamp('read_at'), // set once the other participant has read it
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  conversationIdx: index('messages_conversation_id_idx').on(table.conversation_id, table.created_at),
+  unreadIdx: index('messages_unread_idx').on(table.conversation_id).where(sql`${table.read_at} is null`),
+  conversationFk: foreignKey({
+    columns: [table.conversation_id],
+    foreignColumns: [conversationsTable.id],
+  }).onDelete('cascade'),
+  senderFk: foreignKey({
+    columns: [table.sender_id],
+    foreignColumns: [usersTable.id],
+  }),
+}));
+
 // Notifications table
 export const notificationsTable = pgTable('notifications', {
   id: serial('id').primaryKey(),
@@ -169,6 +687,9 @@ export const notificationsTable = pgTable('notifications', {
   message: text('message').notNull(),
   is_read: boolean('is_read').default(false).notNull(),
   related_id: integer('related_id'),
+  actor_id: integer('actor_id'), // most recent user behind the notification, null for system notifications
+  actor_count: integer('actor_count').default(1).notNull(), // distinct actors folded into an aggregated notification
+  actor_ids: jsonb('actor_ids').$type<number[]>().default([]).notNull(), // those actors, oldest first
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   userIdIdx: index('notifications_user_id_idx').on(table.user_id),
@@ -179,6 +700,10 @@ export const notificationsTable = pgTable('notifications', {
     columns: [table.user_id],
     foreignColumns: [usersTable.id],
   }),
+  actorFk: foreignKey({
+    columns: [table.actor_id],
+    foreignColumns: [usersTable.id],
+  }),
 }));
 
 // Define relations
@@ -188,9 +713,32 @@ export const usersRelations = relations(usersTable, ({ many }) => ({
   followers: many(followsTable, { relationName: 'follower' }),
   following: many(followsTable, { relationName: 'following' }),
   likes: many(likesTable),
+  mentions: many(postMentionsTable),
   buyerTransactions: many(transactionsTable, { relationName: 'buyer' }),
   sellerTransactions: many(transactionsTable, { relationName: 'seller' }),
+  reviewsWritten: many(reviewsTable, { relationName: 'reviewer' }),
+  reviewsReceived: many(reviewsTable, { relationName: 'reviewee' }),
+  buyerOffers: many(offersTable, { relationName: 'offerBuyer' }),
+  sellerOffers: many(offersTable, { relationName: 'offerSeller' }),
+  buyerConversations: many(conversationsTable, { relationName: 'conversationBuyer' }),
+  sellerConversations: many(conversationsTable, { relationName: 'conversationSeller' }),
   notifications: many(notificationsTable),
+  credentials: many(credentialsTable),
+  sessions: many(sessionsTable),
+}));
+
+export const credentialsRelations = relations(credentialsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [credentialsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
 }));
 
 export const postsRelations = relations(postsTable, ({ one, many }) => ({
@@ -204,7 +752,41 @@ export const postsRelations = relations(postsTable, ({ one, many }) => ({
     relationName: 'parentPost',
   }),
   replies: many(postsTable, { relationName: 'parentPost' }),
+  repostOf: one(postsTable, {
+    fields: [postsTable.repost_of_id],
+    references: [postsTable.id],
+    relationName: 'repostOf',
+  }),
+  reposts: many(postsTable, { relationName: 'repostOf' }),
   likes: many(likesTable),
+  mentions: many(postMentionsTable),
+  hashtags: many(postHashtagsTable),
+}));
+
+export const postMentionsRelations = relations(postMentionsTable, ({ one }) => ({
+  post: one(postsTable, {
+    fields: [postMentionsTable.post_id],
+    references: [postsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [postMentionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const hashtagsRelations = relations(hashtagsTable, ({ many }) => ({
+  posts: many(postHashtagsTable),
+}));
+
+export const postHashtagsRelations = relations(postHashtagsTable, ({ one }) => ({
+  post: one(postsTable, {
+    fields: [postHashtagsTable.post_id],
+    references: [postsTable.id],
+  }),
+  hashtag: one(hashtagsTable, {
+    fields: [postHashtagsTable.hashtag_id],
+    references: [hashtagsTable.id],
+  }),
 }));
 
 export const listingsRelations = relations(listingsTable, ({ one, many }) => ({
@@ -213,6 +795,8 @@ export const listingsRelations = relations(listingsTable, ({ one, many }) => ({
     references: [usersTable.id],
   }),
   transactions: many(transactionsTable),
+  conversations: many(conversationsTable),
+  offers: many(offersTable),
 }));
 
 export const followsRelations = relations(followsTable, ({ one }) => ({
@@ -239,7 +823,7 @@ export const likesRelations = relations(likesTable, ({ one }) => ({
   }),
 }));
 
-export const transactionsRelations = relations(transactionsTable, ({ one }) => ({
+export const transactionsRelations = relations(transactionsTable, ({ one, many }) => ({
   listing: one(listingsTable, {
     fields: [transactionsTable.listing_id],
     references: [listingsTable.id],
@@ -254,6 +838,141 @@ export const transactionsRelations = relations(transactionsTable, ({ one }) => (
     references: [usersTable.id],
     relationName: 'seller',
   }),
+  events: many(transactionEventsTable),
+  reviews: many(reviewsTable),
+  paymentIntents: many(paymentIntentsTable),
+  dispute: one(disputesTable),
+}));
+
+export const transactionEventsRelations = relations(transactionEventsTable, ({ one }) => ({
+  transaction: one(transactionsTable, {
+    fields: [transactionEventsTable.transaction_id],
+    references: [transactionsTable.id],
+  }),
+  actor: one(usersTable, {
+    fields: [transactionEventsTable.actor_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const offersRelations = relations(offersTable, ({ one }) => ({
+  listing: one(listingsTable, {
+    fields: [offersTable.listing_id],
+    references: [listingsTable.id],
+  }),
+  buyer: one(usersTable, {
+    fields: [offersTable.buyer_id],
+    references: [usersTable.id],
+    relationName: 'offerBuyer',
+  }),
+  seller: one(usersTable, {
+    fields: [offersTable.seller_id],
+    references: [usersTable.id],
+    relationName: 'offerSeller',
+  }),
+  transaction: one(transactionsTable, {
+    fields: [offersTable.transaction_id],
+    references: [transactionsTable.id],
+  }),
+}));
+
+export const paymentIntentsRelations = relations(paymentIntentsTable, ({ one }) => ({
+  transaction: one(transactionsTable, {
+    fields: [paymentIntentsTable.transaction_id],
+    references: [transactionsTable.id],
+  }),
+}));
+
+export const disputesRelations = relations(disputesTable, ({ one }) => ({
+  transaction: one(transactionsTable, {
+    fields: [disputesTable.transaction_id],
+    references: [transactionsTable.id],
+  }),
+}));
+
+export const ledgerAccountsRelations = relations(ledgerAccountsTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [ledgerAccountsTable.user_id],
+    references: [usersTable.id],
+  }),
+  entries: many(ledgerEntriesTable),
+}));
+
+export const ledgerJournalsRelations = relations(ledgerJournalsTable, ({ one, many }) => ({
+  transaction: one(transactionsTable, {
+    fields: [ledgerJournalsTable.transaction_id],
+    references: [transactionsTable.id],
+  }),
+  payout: one(payoutsTable, {
+    fields: [ledgerJournalsTable.payout_id],
+    references: [payoutsTable.id],
+  }),
+  entries: many(ledgerEntriesTable),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntriesTable, ({ one }) => ({
+  journal: one(ledgerJournalsTable, {
+    fields: [ledgerEntriesTable.journal_id],
+    references: [ledgerJournalsTable.id],
+  }),
+  account: one(ledgerAccountsTable, {
+    fields: [ledgerEntriesTable.account_id],
+    references: [ledgerAccountsTable.id],
+  }),
+}));
+
+export const payoutsRelations = relations(payoutsTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [payoutsTable.user_id],
+    references: [usersTable.id],
+  }),
+  journals: many(ledgerJournalsTable),
+}));
+
+export const reviewsRelations = relations(reviewsTable, ({ one }) => ({
+  transaction: one(transactionsTable, {
+    fields: [reviewsTable.transaction_id],
+    references: [transactionsTable.id],
+  }),
+  reviewer: one(usersTable, {
+    fields: [reviewsTable.reviewer_id],
+    references: [usersTable.id],
+    relationName: 'reviewer',
+  }),
+  reviewee: one(usersTable, {
+    fields: [reviewsTable.reviewee_id],
+    references: [usersTable.id],
+    relationName: 'reviewee',
+  }),
+}));
+
+export const conversationsRelations = relations(conversationsTable, ({ one, many }) => ({
+  listing: one(listingsTable, {
+    fields: [conversationsTable.listing_id],
+    references: [listingsTable.id],
+  }),
+  buyer: one(usersTable, {
+    fields: [conversationsTable.buyer_id],
+    references: [usersTable.id],
+    relationName: 'conversationBuyer',
+  }),
+  seller: one(usersTable, {
+    fields: [conversationsTable.seller_id],
+    references: [usersTable.id],
+    relationName: 'conversationSeller',
+  }),
+  messages: many(messagesTable),
+}));
+
+export const messagesRelations = relations(messagesTable, ({ one }) => ({
+  conversation: one(conversationsTable, {
+    fields: [messagesTable.conversation_id],
+    references: [conversationsTable.id],
+  }),
+  sender: one(usersTable, {
+    fields: [messagesTable.sender_id],
+    references: [usersTable.id],
+  }),
 }));
 
 export const notificationsRelations = relations(notificationsTable, ({ one }) => ({
@@ -266,8 +985,18 @@ export const notificationsRelations = relations(notificationsTable, ({ one }) =>
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
+export type Credential = typeof credentialsTable.$inferSelect;
+export type NewCredential = typeof credentialsTable.$inferInsert;
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
 export type Post = typeof postsTable.$inferSelect;
 export type NewPost = typeof postsTable.$inferInsert;
+export type PostMention = typeof postMentionsTable.$inferSelect;
+export type NewPostMention = typeof postMentionsTable.$inferInsert;
+export type Hashtag = typeof hashtagsTable.$inferSelect;
+export type NewHashtag = typeof hashtagsTable.$inferInsert;
+export type PostHashtag = typeof postHashtagsTable.$inferSelect;
+export type NewPostHashtag = typeof postHashtagsTable.$inferInsert;
 export type Listing = typeof listingsTable.$inferSelect;
 export type NewListing = typeof listingsTable.$inferInsert;
 export type Follow = typeof followsTable.$inferSelect;
@@ -276,16 +1005,44 @@ export type Like = typeof likesTable.$inferSelect;
 export type NewLike = typeof likesTable.$inferInsert;
 export type Transaction = typeof transactionsTable.$inferSelect;
 export type NewTransaction = typeof transactionsTable.$inferInsert;
+export type TransactionEvent = typeof transactionEventsTable.$inferSelect;
+export type NewTransactionEvent = typeof transactionEventsTable.$inferInsert;
+export type Offer = typeof offersTable.$inferSelect;
+export type NewOffer = typeof offersTable.$inferInsert;
+export type PaymentIntent = typeof paymentIntentsTable.$inferSelect;
+export type NewPaymentIntent = typeof paymentIntentsTable.$inferInsert;
+export type Dispute = typeof disputesTable.$inferSelect;
+export type NewDispute = typeof disputesTable.$inferInsert;
+export type LedgerAccount = typeof ledgerAccountsTable.$inferSelect;
+export type NewLedgerAccount = typeof ledgerAccountsTable.$inferInsert;
+export type LedgerJournal = typeof ledgerJournalsTable.$inferSelect;
+export type NewLedgerJournal = typeof ledgerJournalsTable.$inferInsert;
+export type LedgerEntry = typeof ledgerEntriesTable.$inferSelect;
+export type NewLedgerEntry = typeof ledgerEntriesTable.$inferInsert;
+export type Payout = typeof payoutsTable.$inferSelect;
+export type NewPayout = typeof payoutsTable.$inferInsert;
+export type Review = typeof reviewsTable.$inferSelect;
+export type NewReview = typeof reviewsTable.$inferInsert;
+export type Conversation = typeof conversationsTable.$inferSelect;
+export type NewConversation = typeof conversationsTable.$inferInsert;
+export type Message = typeof messagesTable.$inferSelect;
+export type NewMessage = typeof messagesTable.$inferInsert;
 export type Notification = typeof notificationsTable.$inferSelect;
 export type NewNotification = typeof notificationsTable.$inferInsert;
 
 // Export all tables for proper query building
 export const tables = {
   users: usersTable,
+  credentials: credentialsTable,
+  sessions: sessionsTable,
   posts: postsTable,
   listings: listingsTable,
   follows: followsTable,
   likes: likesTable,
+  postMentions: postMentionsTable,
+  hashtags: hashtagsTable,
+  postHashtags: postHashtagsTable,
   transactions: transactionsTable,
+  transactionEvents: transactionEventsTable,
   notifications: notificationsTable,
 };
\ No newline at end of file
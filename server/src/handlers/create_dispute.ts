@@ -0,0 +1,259 @@
+import { db } from '../db';
+import { disputesTable, transactionsTable, type Dispute as DisputeRow } from '../db/schema';
+import {
+  type Dispute,
+  type TransactionStatus,
+  type OpenDisputeInput,
+  type RespondToDisputeInput,
+  type ResolveDisputeInput
+} from '../schema';
+import { applyTransactionStatus } from './create_transaction';
+import { sendDisputeRefund } from './send_dispute_refunds';
+import { dispatchEvent, transactional } from '../lib/events';
+import { refundPartOfEscrow, toCents } from '../lib/ledger';
+import {
+  ConflictError,
+  ForbiddenError,
+  InvalidStateTransitionError,
+  NotFoundError,
+  ValidationError,
+  logUnexpectedError
+} from '../lib/errors';
+import { eq, and, ne } from 'drizzle-orm';
+
+// Orders the buyer paid for and has not confirmed yet
+const DISPUTABLE_STATUSES: TransactionStatus[] = ['paid', 'shipped', 'delivered'];
+
+const toDispute = (dispute: DisputeRow): Dispute => ({
+  ...dispute,
+  refund_amount: dispute.refund_amount === null ? null : parseFloat(dispute.refund_amount) // Convert numeric to number
+});
+
+const loadTransaction = async (id: number) => {
+  const transactions = await db.select()
+    .from(transactionsTable)
+    .where(eq(transactionsTable.id, id))
+    .execute();
+
+  if (transactions.length === 0) {
+    throw new NotFoundError(`Transaction with ID ${id} not found`);
+  }
+
+  return transactions[0];
+};
+
+const loadDispute = async (id: number) => {
+  const disputes = await db.select()
+    .from(disputesTable)
+    .where(eq(disputesTable.id, id))
+    .execute();
+
+  if (disputes.length === 0) {
+    throw new NotFoundError(`Dispute with ID ${id} not found`);
+  }
+
+  return disputes[0];
+};
+
+// The buyer complains about a paid order. The transaction is held as disputed, so the money
+// stays in escrow until the seller refunds, the buyer completes or an admin resolves it.
+export const openDispute = async (input: OpenDisputeInput): Promise<Dispute> => {
+  try {
+    const transaction = await loadTransaction(input.transaction_id);
+
+    if (transaction.buyer_id !== input.buyer_id) {
+      throw new ForbiddenError('Only the buyer can open a dispute');
+    }
+
+    if (!DISPUTABLE_STATUSES.includes(transaction.status)) {
+      throw new InvalidStateTransitionError(`Cannot dispute a ${transaction.status} transaction`);
+    }
+
+    const dispute = await transactional(async (tx) => {
+      const inserted = await tx.insert(disputesTable)
+        .values({
+          transaction_id: transaction.id,
+          buyer_id: transaction.buyer_id,
+          seller_id: transaction.seller_id,
+          reason: input.reason,
+          description: input.description,
+          evidence_urls: input.evidence_urls
+        })
+        .returning()
+        .execute();
+
+      await applyTransactionStatus(tx, transaction, 'disputed', input.buyer_id, `Dispute opened: ${input.reason}`, false);
+
+      await dispatchEvent({
+        type: 'dispute.changed',
+        actorId: input.buyer_id,
+        disputeId: inserted[0].id,
+        transactionId: transaction.id,
+        buyerId: transaction.buyer_id,
+        sellerId: transaction.seller_id,
+        action: 'open'
+      }, tx);
+
+      return inserted[0];
+    });
+
+    return toDispute(dispute);
+  } catch (error) {
+    logUnexpectedError('Dispute creation failed:', error);
+    throw error;
+  }
+};
+
+// The seller tells their side once; the dispute then waits for an admin
+export const respondToDispute = async (input: RespondToDisputeInput, sellerId: number): Promise<Dispute> => {
+  try {
+    const dispute = await loadDispute(input.id);
+
+    if (dispute.seller_id !== sellerId) {
+      throw new ForbiddenError('Only the seller can respond to this dispute');
+    }
+
+    if (dispute.status !== 'open') {
+      throw new InvalidStateTransitionError(`Cannot respond to a dispute that is ${dispute.status.replace('_', ' ')}`);
+    }
+
+    const updated = await transactional(async (tx) => {
+      const now = new Date();
+      const responded = await tx.update(disputesTable)
+        .set({
+          seller_response: input.response,
+          seller_evidence_urls: input.evidence_urls,
+          responded_at: now,
+          status: 'under_review',
+          updated_at: now
+        })
+        .where(and(
+          eq(disputesTable.id, dispute.id),
+          eq(disputesTable.status, 'open')
+        ))
+        .returning()
+        .execute();
+
+      if (responded.length === 0) {
+        throw new ConflictError(`Dispute with ID ${dispute.id} was modified concurrently`);
+      }
+
+      await dispatchEvent({
+        type: 'dispute.changed',
+        actorId: sellerId,
+        disputeId: dispute.id,
+        transactionId: dispute.transaction_id,
+        buyerId: dispute.buyer_id,
+        sellerId: dispute.seller_id,
+        action: 'respond'
+      }, tx);
+
+      return responded[0];
+    });
+
+    return toDispute(updated);
+  } catch (error) {
+    logUnexpectedError('Dispute response failed:', error);
+    throw error;
+  }
+};
+
+// An admin settles the dispute, with or without the seller's answer. A full refund returns the
+// whole payment, a partial one returns the given amount and releases the rest to the seller
+// (minus the platform fee), and releasing completes the sale as if the buyer had confirmed it.
+// The provider refunds once the resolution has committed; a refund it refuses stays pending and
+// is retried by sendPendingDisputeRefunds.
+export const resolveDispute = async (input: ResolveDisputeInput, adminId: number): Promise<Dispute> => {
+  try {
+    const dispute = await loadDispute(input.id);
+
+    if (dispute.status === 'resolved') {
+      throw new InvalidStateTransitionError('Dispute is already resolved');
+    }
+
+    const transaction = await loadTransaction(dispute.transaction_id);
+    if (transaction.status !== 'disputed') {
+      throw new InvalidStateTransitionError(`Cannot resolve a dispute on a ${transaction.status} transaction`);
+    }
+
+    if (input.resolution !== 'partial_refund' && input.refund_amount !== undefined) {
+      throw new ValidationError('Only a partial refund takes a refund amount');
+    }
+    if (input.resolution === 'partial_refund') {
+      if (input.refund_amount === undefined) {
+        throw new ValidationError('A partial refund needs a refund amount');
+      }
+      if (toCents(input.refund_amount) >= toCents(transaction.amount)) {
+        throw new ValidationError('A partial refund must be less than the transaction amount');
+      }
+    }
+
+    const refundAmount = input.resolution === 'full_refund'
+      ? transaction.amount
+      : input.resolution === 'partial_refund'
+        ? input.refund_amount!.toString()
+        : null;
+
+    const resolved = await transactional(async (tx) => {
+      // Claiming the dispute first makes a concurrent resolution fail here, before any money moves
+      const now = new Date();
+      const updated = await tx.update(disputesTable)
+        .set({
+          status: 'resolved',
+          resolution: input.resolution,
+          refund_amount: refundAmount,
+          refund_pending: refundAmount !== null,
+          resolution_note: input.note ?? null,
+          resolved_by: adminId,
+          resolved_at: now,
+          updated_at: now
+        })
+        .where(and(
+          eq(disputesTable.id, dispute.id),
+          ne(disputesTable.status, 'resolved')
+        ))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        throw new ConflictError(`Dispute with ID ${dispute.id} was modified concurrently`);
+      }
+
+      const reason = input.note ?? `Dispute resolved: ${input.resolution.replace(/_/g, ' ')}`;
+      if (input.resolution === 'full_refund') {
+        await applyTransactionStatus(tx, transaction, 'refunded', adminId, reason, false);
+      } else {
+        if (input.resolution === 'partial_refund') {
+          await refundPartOfEscrow(tx, transaction, toCents(input.refund_amount!));
+        }
+        await applyTransactionStatus(tx, transaction, 'completed', adminId, reason, false);
+      }
+
+      await dispatchEvent({
+        type: 'dispute.resolved',
+        actorId: adminId,
+        disputeId: dispute.id,
+        transactionId: transaction.id,
+        buyerId: transaction.buyer_id,
+        sellerId: transaction.seller_id,
+        resolution: input.resolution
+      }, tx);
+
+      return updated[0];
+    });
+
+    if (!resolved.refund_pending) {
+      return toDispute(resolved);
+    }
+
+    try {
+      return toDispute(await sendDisputeRefund(resolved));
+    } catch (error) {
+      logUnexpectedError(`Refund for dispute ${resolved.id} failed, retrying later:`, error);
+      return toDispute(resolved);
+    }
+  } catch (error) {
+    logUnexpectedError('Dispute resolution failed:', error);
+    throw error;
+  }
+};
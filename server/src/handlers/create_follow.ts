@@ -1,13 +1,15 @@
 import { db } from '../db';
 import { followsTable, usersTable } from '../db/schema';
-import { type CreateFollowInput, type Follow } from '../schema';
+import { type CreateFollowInput, type FollowResult } from '../schema';
+import { dispatchEvent, transactional } from '../lib/events';
+import { NotFoundError, ValidationError, logUnexpectedError } from '../lib/errors';
 import { eq, and, sql } from 'drizzle-orm';
 
-export const createFollow = async (input: CreateFollowInput): Promise<Follow> => {
+export const createFollow = async (input: CreateFollowInput): Promise<FollowResult> => {
   try {
     // Prevent self-follow
     if (input.follower_id === input.following_id) {
-      throw new Error('Users cannot follow themselves');
+      throw new ValidationError('Users cannot follow themselves');
     }
 
     // Verify both users exist
@@ -34,100 +36,100 @@ export const createFollow = async (input: CreateFollowInput): Promise<Follow> =>
         .execute();
 
       if (followerExists.length === 0) {
-        throw new Error(`User with id ${input.follower_id} does not exist`);
+        throw new NotFoundError(`User with id ${input.follower_id} does not exist`);
       }
       if (followingExists.length === 0) {
-        throw new Error(`User with id ${input.following_id} does not exist`);
+        throw new NotFoundError(`User with id ${input.following_id} does not exist`);
       }
     }
 
-    // Check if follow relationship already exists
-    const existingFollow = await db.select()
-      .from(followsTable)
-      .where(
-        and(
-          eq(followsTable.follower_id, input.follower_id),
-          eq(followsTable.following_id, input.following_id)
-        )
-      )
-      .execute();
-
-    if (existingFollow.length > 0) {
-      throw new Error('Follow relationship already exists');
-    }
-
-    // Insert follow record
-    const result = await db.insert(followsTable)
-      .values({
-        follower_id: input.follower_id,
-        following_id: input.following_id
-      })
-      .returning()
-      .execute();
-
-    // Update follower counts
-    await db.execute(sql`
-      UPDATE ${usersTable} 
-      SET following_count = following_count + 1 
-      WHERE id = ${input.follower_id}
-    `);
+    return await transactional(async (tx): Promise<FollowResult> => {
+      // The unique index settles concurrent follows; only the insert that wins bumps the counts
+      const inserted = await tx.insert(followsTable)
+        .values({
+          follower_id: input.follower_id,
+          following_id: input.following_id
+        })
+        .onConflictDoNothing({ target: [followsTable.follower_id, followsTable.following_id] })
+        .returning()
+        .execute();
 
-    await db.execute(sql`
-      UPDATE ${usersTable} 
-      SET follower_count = follower_count + 1 
-      WHERE id = ${input.following_id}
-    `);
+      if (inserted.length === 0) {
+        const existing = await tx.select()
+          .from(followsTable)
+          .where(
+            and(
+              eq(followsTable.follower_id, input.follower_id),
+              eq(followsTable.following_id, input.following_id)
+            )
+          )
+          .execute();
+
+        return { status: 'already_following', follow: existing[0] };
+      }
 
-    return result[0];
+      // Update follower counts
+      await tx.execute(sql`
+        UPDATE ${usersTable} 
+        SET following_count = following_count + 1 
+        WHERE id = ${input.follower_id}
+      `);
+
+      await tx.execute(sql`
+        UPDATE ${usersTable} 
+        SET follower_count = follower_count + 1 
+        WHERE id = ${input.following_id}
+      `);
+
+      await dispatchEvent({
+        type: 'user.followed',
+        actorId: input.follower_id,
+        followingId: input.following_id
+      }, tx);
+
+      return { status: 'followed', follow: inserted[0] };
+    });
   } catch (error) {
-    console.error('Follow creation failed:', error);
+    logUnexpectedError('Follow creation failed:', error);
     throw error;
   }
 };
 
 export const deleteFollow = async (followerId: number, followingId: number): Promise<boolean> => {
   try {
-    // Check if follow relationship exists
-    const existingFollow = await db.select()
-      .from(followsTable)
-      .where(
-        and(
-          eq(followsTable.follower_id, followerId),
-          eq(followsTable.following_id, followingId)
+    await db.transaction(async (tx) => {
+      // Only the delete that removed the row moves the counts, so concurrent unfollows count once
+      const deleted = await tx.delete(followsTable)
+        .where(
+          and(
+            eq(followsTable.follower_id, followerId),
+            eq(followsTable.following_id, followingId)
+          )
         )
-      )
-      .execute();
-
-    if (existingFollow.length === 0) {
-      throw new Error('Follow relationship does not exist');
-    }
+        .returning({ id: followsTable.id })
+        .execute();
 
-    // Delete follow record
-    await db.delete(followsTable)
-      .where(
-        and(
-          eq(followsTable.follower_id, followerId),
-          eq(followsTable.following_id, followingId)
-        )
-      )
-      .execute();
+      if (deleted.length === 0) {
+        throw new NotFoundError('Follow relationship does not exist');
+      }
 
-    // Update follower counts
-    await db.execute(sql`
-      UPDATE ${usersTable} 
-      SET following_count = following_count - 1 
-      WHERE id = ${followerId}
-    `);
+      // Update follower counts
+      await tx.execute(sql`
+        UPDATE ${usersTable} 
+        SET following_count = following_count - 1 
+        WHERE id = ${followerId}
+      `);
 
-    await db.execute(sql`
-      UPDATE ${usersTable} 
-      SET follower_count = follower_count - 1 
-      WHERE id = ${followingId}
-    `);
+      await tx.execute(sql`
+        UPDATE ${usersTable} 
+        SET follower_count = follower_count - 1 
+        WHERE id = ${followingId}
+      `);
+    });
 
     return true;
   } catch (error) {
-    console.error('Follow deletion failed:', error);
+    logUnexpectedError('Follow deletion failed:', error);
     throw error;
   }
 };
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { db } from '../db';
 import { likesTable, postsTable, usersTable } from '../db/schema';
-import { type CreateLikeInput, type Like } from '../schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { type CreateLikeInput, type LikeResult } from '../schema';
+import { dispatchEvent, transactional } from '../lib/events';
+import { NotFoundError, logUnexpectedError } from '../lib/errors';
+import { eq, and, isNull, sql } from 'drizzle-orm';
 
-export const createLike = async (input: CreateLikeInput): Promise<Like> => {
+export const createLike = async (input: CreateLikeInput): Promise<LikeResult> => {
   try {
     // First, verify the user exists
     const userExists = await db.select({ id: usersTable.id })
@@ -12,43 +14,42 @@ export const createLike = async (input: CreateLikeInput): Promise<Like> => {
       .execute();
 
     if (userExists.length === 0) {
-      throw new Error('User not found');
+      throw new NotFoundError('User not found');
     }
 
     // Verify the post exists
-    const postExists = await db.select({ id: postsTable.id })
+    const postExists = await db.select({ id: postsTable.id, user_id: postsTable.user_id })
       .from(postsTable)
-      .where(eq(postsTable.id, input.post_id))
+      .where(and(eq(postsTable.id, input.post_id), isNull(postsTable.deleted_at)))
       .execute();
 
     if (postExists.length === 0) {
-      throw new Error('Post not found');
+      throw new NotFoundError('Post not found');
     }
 
-    // Check if like already exists to prevent duplicates
-    const existingLike = await db.select({ id: likesTable.id })
-      .from(likesTable)
-      .where(and(
-        eq(likesTable.user_id, input.user_id),
-        eq(likesTable.post_id, input.post_id)
-      ))
-      .execute();
-
-    if (existingLike.length > 0) {
-      throw new Error('Like already exists');
-    }
-
-    // Create the like in a transaction to ensure atomicity
-    const result = await db.transaction(async (tx) => {
-      // Insert the like
-      const likeResult = await tx.insert(likesTable)
+    return await transactional(async (tx): Promise<LikeResult> => {
+      // The unique index settles concurrent likes; only the insert that wins bumps the count
+      const inserted = await tx.insert(likesTable)
         .values({
           user_id: input.user_id,
           post_id: input.post_id
         })
+        .onConflictDoNothing({ target: [likesTable.user_id, likesTable.post_id] })
         .returning()
         .execute();
 
+      if (inserted.length === 0) {
+        const existing = await tx.select()
+          .from(likesTable)
+          .where(and(
+            eq(likesTable.user_id, input.user_id),
+            eq(likesTable.post_id, input.post_id)
+          ))
+          .execute();
+
+        return { status: 'already_liked', like: existing[0] };
+      }
+
       // Update the post's like count
       await tx.update(postsTable)
         .set({
@@ -57,53 +58,58 @@ export const createLike = async (input: CreateLikeInput): Promise<Like> => {
         .where(eq(postsTable.id, input.post_id))
         .execute();
 
-      return likeResult[0];
-    });
+      await dispatchEvent({
+        type: 'post.liked',
+        actorId: input.user_id,
+        postId: input.post_id,
+        postAuthorId: postExists[0].user_id
+      }, tx);
 
-    return result;
+      return { status: 'liked', like: inserted[0] };
+    });
   } catch (error) {
-    console.error('Like creation failed:', error);
+    logUnexpectedError('Like creation failed:', error);
     throw error;
   }
 };
 
 export const deleteLike = async (userId: number, postId: number): Promise<boolean> => {
   try {
-    // Check if the like exists
-    const existingLike = await db.select({ id: likesTable.id })
-      .from(likesTable)
-      .where(and(
-        eq(likesTable.user_id, userId),
-        eq(likesTable.post_id, postId)
-      ))
-      .execute();
-
-    if (existingLike.length === 0) {
-      throw new Error('Like not found');
-    }
-
-    // Delete the like in a transaction to ensure atomicity
-    await db.transaction(async (tx) => {
-      // Delete the like
-      await tx.delete(likesTable)
+    await transactional(async (tx) => {
+      // Only the delete that removed the row moves the count, so concurrent unlikes count once
+      const deleted = await tx.delete(likesTable)
         .where(and(
           eq(likesTable.user_id, userId),
           eq(likesTable.post_id, postId)
         ))
+        .returning({ id: likesTable.id })
         .execute();
 
+      if (deleted.length === 0) {
+        throw new NotFoundError('Like not found');
+      }
+
       // Update the post's like count
-      await tx.update(postsTable)
+      const posts = await tx.update(postsTable)
         .set({
           like_count: sql`${postsTable.like_count} - 1`
         })
         .where(eq(postsTable.id, postId))
+        .returning({ user_id: postsTable.user_id })
         .execute();
+
+      // Take the like back out of the author's unread notification
+      await dispatchEvent({
+        type: 'post.unliked',
+        actorId: userId,
+        postId,
+        postAuthorId: posts[0].user_id
+      }, tx);
     });
 
     return true;
   } catch (error) {
-    console.error('Like deletion failed:', error);
+    logUnexpectedError('Like deletion failed:', error);
     throw error;
   }
 };
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { db } from '../db';
-import { listingsTable, usersTable } from '../db/schema';
+import { listingColumns, listingsTable, usersTable } from '../db/schema';
 import { type CreateListingInput, type Listing } from '../schema';
+import { NotFoundError, ValidationError, logUnexpectedError } from '../lib/errors';
 import { eq } from 'drizzle-orm';
 
 export const createListing = async (input: CreateListingInput): Promise<Listing> => {
@@ -12,7 +13,14 @@ export const createListing = async (input: CreateListingInput): Promise<Listing>
       .execute();
 
     if (user.length === 0) {
-      throw new Error(`User with id ${input.user_id} does not exist`);
+      throw new NotFoundError(`User with id ${input.user_id} does not exist`);
+    }
+
+    // A position needs both coordinates
+    const latitude = input.latitude ?? null;
+    const longitude = input.longitude ?? null;
+    if ((latitude === null) !== (longitude === null)) {
+      throw new ValidationError('Latitude and longitude must be provided together');
     }
 
     // Insert listing record
@@ -26,9 +34,13 @@ export const createListing = async (input: CreateListingInput): Promise<Listing>
         category: input.category,
         condition: input.condition,
         location: input.location,
-        media_urls: input.media_urls
+        latitude,
+        longitude,
+        media_urls: input.media_urls,
+        quantity: input.quantity,
+        quantity_available: input.quantity
       })
-      .returning()
+      .returning(listingColumns)
       .execute();
 
     // Convert numeric fields back to numbers before returning
@@ -38,7 +50,7 @@ export const createListing = async (input: CreateListingInput): Promise<Listing>
       price: parseFloat(listing.price) // Convert string back to number
     };
   } catch (error) {
-    console.error('Listing creation failed:', error);
+    logUnexpectedError('Listing creation failed:', error);
     throw error;
   }
 };
\ No newline at end of file
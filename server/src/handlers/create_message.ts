@@ -0,0 +1,153 @@
+import { db, type DbTransaction } from '../db';
+import {
+  conversationsTable,
+  listingsTable,
+  messagesTable,
+  notificationsTable,
+  type Conversation as ConversationRow
+} from '../db/schema';
+import {
+  type Conversation,
+  type Message,
+  type SendMessageInput,
+  type StartConversationInput
+} from '../schema';
+import { getConversationForParticipant } from '../lib/conversations';
+import { dispatchEvent, publishRealtime, transactional } from '../lib/events';
+import { ConflictError, NotFoundError, ValidationError, logUnexpectedError } from '../lib/errors';
+import { eq, and, ne, isNull } from 'drizzle-orm';
+
+const insertMessage = async (
+  tx: DbTransaction,
+  conversation: ConversationRow,
+  senderId: number,
+  body: string
+): Promise<Message> => {
+  const inserted = await tx.insert(messagesTable)
+    .values({
+      conversation_id: conversation.id,
+      sender_id: senderId,
+      body
+    })
+    .returning()
+    .execute();
+
+  await tx.update(conversationsTable)
+    .set({ last_message_at: inserted[0].created_at })
+    .where(eq(conversationsTable.id, conversation.id))
+    .execute();
+
+  await dispatchEvent({
+    type: 'message.sent',
+    actorId: senderId,
+    conversationId: conversation.id,
+    recipientId: senderId === conversation.buyer_id ? conversation.seller_id : conversation.buyer_id
+  }, tx);
+
+  return inserted[0];
+};
+
+// Asking about the same listing twice continues the existing conversation
+export const startConversation = async (input: StartConversationInput): Promise<Conversation> => {
+  try {
+    const listing = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, input.listing_id))
+      .execute();
+
+    if (listing.length === 0) {
+      throw new NotFoundError(`Listing with ID ${input.listing_id} not found`);
+    }
+
+    if (!listing[0].is_active) {
+      throw new ConflictError(`Listing with ID ${input.listing_id} is not active`);
+    }
+
+    if (listing[0].user_id === input.buyer_id) {
+      throw new ValidationError('Sellers cannot message themselves about their own listing');
+    }
+
+    return await transactional(async (tx) => {
+      const inserted = await tx.insert(conversationsTable)
+        .values({
+          listing_id: input.listing_id,
+          buyer_id: input.buyer_id,
+          seller_id: listing[0].user_id
+        })
+        .onConflictDoNothing({ target: [conversationsTable.listing_id, conversationsTable.buyer_id] })
+        .returning()
+        .execute();
+
+      let conversation = inserted[0];
+      if (!conversation) {
+        const existing = await tx.select()
+          .from(conversationsTable)
+          .where(and(
+            eq(conversationsTable.listing_id, input.listing_id),
+            eq(conversationsTable.buyer_id, input.buyer_id)
+          ))
+          .execute();
+        conversation = existing[0];
+      }
+
+      if (input.message) {
+        const message = await insertMessage(tx, conversation, input.buyer_id, input.message);
+        conversation = { ...conversation, last_message_at: message.created_at };
+      }
+
+      return conversation;
+    });
+  } catch (error) {
+    logUnexpectedError('Conversation creation failed:', error);
+    throw error;
+  }
+};
+
+export const sendMessage = async (input: SendMessageInput): Promise<Message> => {
+  try {
+    const conversation = await getConversationForParticipant(input.conversation_id, input.sender_id);
+
+    return await transactional(tx => insertMessage(tx, conversation, input.sender_id, input.body));
+  } catch (error) {
+    logUnexpectedError('Message sending failed:', error);
+    throw error;
+  }
+};
+
+// Marks the other participant's messages as read, together with the conversation's message
+// notification. Returns how many messages were newly marked.
+export const markConversationRead = async (conversationId: number, userId: number): Promise<number> => {
+  try {
+    await getConversationForParticipant(conversationId, userId);
+
+    const marked = await db.update(messagesTable)
+      .set({ read_at: new Date() })
+      .where(and(
+        eq(messagesTable.conversation_id, conversationId),
+        ne(messagesTable.sender_id, userId),
+        isNull(messagesTable.read_at)
+      ))
+      .returning({ id: messagesTable.id })
+      .execute();
+
+    const notifications = await db.update(notificationsTable)
+      .set({ is_read: true })
+      .where(and(
+        eq(notificationsTable.user_id, userId),
+        eq(notificationsTable.type, 'message'),
+        eq(notificationsTable.related_id, conversationId),
+        eq(notificationsTable.is_read, false)
+      ))
+      .returning({ id: notificationsTable.id })
+      .execute();
+
+    if (notifications.length > 0) {
+      await publishRealtime('unreadCountChanged', userId, null);
+    }
+
+    return marked.length;
+  } catch (error) {
+    logUnexpectedError('Mark conversation as read failed:', error);
+    throw error;
+  }
+};
@@ -1,7 +1,9 @@
 import { db } from '../db';
 import { notificationsTable, usersTable } from '../db/schema';
 import { type CreateNotificationInput, type Notification } from '../schema';
-import { eq } from 'drizzle-orm';
+import { publishRealtime } from '../lib/events';
+import { NotFoundError, logUnexpectedError } from '../lib/errors';
+import { eq, and } from 'drizzle-orm';
 
 export const createNotification = async (input: CreateNotificationInput): Promise<Notification> => {
   try {
@@ -12,7 +14,7 @@ export const createNotification = async (input: CreateNotificationInput): Promis
       .execute();
 
     if (user.length === 0) {
-      throw new Error(`User with id ${input.user_id} does not exist`);
+      throw new NotFoundError(`User with id ${input.user_id} does not exist`);
     }
 
     // Insert notification record
@@ -30,24 +32,34 @@ export const createNotification = async (input: CreateNotificationInput): Promis
 
     return result[0];
   } catch (error) {
-    console.error('Notification creation failed:', error);
+    logUnexpectedError('Notification creation failed:', error);
     throw error;
   }
 };
 
-export const markNotificationAsRead = async (id: number): Promise<boolean> => {
+export const markNotificationAsRead = async (id: number, userId?: number): Promise<boolean> => {
   try {
+    // Restrict to the owner's notifications when a user is given
+    const conditions = [eq(notificationsTable.id, id)];
+    if (userId !== undefined) {
+      conditions.push(eq(notificationsTable.user_id, userId));
+    }
+
     // Update the notification to mark it as read
     const result = await db.update(notificationsTable)
       .set({ is_read: true })
-      .where(eq(notificationsTable.id, id))
+      .where(and(...conditions))
       .returning()
       .execute();
 
+    if (result.length > 0) {
+      await publishRealtime('unreadCountChanged', result[0].user_id, null);
+    }
+
     // Return true if a notification was updated, false otherwise
     return result.length > 0;
   } catch (error) {
-    console.error('Mark notification as read failed:', error);
+    logUnexpectedError('Mark notification as read failed:', error);
     throw error;
   }
 };
@@ -61,7 +73,7 @@ export const markAllNotificationsAsRead = async (userId: number): Promise<boolea
       .execute();
 
     if (user.length === 0) {
-      throw new Error(`User with id ${userId} does not exist`);
+      throw new NotFoundError(`User with id ${userId} does not exist`);
     }
 
     // Update all unread notifications for the user
@@ -70,9 +82,11 @@ export const markAllNotificationsAsRead = async (userId: number): Promise<boolea
       .where(eq(notificationsTable.user_id, userId))
       .execute();
 
+    await publishRealtime('unreadCountChanged', userId, null);
+
     return true;
   } catch (error) {
-    console.error('Mark all notifications as read failed:', error);
+    logUnexpectedError('Mark all notifications as read failed:', error);
     throw error;
   }
 };
\ No newline at end of file
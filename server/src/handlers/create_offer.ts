@@ -0,0 +1,236 @@
+import { db } from '../db';
+import { listingsTable, offersTable, type Offer as OfferRow } from '../db/schema';
+import {
+  type CreateOfferInput,
+  type Offer,
+  type OfferAction,
+  type OfferResponse,
+  type OfferStatus,
+  type RespondToOfferInput,
+  type Transaction
+} from '../schema';
+import { createTransaction } from './create_transaction';
+import { dispatchEvent, transactional } from '../lib/events';
+import {
+  ConflictError,
+  ForbiddenError,
+  InvalidStateTransitionError,
+  NotFoundError,
+  ValidationError,
+  logUnexpectedError
+} from '../lib/errors';
+import { eq, and } from 'drizzle-orm';
+
+type OfferParty = 'buyer' | 'seller';
+
+// Whose answer an open offer is waiting for
+const AWAITING: Partial<Record<OfferStatus, OfferParty>> = {
+  pending: 'seller',
+  countered: 'buyer',
+};
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+const toOffer = (offer: OfferRow): Offer => ({
+  ...offer,
+  amount: parseFloat(offer.amount) // Convert numeric to number
+});
+
+const describeAmount = (offer: OfferRow) => `${offer.amount} ${offer.currency}`;
+
+export const createOffer = async (input: CreateOfferInput): Promise<Offer> => {
+  try {
+    const listing = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, input.listing_id))
+      .execute();
+
+    if (listing.length === 0) {
+      throw new NotFoundError(`Listing with ID ${input.listing_id} not found`);
+    }
+
+    if (!listing[0].is_active) {
+      throw new ConflictError(`Listing with ID ${input.listing_id} is not active`);
+    }
+
+    if (listing[0].user_id === input.buyer_id) {
+      throw new ValidationError('Sellers cannot make offers on their own listing');
+    }
+
+    const offer = await transactional(async (tx) => {
+      const inserted = await tx.insert(offersTable)
+        .values({
+          listing_id: input.listing_id,
+          buyer_id: input.buyer_id,
+          seller_id: listing[0].user_id,
+          amount: input.amount.toString(), // Convert number to string for numeric column
+          currency: listing[0].currency,
+          expires_at: hoursFromNow(input.expires_in_hours)
+        })
+        .onConflictDoNothing()
+        .returning()
+        .execute();
+
+      if (inserted.length === 0) {
+        throw new ConflictError('You already have an open offer on this listing');
+      }
+
+      await dispatchEvent({
+        type: 'offer.changed',
+        actorId: input.buyer_id,
+        offerId: inserted[0].id,
+        recipientId: inserted[0].seller_id,
+        action: 'create',
+        amount: describeAmount(inserted[0])
+      }, tx);
+
+      return inserted[0];
+    });
+
+    return toOffer(offer);
+  } catch (error) {
+    logUnexpectedError('Offer creation failed:', error);
+    throw error;
+  }
+};
+
+// The party the offer waits for may accept, counter or decline it; the party who made the
+// current proposal may withdraw it. Accepting creates the transaction at the agreed amount.
+export const respondToOffer = async (input: RespondToOfferInput, actorId: number): Promise<OfferResponse> => {
+  try {
+    const existing = await db.select()
+      .from(offersTable)
+      .where(eq(offersTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new NotFoundError(`Offer with ID ${input.id} not found`);
+    }
+
+    const current = existing[0];
+
+    let actorRole: OfferParty;
+    if (actorId === current.buyer_id) {
+      actorRole = 'buyer';
+    } else if (actorId === current.seller_id) {
+      actorRole = 'seller';
+    } else {
+      throw new ForbiddenError('Only the buyer or seller can respond to this offer');
+    }
+
+    if (input.expected_version !== undefined && input.expected_version !== current.version) {
+      throw new ConflictError(`Offer with ID ${input.id} was modified concurrently`);
+    }
+
+    const awaiting = AWAITING[current.status];
+    if (!awaiting) {
+      throw new InvalidStateTransitionError(`Offer is already ${current.status}`);
+    }
+
+    if (current.expires_at <= new Date()) {
+      // Settle it now rather than waiting for the expiry job
+      await db.update(offersTable)
+        .set({ status: 'expired', version: current.version + 1, updated_at: new Date() })
+        .where(and(eq(offersTable.id, current.id), eq(offersTable.version, current.version)))
+        .execute();
+      throw new InvalidStateTransitionError('Offer has expired');
+    }
+
+    if (input.action === 'withdraw') {
+      if (actorRole === awaiting) {
+        throw new ForbiddenError(`Only the ${actorRole === 'buyer' ? 'seller' : 'buyer'} can withdraw this offer`);
+      }
+    } else if (actorRole !== awaiting) {
+      throw new ForbiddenError(`Waiting for the ${awaiting} to respond to this offer`);
+    }
+
+    const changes: Partial<OfferRow> = {};
+    const nextStatus: Record<OfferAction, OfferStatus> = {
+      accept: 'accepted',
+      counter: actorRole === 'seller' ? 'countered' : 'pending',
+      decline: 'declined',
+      withdraw: 'withdrawn',
+    };
+
+    if (input.action === 'counter') {
+      if (input.amount === undefined) {
+        throw new ValidationError('A counter offer needs an amount');
+      }
+      changes.amount = input.amount.toString(); // Convert number to string for numeric column
+      changes.expires_at = hoursFromNow(input.expires_in_hours);
+    }
+
+    if (input.action === 'accept') {
+      const listing = await db.select({ is_active: listingsTable.is_active })
+        .from(listingsTable)
+        .where(eq(listingsTable.id, current.listing_id))
+        .execute();
+
+      if (!listing[0]?.is_active) {
+        throw new ConflictError(`Listing with ID ${current.listing_id} is not active`);
+      }
+    }
+
+    const updated = await transactional(async (tx) => {
+      // Conditional update on the version we read guards against crossing responses
+      const result = await tx.update(offersTable)
+        .set({
+          ...changes,
+          status: nextStatus[input.action],
+          version: current.version + 1,
+          updated_at: new Date()
+        })
+        .where(and(
+          eq(offersTable.id, current.id),
+          eq(offersTable.version, current.version)
+        ))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new ConflictError(`Offer with ID ${input.id} was modified concurrently`);
+      }
+
+      await dispatchEvent({
+        type: 'offer.changed',
+        actorId,
+        offerId: current.id,
+        recipientId: actorRole === 'buyer' ? current.seller_id : current.buyer_id,
+        action: input.action,
+        amount: describeAmount(result[0])
+      }, tx);
+
+      return result[0];
+    });
+
+    let transaction: Transaction | null = null;
+    if (updated.status === 'accepted') {
+      // Runs after the acceptance commits; if it fails, the buyer can still check out with the offer
+      try {
+        transaction = await createTransaction({
+          listing_id: updated.listing_id,
+          buyer_id: updated.buyer_id,
+          seller_id: updated.seller_id,
+          quantity: 1,
+          amount: parseFloat(updated.amount),
+          currency: updated.currency,
+          payment_method: null,
+          offer_id: updated.id
+        });
+      } catch (error) {
+        // Another buyer is checking out right now; the accepted offer waits for the listing to free up
+        if (!(error instanceof ConflictError)) {
+          throw error;
+        }
+      }
+    }
+
+    return {
+      offer: toOffer(transaction ? { ...updated, transaction_id: transaction.id } : updated),
+      transaction
+    };
+  } catch (error) {
+    logUnexpectedError('Offer response failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,323 @@
+import { db, type DbExecutor, type DbTransaction } from '../db';
+import {
+  paymentIntentsTable,
+  transactionsTable,
+  type PaymentIntent as PaymentIntentRow,
+  type Transaction as TransactionRow
+} from '../db/schema';
+import {
+  type PaymentIntent,
+  type PaymentIntentStatus,
+  type PayTransactionInput,
+  type RefundTransactionInput
+} from '../schema';
+import { TRANSACTION_TRANSITIONS, applyTransactionStatus } from './create_transaction';
+import { transactional } from '../lib/events';
+import { getPaymentProvider, type PaymentResult } from '../lib/payments';
+import { toCents } from '../lib/ledger';
+import {
+  ConflictError,
+  DomainError,
+  ForbiddenError,
+  InvalidStateTransitionError,
+  NotFoundError,
+  ValidationError,
+  logUnexpectedError
+} from '../lib/errors';
+import { eq, and, inArray, desc } from 'drizzle-orm';
+
+// The states an intent may move to a given state from; anything else is a stale or replayed update
+const PAYMENT_TRANSITIONS: Record<PaymentIntentStatus, PaymentIntentStatus[]> = {
+  authorized: [],
+  captured: ['authorized'],
+  failed: ['authorized'],
+  refunded: ['captured'],
+};
+
+const toPaymentIntent = (intent: PaymentIntentRow): PaymentIntent => ({
+  ...intent,
+  amount: parseFloat(intent.amount) // Convert numeric to number
+});
+
+const loadTransaction = async (id: number) => {
+  const transactions = await db.select()
+    .from(transactionsTable)
+    .where(eq(transactionsTable.id, id))
+    .execute();
+
+  if (transactions.length === 0) {
+    throw new NotFoundError(`Transaction with ID ${id} not found`);
+  }
+
+  return transactions[0];
+};
+
+const findIntent = async (transactionId: number, status: PaymentIntentStatus) => {
+  const intents = await db.select()
+    .from(paymentIntentsTable)
+    .where(and(
+      eq(paymentIntentsTable.transaction_id, transactionId),
+      eq(paymentIntentsTable.provider, getPaymentProvider().name),
+      eq(paymentIntentsTable.status, status)
+    ))
+    .orderBy(desc(paymentIntentsTable.id))
+    .limit(1)
+    .execute();
+
+  return intents[0];
+};
+
+// Stores the provider's answer on the intent; nothing is returned for a stale or replayed one
+const recordPaymentResult = (intent: PaymentIntentRow, result: PaymentResult, executor: DbExecutor = db) =>
+  executor.update(paymentIntentsTable)
+    .set({
+      status: result.status,
+      failure_reason: result.failureReason ?? intent.failure_reason,
+      updated_at: new Date()
+    })
+    .where(and(
+      eq(paymentIntentsTable.id, intent.id),
+      inArray(paymentIntentsTable.status, PAYMENT_TRANSITIONS[result.status])
+    ))
+    .returning()
+    .execute();
+
+const loadIntent = async (id: number, executor: DbExecutor = db) => {
+  const intents = await executor.select()
+    .from(paymentIntentsTable)
+    .where(eq(paymentIntentsTable.id, id))
+    .execute();
+  return intents[0];
+};
+
+// Escrow books the transaction amount, so only a payment of exactly that amount may pay for it
+const matchesTransaction = (intent: PaymentIntentRow, transaction: TransactionRow): boolean =>
+  toCents(intent.amount) === toCents(transaction.amount) && intent.currency === transaction.currency;
+
+// Moves the transaction along with its payment inside the caller's database transaction. Returns
+// false when the transaction cannot make the move (never paid, refunded already, cancelled).
+const followPayment = async (
+  tx: DbTransaction,
+  intent: PaymentIntentRow,
+  status: 'paid' | 'refunded',
+  reason: string
+): Promise<boolean> => {
+  const transactions = await tx.select()
+    .from(transactionsTable)
+    .where(eq(transactionsTable.id, intent.transaction_id))
+    .for('update')
+    .execute();
+
+  const current = transactions[0];
+  if (!TRANSACTION_TRANSITIONS[current.status][status]) {
+    return false;
+  }
+
+  // The amount changed after the buyer authorized the old one
+  if (status === 'paid' && !matchesTransaction(intent, current)) {
+    throw new ConflictError('Payment amount no longer matches the transaction');
+  }
+
+  await applyTransactionStatus(tx, current, status, null, reason);
+  return true;
+};
+
+// Records the capture and marks the transaction paid in one database transaction, so a failure in
+// between cannot leave the buyer charged for a transaction that is still pending. Money taken for
+// a transaction that can no longer be paid (sold out, cancelled meanwhile) goes straight back.
+const settleCapture = async (intent: PaymentIntentRow, result: PaymentResult): Promise<PaymentIntentRow> => {
+  try {
+    const settled = await transactional(async (tx) => {
+      // A capture recorded earlier only needs the transaction to follow
+      const captured = intent.status === 'captured' ? [intent] : await recordPaymentResult(intent, result, tx);
+      if (captured.length === 0) {
+        return null;
+      }
+
+      if (!await followPayment(tx, captured[0], 'paid', 'Payment captured')) {
+        throw new InvalidStateTransitionError('Transaction can no longer be paid');
+      }
+
+      return captured[0];
+    });
+
+    return settled ?? await loadIntent(intent.id);
+  } catch (error) {
+    if (!(error instanceof DomainError)) {
+      throw error;
+    }
+
+    // Keep the capture on record first, so a refund that fails is retried on the next attempt
+    const captured = intent.status === 'captured' ? [intent] : await recordPaymentResult(intent, result);
+    if (captured.length === 0) {
+      return loadIntent(intent.id);
+    }
+
+    const refund = await getPaymentProvider().refund(intent.provider_intent_id);
+    return applyPaymentResult(captured[0], { ...refund, failureReason: error.message });
+  }
+};
+
+// Records what the provider reported and moves the transaction along with it: a captured payment
+// marks it paid, a refunded one refunded
+const applyPaymentResult = async (
+  intent: PaymentIntentRow,
+  result: PaymentResult,
+  reason?: string
+): Promise<PaymentIntentRow> => {
+  // A replayed capture changes nothing; payTransaction finishes captures that never reached the transaction
+  if (result.status === 'captured') {
+    return intent.status === 'captured' ? intent : settleCapture(intent, result);
+  }
+
+  return transactional(async (tx) => {
+    const updated = await recordPaymentResult(intent, result, tx);
+    if (updated.length === 0) {
+      return loadIntent(intent.id, tx);
+    }
+
+    if (result.status === 'refunded') {
+      await followPayment(tx, updated[0], 'refunded', reason ?? 'Payment refunded');
+    }
+
+    return updated[0];
+  });
+};
+
+// Charges the buyer through the payment provider. A declined payment comes back as a failed
+// intent and leaves the transaction pending, so the buyer can try again.
+export const payTransaction = async (input: PayTransactionInput, buyerId: number): Promise<PaymentIntent> => {
+  try {
+    const transaction = await loadTransaction(input.transaction_id);
+
+    if (transaction.buyer_id !== buyerId) {
+      throw new ForbiddenError('Only the buyer can pay for this transaction');
+    }
+
+    if (transaction.status !== 'pending') {
+      throw new InvalidStateTransitionError('Only pending transactions can be paid');
+    }
+
+    const provider = getPaymentProvider();
+    if (transaction.payment_method === null) {
+      throw new ValidationError('Choose a payment method before paying');
+    }
+    if (!provider.supportsMethod(transaction.payment_method)) {
+      throw new ValidationError(`Payment method ${transaction.payment_method} is not supported`);
+    }
+
+    // A capture that never reached the transaction only needs finishing
+    const captured = await findIntent(transaction.id, 'captured');
+    if (captured) {
+      return toPaymentIntent(await settleCapture(captured, { intentId: captured.provider_intent_id, status: 'captured' }));
+    }
+
+    // A payment still waiting for its capture is picked up again rather than charged twice, unless
+    // it was authorized for an amount that no longer applies
+    let intent: PaymentIntentRow | undefined = await findIntent(transaction.id, 'authorized');
+    if (intent && !matchesTransaction(intent, transaction)) {
+      const cancelled = await provider.cancel(intent.provider_intent_id);
+      await applyPaymentResult(intent, { ...cancelled, failureReason: 'Transaction amount changed' });
+      intent = undefined;
+    }
+    if (!intent) {
+      const authorization = await provider.authorize({
+        amount: parseFloat(transaction.amount),
+        currency: transaction.currency,
+        payment_method: transaction.payment_method,
+        reference: `transaction:${transaction.id}`
+      });
+
+      const inserted = await db.insert(paymentIntentsTable)
+        .values({
+          transaction_id: transaction.id,
+          provider: provider.name,
+          provider_intent_id: authorization.intentId,
+          amount: transaction.amount,
+          currency: transaction.currency,
+          status: authorization.status,
+          failure_reason: authorization.failureReason ?? null
+        })
+        .returning()
+        .execute();
+      intent = inserted[0];
+    }
+
+    if (intent.status === 'authorized') {
+      intent = await applyPaymentResult(intent, await provider.capture(intent.provider_intent_id));
+    }
+
+    return toPaymentIntent(intent);
+  } catch (error) {
+    logUnexpectedError('Payment failed:', error);
+    throw error;
+  }
+};
+
+// Returns the buyer's money through the provider; the transaction follows once the provider
+// confirms, which may be a webhook later
+export const refundTransaction = async (input: RefundTransactionInput, sellerId: number): Promise<PaymentIntent> => {
+  try {
+    const transaction = await loadTransaction(input.transaction_id);
+
+    if (transaction.seller_id !== sellerId) {
+      throw new ForbiddenError('Only the seller can refund this transaction');
+    }
+
+    if (!TRANSACTION_TRANSITIONS[transaction.status].refunded) {
+      throw new InvalidStateTransitionError(`Cannot refund a ${transaction.status} transaction`);
+    }
+
+    const intent = await findIntent(transaction.id, 'captured');
+    if (!intent) {
+      throw new ConflictError('Transaction has no captured payment to refund');
+    }
+
+    const refund = await getPaymentProvider().refund(intent.provider_intent_id);
+    return toPaymentIntent(await applyPaymentResult(intent, refund, input.reason));
+  } catch (error) {
+    logUnexpectedError('Refund failed:', error);
+    throw error;
+  }
+};
+
+// Gives the buyer money back through the provider for a dispute an admin resolved, after the
+// resolution committed; the resolution already moved the transaction. The idempotency key makes
+// a retry safe. Payments made outside the provider have nothing to return here.
+export const refundCapturedPayment = async (transactionId: number, amount: number | undefined, idempotencyKey: string): Promise<void> => {
+  const intent = await findIntent(transactionId, 'captured');
+  if (!intent) {
+    return;
+  }
+
+  const refund = await getPaymentProvider().refund(intent.provider_intent_id, amount, idempotencyKey);
+  if (amount === undefined) {
+    await recordPaymentResult(intent, refund);
+  }
+};
+
+// Entry point for the provider's webhooks (see the HTTP endpoint in index.ts). Replayed and
+// out-of-order updates leave the intent as it is.
+export const handlePaymentWebhook = async (payload: string, signature: string | undefined): Promise<PaymentIntent> => {
+  try {
+    const provider = getPaymentProvider();
+    const result = provider.verifyWebhook(payload, signature);
+
+    const intents = await db.select()
+      .from(paymentIntentsTable)
+      .where(and(
+        eq(paymentIntentsTable.provider, provider.name),
+        eq(paymentIntentsTable.provider_intent_id, result.intentId)
+      ))
+      .execute();
+
+    if (intents.length === 0) {
+      throw new NotFoundError(`Payment intent ${result.intentId} not found`);
+    }
+
+    return toPaymentIntent(await applyPaymentResult(intents[0], result));
+  } catch (error) {
+    logUnexpectedError('Payment webhook failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,104 @@
+import { db } from '../db';
+import { ledgerAccountsTable, payoutsTable, type Payout as PayoutRow } from '../db/schema';
+import { type Payout, type RequestPayoutInput, type UpdatePayoutStatusInput } from '../schema';
+import { accountBalanceCents, fromCents, ledgerAccount, postJournal, toCents } from '../lib/ledger';
+import { ConflictError, InvalidStateTransitionError, NotFoundError, ValidationError, logUnexpectedError } from '../lib/errors';
+import { eq, and } from 'drizzle-orm';
+
+const toPayout = (payout: PayoutRow): Payout => ({
+  ...payout,
+  amount: parseFloat(payout.amount) // Convert numeric to number
+});
+
+// Moves the amount out of the seller's balance right away, so it cannot be requested twice
+export const requestPayout = async (input: RequestPayoutInput): Promise<Payout> => {
+  try {
+    const cents = toCents(input.amount);
+    if (cents <= 0) {
+      throw new ValidationError('Payout amount must be at least 0.01');
+    }
+
+    const payout = await db.transaction(async (tx) => {
+      const balanceId = await ledgerAccount(tx, 'seller_balance', input.user_id, input.currency);
+
+      // Serializes payout requests against the same balance
+      await tx.select({ id: ledgerAccountsTable.id })
+        .from(ledgerAccountsTable)
+        .where(eq(ledgerAccountsTable.id, balanceId))
+        .for('update')
+        .execute();
+
+      const available = await accountBalanceCents(tx, balanceId);
+      if (cents > available) {
+        throw new ConflictError(`Only ${fromCents(available)} ${input.currency} is available for payout`);
+      }
+
+      const inserted = await tx.insert(payoutsTable)
+        .values({
+          user_id: input.user_id,
+          amount: fromCents(cents),
+          currency: input.currency
+        })
+        .returning()
+        .execute();
+
+      await postJournal(tx, { kind: 'payout', payout_id: inserted[0].id }, [
+        { accountId: balanceId, cents: -cents },
+        { accountId: await ledgerAccount(tx, 'payouts', null, input.currency), cents },
+      ]);
+
+      return inserted[0];
+    });
+
+    return toPayout(payout);
+  } catch (error) {
+    logUnexpectedError('Payout request failed:', error);
+    throw error;
+  }
+};
+
+// Operators settle payouts once the bank transfer went through or bounced; a failed payout
+// goes back to the seller's balance
+export const updatePayoutStatus = async (input: UpdatePayoutStatusInput): Promise<Payout> => {
+  try {
+    const payout = await db.transaction(async (tx) => {
+      const updated = await tx.update(payoutsTable)
+        .set({
+          status: input.status,
+          failure_reason: input.status === 'failed' ? input.reason ?? null : null,
+          updated_at: new Date()
+        })
+        .where(and(eq(payoutsTable.id, input.id), eq(payoutsTable.status, 'requested')))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        const existing = await tx.select({ status: payoutsTable.status })
+          .from(payoutsTable)
+          .where(eq(payoutsTable.id, input.id))
+          .execute();
+
+        if (existing.length === 0) {
+          throw new NotFoundError(`Payout with ID ${input.id} not found`);
+        }
+        throw new InvalidStateTransitionError(`Payout is already ${existing[0].status}`);
+      }
+
+      const payout = updated[0];
+      if (payout.status === 'failed') {
+        const cents = toCents(payout.amount);
+        await postJournal(tx, { kind: 'payout_reversal', payout_id: payout.id }, [
+          { accountId: await ledgerAccount(tx, 'payouts', null, payout.currency), cents: -cents },
+          { accountId: await ledgerAccount(tx, 'seller_balance', payout.user_id, payout.currency), cents },
+        ]);
+      }
+
+      return payout;
+    });
+
+    return toPayout(payout);
+  } catch (error) {
+    logUnexpectedError('Payout status update failed:', error);
+    throw error;
+  }
+};
@@ -1,7 +1,11 @@
 import { db } from '../db';
 import { postsTable, usersTable } from '../db/schema';
 import { type CreatePostInput, type Post } from '../schema';
-import { eq } from 'drizzle-orm';
+import { dispatchEvent, transactional } from '../lib/events';
+import { syncPostEntities } from '../lib/post_entities';
+import { renderPost } from '../lib/posts';
+import { NotFoundError, logUnexpectedError } from '../lib/errors';
+import { eq, and, isNull } from 'drizzle-orm';
 
 export const createPost = async (input: CreatePostInput): Promise<Post> => {
   try {
@@ -12,62 +16,90 @@ export const createPost = async (input: CreatePostInput): Promise<Post> => {
       .execute();
 
     if (user.length === 0) {
-      throw new Error('User not found');
+      throw new NotFoundError('User not found');
     }
 
     // If replying to a post, verify parent post exists
     if (input.parent_post_id) {
       const parentPost = await db.select()
         .from(postsTable)
-        .where(eq(postsTable.id, input.parent_post_id))
+        .where(and(eq(postsTable.id, input.parent_post_id), isNull(postsTable.deleted_at)))
         .execute();
 
       if (parentPost.length === 0) {
-        throw new Error('Parent post not found');
+        throw new NotFoundError('Parent post not found');
       }
     }
 
-    // Create the post
-    const result = await db.insert(postsTable)
-      .values({
-        user_id: input.user_id,
-        content: input.content,
-        media_urls: input.media_urls,
-        parent_post_id: input.parent_post_id
-      })
-      .returning()
-      .execute();
-
-    const post = result[0];
-
-    // Update user post count
-    await db.update(usersTable)
-      .set({
-        post_count: user[0].post_count + 1,
-        updated_at: new Date()
-      })
-      .where(eq(usersTable.id, input.user_id))
-      .execute();
-
-    // If this is a reply, increment the parent post's reply count
-    if (input.parent_post_id) {
-      const parentPosts = await db.select()
-        .from(postsTable)
-        .where(eq(postsTable.id, input.parent_post_id))
+    // Create the post together with its counters, links and notifications
+    return await transactional(async (tx) => {
+      const result = await tx.insert(postsTable)
+        .values({
+          user_id: input.user_id,
+          content: input.content,
+          media_urls: input.media_urls,
+          parent_post_id: input.parent_post_id
+        })
+        .returning()
         .execute();
 
-      await db.update(postsTable)
+      const post = result[0];
+
+      // Update user post count
+      await tx.update(usersTable)
         .set({
-          reply_count: parentPosts[0].reply_count + 1,
+          post_count: user[0].post_count + 1,
           updated_at: new Date()
         })
-        .where(eq(postsTable.id, input.parent_post_id))
+        .where(eq(usersTable.id, input.user_id))
         .execute();
-    }
 
-    return post;
+      let parentAuthorId: number | null = null;
+
+      // If this is a reply, increment the parent post's reply count
+      if (input.parent_post_id) {
+        const parentPosts = await tx.select()
+          .from(postsTable)
+          .where(eq(postsTable.id, input.parent_post_id))
+          .execute();
+        parentAuthorId = parentPosts[0].user_id;
+
+        await tx.update(postsTable)
+          .set({
+            reply_count: parentPosts[0].reply_count + 1,
+            updated_at: new Date()
+          })
+          .where(eq(postsTable.id, input.parent_post_id))
+          .execute();
+
+        await dispatchEvent({
+          type: 'post.replied',
+          actorId: input.user_id,
+          replyId: post.id,
+          parentAuthorId
+        }, tx);
+      }
+
+      // The parent's author already hears about the reply itself
+      const mentionedUserIds = await syncPostEntities(tx, post.id, post.content);
+      for (const mentionedUserId of mentionedUserIds.filter(id => id !== parentAuthorId)) {
+        await dispatchEvent({
+          type: 'post.mentioned',
+          actorId: input.user_id,
+          postId: post.id,
+          mentionedUserId
+        }, tx);
+      }
+
+      await dispatchEvent({
+        type: 'post.created',
+        post
+      }, tx);
+
+      return renderPost(post);
+    });
   } catch (error) {
-    console.error('Post creation failed:', error);
+    logUnexpectedError('Post creation failed:', error);
     throw error;
   }
 };
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { db } from '../db';
+import { postsTable, usersTable } from '../db/schema';
+import { type CreateRepostInput, type Post } from '../schema';
+import { dispatchEvent, transactional } from '../lib/events';
+import { syncPostEntities } from '../lib/post_entities';
+import { renderPost, softDeletePost } from '../lib/posts';
+import { ConflictError, NotFoundError, logUnexpectedError } from '../lib/errors';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+
+export const createRepost = async (input: CreateRepostInput): Promise<Post> => {
+  try {
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (user.length === 0) {
+      throw new NotFoundError('User not found');
+    }
+
+    const target = await db.select()
+      .from(postsTable)
+      .where(and(eq(postsTable.id, input.post_id), isNull(postsTable.deleted_at)))
+      .execute();
+
+    if (target.length === 0) {
+      throw new NotFoundError('Post not found');
+    }
+
+    // Reposting a plain repost reposts the original it points at
+    const original = target[0].repost_of_id !== null && target[0].content === ''
+      ? (await db.select()
+          .from(postsTable)
+          .where(eq(postsTable.id, target[0].repost_of_id))
+          .execute())[0]
+      : target[0];
+
+    if (original.deleted_at !== null) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const isQuote = input.content !== null;
+
+    if (!isQuote) {
+      const existingRepost = await db.select({ id: postsTable.id })
+        .from(postsTable)
+        .where(and(
+          eq(postsTable.user_id, input.user_id),
+          eq(postsTable.repost_of_id, original.id),
+          eq(postsTable.content, ''),
+          isNull(postsTable.deleted_at)
+        ))
+        .execute();
+
+      if (existingRepost.length > 0) {
+        throw new ConflictError('Repost already exists');
+      }
+    }
+
+    const result = await transactional(async (tx) => {
+      const postResult = await tx.insert(postsTable)
+        .values({
+          user_id: input.user_id,
+          content: input.content ?? '',
+          repost_of_id: original.id
+        })
+        .returning()
+        .execute();
+
+      await tx.update(postsTable)
+        .set({
+          repost_count: sql`${postsTable.repost_count} + 1`
+        })
+        .where(eq(postsTable.id, original.id))
+        .execute();
+
+      await tx.update(usersTable)
+        .set({
+          post_count: sql`${usersTable.post_count} + 1`,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, input.user_id))
+        .execute();
+
+      await dispatchEvent({
+        type: 'post.reposted',
+        actorId: input.user_id,
+        repostId: postResult[0].id,
+        originalPostId: original.id,
+        originalAuthorId: original.user_id,
+        isQuote
+      }, tx);
+
+      // Quote commentary links mentions and hashtags like any other post
+      if (isQuote) {
+        const mentionedUserIds = await syncPostEntities(tx, postResult[0].id, postResult[0].content);
+        for (const mentionedUserId of mentionedUserIds.filter(id => id !== original.user_id)) {
+          await dispatchEvent({
+            type: 'post.mentioned',
+            actorId: input.user_id,
+            postId: postResult[0].id,
+            mentionedUserId
+          }, tx);
+        }
+      }
+
+      await dispatchEvent({
+        type: 'post.created',
+        post: postResult[0]
+      }, tx);
+
+      return postResult[0];
+    });
+
+    return renderPost(result);
+  } catch (error) {
+    logUnexpectedError('Repost creation failed:', error);
+    throw error;
+  }
+};
+
+export const deleteRepost = async (userId: number, postId: number): Promise<boolean> => {
+  try {
+    // Only plain reposts are undone here; quotes are deleted like any other post
+    const existingRepost = await db.select()
+      .from(postsTable)
+      .where(and(
+        eq(postsTable.user_id, userId),
+        eq(postsTable.repost_of_id, postId),
+        eq(postsTable.content, ''),
+        isNull(postsTable.deleted_at)
+      ))
+      .execute();
+
+    if (existingRepost.length === 0) {
+      throw new NotFoundError('Repost not found');
+    }
+
+    const deleted = await db.transaction(tx => softDeletePost(tx, existingRepost[0]));
+    if (!deleted) {
+      throw new NotFoundError('Repost not found');
+    }
+
+    return true;
+  } catch (error) {
+    logUnexpectedError('Repost deletion failed:', error);
+    throw error;
+  }
+};
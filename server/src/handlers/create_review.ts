@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { reviewsTable, transactionsTable, usersTable } from '../db/schema';
+import { type CreateReviewInput, type Review } from '../schema';
+import { dispatchEvent, transactional } from '../lib/events';
+import { ConflictError, ForbiddenError, NotFoundError, logUnexpectedError } from '../lib/errors';
+import { eq, sql } from 'drizzle-orm';
+
+export const createReview = async (input: CreateReviewInput): Promise<Review> => {
+  try {
+    const transactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, input.transaction_id))
+      .execute();
+
+    if (transactions.length === 0) {
+      throw new NotFoundError(`Transaction with ID ${input.transaction_id} not found`);
+    }
+
+    const transaction = transactions[0];
+    const isBuyer = transaction.buyer_id === input.reviewer_id;
+    if (!isBuyer && transaction.seller_id !== input.reviewer_id) {
+      throw new ForbiddenError('Only the buyer or seller can review this transaction');
+    }
+
+    if (transaction.status !== 'completed') {
+      throw new ConflictError('Only completed transactions can be reviewed');
+    }
+
+    // The buyer reviews the seller and vice versa
+    const revieweeId = isBuyer ? transaction.seller_id : transaction.buyer_id;
+
+    return await transactional(async (tx) => {
+      const inserted = await tx.insert(reviewsTable)
+        .values({
+          transaction_id: transaction.id,
+          reviewer_id: input.reviewer_id,
+          reviewee_id: revieweeId,
+          reviewer_role: isBuyer ? 'buyer' : 'seller',
+          rating: input.rating,
+          text: input.text
+        })
+        .onConflictDoNothing({ target: [reviewsTable.transaction_id, reviewsTable.reviewer_id] })
+        .returning()
+        .execute();
+
+      // Reviews cannot be rewritten, so a second attempt (or a concurrent one) is refused
+      if (inserted.length === 0) {
+        throw new ConflictError('You have already reviewed this transaction');
+      }
+
+      await tx.update(usersTable)
+        .set({
+          review_count: sql`${usersTable.review_count} + 1`,
+          rating_sum: sql`${usersTable.rating_sum} + ${input.rating}`,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, revieweeId))
+        .execute();
+
+      await dispatchEvent({
+        type: 'review.created',
+        actorId: input.reviewer_id,
+        reviewId: inserted[0].id,
+        revieweeId,
+        rating: input.rating
+      }, tx);
+
+      return inserted[0];
+    });
+  } catch (error) {
+    logUnexpectedError('Review creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,175 @@
+import { db } from '../db';
+import { credentialsTable, sessionsTable, usersTable } from '../db/schema';
+import { type AuthSession, type LoginInput, type RefreshSessionInput, type User } from '../schema';
+import {
+  ACCESS_TOKEN_TTL_MS,
+  REFRESH_TOKEN_TTL_MS,
+  generateRefreshToken,
+  hashToken,
+  signAccessToken,
+  verifyAccessToken,
+  verifyPassword
+} from '../lib/auth';
+import { UnauthorizedError, logUnexpectedError } from '../lib/errors';
+import { eq, and, or, gt, isNull } from 'drizzle-orm';
+
+export interface SessionUser {
+  user: User;
+  sessionId: number;
+}
+
+// Issues a fresh access/refresh token pair for an existing session row. When rotating, the row is
+// only updated while it still holds the previous hash, so a refresh token can be spent just once.
+const issueTokens = async (sessionId: number, user: User, previousHash?: string): Promise<AuthSession> => {
+  const now = Date.now();
+  const refreshToken = generateRefreshToken();
+  const refreshExpiresAt = new Date(now + REFRESH_TOKEN_TTL_MS);
+  const accessExpiresAt = new Date(now + ACCESS_TOKEN_TTL_MS);
+
+  const updated = await db.update(sessionsTable)
+    .set({
+      refresh_token_hash: hashToken(refreshToken),
+      expires_at: refreshExpiresAt,
+      last_used_at: new Date(now)
+    })
+    .where(and(
+      eq(sessionsTable.id, sessionId),
+      previousHash === undefined ? undefined : and(
+        eq(sessionsTable.refresh_token_hash, previousHash),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date(now))
+      )
+    ))
+    .returning()
+    .execute();
+
+  if (updated.length === 0) {
+    throw new UnauthorizedError('Invalid or expired refresh token');
+  }
+
+  return {
+    user,
+    access_token: signAccessToken({ sid: sessionId, uid: user.id, exp: accessExpiresAt.getTime() }),
+    access_token_expires_at: accessExpiresAt,
+    refresh_token: refreshToken,
+    refresh_token_expires_at: refreshExpiresAt
+  };
+};
+
+export const createSession = async (input: LoginInput): Promise<AuthSession> => {
+  try {
+    // Look up by username or email, using the same generic error for both failures
+    const results = await db.select()
+      .from(usersTable)
+      .innerJoin(credentialsTable, and(
+        eq(credentialsTable.user_id, usersTable.id),
+        eq(credentialsTable.type, 'password')
+      ))
+      .where(or(
+        eq(usersTable.username, input.identifier),
+        eq(usersTable.email, input.identifier)
+      ))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    const { users: user, credentials: credential } = results[0];
+    const passwordMatches = await verifyPassword(input.password, credential.secret_hash);
+    if (!passwordMatches) {
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    // Placeholder hash is replaced by issueTokens straight away
+    const sessionResult = await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        refresh_token_hash: hashToken(generateRefreshToken()),
+        expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+      })
+      .returning()
+      .execute();
+
+    return await issueTokens(sessionResult[0].id, user);
+  } catch (error) {
+    logUnexpectedError('Session creation failed:', error);
+    throw error;
+  }
+};
+
+export const refreshSession = async (input: RefreshSessionInput): Promise<AuthSession> => {
+  try {
+    const previousHash = hashToken(input.refresh_token);
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.refresh_token_hash, previousHash),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
+
+    // Rotate the refresh token so a leaked one can only be used once
+    return await issueTokens(results[0].sessions.id, results[0].users, previousHash);
+  } catch (error) {
+    logUnexpectedError('Session refresh failed:', error);
+    throw error;
+  }
+};
+
+export const deleteSession = async (sessionId: number): Promise<boolean> => {
+  try {
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    logUnexpectedError('Session deletion failed:', error);
+    throw error;
+  }
+};
+
+export const getSessionUser = async (accessToken: string): Promise<SessionUser | null> => {
+  try {
+    const payload = verifyAccessToken(accessToken);
+    if (!payload) {
+      return null;
+    }
+
+    // The session must still be live so logout takes effect before the access token expires
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.id, payload.sid),
+        eq(sessionsTable.user_id, payload.uid),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return { user: results[0].users, sessionId: results[0].sessions.id };
+  } catch (error) {
+    logUnexpectedError('Failed to resolve session user:', error);
+    throw error;
+  }
+};
@@ -1,7 +1,38 @@
-import { db } from '../db';
-import { transactionsTable, listingsTable, usersTable } from '../db/schema';
-import { type CreateTransactionInput, type Transaction } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { db, type DbTransaction } from '../db';
+import {
+  transactionsTable,
+  transactionEventsTable,
+  listingsTable,
+  offersTable,
+  paymentIntentsTable,
+  usersTable,
+  type NewTransactionEvent,
+  type Transaction as TransactionRow,
+  type Offer as OfferRow
+} from '../db/schema';
+import {
+  type CreateTransactionInput,
+  type Transaction,
+  type TransactionStatus,
+  type UpdateTransactionStatusInput,
+  type UpdateTransactionDetailsInput
+} from '../schema';
+import { dispatchEvent, transactional } from '../lib/events';
+import { releaseListing, reservationWindowMs, reserveListing } from '../lib/reservations';
+import { restoreStock, takeStock } from '../lib/stock';
+import { moveTransactionFunds } from '../lib/ledger';
+import { getPaymentProvider } from '../lib/payments';
+import { settleDispute } from '../lib/disputes';
+import { markListingInactive } from './update_listing';
+import {
+  ConflictError,
+  ForbiddenError,
+  InvalidStateTransitionError,
+  NotFoundError,
+  ValidationError,
+  logUnexpectedError
+} from '../lib/errors';
+import { eq, and, isNull } from 'drizzle-orm';
 
 export const createTransaction = async (input: CreateTransactionInput): Promise<Transaction> => {
   try {
@@ -12,11 +43,15 @@ export const createTransaction = async (input: CreateTransactionInput): Promise<
       .execute();
 
     if (listing.length === 0) {
-      throw new Error(`Listing with ID ${input.listing_id} not found`);
+      throw new NotFoundError(`Listing with ID ${input.listing_id} not found`);
     }
 
     if (!listing[0].is_active) {
-      throw new Error(`Listing with ID ${input.listing_id} is not active`);
+      throw new ConflictError(`Listing with ID ${input.listing_id} is not active`);
+    }
+
+    if (input.quantity > listing[0].quantity_available) {
+      throw new ConflictError(`Only ${listing[0].quantity_available} left of listing with ID ${input.listing_id}`);
     }
 
     // Validate that buyer exists
@@ -26,7 +61,7 @@ export const createTransaction = async (input: CreateTransactionInput): Promise<
       .execute();
 
     if (buyer.length === 0) {
-      throw new Error(`Buyer with ID ${input.buyer_id} not found`);
+      throw new NotFoundError(`Buyer with ID ${input.buyer_id} not found`);
     }
 
     // Validate that seller exists
@@ -36,90 +71,465 @@ export const createTransaction = async (input: CreateTransactionInput): Promise<
       .execute();
 
     if (seller.length === 0) {
-      throw new Error(`Seller with ID ${input.seller_id} not found`);
+      throw new NotFoundError(`Seller with ID ${input.seller_id} not found`);
     }
 
     // Validate that buyer and seller are different
     if (input.buyer_id === input.seller_id) {
-      throw new Error('Buyer and seller cannot be the same user');
+      throw new ValidationError('Buyer and seller cannot be the same user');
     }
 
     // Validate that the seller is the owner of the listing
     if (listing[0].user_id !== input.seller_id) {
-      throw new Error('Seller must be the owner of the listing');
+      throw new ValidationError('Seller must be the owner of the listing');
     }
 
-    // Validate that the amount matches the listing price
-    const listingPrice = parseFloat(listing[0].price);
-    if (Math.abs(input.amount - listingPrice) > 0.01) {
-      throw new Error('Transaction amount must match listing price');
+    // A negotiated sale goes through at the accepted offer instead of the list price
+    let offer: OfferRow | undefined;
+    if (input.offer_id !== undefined) {
+      const offers = await db.select()
+        .from(offersTable)
+        .where(eq(offersTable.id, input.offer_id))
+        .execute();
+
+      if (offers.length === 0) {
+        throw new NotFoundError(`Offer with ID ${input.offer_id} not found`);
+      }
+
+      offer = offers[0];
+    }
+
+    if (offer) {
+      if (offer.listing_id !== input.listing_id || offer.buyer_id !== input.buyer_id) {
+        throw new ValidationError('Offer does not belong to this listing and buyer');
+      }
+
+      if (input.quantity !== 1) {
+        throw new ValidationError('An offer covers a single item');
+      }
+
+      if (offer.status !== 'accepted') {
+        throw new InvalidStateTransitionError('Only accepted offers can become a transaction');
+      }
+
+      if (Math.abs(input.amount - parseFloat(offer.amount)) > 0.01) {
+        throw new ValidationError('Transaction amount must match the accepted offer');
+      }
+    } else {
+      // Validate that the amount matches the listing price for the units bought
+      const listingPrice = parseFloat(listing[0].price) * input.quantity;
+      if (Math.abs(input.amount - listingPrice) > 0.01) {
+        throw new ValidationError('Transaction amount must match listing price');
+      }
     }
 
     // Validate currency matches
     if (input.currency !== listing[0].currency) {
-      throw new Error('Transaction currency must match listing currency');
+      throw new ValidationError('Transaction currency must match listing currency');
     }
 
-    // Check for existing pending transaction to ensure idempotency
-    const existingTransaction = await db.select()
-      .from(transactionsTable)
-      .where(and(
-        eq(transactionsTable.listing_id, input.listing_id),
-        eq(transactionsTable.buyer_id, input.buyer_id),
-        eq(transactionsTable.status, 'pending')
-      ))
-      .execute();
+    // Check for existing pending transaction to ensure idempotency. With an offer that is the
+    // transaction the offer already turned into, if any.
+    const existingCondition = offer
+      ? (offer.transaction_id !== null ? eq(transactionsTable.id, offer.transaction_id) : undefined)
+      : and(
+          eq(transactionsTable.listing_id, input.listing_id),
+          eq(transactionsTable.buyer_id, input.buyer_id),
+          eq(transactionsTable.status, 'pending')
+        );
+    const existingTransaction = existingCondition
+      ? await db.select()
+          .from(transactionsTable)
+          .where(existingCondition)
+          .execute()
+      : [];
+
+    // A buyer taking the remaining stock holds the listing while checking out; with units to
+    // spare, buyers only compete when paying
+    const needsHold = input.quantity >= listing[0].quantity_available;
+    const reservedUntil = new Date(Date.now() + reservationWindowMs());
 
     if (existingTransaction.length > 0) {
       // Return existing transaction to maintain idempotency
       const transaction = existingTransaction[0];
+
+      // Retrying checkout keeps the buyer's hold alive, unless it lapsed and someone else took it
+      if (needsHold && transaction.status === 'pending'
+        && !await reserveListing(db, input.listing_id, input.buyer_id, reservedUntil)) {
+        throw new ConflictError(`Listing with ID ${input.listing_id} is reserved by another buyer`);
+      }
+
       return {
         ...transaction,
         amount: parseFloat(transaction.amount) // Convert numeric to number
       };
     }
 
-    // Insert new transaction
-    const result = await db.insert(transactionsTable)
-      .values({
-        listing_id: input.listing_id,
-        buyer_id: input.buyer_id,
-        seller_id: input.seller_id,
-        amount: input.amount.toString(), // Convert number to string for numeric column
-        currency: input.currency,
-        status: 'pending',
-        payment_method: input.payment_method
-      })
-      .returning()
-      .execute();
+    // Insert new transaction together with the first entry of its audit trail
+    const transaction = await transactional(async (tx) => {
+      // Only one buyer at a time may check out the last units; the hold rolls back with the transaction
+      if (needsHold && !await reserveListing(tx, input.listing_id, input.buyer_id, reservedUntil)) {
+        throw new ConflictError(`Listing with ID ${input.listing_id} is reserved by another buyer`);
+      }
+
+      const result = await tx.insert(transactionsTable)
+        .values({
+          listing_id: input.listing_id,
+          buyer_id: input.buyer_id,
+          seller_id: input.seller_id,
+          quantity: input.quantity,
+          amount: input.amount.toString(), // Convert number to string for numeric column
+          currency: input.currency,
+          status: 'pending',
+          payment_method: input.payment_method
+        })
+        .returning()
+        .execute();
+
+      if (offer) {
+        // Guards against two requests turning the same offer into two transactions
+        const claimed = await tx.update(offersTable)
+          .set({ transaction_id: result[0].id, updated_at: new Date() })
+          .where(and(eq(offersTable.id, offer.id), isNull(offersTable.transaction_id)))
+          .returning({ id: offersTable.id })
+          .execute();
+
+        if (claimed.length === 0) {
+          throw new ConflictError(`Offer with ID ${offer.id} was already used`);
+        }
+      }
+
+      await tx.insert(transactionEventsTable)
+        .values({
+          transaction_id: result[0].id,
+          actor_id: input.buyer_id,
+          event_type: 'created',
+          to_value: 'pending'
+        })
+        .execute();
+
+      await dispatchEvent({
+        type: 'transaction.created',
+        actorId: input.buyer_id,
+        transactionId: result[0].id,
+        sellerId: input.seller_id
+      }, tx);
+
+      return result[0];
+    });
 
     // Convert numeric fields back to numbers before returning
-    const transaction = result[0];
     return {
       ...transaction,
       amount: parseFloat(transaction.amount) // Convert string back to number
     };
   } catch (error) {
-    console.error('Transaction creation failed:', error);
+    logUnexpectedError('Transaction creation failed:', error);
+    throw error;
+  }
+};
+
+type TransactionActor = 'buyer' | 'seller';
+
+// Allowed lifecycle moves and which party may trigger each of them.
+// Calls without an actor (payment webhooks, admin tooling) may make any allowed move. Moves no
+// party may make by hand follow money: paid and refunded only come from the payment handlers.
+// Disputed is not a move here at all; openDispute in handlers/create_dispute.ts sets it.
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, Partial<Record<TransactionStatus, TransactionActor[]>>> = {
+  pending: { paid: [], cancelled: ['buyer', 'seller'] },
+  paid: { shipped: ['seller'], refunded: [] },
+  shipped: { delivered: ['buyer'] },
+  delivered: { completed: ['buyer'] },
+  disputed: { refunded: [], completed: ['buyer'] },
+  completed: {},
+  cancelled: {},
+  refunded: {},
+};
+
+// Moves a transaction on inside the caller's database transaction, along with everything that
+// follows from it: stock, escrow, a dispute it settles and the parties' notifications. Callers
+// check the move is allowed; a concurrent change to the transaction fails with a ConflictError.
+export const applyTransactionStatus = async (
+  tx: DbTransaction,
+  current: TransactionRow,
+  status: TransactionStatus,
+  actorId: number | null,
+  reason?: string,
+  notify = true // dispute handlers send their own notifications
+): Promise<TransactionRow> => {
+  // Conditional update on the version we read guards against concurrent transitions
+  const updated = await tx.update(transactionsTable)
+    .set({
+      status,
+      version: current.version + 1,
+      updated_at: new Date()
+    })
+    .where(and(
+      eq(transactionsTable.id, current.id),
+      eq(transactionsTable.version, current.version)
+    ))
+    .returning()
+    .execute();
+
+  if (updated.length === 0) {
+    throw new ConflictError(`Transaction with ID ${current.id} was modified concurrently`);
+  }
+
+  await tx.insert(transactionEventsTable)
+    .values({
+      transaction_id: current.id,
+      actor_id: actorId,
+      event_type: 'status_changed',
+      from_value: current.status,
+      to_value: status,
+      reason: reason ?? null
+    })
+    .execute();
+
+  // Paying takes the units off sale, and the listing with them once none are left
+  if (status === 'paid') {
+    const left = await takeStock(tx, current.listing_id, current.buyer_id, current.quantity);
+    if (left === null) {
+      throw new ConflictError(`Listing with ID ${current.listing_id} is sold out or reserved by another buyer`);
+    }
+    if (left === 0) {
+      await markListingInactive(tx, current.listing_id);
+    }
+  }
+
+  if (status === 'cancelled') {
+    await releaseListing(tx, current.listing_id, current.buyer_id);
+  }
+
+  // Undoing a paid purchase puts its units back; the seller decides whether to relist
+  if ((status === 'cancelled' || status === 'refunded') && current.status !== 'pending') {
+    await restoreStock(tx, current.listing_id, current.quantity);
+  }
+
+  await moveTransactionFunds(tx, current, status);
+
+  // A seller refunding or a buyer completing ends an open dispute
+  if (current.status === 'disputed') {
+    await settleDispute(tx, current, status);
+  }
+
+  if (notify) {
+    await dispatchEvent({
+      type: 'transaction.status_changed',
+      actorId,
+      transactionId: current.id,
+      buyerId: current.buyer_id,
+      sellerId: current.seller_id,
+      status
+    }, tx);
+  }
+
+  return updated[0];
+};
+
+export const updateTransactionStatus = async (
+  input: UpdateTransactionStatusInput,
+  actorId?: number
+): Promise<Transaction> => {
+  try {
+    const existing = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new NotFoundError(`Transaction with ID ${input.id} not found`);
+    }
+
+    const current = existing[0];
+
+    if (input.expected_version !== undefined && input.expected_version !== current.version) {
+      throw new ConflictError(`Transaction with ID ${input.id} was modified concurrently`);
+    }
+
+    const allowedActors = TRANSACTION_TRANSITIONS[current.status][input.status];
+    if (!allowedActors) {
+      throw new InvalidStateTransitionError(`Cannot change transaction status from ${current.status} to ${input.status}`);
+    }
+
+    // Work out which side of the deal the caller is on
+    let actorRole: TransactionActor | null = null;
+    if (actorId !== undefined) {
+      if (actorId === current.buyer_id) {
+        actorRole = 'buyer';
+      } else if (actorId === current.seller_id) {
+        actorRole = 'seller';
+      } else {
+        throw new ForbiddenError('Only the buyer or seller can update this transaction');
+      }
+
+      if (allowedActors.length === 0) {
+        throw new ForbiddenError(`A transaction cannot be marked as ${input.status} by hand`);
+      }
+
+      if (!allowedActors.includes(actorRole)) {
+        throw new ForbiddenError(`Only the ${allowedActors.join(' or ')} can mark this transaction as ${input.status}`);
+      }
+    }
+
+    const result = await transactional(tx => applyTransactionStatus(tx, current, input.status, actorId ?? null, input.reason));
+
+    return {
+      ...result,
+      amount: parseFloat(result.amount) // Convert numeric to number
+    };
+  } catch (error) {
+    logUnexpectedError('Transaction status update failed:', error);
     throw error;
   }
 };
 
-export const updateTransactionStatus = async (id: number, status: string): Promise<Transaction> => {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is updating transaction status (confirmed, failed, etc.).
-  // Should handle payment confirmations, refunds, and state transitions.
-  // CRITICAL: Must maintain transaction integrity and audit trail.
-  return Promise.resolve({
-    id: id,
-    listing_id: 1,
-    buyer_id: 1,
-    seller_id: 2,
-    amount: 100.00,
-    currency: 'USD',
-    status: status,
-    payment_method: 'credit_card',
-    created_at: new Date(),
-    updated_at: new Date(),
-  } as Transaction);
-};
\ No newline at end of file
+// Releases the buyer's payment authorizations that were never captured, e.g. for an amount that
+// no longer applies. A cancellation the provider refuses only leaves the hold to expire; paying
+// never captures an authorization for another amount.
+const voidAuthorizations = async (transactionId: number, reason: string): Promise<void> => {
+  const provider = getPaymentProvider();
+  const authorized = await db.select()
+    .from(paymentIntentsTable)
+    .where(and(
+      eq(paymentIntentsTable.transaction_id, transactionId),
+      eq(paymentIntentsTable.provider, provider.name),
+      eq(paymentIntentsTable.status, 'authorized')
+    ))
+    .execute();
+
+  for (const intent of authorized) {
+    try {
+      const result = await provider.cancel(intent.provider_intent_id);
+      if (result.status !== 'failed') {
+        continue;
+      }
+
+      await db.update(paymentIntentsTable)
+        .set({ status: 'failed', failure_reason: reason, updated_at: new Date() })
+        .where(and(
+          eq(paymentIntentsTable.id, intent.id),
+          eq(paymentIntentsTable.status, 'authorized')
+        ))
+        .execute();
+    } catch (error) {
+      logUnexpectedError(`Voiding payment intent ${intent.id} failed:`, error);
+    }
+  }
+};
+
+export const updateTransactionDetails = async (
+  input: UpdateTransactionDetailsInput,
+  actorId?: number
+): Promise<Transaction> => {
+  try {
+    const existing = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new NotFoundError(`Transaction with ID ${input.id} not found`);
+    }
+
+    const current = existing[0];
+
+    // Terms are fixed once money has moved
+    if (current.status !== 'pending') {
+      throw new InvalidStateTransitionError('Only pending transactions can be changed');
+    }
+
+    // The seller sets the price, the buyer chooses how to pay
+    if (actorId !== undefined) {
+      if (input.amount !== undefined && actorId !== current.seller_id) {
+        throw new ForbiddenError('Only the seller can change the transaction amount');
+      }
+      if (input.payment_method !== undefined && actorId !== current.buyer_id) {
+        throw new ForbiddenError('Only the buyer can change the payment method');
+      }
+    }
+
+    // The price of a negotiated sale was agreed by both sides in the offer
+    if (input.amount !== undefined) {
+      const offers = await db.select({ id: offersTable.id })
+        .from(offersTable)
+        .where(eq(offersTable.transaction_id, current.id))
+        .execute();
+
+      if (offers.length > 0) {
+        throw new ForbiddenError('The amount of a sale agreed through an offer cannot be changed');
+      }
+    }
+
+    const updateData: Partial<typeof transactionsTable.$inferInsert> = {
+      version: current.version + 1,
+      updated_at: new Date()
+    };
+    const events: NewTransactionEvent[] = [];
+
+    if (input.amount !== undefined && input.amount !== parseFloat(current.amount)) {
+      updateData.amount = input.amount.toString(); // Convert number to string for numeric column
+      events.push({
+        transaction_id: current.id,
+        actor_id: actorId ?? null,
+        event_type: 'amount_changed',
+        from_value: current.amount,
+        to_value: input.amount.toFixed(2),
+        reason: input.reason ?? null
+      });
+    }
+
+    if (input.payment_method !== undefined && input.payment_method !== current.payment_method) {
+      updateData.payment_method = input.payment_method;
+      events.push({
+        transaction_id: current.id,
+        actor_id: actorId ?? null,
+        event_type: 'payment_method_changed',
+        from_value: current.payment_method,
+        to_value: input.payment_method,
+        reason: input.reason ?? null
+      });
+    }
+
+    // Nothing actually changed - leave the row and its version alone
+    if (events.length === 0) {
+      return {
+        ...current,
+        amount: parseFloat(current.amount) // Convert numeric to number
+      };
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const updated = await tx.update(transactionsTable)
+        .set(updateData)
+        .where(and(
+          eq(transactionsTable.id, current.id),
+          eq(transactionsTable.version, current.version)
+        ))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        throw new ConflictError(`Transaction with ID ${input.id} was modified concurrently`);
+      }
+
+      await tx.insert(transactionEventsTable)
+        .values(events)
+        .execute();
+
+      return updated[0];
+    });
+
+    if (result.amount !== current.amount) {
+      await voidAuthorizations(current.id, 'Transaction amount changed');
+    }
+
+    return {
+      ...result,
+      amount: parseFloat(result.amount) // Convert numeric to number
+    };
+  } catch (error) {
+    logUnexpectedError('Transaction details update failed:', error);
+    throw error;
+  }
+};
@@ -1,26 +1,45 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { credentialsTable, usersTable } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
+import { hashPassword } from '../lib/auth';
+import { logUnexpectedError } from '../lib/errors';
 
 export const createUser = async (input: CreateUserInput): Promise<User> => {
   try {
-    // Insert user record
-    const result = await db.insert(usersTable)
-      .values({
-        username: input.username,
-        email: input.email,
-        display_name: input.display_name,
-        bio: input.bio,
-        avatar_url: input.avatar_url,
-      })
-      .returning()
-      .execute();
+    // Hash outside the transaction - scrypt is deliberately slow
+    const passwordHash = input.password ? await hashPassword(input.password) : null;
+
+    const user = await db.transaction(async (tx) => {
+      // Insert user record
+      const result = await tx.insert(usersTable)
+        .values({
+          username: input.username,
+          email: input.email,
+          display_name: input.display_name,
+          bio: input.bio,
+          avatar_url: input.avatar_url,
+        })
+        .returning()
+        .execute();
+
+      // Store password credentials alongside the user
+      if (passwordHash) {
+        await tx.insert(credentialsTable)
+          .values({
+            user_id: result[0].id,
+            type: 'password',
+            secret_hash: passwordHash,
+          })
+          .execute();
+      }
+
+      return result[0];
+    });
 
     // Return the created user
-    const user = result[0];
     return user;
   } catch (error) {
-    console.error('User creation failed:', error);
+    logUnexpectedError('User creation failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
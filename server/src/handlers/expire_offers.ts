@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { offersTable } from '../db/schema';
+import { logUnexpectedError } from '../lib/errors';
+import { scheduleRecurring } from '../lib/schedule';
+import { and, inArray, lte, sql } from 'drizzle-orm';
+
+// Closes open offers whose response window has passed. Returns how many expired.
+export const expireOffers = async (): Promise<number> => {
+  try {
+    const expired = await db.update(offersTable)
+      .set({
+        status: 'expired',
+        version: sql`${offersTable.version} + 1`,
+        updated_at: new Date()
+      })
+      .where(and(
+        inArray(offersTable.status, ['pending', 'countered']),
+        lte(offersTable.expires_at, new Date())
+      ))
+      .returning({ id: offersTable.id })
+      .execute();
+
+    return expired.length;
+  } catch (error) {
+    logUnexpectedError('Offer expiry failed:', error);
+    throw error;
+  }
+};
+
+// Runs the expiry every `intervalMs`. Returns a function that stops the schedule.
+export const scheduleOfferExpiry = (intervalMs: number): (() => void) =>
+  scheduleRecurring(intervalMs, async () => {
+    await expireOffers();
+  });
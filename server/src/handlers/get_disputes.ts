@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { disputesTable } from '../db/schema';
+import { type Dispute, type DisputePage, type DisputesInput } from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { ForbiddenError, logUnexpectedError } from '../lib/errors';
+import { eq, and, getTableColumns } from 'drizzle-orm';
+
+// Visible to both parties and to admins
+export const getDisputeById = async (id: number, userId: number, isAdmin = false): Promise<Dispute | null> => {
+  try {
+    const results = await db.select()
+      .from(disputesTable)
+      .where(eq(disputesTable.id, id))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const dispute = results[0];
+    if (!isAdmin && dispute.buyer_id !== userId && dispute.seller_id !== userId) {
+      throw new ForbiddenError('Only the buyer or seller can view this dispute');
+    }
+
+    return {
+      ...dispute,
+      refund_amount: dispute.refund_amount === null ? null : parseFloat(dispute.refund_amount) // Convert numeric to number
+    };
+  } catch (error) {
+    logUnexpectedError('Failed to get dispute by ID:', error);
+    throw error;
+  }
+};
+
+// The admins' queue, newest first
+export const getDisputes = async (input: DisputesInput): Promise<DisputePage> => {
+  try {
+    const condition = input.status ? eq(disputesTable.status, input.status) : undefined;
+    const pager = keysetPaginator({ ts: disputesTable.created_at, id: disputesTable.id }, input);
+
+    const results = await db.select({ ...getTableColumns(disputesTable), ...pager.cursorColumns })
+      .from(disputesTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
+
+    const page = pager.toPage(results, await estimateTotal(disputesTable, condition));
+
+    return {
+      ...page,
+      items: page.items.map(dispute => ({
+        ...dispute,
+        refund_amount: dispute.refund_amount === null ? null : parseFloat(dispute.refund_amount) // Convert numeric to number
+      }))
+    };
+  } catch (error) {
+    logUnexpectedError('Failed to get disputes:', error);
+    throw error;
+  }
+};
@@ -1,40 +1,50 @@
 import { db } from '../db';
 import { followsTable, usersTable } from '../db/schema';
-import { type Follow, type User } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { type Follow, type UserListPage, type UserPageInput } from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { logUnexpectedError } from '../lib/errors';
+import { eq, and, getTableColumns } from 'drizzle-orm';
 
-export const getFollowers = async (userId: number): Promise<User[]> => {
+export const getFollowers = async (input: UserPageInput): Promise<UserListPage> => {
   try {
-    // Get all users who follow the specified user
+    // Get users who follow the specified user, most recent follows first
     // Join follows table with users table to get follower profile data
-    const results = await db.select()
+    const pager = keysetPaginator({ ts: followsTable.created_at, id: followsTable.id }, input);
+    const condition = eq(followsTable.following_id, input.userId);
+
+    const results = await db.select({ ...getTableColumns(usersTable), ...pager.cursorColumns })
       .from(followsTable)
       .innerJoin(usersTable, eq(followsTable.follower_id, usersTable.id))
-      .where(eq(followsTable.following_id, userId))
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
       .execute();
 
-    // Extract user data from joined results
-    return results.map(result => result.users);
+    return pager.toPage(results, await estimateTotal(followsTable, condition));
   } catch (error) {
-    console.error('Failed to get followers:', error);
+    logUnexpectedError('Failed to get followers:', error);
     throw error;
   }
 };
 
-export const getFollowing = async (userId: number): Promise<User[]> => {
+export const getFollowing = async (input: UserPageInput): Promise<UserListPage> => {
   try {
-    // Get all users that the specified user follows
+    // Get users that the specified user follows, most recent follows first
     // Join follows table with users table to get following user profile data
-    const results = await db.select()
+    const pager = keysetPaginator({ ts: followsTable.created_at, id: followsTable.id }, input);
+    const condition = eq(followsTable.follower_id, input.userId);
+
+    const results = await db.select({ ...getTableColumns(usersTable), ...pager.cursorColumns })
       .from(followsTable)
       .innerJoin(usersTable, eq(followsTable.following_id, usersTable.id))
-      .where(eq(followsTable.follower_id, userId))
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
       .execute();
 
-    // Extract user data from joined results
-    return results.map(result => result.users);
+    return pager.toPage(results, await estimateTotal(followsTable, condition));
   } catch (error) {
-    console.error('Failed to get following:', error);
+    logUnexpectedError('Failed to get following:', error);
     throw error;
   }
 };
@@ -53,7 +63,7 @@ export const getFollowRelationship = async (followerId: number, followingId: num
     // Return the follow relationship if it exists, null otherwise
     return results.length > 0 ? results[0] : null;
   } catch (error) {
-    console.error('Failed to get follow relationship:', error);
+    logUnexpectedError('Failed to get follow relationship:', error);
     throw error;
   }
 };
\ No newline at end of file
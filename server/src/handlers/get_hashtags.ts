@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { hashtagsTable, postHashtagsTable, postsTable } from '../db/schema';
+import {
+  type HashtagPostsInput,
+  type PostPage,
+  type TrendingHashtag,
+  type TrendingHashtagsInput
+} from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { normalizeHashtag } from '../lib/post_entities';
+import { renderPost } from '../lib/posts';
+import { logUnexpectedError } from '../lib/errors';
+import { eq, and, desc, gte, count, inArray, sql, getTableColumns } from 'drizzle-orm';
+
+export const getPostsByHashtag = async (input: HashtagPostsInput): Promise<PostPage> => {
+  try {
+    const taggedPostIds = db.select({ post_id: postHashtagsTable.post_id })
+      .from(postHashtagsTable)
+      .innerJoin(hashtagsTable, eq(postHashtagsTable.hashtag_id, hashtagsTable.id))
+      .where(eq(hashtagsTable.tag, normalizeHashtag(input.tag)));
+    const condition = inArray(postsTable.id, taggedPostIds);
+    const pager = keysetPaginator({ ts: postsTable.created_at, id: postsTable.id }, input);
+
+    const rows = await db.select({ ...getTableColumns(postsTable), ...pager.cursorColumns })
+      .from(postsTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
+
+    const page = pager.toPage(rows, await estimateTotal(postsTable, condition));
+    return { ...page, items: page.items.map(renderPost) };
+  } catch (error) {
+    logUnexpectedError('Failed to fetch posts by hashtag:', error);
+    throw error;
+  }
+};
+
+// A bounded top list rather than a Page: counts shift with every new post, so a cursor into the
+// ranking would skip or repeat tags, and the limit already caps the result at 50.
+export const getTrendingHashtags = async (input: TrendingHashtagsInput): Promise<TrendingHashtag[]> => {
+  try {
+    const since = new Date(Date.now() - input.window_hours * 60 * 60 * 1000);
+    const postCount = count(postHashtagsTable.post_id);
+
+    // Ties go to the tag that was used most recently
+    const results = await db.select({
+      tag: hashtagsTable.tag,
+      post_count: postCount
+    })
+      .from(postHashtagsTable)
+      .innerJoin(hashtagsTable, eq(postHashtagsTable.hashtag_id, hashtagsTable.id))
+      .where(gte(postHashtagsTable.created_at, since))
+      .groupBy(hashtagsTable.id, hashtagsTable.tag)
+      .orderBy(desc(postCount), desc(sql`max(${postHashtagsTable.created_at})`))
+      .limit(input.limit)
+      .execute();
+
+    return results;
+  } catch (error) {
+    logUnexpectedError('Failed to fetch trending hashtags:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,88 @@
+import { db } from '../db';
+import { followsTable, postsTable, usersTable } from '../db/schema';
+import { type HomeTimeline, type HomeTimelineInput, type Post } from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { NotFoundError, logUnexpectedError } from '../lib/errors';
+import { renderPost } from '../lib/posts';
+import { eq, and, or, desc, inArray, isNull, getTableColumns } from 'drizzle-orm';
+
+export const getHomeTimeline = async (userId: number, input: HomeTimelineInput): Promise<HomeTimeline> => {
+  try {
+    const userExists = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .limit(1)
+      .execute();
+
+    if (userExists.length === 0) {
+      throw new NotFoundError(`User with id ${userId} does not exist`);
+    }
+
+    // The viewer's own posts plus everyone they follow
+    const followedIds = db.select({ id: followsTable.following_id })
+      .from(followsTable)
+      .where(eq(followsTable.follower_id, userId));
+
+    const authorCondition = or(
+      eq(postsTable.user_id, userId),
+      inArray(postsTable.user_id, followedIds)
+    )!;
+
+    // Pinned posts sit above the stream on the first page and are left out of it
+    const condition = and(
+      authorCondition,
+      isNull(postsTable.parent_post_id), // Only top-level posts (not replies)
+      isNull(postsTable.deleted_at),
+      eq(postsTable.is_pinned, false)
+    );
+    const pager = keysetPaginator({ ts: postsTable.created_at, id: postsTable.id }, input);
+
+    const rows = await db.select({ ...getTableColumns(postsTable), ...pager.cursorColumns })
+      .from(postsTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
+
+    const rawPage = pager.toPage(rows, await estimateTotal(postsTable, condition));
+    const page = { ...rawPage, items: rawPage.items.map(renderPost) };
+
+    let pinned: Post[] = [];
+    if (!input.cursor) {
+      const pinnedRows = await db.select()
+        .from(postsTable)
+        .where(and(authorCondition, eq(postsTable.is_pinned, true), isNull(postsTable.deleted_at)))
+        .orderBy(desc(postsTable.created_at), desc(postsTable.id))
+        .execute();
+
+      pinned = pinnedRows.map(renderPost);
+    }
+
+    // Load the originals of any reposts in one query so the client can render them inline
+    const repostedIds = [...new Set(
+      [...pinned, ...page.items]
+        .map(post => post.repost_of_id)
+        .filter((id): id is number => id !== null)
+    )];
+
+    let repostedPosts: Post[] = [];
+    if (repostedIds.length > 0) {
+      const repostedRows = await db.select()
+        .from(postsTable)
+        .where(inArray(postsTable.id, repostedIds))
+        .execute();
+
+      // An original deleted since it was reposted shows as a tombstone
+      repostedPosts = repostedRows.map(renderPost);
+    }
+
+    return {
+      ...page,
+      pinned,
+      reposted_posts: repostedPosts,
+    };
+  } catch (error) {
+    logUnexpectedError('Failed to fetch home timeline:', error);
+    throw error;
+  }
+};
@@ -1,116 +1,120 @@
 import { db } from '../db';
-import { listingsTable } from '../db/schema';
-import { type Listing } from '../schema';
-import { eq, and, ilike, gte, lte, desc, SQL, sql } from 'drizzle-orm';
-
-export const getListings = async (filters?: {
-  category?: string;
-  location?: string;
-  minPrice?: number;
-  maxPrice?: number;
-  condition?: string;
-  isActive?: boolean;
-  limit?: number;
-  offset?: number;
-}): Promise<Listing[]> => {
-  try {
-    const conditions: SQL<unknown>[] = [];
+import { listingColumns, listingsTable } from '../db/schema';
+import {
+  type ListingCondition,
+  type ListingDetail,
+  type ListingPage,
+  type ListingQueryInput,
+  type UserListingQueryInput,
+  type ListingSearchResult,
+  type SearchListingsInput
+} from '../schema';
+import {
+  afterRankCursorDesc,
+  decodeRankCursor,
+  encodeRankCursor,
+  estimateTotal,
+  sortKeyPaginator,
+  type SortKey
+} from '../lib/pagination';
+import { toTsQueryText } from '../lib/search';
+import { ValidationError, logUnexpectedError } from '../lib/errors';
+import { eq, and, ilike, gte, lte, lt, desc, count, SQL, sql, type AnyColumn } from 'drizzle-orm';
 
-    // Apply filters
-    if (filters?.category) {
-      conditions.push(eq(listingsTable.category, filters.category));
-    }
+// Great-circle distance in kilometres from the given point (haversine); null without coordinates
+const distanceKm = (near: { latitude: number; longitude: number }) => sql<number | null>`
+  6371 * 2 * asin(sqrt(
+    power(sin(radians(${listingsTable.latitude} - ${near.latitude}) / 2), 2) +
+    cos(radians(${near.latitude})) * cos(radians(${listingsTable.latitude})) *
+    power(sin(radians(${listingsTable.longitude} - ${near.longitude}) / 2), 2)
+  ))`;
 
-    if (filters?.location) {
-      conditions.push(ilike(listingsTable.location, `%${filters.location}%`));
-    }
+const listingSortKey = (input: ListingQueryInput): SortKey => {
+  switch (input.sort) {
+    case 'price_asc':
+      return { name: input.sort, key: listingsTable.price, type: 'numeric', direction: 'asc' };
+    case 'price_desc':
+      return { name: input.sort, key: listingsTable.price, type: 'numeric', direction: 'desc' };
+    case 'most_viewed':
+      return { name: input.sort, key: listingsTable.view_count, type: 'integer', direction: 'desc' };
+    case 'nearest':
+      if (!input.near) {
+        throw new ValidationError('Sorting by nearest requires a location to measure from');
+      }
+      // Listings without a position sort after every listing that has one
+      return {
+        name: input.sort,
+        key: sql`coalesce(${distanceKm(input.near)}, 'Infinity'::double precision)`,
+        type: 'double precision',
+        direction: 'asc'
+      };
+    case 'newest':
+      return { name: input.sort, key: listingsTable.created_at, type: 'timestamp', direction: 'desc' };
+  }
+};
 
-    if (filters?.minPrice !== undefined) {
-      conditions.push(gte(listingsTable.price, filters.minPrice.toString()));
-    }
+// Shared by the browse and per-seller lists; `scope` narrows the listings before the query filters
+const queryListings = async (input: ListingQueryInput, scope?: SQL): Promise<ListingPage> => {
+  const conditions: SQL<unknown>[] = scope ? [scope] : [];
 
-    if (filters?.maxPrice !== undefined) {
-      conditions.push(lte(listingsTable.price, filters.maxPrice.toString()));
-    }
+  // Apply filters
+  if (input.category) {
+    conditions.push(eq(listingsTable.category, input.category));
+  }
 
-    if (filters?.condition) {
-      conditions.push(eq(listingsTable.condition, filters.condition));
-    }
+  if (input.location) {
+    conditions.push(ilike(listingsTable.location, `%${input.location}%`));
+  }
 
-    if (filters?.isActive !== undefined) {
-      conditions.push(eq(listingsTable.is_active, filters.isActive));
-    }
+  if (input.min_price !== undefined) {
+    conditions.push(gte(listingsTable.price, input.min_price.toString()));
+  }
 
-    // Build query parts
-    const selectQuery = db.select().from(listingsTable);
-    const whereClause = conditions.length > 0 
-      ? (conditions.length === 1 ? conditions[0] : and(...conditions))
-      : undefined;
-
-    // Execute query based on presence of filters and pagination
-    let results;
-    if (whereClause) {
-      if (filters?.limit && filters?.offset) {
-        results = await selectQuery
-          .where(whereClause)
-          .orderBy(desc(listingsTable.created_at))
-          .limit(filters.limit)
-          .offset(filters.offset)
-          .execute();
-      } else if (filters?.limit) {
-        results = await selectQuery
-          .where(whereClause)
-          .orderBy(desc(listingsTable.created_at))
-          .limit(filters.limit)
-          .execute();
-      } else if (filters?.offset) {
-        results = await selectQuery
-          .where(whereClause)
-          .orderBy(desc(listingsTable.created_at))
-          .offset(filters.offset)
-          .execute();
-      } else {
-        results = await selectQuery
-          .where(whereClause)
-          .orderBy(desc(listingsTable.created_at))
-          .execute();
-      }
-    } else {
-      if (filters?.limit && filters?.offset) {
-        results = await selectQuery
-          .orderBy(desc(listingsTable.created_at))
-          .limit(filters.limit)
-          .offset(filters.offset)
-          .execute();
-      } else if (filters?.limit) {
-        results = await selectQuery
-          .orderBy(desc(listingsTable.created_at))
-          .limit(filters.limit)
-          .execute();
-      } else if (filters?.offset) {
-        results = await selectQuery
-          .orderBy(desc(listingsTable.created_at))
-          .offset(filters.offset)
-          .execute();
-      } else {
-        results = await selectQuery
-          .orderBy(desc(listingsTable.created_at))
-          .execute();
-      }
-    }
+  if (input.max_price !== undefined) {
+    conditions.push(lte(listingsTable.price, input.max_price.toString()));
+  }
 
-    // Convert numeric fields back to numbers
-    return results.map(listing => ({
+  if (input.condition) {
+    conditions.push(eq(listingsTable.condition, input.condition));
+  }
+
+  if (input.is_active !== undefined) {
+    conditions.push(eq(listingsTable.is_active, input.is_active));
+  }
+
+  const condition = and(...conditions);
+  const pager = sortKeyPaginator(listingSortKey(input), listingsTable.id, input);
+
+  const results = await db.select({ ...listingColumns, ...pager.cursorColumns })
+    .from(listingsTable)
+    .where(and(condition, pager.where))
+    .orderBy(...pager.orderBy)
+    .limit(pager.limit)
+    .execute();
+
+  const page = pager.toPage(results, await estimateTotal(listingsTable, condition));
+
+  // Convert numeric fields back to numbers
+  return {
+    ...page,
+    items: page.items.map(listing => ({
       ...listing,
       price: parseFloat(listing.price)
-    }));
+    }))
+  };
+};
+
+export const getListings = async (input: ListingQueryInput): Promise<ListingPage> => {
+  try {
+    return await queryListings(input);
   } catch (error) {
-    console.error('Failed to fetch listings:', error);
+    logUnexpectedError('Failed to fetch listings:', error);
     throw error;
   }
 };
 
-export const getListingById = async (id: number): Promise<Listing | null> => {
+// The viewer, when signed in, learns whether the checkout hold on the listing is theirs
+export const getListingById = async (id: number, viewerId?: number): Promise<ListingDetail | null> => {
   try {
     // Increment view count
     await db.update(listingsTable)
@@ -122,7 +126,11 @@ export const getListingById = async (id: number): Promise<Listing | null> => {
       .execute();
 
     // Fetch the listing
-    const results = await db.select()
+    const results = await db.select({
+      ...listingColumns,
+      reserved_by: listingsTable.reserved_by,
+      reserved_until: listingsTable.reserved_until
+    })
       .from(listingsTable)
       .where(eq(listingsTable.id, id))
       .execute();
@@ -131,123 +139,171 @@ export const getListingById = async (id: number): Promise<Listing | null> => {
       return null;
     }
 
-    const listing = results[0];
+    const { reserved_by, reserved_until, ...listing } = results[0];
+
+    // A lapsed hold counts as released even before the release job gets to it
+    const isReserved = reserved_by !== null && reserved_until !== null && reserved_until > new Date();
+
     return {
       ...listing,
-      price: parseFloat(listing.price)
+      price: parseFloat(listing.price),
+      reservation: isReserved
+        ? { expires_at: reserved_until, held_by_viewer: reserved_by === viewerId }
+        : null
     };
   } catch (error) {
-    console.error('Failed to fetch listing by ID:', error);
+    logUnexpectedError('Failed to fetch listing by ID:', error);
     throw error;
   }
 };
 
-export const getListingsByUserId = async (
-  userId: number,
-  filters?: {
-    isActive?: boolean;
-    category?: string;
-    limit?: number;
-    offset?: number;
-  }
-): Promise<Listing[]> => {
+export const getListingsByUserId = async (input: UserListingQueryInput): Promise<ListingPage> => {
   try {
-    const conditions: SQL<unknown>[] = [eq(listingsTable.user_id, userId)];
-
-    if (filters?.isActive !== undefined) {
-      conditions.push(eq(listingsTable.is_active, filters.isActive));
-    }
-
-    if (filters?.category) {
-      conditions.push(eq(listingsTable.category, filters.category));
-    }
-
-    const selectQuery = db.select().from(listingsTable);
-    const whereClause = and(...conditions);
-
-    // Execute query with pagination if needed
-    let results;
-    if (filters?.limit && filters?.offset) {
-      results = await selectQuery
-        .where(whereClause)
-        .orderBy(desc(listingsTable.created_at))
-        .limit(filters.limit)
-        .offset(filters.offset)
-        .execute();
-    } else if (filters?.limit) {
-      results = await selectQuery
-        .where(whereClause)
-        .orderBy(desc(listingsTable.created_at))
-        .limit(filters.limit)
-        .execute();
-    } else if (filters?.offset) {
-      results = await selectQuery
-        .where(whereClause)
-        .orderBy(desc(listingsTable.created_at))
-        .offset(filters.offset)
-        .execute();
-    } else {
-      results = await selectQuery
-        .where(whereClause)
-        .orderBy(desc(listingsTable.created_at))
-        .execute();
-    }
-
-    // Convert numeric fields back to numbers
-    return results.map(listing => ({
-      ...listing,
-      price: parseFloat(listing.price)
-    }));
+    return await queryListings(input, eq(listingsTable.user_id, input.userId));
   } catch (error) {
-    console.error('Failed to fetch listings by user ID:', error);
+    logUnexpectedError('Failed to fetch listings by user ID:', error);
     throw error;
   }
 };
 
-export const searchListings = async (
-  searchQuery: string,
-  category?: string,
-  location?: string
-): Promise<Listing[]> => {
+// Price facet buckets as [min, max) in listing currency units; the last one is open-ended
+const PRICE_BUCKETS: Array<[number, number | null]> = [
+  [0, 25],
+  [25, 100],
+  [100, 500],
+  [500, 1000],
+  [1000, null],
+];
+
+// ts_headline keeps the source text as-is, so escape it first to make the output safe HTML
+const escapeHtml = (column: AnyColumn) =>
+  sql`replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+
+export const searchListings = async (input: SearchListingsInput): Promise<ListingSearchResult> => {
   try {
+    const prefixQuery = toTsQueryText(input.query, true);
+
+    // A query made only of punctuation cannot match anything
+    if (input.query.trim() && !prefixQuery) {
+      return {
+        items: [],
+        nextCursor: null,
+        totalEstimate: 0,
+        facets: { price: [], condition: [] }
+      };
+    }
+
+    const tsQuery = sql`to_tsquery('english', ${prefixQuery})`;
+    const rank = prefixQuery
+      ? sql<number>`ts_rank(${listingsTable.search_vector}, ${tsQuery})`
+      : sql<number>`0::real`;
+
     const conditions: SQL<unknown>[] = [
       eq(listingsTable.is_active, true) // Only search active listings
     ];
 
-    // Add search conditions for title and description
-    if (searchQuery.trim()) {
-      const searchCondition = sql`(
-        ${listingsTable.title} ILIKE ${`%${searchQuery}%`} OR 
-        ${listingsTable.description} ILIKE ${`%${searchQuery}%`}
-      )`;
-      conditions.push(searchCondition);
+    if (prefixQuery) {
+      conditions.push(sql`${listingsTable.search_vector} @@ ${tsQuery}`);
     }
 
     // Apply additional filters
-    if (category) {
-      conditions.push(eq(listingsTable.category, category));
+    if (input.category) {
+      conditions.push(eq(listingsTable.category, input.category));
     }
 
-    if (location) {
-      conditions.push(ilike(listingsTable.location, `%${location}%`));
+    if (input.location) {
+      conditions.push(ilike(listingsTable.location, `%${input.location}%`));
     }
 
-    const selectQuery = db.select().from(listingsTable);
-    const whereClause = and(...conditions);
+    const priceConditions: SQL<unknown>[] = [];
+    if (input.min_price !== undefined) {
+      priceConditions.push(gte(listingsTable.price, input.min_price.toString()));
+    }
+    if (input.max_price !== undefined) {
+      priceConditions.push(lte(listingsTable.price, input.max_price.toString()));
+    }
 
-    // Execute query
-    const results = await selectQuery
-      .where(whereClause)
-      .orderBy(desc(listingsTable.created_at))
+    const conditionConditions: SQL<unknown>[] = input.condition
+      ? [eq(listingsTable.condition, input.condition)]
+      : [];
+
+    const pageConditions = [...conditions, ...priceConditions, ...conditionConditions];
+    if (input.cursor) {
+      pageConditions.push(afterRankCursorDesc(rank, listingsTable.id, decodeRankCursor(input.cursor)));
+    }
+
+    const highlight = (column: AnyColumn, options: string) => prefixQuery
+      ? sql<string>`ts_headline('english', ${escapeHtml(column)}, ${tsQuery}, ${options})`
+      : sql<string>`${escapeHtml(column)}`;
+
+    // Fetch one extra row to know whether another page exists; ties fall back to newest first
+    const rows = await db.select({
+      ...listingColumns,
+      rank,
+      title_highlight: highlight(listingsTable.title, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+      description_snippet: highlight(
+        listingsTable.description,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    })
+      .from(listingsTable)
+      .where(and(...pageConditions))
+      .orderBy(desc(rank), desc(listingsTable.id))
+      .limit(input.limit + 1)
       .execute();
 
-    // Convert numeric fields back to numbers
-    return results.map(listing => ({
-      ...listing,
-      price: parseFloat(listing.price)
-    }));
+    const hasMore = rows.length > input.limit;
+    const page = rows.slice(0, input.limit);
+    const last = page[page.length - 1];
+
+    // Condition counts respect the price filter, price counts respect the condition filter
+    const conditionCounts = await db.select({
+      value: listingsTable.condition,
+      count: count()
+    })
+      .from(listingsTable)
+      .where(and(...conditions, ...priceConditions))
+      .groupBy(listingsTable.condition)
+      .orderBy(desc(count()), listingsTable.condition)
+      .execute();
+
+    const bucketCounts = await db.select(Object.fromEntries(PRICE_BUCKETS.map(([min, max], index) => [
+      `bucket_${index}`,
+      sql<number>`count(*) filter (where ${max === null
+        ? gte(listingsTable.price, min.toString())
+        : and(gte(listingsTable.price, min.toString()), lt(listingsTable.price, max.toString()))
+      })`.mapWith(Number)
+    ])))
+      .from(listingsTable)
+      .where(and(...conditions, ...conditionConditions))
+      .execute();
+
+    // Every match falls in exactly one condition group, so the total comes for free
+    const totalEstimate = conditionCounts
+      .filter(facet => !input.condition || facet.value === input.condition)
+      .reduce((sum, facet) => sum + facet.count, 0);
+
+    return {
+      items: page.map(listing => ({
+        ...listing,
+        price: parseFloat(listing.price)
+      })),
+      facets: {
+        price: PRICE_BUCKETS.map(([min, max], index) => ({
+          min,
+          max,
+          count: bucketCounts[0][`bucket_${index}`]
+        })),
+        condition: conditionCounts.map(facet => ({
+          value: facet.value as ListingCondition,
+          count: facet.count
+        }))
+      },
+      nextCursor: hasMore && last ? encodeRankCursor({ rank: last.rank, id: last.id }) : null,
+      totalEstimate
+    };
   } catch (error) {
-    console.error('Failed to search listings:', error);
+    logUnexpectedError('Failed to search listings:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
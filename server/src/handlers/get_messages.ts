@@ -0,0 +1,101 @@
+import { db } from '../db';
+import { conversationsTable, messagesTable } from '../db/schema';
+import {
+  type ConversationMessagesInput,
+  type InboxPage,
+  type Message,
+  type MessagePage,
+  type PageInput
+} from '../schema';
+import { getConversationForParticipant } from '../lib/conversations';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { logUnexpectedError } from '../lib/errors';
+import { eq, or, and, ne, isNull, inArray, desc, count, sql, getTableColumns } from 'drizzle-orm';
+
+export const getConversationMessages = async (
+  input: ConversationMessagesInput,
+  userId: number
+): Promise<MessagePage> => {
+  try {
+    await getConversationForParticipant(input.conversationId, userId);
+
+    // Newest first; clients reverse the page to show it bottom-up
+    const condition = eq(messagesTable.conversation_id, input.conversationId);
+    const pager = keysetPaginator({ ts: messagesTable.created_at, id: messagesTable.id }, input);
+
+    const results = await db.select({ ...getTableColumns(messagesTable), ...pager.cursorColumns })
+      .from(messagesTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
+
+    return pager.toPage(results, await estimateTotal(messagesTable, condition));
+  } catch (error) {
+    logUnexpectedError('Failed to fetch conversation messages:', error);
+    throw error;
+  }
+};
+
+// The user's conversations, most recently active first, each with its latest message
+export const getInbox = async (userId: number, input: PageInput): Promise<InboxPage> => {
+  try {
+    const condition = or(
+      eq(conversationsTable.buyer_id, userId),
+      eq(conversationsTable.seller_id, userId)
+    );
+    const pager = keysetPaginator({ ts: conversationsTable.last_message_at, id: conversationsTable.id }, input);
+
+    // Drizzle leaves columns unqualified in single-table queries, so the outer id is spelled out
+    const unreadCount = sql<number>`(
+      select count(*) from ${messagesTable} as unread
+      where unread.conversation_id = ${conversationsTable}.${sql.identifier('id')}
+        and unread.sender_id <> ${userId}
+        and unread.read_at is null
+    )::int`;
+
+    const results = await db.select({
+      ...getTableColumns(conversationsTable),
+      unread_count: unreadCount,
+      ...pager.cursorColumns
+    })
+      .from(conversationsTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
+
+    const page = pager.toPage(results, await estimateTotal(conversationsTable, condition));
+
+    const conversationIds = page.items.map(conversation => conversation.id);
+    const lastMessages = conversationIds.length > 0
+      ? await db.selectDistinctOn([messagesTable.conversation_id])
+          .from(messagesTable)
+          .where(inArray(messagesTable.conversation_id, conversationIds))
+          .orderBy(messagesTable.conversation_id, desc(messagesTable.created_at), desc(messagesTable.id))
+          .execute()
+      : [];
+    const lastMessageByConversation = new Map<number, Message>(
+      lastMessages.map(message => [message.conversation_id, message])
+    );
+
+    const unreadTotal = await db.select({ count: count() })
+      .from(messagesTable)
+      .innerJoin(conversationsTable, eq(messagesTable.conversation_id, conversationsTable.id))
+      .where(and(condition, ne(messagesTable.sender_id, userId), isNull(messagesTable.read_at)))
+      .execute();
+
+    return {
+      ...page,
+      items: page.items.map(({ unread_count, ...conversation }) => ({
+        conversation,
+        last_message: lastMessageByConversation.get(conversation.id) ?? null,
+        unread_count
+      })),
+      unread_total: unreadTotal[0].count
+    };
+  } catch (error) {
+    logUnexpectedError('Failed to fetch inbox:', error);
+    throw error;
+  }
+};
@@ -1,24 +1,15 @@
 import { db } from '../db';
 import { notificationsTable } from '../db/schema';
-import { type Notification } from '../schema';
-import { eq, desc, and, SQL, count } from 'drizzle-orm';
-
-export interface GetNotificationsFilters {
-  isRead?: boolean;
-  type?: string;
-  limit?: number;
-  offset?: number;
-}
+import { type NotificationPage, type NotificationsInput } from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { logUnexpectedError } from '../lib/errors';
+import { eq, and, SQL, count, getTableColumns } from 'drizzle-orm';
 
 export const getNotificationsByUserId = async (
   userId: number,
-  filters: GetNotificationsFilters = {}
-): Promise<Notification[]> => {
+  input: NotificationsInput
+): Promise<NotificationPage> => {
   try {
-    // Set default pagination values
-    const limit = filters.limit ?? 50;
-    const offset = filters.offset ?? 0;
-
     // Build conditions array
     const conditions: SQL<unknown>[] = [];
     
@@ -26,31 +17,27 @@ export const getNotificationsByUserId = async (
     conditions.push(eq(notificationsTable.user_id, userId));
 
     // Add optional filters
-    if (filters.isRead !== undefined) {
-      conditions.push(eq(notificationsTable.is_read, filters.isRead));
+    if (input.isRead !== undefined) {
+      conditions.push(eq(notificationsTable.is_read, input.isRead));
     }
 
-    if (filters.type) {
-      conditions.push(eq(notificationsTable.type, filters.type));
+    if (input.type) {
+      conditions.push(eq(notificationsTable.type, input.type));
     }
 
-    // Build the complete query
-    const query = db.select()
-      .from(notificationsTable)
-      .where(and(...conditions))
-      .orderBy(desc(notificationsTable.created_at))
-      .limit(limit)
-      .offset(offset);
+    const condition = and(...conditions);
+    const pager = keysetPaginator({ ts: notificationsTable.created_at, id: notificationsTable.id }, input);
 
-    const results = await query.execute();
+    const results = await db.select({ ...getTableColumns(notificationsTable), ...pager.cursorColumns })
+      .from(notificationsTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
 
-    // Return notifications with proper date handling
-    return results.map(notification => ({
-      ...notification,
-      created_at: notification.created_at
-    }));
+    return pager.toPage(results, await estimateTotal(notificationsTable, condition));
   } catch (error) {
-    console.error('Failed to get notifications:', error);
+    logUnexpectedError('Failed to get notifications:', error);
     throw error;
   }
 };
@@ -71,7 +58,7 @@ export const getUnreadNotificationCount = async (userId: number): Promise<number
 
     return result[0]?.count ?? 0;
   } catch (error) {
-    console.error('Failed to get unread notification count:', error);
+    logUnexpectedError('Failed to get unread notification count:', error);
     throw error;
   }
 };
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { db } from '../db';
+import { offersTable } from '../db/schema';
+import { type Offer, type OfferPage, type OffersInput } from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { ForbiddenError, logUnexpectedError } from '../lib/errors';
+import { eq, or, and, getTableColumns, type SQL } from 'drizzle-orm';
+
+export const getOfferById = async (id: number, userId: number): Promise<Offer | null> => {
+  try {
+    const results = await db.select()
+      .from(offersTable)
+      .where(eq(offersTable.id, id))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const offer = results[0];
+    if (offer.buyer_id !== userId && offer.seller_id !== userId) {
+      throw new ForbiddenError('Only the buyer or seller can view this offer');
+    }
+
+    return {
+      ...offer,
+      amount: parseFloat(offer.amount) // Convert numeric to number
+    };
+  } catch (error) {
+    logUnexpectedError('Failed to get offer by ID:', error);
+    throw error;
+  }
+};
+
+// Offers the user made or received, newest first
+export const getOffers = async (input: OffersInput, userId: number): Promise<OfferPage> => {
+  try {
+    const conditions: (SQL | undefined)[] = [
+      input.role === 'buyer'
+        ? eq(offersTable.buyer_id, userId)
+        : input.role === 'seller'
+          ? eq(offersTable.seller_id, userId)
+          : or(eq(offersTable.buyer_id, userId), eq(offersTable.seller_id, userId))
+    ];
+
+    if (input.listingId !== undefined) {
+      conditions.push(eq(offersTable.listing_id, input.listingId));
+    }
+
+    if (input.status) {
+      conditions.push(eq(offersTable.status, input.status));
+    }
+
+    const condition = and(...conditions);
+    const pager = keysetPaginator({ ts: offersTable.created_at, id: offersTable.id }, input);
+
+    const results = await db.select({ ...getTableColumns(offersTable), ...pager.cursorColumns })
+      .from(offersTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
+
+    const page = pager.toPage(results, await estimateTotal(offersTable, condition));
+
+    return {
+      ...page,
+      items: page.items.map(offer => ({
+        ...offer,
+        amount: parseFloat(offer.amount) // Convert numeric to number
+      }))
+    };
+  } catch (error) {
+    logUnexpectedError('Failed to get offers:', error);
+    throw error;
+  }
+};
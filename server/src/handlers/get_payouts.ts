@@ -0,0 +1,91 @@
+import { db } from '../db';
+import {
+  ledgerAccountsTable,
+  ledgerEntriesTable,
+  ledgerJournalsTable,
+  payoutsTable,
+  transactionsTable
+} from '../db/schema';
+import { type PageInput, type PayoutPage, type SellerBalance } from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { logUnexpectedError } from '../lib/errors';
+import { eq, and, getTableColumns, sql } from 'drizzle-orm';
+
+const total = sql<string>`sum(${ledgerEntriesTable.amount})`;
+
+// The seller's money per currency: what they can pay out, what buyers still have to confirm,
+// and what is on its way to their bank
+export const getSellerBalance = async (userId: number): Promise<SellerBalance[]> => {
+  try {
+    const available = await db.select({ currency: ledgerAccountsTable.currency, total })
+      .from(ledgerEntriesTable)
+      .innerJoin(ledgerAccountsTable, eq(ledgerEntriesTable.account_id, ledgerAccountsTable.id))
+      .where(and(eq(ledgerAccountsTable.type, 'seller_balance'), eq(ledgerAccountsTable.user_id, userId)))
+      .groupBy(ledgerAccountsTable.currency)
+      .execute();
+
+    const inEscrow = await db.select({ currency: ledgerAccountsTable.currency, total })
+      .from(ledgerEntriesTable)
+      .innerJoin(ledgerAccountsTable, eq(ledgerEntriesTable.account_id, ledgerAccountsTable.id))
+      .innerJoin(ledgerJournalsTable, eq(ledgerEntriesTable.journal_id, ledgerJournalsTable.id))
+      .innerJoin(transactionsTable, eq(ledgerJournalsTable.transaction_id, transactionsTable.id))
+      .where(and(eq(ledgerAccountsTable.type, 'escrow'), eq(transactionsTable.seller_id, userId)))
+      .groupBy(ledgerAccountsTable.currency)
+      .execute();
+
+    const pendingPayouts = await db.select({
+      currency: payoutsTable.currency,
+      total: sql<string>`sum(${payoutsTable.amount})`
+    })
+      .from(payoutsTable)
+      .where(and(eq(payoutsTable.user_id, userId), eq(payoutsTable.status, 'requested')))
+      .groupBy(payoutsTable.currency)
+      .execute();
+
+    const balances = new Map<string, SellerBalance>();
+    const add = (rows: { currency: string; total: string }[], field: 'available' | 'in_escrow' | 'pending_payouts') => {
+      for (const row of rows) {
+        const balance = balances.get(row.currency)
+          ?? { currency: row.currency, available: 0, in_escrow: 0, pending_payouts: 0 };
+        balance[field] = parseFloat(row.total); // Convert numeric to number
+        balances.set(row.currency, balance);
+      }
+    };
+    add(available, 'available');
+    add(inEscrow, 'in_escrow');
+    add(pendingPayouts, 'pending_payouts');
+
+    return [...balances.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+  } catch (error) {
+    logUnexpectedError('Failed to fetch seller balance:', error);
+    throw error;
+  }
+};
+
+// The seller's payouts, newest first
+export const getPayouts = async (userId: number, input: PageInput): Promise<PayoutPage> => {
+  try {
+    const condition = eq(payoutsTable.user_id, userId);
+    const pager = keysetPaginator({ ts: payoutsTable.created_at, id: payoutsTable.id }, input);
+
+    const results = await db.select({ ...getTableColumns(payoutsTable), ...pager.cursorColumns })
+      .from(payoutsTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
+
+    const page = pager.toPage(results, await estimateTotal(payoutsTable, condition));
+
+    return {
+      ...page,
+      items: page.items.map(payout => ({
+        ...payout,
+        amount: parseFloat(payout.amount) // Convert numeric to number
+      }))
+    };
+  } catch (error) {
+    logUnexpectedError('Failed to get payouts:', error);
+    throw error;
+  }
+};
@@ -1,23 +1,30 @@
 import { db } from '../db';
 import { postsTable, usersTable } from '../db/schema';
-import { type Post } from '../schema';
-import { eq, desc, isNull } from 'drizzle-orm';
+import { type PageInput, type Post, type PostPage, type PostRepliesInput, type UserPageInput } from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { NotFoundError, logUnexpectedError } from '../lib/errors';
+import { renderPost } from '../lib/posts';
+import { eq, and, isNull, getTableColumns } from 'drizzle-orm';
 
-export const getPosts = async (): Promise<Post[]> => {
+export const getPosts = async (input: PageInput): Promise<PostPage> => {
   try {
-    const results = await db.select()
+    const pager = keysetPaginator({ ts: postsTable.created_at, id: postsTable.id }, input);
+    const condition = and(
+      isNull(postsTable.parent_post_id), // Only top-level posts (not replies)
+      isNull(postsTable.deleted_at)
+    );
+
+    const results = await db.select({ ...getTableColumns(postsTable), ...pager.cursorColumns })
       .from(postsTable)
-      .where(isNull(postsTable.parent_post_id)) // Only top-level posts (not replies)
-      .orderBy(desc(postsTable.created_at))
-      .limit(50) // Default pagination limit
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
       .execute();
 
-    return results.map(post => ({
-      ...post,
-      media_urls: post.media_urls as string[] | null,
-    }));
+    const page = pager.toPage(results, await estimateTotal(postsTable, condition));
+    return { ...page, items: page.items.map(renderPost) };
   } catch (error) {
-    console.error('Failed to fetch posts:', error);
+    logUnexpectedError('Failed to fetch posts:', error);
     throw error;
   }
 };
@@ -34,71 +41,73 @@ export const getPostById = async (id: number): Promise<Post | null> => {
       return null;
     }
 
-    const post = results[0];
-    return {
-      ...post,
-      media_urls: post.media_urls as string[] | null,
-    };
+    // Deleted posts resolve to their tombstone so links to them still render
+    return renderPost(results[0]);
   } catch (error) {
-    console.error('Failed to fetch post by ID:', error);
+    logUnexpectedError('Failed to fetch post by ID:', error);
     throw error;
   }
 };
 
-export const getPostsByUserId = async (userId: number): Promise<Post[]> => {
+export const getPostsByUserId = async (input: UserPageInput): Promise<PostPage> => {
   try {
     // Verify user exists first to prevent returning empty array for invalid user_id
     const userExists = await db.select({ id: usersTable.id })
       .from(usersTable)
-      .where(eq(usersTable.id, userId))
+      .where(eq(usersTable.id, input.userId))
       .limit(1)
       .execute();
 
     if (userExists.length === 0) {
-      throw new Error(`User with id ${userId} does not exist`);
+      throw new NotFoundError(`User with id ${input.userId} does not exist`);
     }
 
-    const results = await db.select()
+    const pager = keysetPaginator({ ts: postsTable.created_at, id: postsTable.id }, input);
+    const condition = and(eq(postsTable.user_id, input.userId), isNull(postsTable.deleted_at));
+
+    const results = await db.select({ ...getTableColumns(postsTable), ...pager.cursorColumns })
       .from(postsTable)
-      .where(eq(postsTable.user_id, userId))
-      .orderBy(desc(postsTable.created_at))
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
       .execute();
 
-    return results.map(post => ({
-      ...post,
-      media_urls: post.media_urls as string[] | null,
-    }));
+    const page = pager.toPage(results, await estimateTotal(postsTable, condition));
+    return { ...page, items: page.items.map(renderPost) };
   } catch (error) {
-    console.error('Failed to fetch posts by user ID:', error);
+    logUnexpectedError('Failed to fetch posts by user ID:', error);
     throw error;
   }
 };
 
-export const getPostReplies = async (postId: number): Promise<Post[]> => {
+export const getPostReplies = async (input: PostRepliesInput): Promise<PostPage> => {
   try {
     // Verify parent post exists first
     const parentExists = await db.select({ id: postsTable.id })
       .from(postsTable)
-      .where(eq(postsTable.id, postId))
+      .where(eq(postsTable.id, input.postId))
       .limit(1)
       .execute();
 
     if (parentExists.length === 0) {
-      throw new Error(`Post with id ${postId} does not exist`);
+      throw new NotFoundError(`Post with id ${input.postId} does not exist`);
     }
 
-    const results = await db.select()
+    // Most recent replies first; deleted replies stay in place as tombstones
+    const pager = keysetPaginator({ ts: postsTable.created_at, id: postsTable.id }, input);
+    const condition = eq(postsTable.parent_post_id, input.postId);
+
+    const results = await db.select({ ...getTableColumns(postsTable), ...pager.cursorColumns })
       .from(postsTable)
-      .where(eq(postsTable.parent_post_id, postId))
-      .orderBy(desc(postsTable.created_at)) // Most recent replies first
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
       .execute();
 
-    return results.map(post => ({
-      ...post,
-      media_urls: post.media_urls as string[] | null,
-    }));
+    const page = pager.toPage(results, await estimateTotal(postsTable, condition));
+    return { ...page, items: page.items.map(renderPost) };
   } catch (error) {
-    console.error('Failed to fetch post replies:', error);
+    logUnexpectedError('Failed to fetch post replies:', error);
     throw error;
   }
 };
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { db } from '../db';
+import { reviewsTable, transactionsTable, usersTable } from '../db/schema';
+import { type ReviewPage, type ReviewsForUserInput, type SellerReputation } from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { NotFoundError, logUnexpectedError } from '../lib/errors';
+import { eq, and, count, getTableColumns } from 'drizzle-orm';
+
+const assertUserExists = async (userId: number): Promise<void> => {
+  const users = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .limit(1)
+    .execute();
+
+  if (users.length === 0) {
+    throw new NotFoundError(`User with id ${userId} does not exist`);
+  }
+};
+
+export const getReviewsForUser = async (input: ReviewsForUserInput): Promise<ReviewPage> => {
+  try {
+    await assertUserExists(input.userId);
+
+    // Reviews received as a seller were written by buyers, and the other way round
+    const condition = and(
+      eq(reviewsTable.reviewee_id, input.userId),
+      input.as ? eq(reviewsTable.reviewer_role, input.as === 'seller' ? 'buyer' : 'seller') : undefined
+    );
+    const pager = keysetPaginator({ ts: reviewsTable.created_at, id: reviewsTable.id }, input);
+
+    const results = await db.select({ ...getTableColumns(reviewsTable), ...pager.cursorColumns })
+      .from(reviewsTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
+
+    return pager.toPage(results, await estimateTotal(reviewsTable, condition));
+  } catch (error) {
+    logUnexpectedError('Failed to fetch reviews for user:', error);
+    throw error;
+  }
+};
+
+export const getSellerReputation = async (userId: number): Promise<SellerReputation> => {
+  try {
+    await assertUserExists(userId);
+
+    const ratings = await db.select({ rating: reviewsTable.rating, count: count() })
+      .from(reviewsTable)
+      .where(and(eq(reviewsTable.reviewee_id, userId), eq(reviewsTable.reviewer_role, 'buyer')))
+      .groupBy(reviewsTable.rating)
+      .execute();
+
+    const sales = await db.select({ count: count() })
+      .from(transactionsTable)
+      .where(and(eq(transactionsTable.seller_id, userId), eq(transactionsTable.status, 'completed')))
+      .execute();
+
+    const distribution: SellerReputation['rating_distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    let reviewCount = 0;
+    let ratingSum = 0;
+    for (const { rating, count } of ratings) {
+      distribution[String(rating) as keyof typeof distribution] = count;
+      reviewCount += count;
+      ratingSum += rating * count;
+    }
+
+    return {
+      user_id: userId,
+      review_count: reviewCount,
+      average_rating: reviewCount > 0 ? ratingSum / reviewCount : null,
+      rating_distribution: distribution,
+      completed_sales: sales[0].count
+    };
+  } catch (error) {
+    logUnexpectedError('Failed to fetch seller reputation:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,139 @@
+import { db } from '../db';
+import { postsTable, type Post as PostRow } from '../db/schema';
+import { type Thread, type ThreadInput, type ThreadNode } from '../schema';
+import { decodeSortKeyCursor, encodeSortKeyCursor, type SortKeyCursor } from '../lib/pagination';
+import { NotFoundError, ValidationError, logUnexpectedError } from '../lib/errors';
+import { renderPost } from '../lib/posts';
+import { inArray, sql, type SQL } from 'drizzle-orm';
+
+// Reply chains cannot loop, but a pathological chain should not turn into an unbounded walk
+const MAX_ANCESTORS = 100;
+
+interface TreeRow {
+  id: number;
+  parent_post_id: number;
+  depth: number;
+  cursor_key: string;
+  position: number; // 1-based rank among its siblings; breadth + 1 only flags that more exist
+}
+
+const threadSortKey = (sort: ThreadInput['sort']): { key: SQL; type: string } => sort === 'top'
+  ? { key: sql`${postsTable.like_count}`, type: 'integer' }
+  : { key: sql`${postsTable.created_at}`, type: 'timestamp' };
+
+// The post's id and its parents' ids, nearest first, starting with the post itself
+const loadAncestry = async (postId: number): Promise<number[]> => {
+  const result = await db.execute(sql`
+    with recursive chain as (
+      select ${postsTable.id} as id, ${postsTable.parent_post_id} as parent_post_id, 0 as level
+      from ${postsTable}
+      where ${postsTable.id} = ${postId}
+      union all
+      select ${postsTable.id}, ${postsTable.parent_post_id}, chain.level + 1
+      from ${postsTable}
+      join chain on ${postsTable.id} = chain.parent_post_id
+      where chain.level < ${MAX_ANCESTORS}
+    )
+    select id from chain order by level
+  `);
+  return (result.rows as { id: number }[]).map(row => row.id);
+};
+
+// Walks the replies below the post level by level. Each post contributes at most breadth + 1
+// replies in ranking order, and only the first `breadth` of them are descended into.
+const loadReplyTree = async (input: ThreadInput, cursor: SortKeyCursor | null): Promise<TreeRow[]> => {
+  const { key, type } = threadSortKey(input.sort);
+  const ranking = sql`order by ${key} desc, ${postsTable.id} desc`;
+  const replyColumns = sql`
+    ${postsTable.id} as id,
+    ${postsTable.parent_post_id} as parent_post_id,
+    (${key})::text as cursor_key,
+    (row_number() over (${ranking}))::int as position
+  `;
+  const afterCursor = cursor
+    ? sql`and (${key}, ${postsTable.id}) < (${cursor.value}::${sql.raw(type)}, ${cursor.id})`
+    : sql``;
+
+  const result = await db.execute(sql`
+    with recursive tree as (
+      select first_level.*, 1 as depth
+      from (
+        select ${replyColumns}
+        from ${postsTable}
+        where ${postsTable.parent_post_id} = ${input.postId} ${afterCursor}
+        ${ranking}
+        limit ${input.breadth + 1}
+      ) first_level
+      union all
+      select child.*, tree.depth + 1
+      from tree
+      cross join lateral (
+        select ${replyColumns}
+        from ${postsTable}
+        where ${postsTable.parent_post_id} = tree.id
+        ${ranking}
+        limit ${input.breadth + 1}
+      ) child
+      where tree.depth < ${input.depth} and tree.position <= ${input.breadth}
+    )
+    select id, parent_post_id, depth, cursor_key, position from tree
+  `);
+  return result.rows as unknown as TreeRow[];
+};
+
+export const getThread = async (input: ThreadInput): Promise<Thread> => {
+  try {
+    const cursor = input.cursor ? decodeSortKeyCursor(input.cursor) : null;
+    if (cursor && cursor.sort !== input.sort) {
+      throw new ValidationError('Invalid pagination cursor');
+    }
+
+    const ancestry = await loadAncestry(input.postId);
+    if (ancestry.length === 0) {
+      throw new NotFoundError(`Post with id ${input.postId} does not exist`);
+    }
+
+    const treeRows = await loadReplyTree(input, cursor);
+
+    const ids = [...ancestry, ...treeRows.map(row => row.id)];
+    const posts = await db.select()
+      .from(postsTable)
+      .where(inArray(postsTable.id, ids))
+      .execute();
+    const postsById = new Map<number, PostRow>(posts.map(post => [post.id, post]));
+
+    const rowsByParent = new Map<number, TreeRow[]>();
+    for (const row of treeRows) {
+      const siblings = rowsByParent.get(row.parent_post_id) ?? [];
+      siblings.push(row);
+      rowsByParent.set(row.parent_post_id, siblings);
+    }
+
+    // Deleted replies stay in the tree as tombstones so their own replies keep their place
+    const buildReplies = (parentId: number): Pick<ThreadNode, 'replies' | 'more_replies_cursor'> => {
+      const siblings = (rowsByParent.get(parentId) ?? []).sort((a, b) => a.position - b.position);
+      const shown = siblings.filter(row => row.position <= input.breadth);
+      const last = shown[shown.length - 1];
+
+      return {
+        replies: shown.map(row => ({
+          post: renderPost(postsById.get(row.id)!),
+          ...buildReplies(row.id),
+        })),
+        more_replies_cursor: siblings.length > shown.length && last
+          ? encodeSortKeyCursor({ sort: input.sort, value: last.cursor_key, id: last.id })
+          : null,
+      };
+    };
+
+    const [postId, ...parentIds] = ancestry;
+    return {
+      ancestors: parentIds.reverse().map(id => renderPost(postsById.get(id)!)),
+      post: renderPost(postsById.get(postId)!),
+      ...buildReplies(postId),
+    };
+  } catch (error) {
+    logUnexpectedError('Failed to fetch thread:', error);
+    throw error;
+  }
+};
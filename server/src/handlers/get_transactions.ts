@@ -1,9 +1,19 @@
 import { db } from '../db';
-import { transactionsTable } from '../db/schema';
-import { type Transaction } from '../schema';
-import { eq, or } from 'drizzle-orm';
+import { transactionsTable, transactionEventsTable } from '../db/schema';
+import {
+  type ListingTransactionsInput,
+  type Transaction,
+  type TransactionEventPage,
+  type TransactionHistoryInput,
+  type TransactionPage,
+  type UserPageInput
+} from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { ForbiddenError, NotFoundError, logUnexpectedError } from '../lib/errors';
+import { eq, or, and, getTableColumns } from 'drizzle-orm';
 
-export const getTransactionById = async (id: number): Promise<Transaction | null> => {
+// Calls on behalf of a user (viewerId) only see transactions they are a party to, unless they are an admin
+export const getTransactionById = async (id: number, viewerId?: number, isAdmin = false): Promise<Transaction | null> => {
   try {
     const results = await db.select()
       .from(transactionsTable)
@@ -16,51 +26,137 @@ export const getTransactionById = async (id: number): Promise<Transaction | null
     }
 
     const transaction = results[0];
+    if (viewerId !== undefined && !isAdmin && viewerId !== transaction.buyer_id && viewerId !== transaction.seller_id) {
+      throw new ForbiddenError('Only the buyer or seller can view this transaction');
+    }
+
     return {
       ...transaction,
       amount: parseFloat(transaction.amount) // Convert numeric to number
     };
   } catch (error) {
-    console.error('Failed to get transaction by ID:', error);
+    logUnexpectedError('Failed to get transaction by ID:', error);
     throw error;
   }
 };
 
-export const getTransactionsByUserId = async (userId: number): Promise<Transaction[]> => {
+export const getTransactionsByUserId = async (
+  input: UserPageInput,
+  viewerId?: number,
+  isAdmin = false
+): Promise<TransactionPage> => {
   try {
-    const results = await db.select()
+    if (viewerId !== undefined && !isAdmin && viewerId !== input.userId) {
+      throw new ForbiddenError('Only the user can view their transactions');
+    }
+
+    // Purchases and sales together, newest first
+    const condition = or(
+      eq(transactionsTable.buyer_id, input.userId),
+      eq(transactionsTable.seller_id, input.userId)
+    );
+    const pager = keysetPaginator({ ts: transactionsTable.created_at, id: transactionsTable.id }, input);
+
+    const results = await db.select({ ...getTableColumns(transactionsTable), ...pager.cursorColumns })
       .from(transactionsTable)
-      .where(
-        or(
-          eq(transactionsTable.buyer_id, userId),
-          eq(transactionsTable.seller_id, userId)
-        )
-      )
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
       .execute();
 
-    return results.map(transaction => ({
-      ...transaction,
-      amount: parseFloat(transaction.amount) // Convert numeric to number
-    }));
+    const page = pager.toPage(results, await estimateTotal(transactionsTable, condition));
+
+    return {
+      ...page,
+      items: page.items.map(transaction => ({
+        ...transaction,
+        amount: parseFloat(transaction.amount) // Convert numeric to number
+      }))
+    };
   } catch (error) {
-    console.error('Failed to get transactions by user ID:', error);
+    logUnexpectedError('Failed to get transactions by user ID:', error);
     throw error;
   }
 };
 
-export const getTransactionsByListingId = async (listingId: number): Promise<Transaction[]> => {
+// A buyer sees their own purchases of the listing, its seller sees them all
+export const getTransactionsByListingId = async (
+  input: ListingTransactionsInput,
+  viewerId?: number,
+  isAdmin = false
+): Promise<TransactionPage> => {
   try {
-    const results = await db.select()
+    const condition = and(
+      eq(transactionsTable.listing_id, input.listingId),
+      viewerId !== undefined && !isAdmin
+        ? or(eq(transactionsTable.buyer_id, viewerId), eq(transactionsTable.seller_id, viewerId))
+        : undefined
+    );
+    const pager = keysetPaginator({ ts: transactionsTable.created_at, id: transactionsTable.id }, input);
+
+    const results = await db.select({ ...getTableColumns(transactionsTable), ...pager.cursorColumns })
       .from(transactionsTable)
-      .where(eq(transactionsTable.listing_id, listingId))
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
       .execute();
 
-    return results.map(transaction => ({
-      ...transaction,
-      amount: parseFloat(transaction.amount) // Convert numeric to number
-    }));
+    const page = pager.toPage(results, await estimateTotal(transactionsTable, condition));
+
+    return {
+      ...page,
+      items: page.items.map(transaction => ({
+        ...transaction,
+        amount: parseFloat(transaction.amount) // Convert numeric to number
+      }))
+    };
   } catch (error) {
-    console.error('Failed to get transactions by listing ID:', error);
+    logUnexpectedError('Failed to get transactions by listing ID:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const getTransactionHistory = async (
+  input: TransactionHistoryInput,
+  actorId?: number,
+  isAdmin = false
+): Promise<TransactionEventPage> => {
+  try {
+    const { transactionId } = input;
+    const transactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, transactionId))
+      .limit(1)
+      .execute();
+
+    if (transactions.length === 0) {
+      throw new NotFoundError(`Transaction with ID ${transactionId} not found`);
+    }
+
+    // Only the two parties and support staff may read the history when called on behalf of a user
+    const transaction = transactions[0];
+    if (actorId !== undefined && !isAdmin && actorId !== transaction.buyer_id && actorId !== transaction.seller_id) {
+      throw new ForbiddenError('Only the buyer or seller can view this transaction history');
+    }
+
+    // Oldest first so the trail reads as a timeline
+    const condition = eq(transactionEventsTable.transaction_id, transactionId);
+    const pager = keysetPaginator(
+      { ts: transactionEventsTable.created_at, id: transactionEventsTable.id },
+      input,
+      'asc'
+    );
+
+    const results = await db.select({ ...getTableColumns(transactionEventsTable), ...pager.cursorColumns })
+      .from(transactionEventsTable)
+      .where(and(condition, pager.where))
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
+      .execute();
+
+    return pager.toPage(results, await estimateTotal(transactionEventsTable, condition));
+  } catch (error) {
+    logUnexpectedError('Failed to get transaction history:', error);
+    throw error;
+  }
+};
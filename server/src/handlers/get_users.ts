@@ -1,17 +1,25 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
-import { type User } from '../schema';
-import { eq, ilike } from 'drizzle-orm';
+import { type PageInput, type User, type UserListPage } from '../schema';
+import { estimateTotal, keysetPaginator } from '../lib/pagination';
+import { logUnexpectedError } from '../lib/errors';
+import { eq, ilike, getTableColumns } from 'drizzle-orm';
 
-export const getUsers = async (): Promise<User[]> => {
+export const getUsers = async (input: PageInput): Promise<UserListPage> => {
   try {
-    const results = await db.select()
+    // Oldest accounts first, so the directory order stays put as people sign up
+    const pager = keysetPaginator({ ts: usersTable.created_at, id: usersTable.id }, input, 'asc');
+
+    const results = await db.select({ ...getTableColumns(usersTable), ...pager.cursorColumns })
       .from(usersTable)
+      .where(pager.where)
+      .orderBy(...pager.orderBy)
+      .limit(pager.limit)
       .execute();
 
-    return results;
+    return pager.toPage(results, await estimateTotal(usersTable));
   } catch (error) {
-    console.error('Failed to fetch users:', error);
+    logUnexpectedError('Failed to fetch users:', error);
     throw error;
   }
 };
@@ -25,7 +33,7 @@ export const getUserById = async (id: number): Promise<User | null> => {
 
     return results[0] || null;
   } catch (error) {
-    console.error('Failed to fetch user by ID:', error);
+    logUnexpectedError('Failed to fetch user by ID:', error);
     throw error;
   }
 };
@@ -39,7 +47,7 @@ export const getUserByUsername = async (username: string): Promise<User | null>
 
     return results[0] || null;
   } catch (error) {
-    console.error('Failed to fetch user by username:', error);
+    logUnexpectedError('Failed to fetch user by username:', error);
     throw error;
   }
 };
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { likesTable, postsTable } from '../db/schema';
+import { logUnexpectedError } from '../lib/errors';
+import { scheduleRecurring } from '../lib/schedule';
+import { and, asc, inArray, isNotNull, isNull } from 'drizzle-orm';
+
+// Strips tombstoned posts down to what threads still need: their likes are removed and their
+// text and media cleared. Works through one batch per transaction and returns how many were purged.
+export const purgeDeletedPosts = async (batchSize = 200): Promise<number> => {
+  try {
+    let purged = 0;
+
+    while (true) {
+      const batchCount = await db.transaction(async (tx) => {
+        // Skip rows another purge run is already working on
+        const batch = await tx.select({ id: postsTable.id })
+          .from(postsTable)
+          .where(and(isNotNull(postsTable.deleted_at), isNull(postsTable.purged_at)))
+          .orderBy(asc(postsTable.id))
+          .limit(batchSize)
+          .for('update', { skipLocked: true })
+          .execute();
+        const ids = batch.map(post => post.id);
+
+        if (ids.length === 0) {
+          return 0;
+        }
+
+        await tx.delete(likesTable)
+          .where(inArray(likesTable.post_id, ids))
+          .execute();
+
+        await tx.update(postsTable)
+          .set({
+            content: '',
+            media_urls: null,
+            like_count: 0,
+            purged_at: new Date()
+          })
+          .where(inArray(postsTable.id, ids))
+          .execute();
+
+        return ids.length;
+      });
+
+      if (batchCount === 0) {
+        return purged;
+      }
+      purged += batchCount;
+    }
+  } catch (error) {
+    logUnexpectedError('Deleted post purge failed:', error);
+    throw error;
+  }
+};
+
+// Runs the purge every `intervalMs`. Returns a function that stops the schedule.
+export const scheduleDeletedPostPurge = (intervalMs: number, batchSize = 200): (() => void) =>
+  scheduleRecurring(intervalMs, async () => {
+    await purgeDeletedPosts(batchSize);
+  });
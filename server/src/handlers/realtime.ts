@@ -0,0 +1,33 @@
+import { getPubSub } from '../lib/pubsub';
+import { getUnreadNotificationCount } from './get_notifications';
+import { type Notification, type Post } from '../schema';
+
+export async function* onNotification(userId: number, signal?: AbortSignal): AsyncGenerator<Notification> {
+  yield* getPubSub().subscribe('notification', userId, signal);
+}
+
+export async function* onUnreadCountChanged(userId: number, signal?: AbortSignal): AsyncGenerator<number> {
+  const changes = getPubSub().subscribe('unreadCountChanged', userId, signal)[Symbol.asyncIterator]();
+
+  // Start listening before reading the count so a change in between is not lost
+  let nextChange = changes.next();
+
+  try {
+    yield await getUnreadNotificationCount(userId);
+
+    while (true) {
+      const change = await nextChange;
+      if (change.done) {
+        return;
+      }
+      nextChange = changes.next();
+      yield await getUnreadNotificationCount(userId);
+    }
+  } finally {
+    await changes.return?.();
+  }
+}
+
+export async function* onNewTimelinePosts(userId: number, signal?: AbortSignal): AsyncGenerator<Post> {
+  yield* getPubSub().subscribe('timelinePost', userId, signal);
+}
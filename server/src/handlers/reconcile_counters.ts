@@ -0,0 +1,186 @@
+import { db } from '../db';
+import { followsTable, likesTable, postsTable, reviewsTable, usersTable } from '../db/schema';
+import {
+  type CounterDrift,
+  type CounterReconciliationReport,
+  type CounterTable,
+  type ReconcileCountersInput
+} from '../schema';
+import { logUnexpectedError } from '../lib/errors';
+import { scheduleRecurring } from '../lib/schedule';
+import { asc, gt, inArray, sql, type SQL } from 'drizzle-orm';
+import { type AnyPgColumn, type PgTable } from 'drizzle-orm/pg-core';
+
+interface CounterGroup {
+  name: CounterTable;
+  table: PgTable;
+  id: AnyPgColumn;
+  // Each denormalized column and the query that recounts it from its source table for the current row
+  counters: Record<string, { column: AnyPgColumn; actual: SQL }>;
+}
+
+// Drizzle leaves columns unqualified in single-table queries, which would make the correlated
+// subqueries below compare against their own table, so owner ids are spelled out in full
+const ownerId = (table: PgTable) => sql`${table}.${sql.identifier('id')}`;
+
+const countWhere = (table: PgTable, column: string, owner: PgTable) =>
+  sql`(select count(*) from ${table} as counted where counted.${sql.identifier(column)} = ${ownerId(owner)})::int`;
+
+const sumWhere = (table: PgTable, summed: string, column: string, owner: PgTable) =>
+  sql`(select coalesce(sum(counted.${sql.identifier(summed)}), 0) from ${table} as counted where counted.${sql.identifier(column)} = ${ownerId(owner)})::int`;
+
+// Deleted posts stay in the table as tombstones but no longer count as posts, replies or reposts
+const countLivePostsWhere = (column: string, owner: PgTable) =>
+  sql`(select count(*) from ${postsTable} as counted where counted.${sql.identifier(column)} = ${ownerId(owner)} and counted.deleted_at is null)::int`;
+
+const COUNTER_GROUPS: CounterGroup[] = [
+  {
+    name: 'users',
+    table: usersTable,
+    id: usersTable.id,
+    counters: {
+      follower_count: {
+        column: usersTable.follower_count,
+        actual: countWhere(followsTable, 'following_id', usersTable)
+      },
+      following_count: {
+        column: usersTable.following_count,
+        actual: countWhere(followsTable, 'follower_id', usersTable)
+      },
+      post_count: {
+        column: usersTable.post_count,
+        actual: countLivePostsWhere('user_id', usersTable)
+      },
+      review_count: {
+        column: usersTable.review_count,
+        actual: countWhere(reviewsTable, 'reviewee_id', usersTable)
+      },
+      rating_sum: {
+        column: usersTable.rating_sum,
+        actual: sumWhere(reviewsTable, 'rating', 'reviewee_id', usersTable)
+      },
+    },
+  },
+  {
+    name: 'posts',
+    table: postsTable,
+    id: postsTable.id,
+    counters: {
+      like_count: {
+        column: postsTable.like_count,
+        actual: countWhere(likesTable, 'post_id', postsTable)
+      },
+      reply_count: {
+        column: postsTable.reply_count,
+        actual: countLivePostsWhere('parent_post_id', postsTable)
+      },
+      repost_count: {
+        column: postsTable.repost_count,
+        actual: countLivePostsWhere('repost_of_id', postsTable)
+      },
+    },
+  },
+];
+
+// How many drifts a report lists; the rest are only counted
+const MAX_DRIFT_SAMPLES = 100;
+
+const reconcileGroup = async (
+  group: CounterGroup,
+  input: ReconcileCountersInput,
+  report: CounterReconciliationReport
+): Promise<void> => {
+  let afterId = 0;
+
+  while (true) {
+    const batchIds = await db.transaction(async (tx) => {
+      // When fixing, lock the batch first: increments elsewhere take the same row lock, so the
+      // recount below sees every source row whose increment has already landed and none that hasn't
+      const batchQuery = tx.select({ id: sql<number>`${group.id}`.mapWith(Number) })
+        .from(group.table)
+        .where(gt(group.id, afterId))
+        .orderBy(asc(group.id))
+        .limit(input.batch_size);
+      const batch = await (input.fix ? batchQuery.for('update') : batchQuery).execute();
+      const ids = batch.map(row => row.id);
+
+      if (ids.length === 0) {
+        return ids;
+      }
+
+      const selection: Record<string, SQL | AnyPgColumn> = { id: group.id };
+      for (const [name, counter] of Object.entries(group.counters)) {
+        selection[`stored_${name}`] = counter.column;
+        selection[`actual_${name}`] = counter.actual;
+      }
+
+      const rows = await tx.select(selection)
+        .from(group.table)
+        .where(inArray(group.id, ids))
+        .execute() as Array<Record<string, unknown>>;
+
+      const drifts: CounterDrift[] = [];
+      for (const row of rows) {
+        for (const name of Object.keys(group.counters)) {
+          const stored = Number(row[`stored_${name}`]);
+          const actual = Number(row[`actual_${name}`]);
+          if (stored !== actual) {
+            drifts.push({ table: group.name, id: Number(row['id']), counter: name, stored, actual });
+          }
+        }
+      }
+
+      if (input.fix && drifts.length > 0) {
+        const driftedIds = [...new Set(drifts.map(drift => drift.id))];
+        const assignments = Object.entries(group.counters).map(([name, counter]) =>
+          sql`${sql.identifier(name)} = ${counter.actual}`
+        );
+
+        await tx.execute(sql`
+          update ${group.table}
+          set ${sql.join(assignments, sql`, `)}
+          where ${inArray(group.id, driftedIds)}
+        `);
+        report.fixed += drifts.length;
+      }
+
+      report.drifted += drifts.length;
+      report.samples.push(...drifts.slice(0, MAX_DRIFT_SAMPLES - report.samples.length));
+      return ids;
+    });
+
+    if (batchIds.length === 0) {
+      return;
+    }
+
+    report.checked += batchIds.length;
+    afterId = batchIds[batchIds.length - 1];
+  }
+};
+
+// Recomputes follower/following/post counts on users and like/reply/repost counts on posts from
+// the rows they summarize, one batch of owners per transaction so a long run never blocks writers
+// for more than a batch.
+export const reconcileCounters = async (input: ReconcileCountersInput): Promise<CounterReconciliationReport> => {
+  try {
+    const report: CounterReconciliationReport = { checked: 0, drifted: 0, fixed: 0, samples: [] };
+
+    for (const group of COUNTER_GROUPS) {
+      await reconcileGroup(group, input, report);
+    }
+
+    return report;
+  } catch (error) {
+    logUnexpectedError('Counter reconciliation failed:', error);
+    throw error;
+  }
+};
+
+// Runs a fixing reconciliation every `intervalMs`. Returns a function that stops the schedule.
+export const scheduleCounterReconciliation = (intervalMs: number, batchSize = 500): (() => void) =>
+  scheduleRecurring(intervalMs, async () => {
+    const report = await reconcileCounters({ fix: true, batch_size: batchSize });
+    if (report.fixed > 0) {
+      console.warn(`Counter reconciliation fixed ${report.fixed} drifted counters`, report.samples);
+    }
+  });
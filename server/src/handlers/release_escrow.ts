@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { transactionsTable } from '../db/schema';
+import { updateTransactionStatus } from './create_transaction';
+import { escrowReleaseAfterMs } from '../lib/ledger';
+import { DomainError, logUnexpectedError } from '../lib/errors';
+import { scheduleRecurring } from '../lib/schedule';
+import { and, inArray, lte } from 'drizzle-orm';
+
+// Completes sales the buyer left unconfirmed for the whole release window, which pays the seller
+// out of escrow. Disputed sales wait for their dispute. Returns how many were completed.
+export const releaseOverdueEscrow = async (): Promise<number> => {
+  try {
+    const overdue = await db.select({ id: transactionsTable.id, status: transactionsTable.status })
+      .from(transactionsTable)
+      .where(and(
+        inArray(transactionsTable.status, ['shipped', 'delivered']),
+        lte(transactionsTable.updated_at, new Date(Date.now() - escrowReleaseAfterMs()))
+      ))
+      .execute();
+
+    let released = 0;
+    for (const transaction of overdue) {
+      try {
+        if (transaction.status === 'shipped') {
+          await updateTransactionStatus({ id: transaction.id, status: 'delivered', reason: 'Buyer did not confirm in time' });
+        }
+        await updateTransactionStatus({ id: transaction.id, status: 'completed', reason: 'Buyer did not confirm in time' });
+        released++;
+      } catch (error) {
+        // Disputed or completed by the buyer in the meantime
+        if (!(error instanceof DomainError)) {
+          throw error;
+        }
+      }
+    }
+
+    return released;
+  } catch (error) {
+    logUnexpectedError('Escrow release failed:', error);
+    throw error;
+  }
+};
+
+// Runs the release every `intervalMs`. Returns a function that stops the schedule.
+export const scheduleEscrowRelease = (intervalMs: number): (() => void) =>
+  scheduleRecurring(intervalMs, async () => {
+    await releaseOverdueEscrow();
+  });
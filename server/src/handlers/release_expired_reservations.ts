@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { listingsTable, transactionsTable } from '../db/schema';
+import { updateTransactionStatus } from './create_transaction';
+import { DomainError, logUnexpectedError } from '../lib/errors';
+import { scheduleRecurring } from '../lib/schedule';
+import { and, eq, isNotNull, lte } from 'drizzle-orm';
+
+// Cancels the checkouts whose listing hold ran out and frees those listings for other buyers.
+// Returns how many listings were released.
+export const releaseExpiredReservations = async (): Promise<number> => {
+  try {
+    const now = new Date();
+    const expiredHold = and(isNotNull(listingsTable.reserved_by), lte(listingsTable.reserved_until, now));
+
+    const abandoned = await db.select({ id: transactionsTable.id, listing_id: transactionsTable.listing_id })
+      .from(transactionsTable)
+      .innerJoin(listingsTable, and(
+        eq(transactionsTable.listing_id, listingsTable.id),
+        eq(transactionsTable.buyer_id, listingsTable.reserved_by)
+      ))
+      .where(and(expiredHold, eq(transactionsTable.status, 'pending')))
+      .execute();
+
+    // Cancelling releases the buyer's hold along with the checkout
+    const released = new Set<number>();
+    for (const transaction of abandoned) {
+      try {
+        await updateTransactionStatus({ id: transaction.id, status: 'cancelled', reason: 'Reservation expired' });
+        released.add(transaction.listing_id);
+      } catch (error) {
+        // Paid or cancelled by the buyer in the meantime
+        if (!(error instanceof DomainError)) {
+          throw error;
+        }
+      }
+    }
+
+    // Holds renewed while we were cancelling no longer match and are left alone
+    const freed = await db.update(listingsTable)
+      .set({ reserved_by: null, reserved_until: null })
+      .where(expiredHold)
+      .returning({ id: listingsTable.id })
+      .execute();
+    freed.forEach(listing => released.add(listing.id));
+
+    return released.size;
+  } catch (error) {
+    logUnexpectedError('Reservation release failed:', error);
+    throw error;
+  }
+};
+
+// Runs the release every `intervalMs`. Returns a function that stops the schedule.
+export const scheduleReservationRelease = (intervalMs: number): (() => void) =>
+  scheduleRecurring(intervalMs, async () => {
+    await releaseExpiredReservations();
+  });
@@ -0,0 +1,166 @@
+import { db } from '../db';
+import {
+  hashtagsTable,
+  listingColumns,
+  listingsTable,
+  postHashtagsTable,
+  postSearchDocument,
+  postsTable,
+  userSearchDocument,
+  usersTable
+} from '../db/schema';
+import { type Listing, type Post, type SearchInput, type SearchResults, type User } from '../schema';
+import { normalizeHashtag } from '../lib/post_entities';
+import { renderPost } from '../lib/posts';
+import { toTsQueryText } from '../lib/search';
+import { logUnexpectedError } from '../lib/errors';
+import { eq, and, desc, count, inArray, isNull, like, sql, type SQL } from 'drizzle-orm';
+
+interface SearchGroup<T> {
+  items: T[];
+  count: number;
+}
+
+const emptyGroup = <T>(): SearchGroup<T> => ({ items: [], count: 0 });
+
+const searchUsers = async (tsQuery: SQL, limit: number): Promise<SearchGroup<User>> => {
+  const document = userSearchDocument(usersTable);
+  const matches = sql`${document} @@ ${tsQuery}`;
+
+  const items = await db.select()
+    .from(usersTable)
+    .where(matches)
+    .orderBy(desc(sql`ts_rank(${document}, ${tsQuery})`), desc(usersTable.follower_count), desc(usersTable.id))
+    .limit(limit)
+    .execute();
+
+  const total = await db.select({ count: count() })
+    .from(usersTable)
+    .where(matches)
+    .execute();
+
+  return { items, count: total[0].count };
+};
+
+const searchPosts = async (tsQuery: SQL, limit: number): Promise<SearchGroup<Post>> => {
+  const document = postSearchDocument(postsTable);
+  // Tombstones keep their text until purged, so leave them out explicitly
+  const matches = and(sql`${document} @@ ${tsQuery}`, isNull(postsTable.deleted_at));
+
+  const items = await db.select()
+    .from(postsTable)
+    .where(matches)
+    .orderBy(desc(sql`ts_rank(${document}, ${tsQuery})`), desc(postsTable.id))
+    .limit(limit)
+    .execute();
+
+  const total = await db.select({ count: count() })
+    .from(postsTable)
+    .where(matches)
+    .execute();
+
+  return {
+    items: items.map(renderPost),
+    count: total[0].count
+  };
+};
+
+// "#bike" looks for posts tagged #bike (or any tag starting with "bike" in prefix mode), newest first
+const searchPostsByHashtag = async (tag: string, prefix: boolean, limit: number): Promise<SearchGroup<Post>> => {
+  const tagCondition = prefix
+    ? like(hashtagsTable.tag, `${tag.replace(/[\\%_]/g, '\\$&')}%`)
+    : eq(hashtagsTable.tag, tag);
+
+  // A post tagged with several matching tags still counts once
+  const matchingPostIds = db.selectDistinct({ post_id: postHashtagsTable.post_id })
+    .from(postHashtagsTable)
+    .innerJoin(hashtagsTable, eq(postHashtagsTable.hashtag_id, hashtagsTable.id))
+    .where(tagCondition);
+  const matches = inArray(postsTable.id, matchingPostIds);
+
+  const items = await db.select()
+    .from(postsTable)
+    .where(matches)
+    .orderBy(desc(postsTable.created_at), desc(postsTable.id))
+    .limit(limit)
+    .execute();
+
+  const total = await db.select({ count: count() })
+    .from(postsTable)
+    .where(matches)
+    .execute();
+
+  return {
+    items: items.map(renderPost),
+    count: total[0].count
+  };
+};
+
+const searchListingsGroup = async (tsQuery: SQL, limit: number): Promise<SearchGroup<Listing>> => {
+  const matches = and(
+    eq(listingsTable.is_active, true),
+    sql`${listingsTable.search_vector} @@ ${tsQuery}`
+  );
+
+  const items = await db.select(listingColumns)
+    .from(listingsTable)
+    .where(matches)
+    .orderBy(desc(sql`ts_rank(${listingsTable.search_vector}, ${tsQuery})`), desc(listingsTable.id))
+    .limit(limit)
+    .execute();
+
+  const total = await db.select({ count: count() })
+    .from(listingsTable)
+    .where(matches)
+    .execute();
+
+  return {
+    items: items.map(listing => ({
+      ...listing,
+      price: parseFloat(listing.price)
+    })),
+    count: total[0].count
+  };
+};
+
+export const search = async (input: SearchInput): Promise<SearchResults> => {
+  try {
+    const prefix = input.mode === 'prefix';
+    const queryText = toTsQueryText(input.query, prefix);
+    const results: SearchResults = {
+      users: emptyGroup(),
+      posts: emptyGroup(),
+      listings: emptyGroup(),
+    };
+
+    // Nothing but punctuation: there are no words to look for
+    if (!queryText) {
+      return results;
+    }
+
+    // Names are indexed unstemmed and bios stemmed, so users match either form of each word
+    const userQuery = sql`(to_tsquery('simple', ${queryText}) || to_tsquery('english', ${queryText}))`;
+    const textQuery = sql`to_tsquery('english', ${queryText})`;
+    const hashtagMatch = input.query.trim().match(/^#([\p{L}\p{N}_]+)/u);
+    const hashtag = hashtagMatch ? normalizeHashtag(hashtagMatch[1]) : null;
+
+    if (input.types.includes('users')) {
+      results.users = await searchUsers(userQuery, input.limit);
+    }
+
+    if (input.types.includes('posts')) {
+      results.posts = hashtag
+        ? await searchPostsByHashtag(hashtag, prefix, input.limit)
+        : await searchPosts(textQuery, input.limit);
+    }
+
+    if (input.types.includes('listings')) {
+      results.listings = await searchListingsGroup(textQuery, input.limit);
+    }
+
+    return results;
+  } catch (error) {
+    logUnexpectedError('Search failed:', error);
+    throw error;
+  }
+};
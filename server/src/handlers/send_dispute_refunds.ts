@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { disputesTable, type Dispute as DisputeRow } from '../db/schema';
+import { refundCapturedPayment } from './create_payment';
+import { logUnexpectedError } from '../lib/errors';
+import { scheduleRecurring } from '../lib/schedule';
+import { eq } from 'drizzle-orm';
+
+// Returns the buyer's money for a resolved dispute and clears its pending mark. The refund is
+// keyed on the dispute, so sending it again after a crash does not pay the buyer twice.
+export const sendDisputeRefund = async (dispute: DisputeRow): Promise<DisputeRow> => {
+  const amount = dispute.resolution === 'partial_refund' ? parseFloat(dispute.refund_amount!) : undefined;
+  await refundCapturedPayment(dispute.transaction_id, amount, `dispute:${dispute.id}`);
+
+  const updated = await db.update(disputesTable)
+    .set({ refund_pending: false, updated_at: new Date() })
+    .where(eq(disputesTable.id, dispute.id))
+    .returning()
+    .execute();
+
+  return updated[0];
+};
+
+// Sends the refunds of resolved disputes the provider did not take the first time. A refund that
+// fails again waits for the next run. Returns how many were sent.
+export const sendPendingDisputeRefunds = async (): Promise<number> => {
+  try {
+    const pending = await db.select()
+      .from(disputesTable)
+      .where(eq(disputesTable.refund_pending, true))
+      .execute();
+
+    let sent = 0;
+    for (const dispute of pending) {
+      try {
+        await sendDisputeRefund(dispute);
+        sent++;
+      } catch (error) {
+        logUnexpectedError(`Refund for dispute ${dispute.id} failed:`, error);
+      }
+    }
+
+    return sent;
+  } catch (error) {
+    logUnexpectedError('Sending dispute refunds failed:', error);
+    throw error;
+  }
+};
+
+// Runs the retry every `intervalMs`. Returns a function that stops the schedule.
+export const scheduleDisputeRefunds = (intervalMs: number): (() => void) =>
+  scheduleRecurring(intervalMs, async () => {
+    await sendPendingDisputeRefunds();
+  });
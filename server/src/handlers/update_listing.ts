@@ -1,9 +1,24 @@
-import { db } from '../db';
-import { listingsTable } from '../db/schema';
+import { db, type DbExecutor } from '../db';
+import { listingColumns, listingsTable } from '../db/schema';
 import { type UpdateListingInput, type Listing } from '../schema';
-import { eq } from 'drizzle-orm';
+import { ForbiddenError, NotFoundError, ValidationError, logUnexpectedError } from '../lib/errors';
+import { eq, and, sql } from 'drizzle-orm';
 
-export const updateListing = async (input: UpdateListingInput): Promise<Listing> => {
+// Takes a listing off sale; shared by sellers deactivating and listings selling out
+export const markListingInactive = async (executor: DbExecutor, id: number): Promise<boolean> => {
+  const result = await executor.update(listingsTable)
+    .set({
+      is_active: false,
+      updated_at: new Date()
+    })
+    .where(eq(listingsTable.id, id))
+    .returning({ id: listingsTable.id })
+    .execute();
+
+  return result.length > 0;
+};
+
+export const updateListing = async (input: UpdateListingInput, actorId?: number): Promise<Listing> => {
   try {
     // First verify the listing exists
     const existingListing = await db.select()
@@ -12,7 +27,19 @@ export const updateListing = async (input: UpdateListingInput): Promise<Listing>
       .execute();
 
     if (existingListing.length === 0) {
-      throw new Error(`Listing with id ${input.id} not found`);
+      throw new NotFoundError(`Listing with id ${input.id} not found`);
+    }
+
+    // Only the seller may edit a listing when called on behalf of a user
+    if (actorId !== undefined && existingListing[0].user_id !== actorId) {
+      throw new ForbiddenError('Only the seller can update this listing');
+    }
+
+    // A position needs both coordinates once the update is applied
+    const latitude = input.latitude !== undefined ? input.latitude : existingListing[0].latitude;
+    const longitude = input.longitude !== undefined ? input.longitude : existingListing[0].longitude;
+    if ((latitude === null) !== (longitude === null)) {
+      throw new ValidationError('Latitude and longitude must be provided together');
     }
 
     // Build update object with only provided fields
@@ -35,6 +62,12 @@ export const updateListing = async (input: UpdateListingInput): Promise<Listing>
     if (input.location !== undefined) {
       updateData.location = input.location;
     }
+    if (input.latitude !== undefined) {
+      updateData.latitude = input.latitude;
+    }
+    if (input.longitude !== undefined) {
+      updateData.longitude = input.longitude;
+    }
     if (input.media_urls !== undefined) {
       updateData.media_urls = input.media_urls;
     }
@@ -42,13 +75,30 @@ export const updateListing = async (input: UpdateListingInput): Promise<Listing>
       updateData.is_active = input.is_active;
     }
 
+    // Changing the quantity moves the unsold stock by the same amount, relative to the row as it
+    // is when written so payments in between are not lost. Units already sold cannot be unlisted.
+    const stockLeft = input.quantity !== undefined
+      ? sql`${listingsTable.quantity_available} + ${input.quantity} - ${listingsTable.quantity}`
+      : undefined;
+    if (input.quantity !== undefined) {
+      updateData.quantity = input.quantity;
+      updateData.quantity_available = stockLeft;
+    }
+
     // Update the listing
     const result = await db.update(listingsTable)
       .set(updateData)
-      .where(eq(listingsTable.id, input.id))
-      .returning()
+      .where(and(
+        eq(listingsTable.id, input.id),
+        stockLeft ? sql`${stockLeft} >= 0` : undefined
+      ))
+      .returning(listingColumns)
       .execute();
 
+    if (result.length === 0) {
+      throw new ValidationError('Quantity cannot be lower than the units already sold');
+    }
+
     // Convert numeric fields back to numbers before returning
     const listing = result[0];
     return {
@@ -56,12 +106,12 @@ export const updateListing = async (input: UpdateListingInput): Promise<Listing>
       price: parseFloat(listing.price) // Convert string back to number
     };
   } catch (error) {
-    console.error('Listing update failed:', error);
+    logUnexpectedError('Listing update failed:', error);
     throw error;
   }
 };
 
-export const deactivateListing = async (id: number): Promise<boolean> => {
+export const deactivateListing = async (id: number, actorId?: number): Promise<boolean> => {
   try {
     // First verify the listing exists
     const existingListing = await db.select()
@@ -70,22 +120,17 @@ export const deactivateListing = async (id: number): Promise<boolean> => {
       .execute();
 
     if (existingListing.length === 0) {
-      throw new Error(`Listing with id ${id} not found`);
+      throw new NotFoundError(`Listing with id ${id} not found`);
     }
 
-    // Update listing to inactive
-    const result = await db.update(listingsTable)
-      .set({
-        is_active: false,
-        updated_at: new Date()
-      })
-      .where(eq(listingsTable.id, id))
-      .returning()
-      .execute();
+    if (actorId !== undefined && existingListing[0].user_id !== actorId) {
+      throw new ForbiddenError('Only the seller can deactivate this listing');
+    }
 
-    return result.length > 0;
+    // Update listing to inactive
+    return await markListingInactive(db, id);
   } catch (error) {
-    console.error('Listing deactivation failed:', error);
+    logUnexpectedError('Listing deactivation failed:', error);
     throw error;
   }
 };
\ No newline at end of file
@@ -1,18 +1,32 @@
 import { db } from '../db';
-import { postsTable, usersTable } from '../db/schema';
+import { postsTable } from '../db/schema';
 import { type UpdatePostInput, type Post } from '../schema';
-import { eq, count } from 'drizzle-orm';
+import { dispatchEvent, transactional } from '../lib/events';
+import { syncPostEntities } from '../lib/post_entities';
+import { renderPost, softDeletePost } from '../lib/posts';
+import { ForbiddenError, NotFoundError, ValidationError, logUnexpectedError } from '../lib/errors';
+import { eq, and, isNull } from 'drizzle-orm';
 
-export const updatePost = async (input: UpdatePostInput): Promise<Post> => {
+export const updatePost = async (input: UpdatePostInput, actorId?: number): Promise<Post> => {
   try {
     // Check if post exists first
     const existingPost = await db.select()
       .from(postsTable)
-      .where(eq(postsTable.id, input.id))
+      .where(and(eq(postsTable.id, input.id), isNull(postsTable.deleted_at)))
       .execute();
 
     if (existingPost.length === 0) {
-      throw new Error('Post not found');
+      throw new NotFoundError('Post not found');
+    }
+
+    // Only the author may edit a post when called on behalf of a user
+    if (actorId !== undefined && existingPost[0].user_id !== actorId) {
+      throw new ForbiddenError('Only the author can update this post');
+    }
+
+    // Adding text would silently turn a plain repost into a quote
+    if (input.content !== undefined && existingPost[0].repost_of_id !== null && existingPost[0].content === '') {
+      throw new ValidationError('Plain reposts cannot be edited');
     }
 
     // Build update values object - only include fields that are provided
@@ -28,61 +42,65 @@ export const updatePost = async (input: UpdatePostInput): Promise<Post> => {
       updateValues.is_pinned = input.is_pinned;
     }
 
-    // Update post record
-    const result = await db.update(postsTable)
-      .set(updateValues)
-      .where(eq(postsTable.id, input.id))
-      .returning()
-      .execute();
+    // Update post record, re-linking mentions and hashtags when the text changed
+    const result = await transactional(async (tx) => {
+      const updated = await tx.update(postsTable)
+        .set(updateValues)
+        .where(eq(postsTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (input.content !== undefined) {
+        // Only users newly mentioned by the edit are notified
+        const mentionedUserIds = await syncPostEntities(tx, input.id, input.content);
+        for (const mentionedUserId of mentionedUserIds) {
+          await dispatchEvent({
+            type: 'post.mentioned',
+            actorId: existingPost[0].user_id,
+            postId: input.id,
+            mentionedUserId
+          }, tx);
+        }
+      }
+
+      return updated;
+    });
 
     // Return the updated post
-    const updatedPost = result[0];
-    return {
-      ...updatedPost,
-      media_urls: updatedPost.media_urls as string[] | null
-    };
+    return renderPost(result[0]);
   } catch (error) {
-    console.error('Post update failed:', error);
+    logUnexpectedError('Post update failed:', error);
     throw error;
   }
 };
 
-export const deletePost = async (id: number): Promise<boolean> => {
+export const deletePost = async (id: number, actorId?: number): Promise<boolean> => {
   try {
     // Check if post exists first
     const existingPost = await db.select()
       .from(postsTable)
-      .where(eq(postsTable.id, id))
+      .where(and(eq(postsTable.id, id), isNull(postsTable.deleted_at)))
       .execute();
 
     if (existingPost.length === 0) {
-      throw new Error('Post not found');
+      throw new NotFoundError('Post not found');
     }
 
     const post = existingPost[0];
 
-    // Delete the post record
-    await db.delete(postsTable)
-      .where(eq(postsTable.id, id))
-      .execute();
-
-    // Update user's post count
-    const postCountResult = await db.select({ count: count(postsTable.id) })
-      .from(postsTable)
-      .where(eq(postsTable.user_id, post.user_id))
-      .execute();
+    if (actorId !== undefined && post.user_id !== actorId) {
+      throw new ForbiddenError('Only the author can delete this post');
+    }
 
-    await db.update(usersTable)
-      .set({
-        post_count: postCountResult[0].count,
-        updated_at: new Date()
-      })
-      .where(eq(usersTable.id, post.user_id))
-      .execute();
+    // Leave a tombstone so replies keep their thread; likes and media go with the next purge
+    const deleted = await db.transaction(tx => softDeletePost(tx, post));
+    if (!deleted) {
+      throw new NotFoundError('Post not found');
+    }
 
     return true;
   } catch (error) {
-    console.error('Post deletion failed:', error);
+    logUnexpectedError('Post deletion failed:', error);
     throw error;
   }
 };
\ No newline at end of file
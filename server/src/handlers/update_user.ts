@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type UpdateUserInput, type User } from '../schema';
+import { NotFoundError, logUnexpectedError } from '../lib/errors';
 import { eq } from 'drizzle-orm';
 
 export const updateUser = async (input: UpdateUserInput): Promise<User> => {
@@ -12,7 +13,7 @@ export const updateUser = async (input: UpdateUserInput): Promise<User> => {
       .execute();
 
     if (existingUser.length === 0) {
-      throw new Error(`User with id ${input.id} not found`);
+      throw new NotFoundError(`User with id ${input.id} not found`);
     }
 
     // Build update object with only provided fields
@@ -41,7 +42,7 @@ export const updateUser = async (input: UpdateUserInput): Promise<User> => {
 
     return result[0];
   } catch (error) {
-    console.error('User update failed:', error);
+    logUnexpectedError('User update failed:', error);
     throw error;
   }
 };
\ No newline at end of file
@@ -1,24 +1,69 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { TRPC_ERROR_CODES_BY_KEY, type TRPC_ERROR_CODE_KEY } from '@trpc/server/rpc';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
-import { z } from 'zod';
+import { z, ZodError } from 'zod';
 
 // Import schemas
 import { 
+  pageInputSchema,
+  userPageInputSchema,
+  postRepliesInputSchema,
+  threadInputSchema,
+  listingTransactionsInputSchema,
+  transactionHistoryInputSchema,
+  notificationsInputSchema,
   createUserInputSchema, 
   updateUserInputSchema,
   createPostInputSchema,
   updatePostInputSchema,
+  homeTimelineInputSchema,
+  createRepostInputSchema,
+  hashtagPostsInputSchema,
+  trendingHashtagsInputSchema,
   createListingInputSchema,
   updateListingInputSchema,
+  searchListingsInputSchema,
+  listingQueryInputSchema,
+  userListingQueryInputSchema,
+  searchInputSchema,
   createFollowInputSchema,
   createLikeInputSchema,
   createTransactionInputSchema,
-  createNotificationInputSchema
+  updateTransactionStatusInputSchema,
+  updateTransactionDetailsInputSchema,
+  createOfferInputSchema,
+  respondToOfferInputSchema,
+  offersInputSchema,
+  payTransactionInputSchema,
+  refundTransactionInputSchema,
+  requestPayoutInputSchema,
+  updatePayoutStatusInputSchema,
+  openDisputeInputSchema,
+  respondToDisputeInputSchema,
+  resolveDisputeInputSchema,
+  disputesInputSchema,
+  createReviewInputSchema,
+  reviewsForUserInputSchema,
+  startConversationInputSchema,
+  sendMessageInputSchema,
+  conversationMessagesInputSchema,
+  loginInputSchema,
+  refreshSessionInputSchema,
+  reconcileCountersInputSchema
 } from './schema';
 
+// Domain errors
+import { DomainError, type DomainErrorCode } from './lib/errors';
+import { assertPaymentProviderConfigured, getPaymentProvider } from './lib/payments';
+
+// Import handlers - Auth
+import { createSession, refreshSession, deleteSession, getSessionUser } from './handlers/create_session';
+
 // Import handlers - Users
 import { createUser } from './handlers/create_user';
 import { getUsers, getUserById, getUserByUsername } from './handlers/get_users';
@@ -28,6 +73,11 @@ import { updateUser } from './handlers/update_user';
 import { createPost } from './handlers/create_post';
 import { getPosts, getPostById, getPostsByUserId, getPostReplies } from './handlers/get_posts';
 import { updatePost, deletePost } from './handlers/update_post';
+import { getThread } from './handlers/get_thread';
+import { getHomeTimeline } from './handlers/get_home_timeline';
+import { createRepost, deleteRepost } from './handlers/create_repost';
+import { getPostsByHashtag, getTrendingHashtags } from './handlers/get_hashtags';
+import { search } from './handlers/search';
 
 // Import handlers - Listings
 import { createListing } from './handlers/create_listing';
@@ -40,33 +90,151 @@ import { getFollowers, getFollowing, getFollowRelationship } from './handlers/ge
 import { createLike, deleteLike } from './handlers/create_like';
 
 // Import handlers - Transactions
-import { createTransaction, updateTransactionStatus } from './handlers/create_transaction';
-import { getTransactionById, getTransactionsByUserId, getTransactionsByListingId } from './handlers/get_transactions';
-
-// Import handlers - Notifications
-import { createNotification, markNotificationAsRead, markAllNotificationsAsRead } from './handlers/create_notification';
+import { createTransaction, updateTransactionStatus, updateTransactionDetails } from './handlers/create_transaction';
+import {
+  getTransactionById,
+  getTransactionsByUserId,
+  getTransactionsByListingId,
+  getTransactionHistory
+} from './handlers/get_transactions';
+
+// Import handlers - Payments
+import { payTransaction, refundTransaction, handlePaymentWebhook } from './handlers/create_payment';
+import { requestPayout, updatePayoutStatus } from './handlers/create_payout';
+import { getSellerBalance, getPayouts } from './handlers/get_payouts';
+import { scheduleEscrowRelease } from './handlers/release_escrow';
+import { scheduleDisputeRefunds } from './handlers/send_dispute_refunds';
+
+// Import handlers - Disputes
+import { openDispute, respondToDispute, resolveDispute } from './handlers/create_dispute';
+import { getDisputeById, getDisputes } from './handlers/get_disputes';
+
+// Import handlers - Maintenance
+import { reconcileCounters, scheduleCounterReconciliation } from './handlers/reconcile_counters';
+import { scheduleDeletedPostPurge } from './handlers/purge_deleted_posts';
+
+// Import handlers - Realtime subscriptions
+import { onNotification, onUnreadCountChanged, onNewTimelinePosts } from './handlers/realtime';
+
+// Import handlers - Offers
+import { createOffer, respondToOffer } from './handlers/create_offer';
+import { getOfferById, getOffers } from './handlers/get_offers';
+import { scheduleOfferExpiry } from './handlers/expire_offers';
+import { scheduleReservationRelease } from './handlers/release_expired_reservations';
+
+// Import handlers - Reviews
+import { createReview } from './handlers/create_review';
+import { getReviewsForUser, getSellerReputation } from './handlers/get_reviews';
+
+// Import handlers - Messaging
+import { startConversation, sendMessage, markConversationRead } from './handlers/create_message';
+import { getConversationMessages, getInbox } from './handlers/get_messages';
+
+// Import handlers - Notifications (created server-side by lib/events, not by clients)
+import { markNotificationAsRead, markAllNotificationsAsRead } from './handlers/create_notification';
 import { getNotificationsByUserId, getUnreadNotificationCount } from './handlers/get_notifications';
 
-const t = initTRPC.create({
+// Resolve the caller from a `Authorization: Bearer <access token>` header, or from the
+// `token` connection param for SSE subscriptions (EventSource cannot send headers)
+async function createContext({ req, info }: CreateHTTPContextOptions) {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : info.connectionParams?.['token'] ?? null;
+  const session = token ? await getSessionUser(token) : null;
+
+  return {
+    user: session?.user ?? null,
+    sessionId: session?.sessionId ?? null,
+  };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+// Domain errors thrown by handlers arrive here wrapped as INTERNAL_SERVER_ERROR; give them the
+// matching tRPC code and HTTP status, and expose their stable code as `data.domainCode`
+const TRPC_CODE_BY_DOMAIN_CODE: Record<DomainErrorCode, TRPC_ERROR_CODE_KEY> = {
+  NOT_FOUND: 'NOT_FOUND',
+  CONFLICT: 'CONFLICT',
+  FORBIDDEN: 'FORBIDDEN',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  VALIDATION_FAILED: 'BAD_REQUEST',
+  INVALID_STATE_TRANSITION: 'CONFLICT',
+};
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    if (error.cause instanceof DomainError) {
+      const code = TRPC_CODE_BY_DOMAIN_CODE[error.cause.code];
+      return {
+        ...shape,
+        code: TRPC_ERROR_CODES_BY_KEY[code],
+        data: {
+          ...shape.data,
+          code,
+          httpStatus: getHTTPStatusCodeFromError(new TRPCError({ code })),
+          domainCode: error.cause.code as DomainErrorCode | null,
+        },
+      };
+    }
+
+    // Input that fails its zod schema is a validation failure too
+    const domainCode: DomainErrorCode | null = error.code === 'BAD_REQUEST' && error.cause instanceof ZodError
+      ? 'VALIDATION_FAILED'
+      : null;
+    return { ...shape, data: { ...shape.data, domainCode } };
+  },
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
+// Procedures that act on behalf of a user take the actor from the session, never from the input
+const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user || ctx.sessionId === null) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { user: ctx.user, sessionId: ctx.sessionId } });
+});
+
+// Maintenance procedures for operators
+const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!ctx.user.is_admin) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' });
+  }
+  return next();
+});
+
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
+  // Auth routes
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(({ input }) => createSession(input)),
+
+  refresh: publicProcedure
+    .input(refreshSessionInputSchema)
+    .mutation(({ input }) => refreshSession(input)),
+
+  logout: protectedProcedure
+    .mutation(({ ctx }) => deleteSession(ctx.sessionId)),
+
+  me: protectedProcedure
+    .query(({ ctx }) => ctx.user),
+
   // User routes
   createUser: publicProcedure
     .input(createUserInputSchema)
     .mutation(({ input }) => createUser(input)),
 
   getUsers: publicProcedure
-    .query(() => getUsers()),
+    .input(pageInputSchema)
+    .query(({ input }) => getUsers(input)),
 
   getUserById: publicProcedure
     .input(z.object({ id: z.number() }))
@@ -76,148 +244,347 @@ const appRouter = router({
     .input(z.object({ username: z.string() }))
     .query(({ input }) => getUserByUsername(input.username)),
 
-  updateUser: publicProcedure
-    .input(updateUserInputSchema)
-    .mutation(({ input }) => updateUser(input)),
+  updateUser: protectedProcedure
+    .input(updateUserInputSchema.omit({ id: true }))
+    .mutation(({ input, ctx }) => updateUser({ ...input, id: ctx.user.id })),
 
   // Post routes
-  createPost: publicProcedure
-    .input(createPostInputSchema)
-    .mutation(({ input }) => createPost(input)),
+  createPost: protectedProcedure
+    .input(createPostInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createPost({ ...input, user_id: ctx.user.id })),
 
   getPosts: publicProcedure
-    .query(() => getPosts()),
+    .input(pageInputSchema)
+    .query(({ input }) => getPosts(input)),
+
+  getHomeTimeline: protectedProcedure
+    .input(homeTimelineInputSchema)
+    .query(({ input, ctx }) => getHomeTimeline(ctx.user.id, input)),
 
   getPostById: publicProcedure
     .input(z.object({ id: z.number() }))
     .query(({ input }) => getPostById(input.id)),
 
   getPostsByUserId: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getPostsByUserId(input.userId)),
+    .input(userPageInputSchema)
+    .query(({ input }) => getPostsByUserId(input)),
 
   getPostReplies: publicProcedure
-    .input(z.object({ postId: z.number() }))
-    .query(({ input }) => getPostReplies(input.postId)),
+    .input(postRepliesInputSchema)
+    .query(({ input }) => getPostReplies(input)),
+
+  getThread: publicProcedure
+    .input(threadInputSchema)
+    .query(({ input }) => getThread(input)),
 
-  updatePost: publicProcedure
+  getPostsByHashtag: publicProcedure
+    .input(hashtagPostsInputSchema)
+    .query(({ input }) => getPostsByHashtag(input)),
+
+  getTrendingHashtags: publicProcedure
+    .input(trendingHashtagsInputSchema)
+    .query(({ input }) => getTrendingHashtags(input)),
+
+  updatePost: protectedProcedure
     .input(updatePostInputSchema)
-    .mutation(({ input }) => updatePost(input)),
+    .mutation(({ input, ctx }) => updatePost(input, ctx.user.id)),
 
-  deletePost: publicProcedure
+  deletePost: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(({ input }) => deletePost(input.id)),
+    .mutation(({ input, ctx }) => deletePost(input.id, ctx.user.id)),
+
+  createRepost: protectedProcedure
+    .input(createRepostInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createRepost({ ...input, user_id: ctx.user.id })),
+
+  deleteRepost: protectedProcedure
+    .input(z.object({ postId: z.number() }))
+    .mutation(({ input, ctx }) => deleteRepost(ctx.user.id, input.postId)),
 
   // Listing routes
-  createListing: publicProcedure
-    .input(createListingInputSchema)
-    .mutation(({ input }) => createListing(input)),
+  createListing: protectedProcedure
+    .input(createListingInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createListing({ ...input, user_id: ctx.user.id })),
 
   getListings: publicProcedure
-    .query(() => getListings()),
+    .input(listingQueryInputSchema)
+    .query(({ input }) => getListings(input)),
 
   getListingById: publicProcedure
     .input(z.object({ id: z.number() }))
-    .query(({ input }) => getListingById(input.id)),
+    .query(({ input, ctx }) => getListingById(input.id, ctx.user?.id)),
 
   getListingsByUserId: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getListingsByUserId(input.userId)),
+    .input(userListingQueryInputSchema)
+    .query(({ input }) => getListingsByUserId(input)),
 
   searchListings: publicProcedure
-    .input(z.object({ 
-      query: z.string(),
-      category: z.string().optional(),
-      location: z.string().optional()
-    }))
-    .query(({ input }) => searchListings(input.query, input.category, input.location)),
-
-  updateListing: publicProcedure
+    .input(searchListingsInputSchema)
+    .query(({ input }) => searchListings(input)),
+
+  search: publicProcedure
+    .input(searchInputSchema)
+    .query(({ input }) => search(input)),
+
+  updateListing: protectedProcedure
     .input(updateListingInputSchema)
-    .mutation(({ input }) => updateListing(input)),
+    .mutation(({ input, ctx }) => updateListing(input, ctx.user.id)),
 
-  deactivateListing: publicProcedure
+  deactivateListing: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(({ input }) => deactivateListing(input.id)),
+    .mutation(({ input, ctx }) => deactivateListing(input.id, ctx.user.id)),
 
   // Social interaction routes
-  createFollow: publicProcedure
-    .input(createFollowInputSchema)
-    .mutation(({ input }) => createFollow(input)),
+  createFollow: protectedProcedure
+    .input(createFollowInputSchema.omit({ follower_id: true }))
+    .mutation(({ input, ctx }) => createFollow({ ...input, follower_id: ctx.user.id })),
 
-  deleteFollow: publicProcedure
-    .input(z.object({ followerId: z.number(), followingId: z.number() }))
-    .mutation(({ input }) => deleteFollow(input.followerId, input.followingId)),
+  deleteFollow: protectedProcedure
+    .input(z.object({ followingId: z.number() }))
+    .mutation(({ input, ctx }) => deleteFollow(ctx.user.id, input.followingId)),
 
   getFollowers: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getFollowers(input.userId)),
+    .input(userPageInputSchema)
+    .query(({ input }) => getFollowers(input)),
 
   getFollowing: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getFollowing(input.userId)),
+    .input(userPageInputSchema)
+    .query(({ input }) => getFollowing(input)),
 
   getFollowRelationship: publicProcedure
     .input(z.object({ followerId: z.number(), followingId: z.number() }))
     .query(({ input }) => getFollowRelationship(input.followerId, input.followingId)),
 
-  createLike: publicProcedure
-    .input(createLikeInputSchema)
-    .mutation(({ input }) => createLike(input)),
+  createLike: protectedProcedure
+    .input(createLikeInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createLike({ ...input, user_id: ctx.user.id })),
 
-  deleteLike: publicProcedure
-    .input(z.object({ userId: z.number(), postId: z.number() }))
-    .mutation(({ input }) => deleteLike(input.userId, input.postId)),
+  deleteLike: protectedProcedure
+    .input(z.object({ postId: z.number() }))
+    .mutation(({ input, ctx }) => deleteLike(ctx.user.id, input.postId)),
 
   // Transaction routes
-  createTransaction: publicProcedure
-    .input(createTransactionInputSchema)
-    .mutation(({ input }) => createTransaction(input)),
+  createTransaction: protectedProcedure
+    .input(createTransactionInputSchema.omit({ buyer_id: true }))
+    .mutation(({ input, ctx }) => createTransaction({ ...input, buyer_id: ctx.user.id })),
+
+  updateTransactionStatus: protectedProcedure
+    .input(updateTransactionStatusInputSchema)
+    .mutation(({ input, ctx }) => updateTransactionStatus(input, ctx.user.id)),
 
-  updateTransactionStatus: publicProcedure
-    .input(z.object({ id: z.number(), status: z.string() }))
-    .mutation(({ input }) => updateTransactionStatus(input.id, input.status)),
+  updateTransactionDetails: protectedProcedure
+    .input(updateTransactionDetailsInputSchema)
+    .mutation(({ input, ctx }) => updateTransactionDetails(input, ctx.user.id)),
 
-  getTransactionById: publicProcedure
+  getTransactionById: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .query(({ input }) => getTransactionById(input.id)),
+    .query(({ input, ctx }) => getTransactionById(input.id, ctx.user.id, ctx.user.is_admin)),
 
-  getTransactionsByUserId: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getTransactionsByUserId(input.userId)),
+  getTransactionsByUserId: protectedProcedure
+    .input(userPageInputSchema)
+    .query(({ input, ctx }) => getTransactionsByUserId(input, ctx.user.id, ctx.user.is_admin)),
 
-  getTransactionsByListingId: publicProcedure
-    .input(z.object({ listingId: z.number() }))
-    .query(({ input }) => getTransactionsByListingId(input.listingId)),
+  getTransactionsByListingId: protectedProcedure
+    .input(listingTransactionsInputSchema)
+    .query(({ input, ctx }) => getTransactionsByListingId(input, ctx.user.id, ctx.user.is_admin)),
 
-  // Notification routes
-  createNotification: publicProcedure
-    .input(createNotificationInputSchema)
-    .mutation(({ input }) => createNotification(input)),
+  getTransactionHistory: protectedProcedure
+    .input(transactionHistoryInputSchema)
+    .query(({ input, ctx }) => getTransactionHistory(input, ctx.user.id, ctx.user.is_admin)),
+
+  // Payment routes
+  payTransaction: protectedProcedure
+    .input(payTransactionInputSchema)
+    .mutation(({ input, ctx }) => payTransaction(input, ctx.user.id)),
+
+  refundTransaction: protectedProcedure
+    .input(refundTransactionInputSchema)
+    .mutation(({ input, ctx }) => refundTransaction(input, ctx.user.id)),
+
+  getSellerBalance: protectedProcedure
+    .query(({ ctx }) => getSellerBalance(ctx.user.id)),
+
+  requestPayout: protectedProcedure
+    .input(requestPayoutInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => requestPayout({ ...input, user_id: ctx.user.id })),
 
-  markNotificationAsRead: publicProcedure
+  getPayouts: protectedProcedure
+    .input(pageInputSchema)
+    .query(({ input, ctx }) => getPayouts(ctx.user.id, input)),
+
+  // Dispute routes
+  openDispute: protectedProcedure
+    .input(openDisputeInputSchema.omit({ buyer_id: true }))
+    .mutation(({ input, ctx }) => openDispute({ ...input, buyer_id: ctx.user.id })),
+
+  respondToDispute: protectedProcedure
+    .input(respondToDisputeInputSchema)
+    .mutation(({ input, ctx }) => respondToDispute(input, ctx.user.id)),
+
+  getDisputeById: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(({ input }) => markNotificationAsRead(input.id)),
+    .query(({ input, ctx }) => getDisputeById(input.id, ctx.user.id, ctx.user.is_admin)),
 
-  markAllNotificationsAsRead: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .mutation(({ input }) => markAllNotificationsAsRead(input.userId)),
+  // Offer routes
+  createOffer: protectedProcedure
+    .input(createOfferInputSchema.omit({ buyer_id: true }))
+    .mutation(({ input, ctx }) => createOffer({ ...input, buyer_id: ctx.user.id })),
 
-  getNotificationsByUserId: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getNotificationsByUserId(input.userId)),
+  respondToOffer: protectedProcedure
+    .input(respondToOfferInputSchema)
+    .mutation(({ input, ctx }) => respondToOffer(input, ctx.user.id)),
+
+  getOfferById: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input, ctx }) => getOfferById(input.id, ctx.user.id)),
+
+  getOffers: protectedProcedure
+    .input(offersInputSchema)
+    .query(({ input, ctx }) => getOffers(input, ctx.user.id)),
+
+  // Review routes
+  createReview: protectedProcedure
+    .input(createReviewInputSchema.omit({ reviewer_id: true }))
+    .mutation(({ input, ctx }) => createReview({ ...input, reviewer_id: ctx.user.id })),
+
+  getReviewsForUser: publicProcedure
+    .input(reviewsForUserInputSchema)
+    .query(({ input }) => getReviewsForUser(input)),
 
-  getUnreadNotificationCount: publicProcedure
+  getSellerReputation: publicProcedure
     .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getUnreadNotificationCount(input.userId)),
+    .query(({ input }) => getSellerReputation(input.userId)),
+
+  // Messaging routes
+  startConversation: protectedProcedure
+    .input(startConversationInputSchema.omit({ buyer_id: true }))
+    .mutation(({ input, ctx }) => startConversation({ ...input, buyer_id: ctx.user.id })),
+
+  sendMessage: protectedProcedure
+    .input(sendMessageInputSchema.omit({ sender_id: true }))
+    .mutation(({ input, ctx }) => sendMessage({ ...input, sender_id: ctx.user.id })),
+
+  getConversationMessages: protectedProcedure
+    .input(conversationMessagesInputSchema)
+    .query(({ input, ctx }) => getConversationMessages(input, ctx.user.id)),
+
+  markConversationRead: protectedProcedure
+    .input(z.object({ conversationId: z.number() }))
+    .mutation(({ input, ctx }) => markConversationRead(input.conversationId, ctx.user.id)),
+
+  getInbox: protectedProcedure
+    .input(pageInputSchema)
+    .query(({ input, ctx }) => getInbox(ctx.user.id, input)),
+
+  // Notification routes
+  markNotificationAsRead: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input, ctx }) => markNotificationAsRead(input.id, ctx.user.id)),
+
+  markAllNotificationsAsRead: protectedProcedure
+    .mutation(({ ctx }) => markAllNotificationsAsRead(ctx.user.id)),
+
+  getNotificationsByUserId: protectedProcedure
+    .input(notificationsInputSchema)
+    .query(({ input, ctx }) => getNotificationsByUserId(ctx.user.id, input)),
+
+  getUnreadNotificationCount: protectedProcedure
+    .query(({ ctx }) => getUnreadNotificationCount(ctx.user.id)),
+
+  // Admin routes
+  reconcileCounters: adminProcedure
+    .input(reconcileCountersInputSchema)
+    .mutation(({ input }) => reconcileCounters(input)),
+
+  updatePayoutStatus: adminProcedure
+    .input(updatePayoutStatusInputSchema)
+    .mutation(({ input }) => updatePayoutStatus(input)),
+
+  getDisputes: adminProcedure
+    .input(disputesInputSchema)
+    .query(({ input }) => getDisputes(input)),
+
+  resolveDispute: adminProcedure
+    .input(resolveDisputeInputSchema)
+    .mutation(({ input, ctx }) => resolveDispute(input, ctx.user.id)),
+
+  // Realtime subscriptions (server-sent events)
+  onNotification: protectedProcedure
+    .subscription(({ ctx, signal }) => onNotification(ctx.user.id, signal)),
+
+  onUnreadCountChanged: protectedProcedure
+    .subscription(({ ctx, signal }) => onUnreadCountChanged(ctx.user.id, signal)),
+
+  onNewTimelinePosts: protectedProcedure
+    .subscription(({ ctx, signal }) => onNewTimelinePosts(ctx.user.id, signal)),
 });
 
 export type AppRouter = typeof appRouter;
 
+// Payment provider webhooks are plain HTTP posts, served next to the tRPC API
+const PAYMENT_WEBHOOK_PATH = '/webhooks/payments';
+
+// Provider events are a few hundred bytes; anything far larger is not one
+const PAYMENT_WEBHOOK_MAX_BYTES = 16 * 1024;
+
+// Resolves with null once the body passes `limit`, without buffering the rest of it
+function readLimitedBody(req: IncomingMessage, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.off('data', onData);
+        req.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function servePaymentWebhook(req: IncomingMessage, res: ServerResponse) {
+  // Oversized bodies are turned away before they are buffered or their signature is computed
+  const declaredLength = Number(req.headers['content-length'] ?? 0);
+  const body = declaredLength > PAYMENT_WEBHOOK_MAX_BYTES ? null : await readLimitedBody(req, PAYMENT_WEBHOOK_MAX_BYTES);
+  if (body === null) {
+    res.statusCode = 413;
+    res.setHeader('Connection', 'close');
+    res.end(() => req.destroy());
+    return;
+  }
+
+  const signature = req.headers[getPaymentProvider().signatureHeader];
+
+  try {
+    await handlePaymentWebhook(body.toString('utf8'), typeof signature === 'string' ? signature : undefined);
+    res.statusCode = 200;
+  } catch (error) {
+    // The provider retries on failure, so the status is all it needs
+    const code = error instanceof DomainError ? TRPC_CODE_BY_DOMAIN_CODE[error.code] : 'INTERNAL_SERVER_ERROR';
+    res.statusCode = getHTTPStatusCodeFromError(new TRPCError({ code }));
+  }
+  res.end();
+}
+
 async function start() {
+  assertPaymentProviderConfigured();
+
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
+      if (req.method === 'POST' && req.url === PAYMENT_WEBHOOK_PATH) {
+        servePaymentWebhook(req, res).catch(next);
+        return;
+      }
+
       // Enable CORS for all routes
       cors({
         origin: process.env['CLIENT_URL'] || 'http://localhost:3000',
@@ -225,14 +592,50 @@ async function start() {
       })(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   
   server.listen(port);
+
+  // Repairs follower, post, like, reply, repost and review counts that drifted; 0 turns it off
+  const reconcileMinutes = Number(process.env['COUNTER_RECONCILIATION_INTERVAL_MINUTES'] ?? 60);
+  if (reconcileMinutes > 0) {
+    scheduleCounterReconciliation(reconcileMinutes * 60 * 1000);
+  }
+
+  // Drops likes and media of deleted posts; 0 turns it off
+  const purgeMinutes = Number(process.env['DELETED_POST_PURGE_INTERVAL_MINUTES'] ?? 10);
+  if (purgeMinutes > 0) {
+    scheduleDeletedPostPurge(purgeMinutes * 60 * 1000);
+  }
+
+  // Closes offers nobody answered in time; 0 turns it off
+  const offerExpiryMinutes = Number(process.env['OFFER_EXPIRY_INTERVAL_MINUTES'] ?? 5);
+  if (offerExpiryMinutes > 0) {
+    scheduleOfferExpiry(offerExpiryMinutes * 60 * 1000);
+  }
+
+  // Frees listings whose checkout hold ran out and cancels the abandoned checkouts; 0 turns it off
+  const reservationReleaseMinutes = Number(process.env['LISTING_RESERVATION_RELEASE_INTERVAL_MINUTES'] ?? 1);
+  if (reservationReleaseMinutes > 0) {
+    scheduleReservationRelease(reservationReleaseMinutes * 60 * 1000);
+  }
+
+  // Pays sellers out of escrow when buyers never confirm; 0 turns it off
+  const escrowReleaseMinutes = Number(process.env['ESCROW_RELEASE_INTERVAL_MINUTES'] ?? 60);
+  if (escrowReleaseMinutes > 0) {
+    scheduleEscrowRelease(escrowReleaseMinutes * 60 * 1000);
+  }
+
+  // Sends dispute refunds the payment provider failed to take; 0 turns it off
+  const disputeRefundMinutes = Number(process.env['DISPUTE_REFUND_RETRY_INTERVAL_MINUTES'] ?? 5);
+  if (disputeRefundMinutes > 0) {
+    scheduleDisputeRefunds(disputeRefundMinutes * 60 * 1000);
+  }
+
   console.log(`🚀 Amancores TRPC API server listening at port: ${port}`);
   console.log(`📚 Health check available at: http://localhost:${port}/healthcheck`);
+  console.log(`💳 Payment webhooks accepted at: http://localhost:${port}${PAYMENT_WEBHOOK_PATH}`);
 }
 
 start().catch((err) => {
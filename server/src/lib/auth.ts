@@ -0,0 +1,81 @@
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Access tokens are short-lived; refresh tokens keep the session alive
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface AccessTokenPayload {
+  sid: number; // session id
+  uid: number; // user id
+  exp: number; // expiry, ms since epoch
+}
+
+const getSessionSecret = (): string => {
+  const secret = process.env['SESSION_SECRET'];
+  if (secret) {
+    return secret;
+  }
+  if (process.env['NODE_ENV'] === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  return 'amancores-development-session-secret';
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const derived = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${derived.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const derived = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(derived, expected);
+};
+
+const sign = (value: string): string =>
+  createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+
+export const signAccessToken = (payload: AccessTokenPayload): string => {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+};
+
+// Returns null for malformed, tampered or expired tokens
+export const verifyAccessToken = (token: string): AccessTokenPayload | null => {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as AccessTokenPayload;
+    if (typeof payload.sid !== 'number' || typeof payload.uid !== 'number' || payload.exp <= Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+export const generateRefreshToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { conversationsTable, type Conversation } from '../db/schema';
+import { ForbiddenError, NotFoundError } from './errors';
+import { eq } from 'drizzle-orm';
+
+// Loads the conversation and checks that the user takes part in it
+export const getConversationForParticipant = async (conversationId: number, userId: number): Promise<Conversation> => {
+  const conversations = await db.select()
+    .from(conversationsTable)
+    .where(eq(conversationsTable.id, conversationId))
+    .execute();
+
+  if (conversations.length === 0) {
+    throw new NotFoundError(`Conversation with ID ${conversationId} not found`);
+  }
+
+  const conversation = conversations[0];
+  if (conversation.buyer_id !== userId && conversation.seller_id !== userId) {
+    throw new ForbiddenError('Only participants can access this conversation');
+  }
+
+  return conversation;
+};
@@ -0,0 +1,33 @@
+import { type DbExecutor } from '../db';
+import { disputesTable, type Transaction as TransactionRow } from '../db/schema';
+import { type TransactionStatus } from '../schema';
+import { eq, and, ne } from 'drizzle-orm';
+
+// Closes the transaction's unresolved dispute when a party settles it themselves: the seller
+// refunding gives the buyer everything back, the buyer completing lets the seller keep the money.
+// The status change itself tells the other party; disputes an admin resolved are already closed.
+export const settleDispute = async (
+  executor: DbExecutor,
+  transaction: TransactionRow,
+  status: TransactionStatus
+): Promise<void> => {
+  if (status !== 'refunded' && status !== 'completed') {
+    return;
+  }
+
+  const now = new Date();
+
+  await executor.update(disputesTable)
+    .set({
+      status: 'resolved',
+      resolution: status === 'refunded' ? 'full_refund' : 'release_to_seller',
+      refund_amount: status === 'refunded' ? transaction.amount : null,
+      resolved_at: now,
+      updated_at: now
+    })
+    .where(and(
+      eq(disputesTable.transaction_id, transaction.id),
+      ne(disputesTable.status, 'resolved')
+    ))
+    .execute();
+};
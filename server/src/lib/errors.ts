@@ -0,0 +1,55 @@
+// Expected failures of domain rules. Each class carries a stable code that reaches clients
+// through the tRPC error formatter, so callers can branch on it instead of parsing messages.
+export type DomainErrorCode =
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'FORBIDDEN'
+  | 'UNAUTHORIZED'
+  | 'VALIDATION_FAILED'
+  | 'INVALID_STATE_TRANSITION';
+
+export abstract class DomainError extends Error {
+  abstract readonly code: DomainErrorCode;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// The referenced record does not exist (or is not visible to the caller)
+export class NotFoundError extends DomainError {
+  readonly code = 'NOT_FOUND';
+}
+
+// The write collides with existing data or a concurrent change
+export class ConflictError extends DomainError {
+  readonly code = 'CONFLICT';
+}
+
+// The caller is known but may not act on this record
+export class ForbiddenError extends DomainError {
+  readonly code = 'FORBIDDEN';
+}
+
+// Credentials or tokens were rejected
+export class UnauthorizedError extends DomainError {
+  readonly code = 'UNAUTHORIZED';
+}
+
+// The input is well-formed but breaks a business rule
+export class ValidationError extends DomainError {
+  readonly code = 'VALIDATION_FAILED';
+}
+
+// The record's current state does not allow the requested change
+export class InvalidStateTransitionError extends DomainError {
+  readonly code = 'INVALID_STATE_TRANSITION';
+}
+
+// Handlers log failures before rethrowing; expected domain errors are not worth a log line
+export const logUnexpectedError = (context: string, error: unknown): void => {
+  if (!(error instanceof DomainError)) {
+    console.error(context, error);
+  }
+};
@@ -0,0 +1,442 @@
+import { db, type DbExecutor, type DbTransaction } from '../db';
+import { followsTable, notificationsTable, usersTable, type Notification } from '../db/schema';
+import { type DisputeResolution, type OfferAction, type Post, type TransactionStatus } from '../schema';
+import { getPubSub, type RealtimeTopic, type RealtimeTopics } from './pubsub';
+import { eq, and, desc, type SQL } from 'drizzle-orm';
+
+// Domain events published by handlers. Each one may fan out into notifications and realtime pushes.
+export type DomainEvent =
+  | { type: 'post.created'; post: Post }
+  | { type: 'post.liked'; actorId: number; postId: number; postAuthorId: number }
+  | { type: 'post.unliked'; actorId: number; postId: number; postAuthorId: number }
+  | { type: 'post.replied'; actorId: number; replyId: number; parentAuthorId: number }
+  | { type: 'post.mentioned'; actorId: number; postId: number; mentionedUserId: number }
+  | { type: 'post.reposted'; actorId: number; repostId: number; originalPostId: number; originalAuthorId: number; isQuote: boolean }
+  | { type: 'user.followed'; actorId: number; followingId: number }
+  | { type: 'transaction.created'; actorId: number; transactionId: number; sellerId: number }
+  | { type: 'review.created'; actorId: number; reviewId: number; revieweeId: number; rating: number }
+  | { type: 'message.sent'; actorId: number; conversationId: number; recipientId: number }
+  | { type: 'offer.changed'; actorId: number; offerId: number; recipientId: number; action: 'create' | OfferAction; amount: string }
+  | { type: 'dispute.changed'; actorId: number; disputeId: number; transactionId: number; buyerId: number; sellerId: number; action: 'open' | 'respond' }
+  | { type: 'dispute.resolved'; actorId: number; disputeId: number; transactionId: number; buyerId: number; sellerId: number; resolution: DisputeResolution }
+  | {
+      type: 'transaction.status_changed';
+      actorId: number | null; // null when the change came from the system
+      transactionId: number;
+      buyerId: number;
+      sellerId: number;
+      status: TransactionStatus;
+    };
+
+type NotificationType = 'like' | 'follow' | 'mention' | 'reply' | 'repost' | 'transaction' | 'review' | 'message' | 'offer' | 'dispute';
+
+interface NotificationDraft {
+  user_id: number;
+  type: NotificationType;
+  title: string;
+  related_id: number | null;
+  actor_id: number | null;
+  // Either a fixed message, or a verb phrase that follows the (aggregated) actor names
+  message?: string;
+  action?: string;
+  aggregate?: boolean; // fold into an unread notification about the same target
+  retract?: boolean; // take the actor back out of that aggregated notification instead
+}
+
+const STATUS_NOTIFICATION_TITLES: Record<TransactionStatus, string> = {
+  pending: 'Order placed',
+  paid: 'Order paid',
+  shipped: 'Order shipped',
+  delivered: 'Order delivered',
+  completed: 'Order completed',
+  cancelled: 'Order cancelled',
+  refunded: 'Order refunded',
+  disputed: 'Order disputed',
+};
+
+const OFFER_NOTIFICATIONS: Record<'create' | OfferAction, { title: string; action: string }> = {
+  create: { title: 'New offer', action: 'made an offer of' },
+  counter: { title: 'Counter offer', action: 'countered with' },
+  accept: { title: 'Offer accepted', action: 'accepted the offer of' },
+  decline: { title: 'Offer declined', action: 'declined the offer of' },
+  withdraw: { title: 'Offer withdrawn', action: 'withdrew the offer of' },
+};
+
+const DISPUTE_NOTIFICATIONS: Record<'open' | 'respond', { title: string; action: string }> = {
+  open: { title: 'Dispute opened', action: 'opened a dispute on transaction' },
+  respond: { title: 'Dispute answered', action: 'responded to the dispute on transaction' },
+};
+
+const DISPUTE_RESOLUTION_MESSAGES: Record<DisputeResolution, string> = {
+  full_refund: 'the buyer is refunded in full',
+  partial_refund: 'the buyer is partly refunded',
+  release_to_seller: 'the payment goes to the seller',
+};
+
+// "alice", "alice and 1 other", "alice and 4 others"
+const describeActors = (username: string, count: number): string => {
+  if (count <= 1) {
+    return username;
+  }
+  const others = count - 1;
+  return `${username} and ${others} ${others === 1 ? 'other' : 'others'}`;
+};
+
+// Realtime messages wait for the surrounding transaction to commit, so subscribers never
+// see rows that end up rolled back. Transactions opened via `transactional` register here.
+const pendingPublishes = new WeakMap<object, Array<() => Promise<void>>>();
+
+const runPublishes = async (publishes: Array<() => Promise<void>>): Promise<void> => {
+  for (const publish of publishes) {
+    try {
+      await publish();
+    } catch (error) {
+      // The write already committed; a missed push only delays the client until its next fetch
+      console.error('Realtime publish failed:', error);
+    }
+  }
+};
+
+export const transactional = async <T>(fn: (tx: DbTransaction) => Promise<T>): Promise<T> => {
+  const pending: Array<() => Promise<void>> = [];
+  const result = await db.transaction(async (tx) => {
+    pendingPublishes.set(tx, pending);
+    return fn(tx);
+  });
+  await runPublishes(pending);
+  return result;
+};
+
+export const publishRealtime = async <T extends RealtimeTopic>(
+  topic: T,
+  key: number,
+  payload: RealtimeTopics[T],
+  executor: DbExecutor = db
+): Promise<void> => {
+  const publish = () => getPubSub().publish(topic, key, payload);
+  const pending = pendingPublishes.get(executor);
+  if (pending) {
+    pending.push(publish);
+  } else {
+    await runPublishes([publish]);
+  }
+};
+
+const buildNotifications = (event: DomainEvent): NotificationDraft[] => {
+  switch (event.type) {
+    case 'post.created':
+      return [];
+    case 'post.liked':
+      return [{
+        user_id: event.postAuthorId,
+        type: 'like',
+        title: 'New like',
+        action: 'liked your post',
+        related_id: event.postId,
+        actor_id: event.actorId,
+        aggregate: true,
+      }];
+    case 'post.unliked':
+      return [{
+        user_id: event.postAuthorId,
+        type: 'like',
+        title: 'New like',
+        action: 'liked your post',
+        related_id: event.postId,
+        actor_id: event.actorId,
+        aggregate: true,
+        retract: true,
+      }];
+    case 'post.replied':
+      return [{
+        user_id: event.parentAuthorId,
+        type: 'reply',
+        title: 'New reply',
+        action: 'replied to your post',
+        related_id: event.replyId,
+        actor_id: event.actorId,
+      }];
+    case 'post.mentioned':
+      return [{
+        user_id: event.mentionedUserId,
+        type: 'mention',
+        title: 'New mention',
+        action: 'mentioned you in a post',
+        related_id: event.postId,
+        actor_id: event.actorId,
+      }];
+    case 'post.reposted':
+      // Plain reposts aggregate on the original; quotes point at the quote itself
+      return [event.isQuote
+        ? {
+            user_id: event.originalAuthorId,
+            type: 'repost',
+            title: 'New quote',
+            action: 'quoted your post',
+            related_id: event.repostId,
+            actor_id: event.actorId,
+          }
+        : {
+            user_id: event.originalAuthorId,
+            type: 'repost',
+            title: 'New repost',
+            action: 'reposted your post',
+            related_id: event.originalPostId,
+            actor_id: event.actorId,
+            aggregate: true,
+          }];
+    case 'user.followed':
+      return [{
+        user_id: event.followingId,
+        type: 'follow',
+        title: 'New follower',
+        action: 'started following you',
+        related_id: event.actorId,
+        actor_id: event.actorId,
+      }];
+    case 'transaction.created':
+      return [{
+        user_id: event.sellerId,
+        type: 'transaction',
+        title: 'New order',
+        message: `You have a new order (transaction #${event.transactionId})`,
+        related_id: event.transactionId,
+        actor_id: event.actorId,
+      }];
+    case 'review.created':
+      return [{
+        user_id: event.revieweeId,
+        type: 'review',
+        title: 'New review',
+        action: `left you a ${event.rating}-star review`,
+        related_id: event.reviewId,
+        actor_id: event.actorId,
+      }];
+    case 'message.sent':
+      // One unread notification per conversation, however many messages arrive
+      return [{
+        user_id: event.recipientId,
+        type: 'message',
+        title: 'New message',
+        action: 'sent you a message',
+        related_id: event.conversationId,
+        actor_id: event.actorId,
+        aggregate: true,
+      }];
+    case 'offer.changed': {
+      const { title, action } = OFFER_NOTIFICATIONS[event.action];
+      return [{
+        user_id: event.recipientId,
+        type: 'offer',
+        title,
+        action: `${action} ${event.amount}`,
+        related_id: event.offerId,
+        actor_id: event.actorId,
+      }];
+    }
+    case 'dispute.changed': {
+      // The other party hears about each step
+      const { title, action } = DISPUTE_NOTIFICATIONS[event.action];
+      return [{
+        user_id: event.actorId === event.buyerId ? event.sellerId : event.buyerId,
+        type: 'dispute',
+        title,
+        action: `${action} #${event.transactionId}`,
+        related_id: event.disputeId,
+        actor_id: event.actorId,
+      }];
+    }
+    case 'dispute.resolved':
+      return [event.buyerId, event.sellerId].map(userId => ({
+        user_id: userId,
+        type: 'dispute' as const,
+        title: 'Dispute resolved',
+        message: `Dispute on transaction #${event.transactionId} resolved: ${DISPUTE_RESOLUTION_MESSAGES[event.resolution]}`,
+        related_id: event.disputeId,
+        actor_id: event.actorId,
+      }));
+    case 'transaction.status_changed': {
+      // Tell the other party, or both parties when the change came from the system
+      const recipients = event.actorId === event.buyerId
+        ? [event.sellerId]
+        : event.actorId === event.sellerId
+          ? [event.buyerId]
+          : [event.buyerId, event.sellerId];
+
+      return recipients.map(userId => ({
+        user_id: userId,
+        type: 'transaction' as const,
+        title: STATUS_NOTIFICATION_TITLES[event.status],
+        message: `Transaction #${event.transactionId} is now ${event.status}`,
+        related_id: event.transactionId,
+        actor_id: event.actorId,
+      }));
+    }
+  }
+};
+
+const loadActorName = async (executor: DbExecutor, actorId: number): Promise<string> => {
+  const actor = await executor.select({ username: usersTable.username })
+    .from(usersTable)
+    .where(eq(usersTable.id, actorId))
+    .execute();
+  return actor[0]?.username ?? 'Someone';
+};
+
+const sameTargetConditions = (draft: NotificationDraft): SQL[] => {
+  const conditions = [
+    eq(notificationsTable.user_id, draft.user_id),
+    eq(notificationsTable.type, draft.type),
+    eq(notificationsTable.is_read, false),
+  ];
+  if (draft.related_id !== null) {
+    conditions.push(eq(notificationsTable.related_id, draft.related_id));
+  }
+  return conditions;
+};
+
+// Locked, so concurrent actors on the same target fold in one after the other
+const findAggregate = async (executor: DbExecutor, sameTarget: SQL[]): Promise<Notification | null> => {
+  const existing = await executor.select()
+    .from(notificationsTable)
+    .where(and(...sameTarget))
+    .orderBy(desc(notificationsTable.created_at))
+    .limit(1)
+    .for('update')
+    .execute();
+  return existing[0] ?? null;
+};
+
+// Returns the inserted or updated notification, or null when nothing was delivered
+const deliver = async (executor: DbExecutor, draft: NotificationDraft): Promise<Notification | null> => {
+  // Nobody needs to hear about their own actions
+  if (draft.actor_id !== null && draft.actor_id === draft.user_id) {
+    return null;
+  }
+
+  const actorName = draft.actor_id !== null && draft.action ? await loadActorName(executor, draft.actor_id) : '';
+  const sameTarget = sameTargetConditions(draft);
+
+  if (draft.aggregate) {
+    const existing = await findAggregate(executor, sameTarget);
+
+    if (existing) {
+      // Actors already folded in, including one who comes back after an unlike, add nothing
+      if (draft.actor_id === null || existing.actor_ids.includes(draft.actor_id)) {
+        return null;
+      }
+
+      const actorIds = [...existing.actor_ids, draft.actor_id];
+      const updated = await executor.update(notificationsTable)
+        .set({
+          actor_id: draft.actor_id,
+          actor_ids: actorIds,
+          actor_count: actorIds.length,
+          message: `${describeActors(actorName, actorIds.length)} ${draft.action}`,
+          created_at: new Date() // resurface at the top of the list
+        })
+        .where(eq(notificationsTable.id, existing.id))
+        .returning()
+        .execute();
+      return updated[0];
+    }
+  } else if (draft.actor_id !== null) {
+    // Drop exact repeats that are still unread, e.g. follow/unfollow/follow. Different news
+    // about the same target, such as a counter offer followed by an acceptance, still goes out.
+    const duplicate = await executor.select({ id: notificationsTable.id })
+      .from(notificationsTable)
+      .where(and(
+        ...sameTarget,
+        eq(notificationsTable.actor_id, draft.actor_id),
+        eq(notificationsTable.message, draft.message ?? `${actorName} ${draft.action}`)
+      ))
+      .limit(1)
+      .execute();
+
+    if (duplicate.length > 0) {
+      return null;
+    }
+  }
+
+  const inserted = await executor.insert(notificationsTable)
+    .values({
+      user_id: draft.user_id,
+      type: draft.type,
+      title: draft.title,
+      message: draft.message ?? `${actorName} ${draft.action}`,
+      related_id: draft.related_id,
+      actor_id: draft.actor_id,
+      actor_ids: draft.actor_id === null ? [] : [draft.actor_id],
+    })
+    .returning()
+    .execute();
+  return inserted[0];
+};
+
+// Undoes the actor's part in the unread aggregated notification, naming the latest remaining
+// actor again; the notification goes away with its last actor. Returns whether anything changed.
+const retract = async (executor: DbExecutor, draft: NotificationDraft): Promise<boolean> => {
+  const existing = await findAggregate(executor, sameTargetConditions(draft));
+  if (!existing || draft.actor_id === null || !existing.actor_ids.includes(draft.actor_id)) {
+    return false;
+  }
+
+  const actorIds = existing.actor_ids.filter(id => id !== draft.actor_id);
+  if (actorIds.length === 0) {
+    await executor.delete(notificationsTable)
+      .where(eq(notificationsTable.id, existing.id))
+      .execute();
+    return true;
+  }
+
+  const latestActorId = actorIds[actorIds.length - 1];
+  const actorName = await loadActorName(executor, latestActorId);
+  await executor.update(notificationsTable)
+    .set({
+      actor_id: latestActorId,
+      actor_ids: actorIds,
+      actor_count: actorIds.length,
+      message: `${describeActors(actorName, actorIds.length)} ${draft.action}`,
+    })
+    .where(eq(notificationsTable.id, existing.id))
+    .execute();
+  return true;
+};
+
+// New top-level posts go to the author and everyone following them
+const fanOutTimeline = async (executor: DbExecutor, post: Post): Promise<void> => {
+  if (post.parent_post_id !== null) {
+    return;
+  }
+
+  const followers = await executor.select({ id: followsTable.follower_id })
+    .from(followsTable)
+    .where(eq(followsTable.following_id, post.user_id))
+    .execute();
+
+  for (const userId of [post.user_id, ...followers.map(f => f.id)]) {
+    await publishRealtime('timelinePost', userId, post, executor);
+  }
+};
+
+// Pass the open transaction so notifications commit or roll back with the action that caused them
+export const dispatchEvent = async (event: DomainEvent, executor: DbExecutor = db): Promise<void> => {
+  for (const draft of buildNotifications(event)) {
+    if (draft.retract) {
+      if (await retract(executor, draft)) {
+        await publishRealtime('unreadCountChanged', draft.user_id, null, executor);
+      }
+      continue;
+    }
+
+    const notification = await deliver(executor, draft);
+    if (notification) {
+      await publishRealtime('notification', notification.user_id, notification, executor);
+      await publishRealtime('unreadCountChanged', notification.user_id, null, executor);
+    }
+  }
+
+  if (event.type === 'post.created') {
+    await fanOutTimeline(executor, event.post);
+  }
+};
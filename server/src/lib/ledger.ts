@@ -0,0 +1,172 @@
+import { type DbExecutor } from '../db';
+import {
+  ledgerAccountsTable,
+  ledgerEntriesTable,
+  ledgerJournalsTable,
+  type LedgerAccount,
+  type LedgerJournal,
+  type Transaction as TransactionRow
+} from '../db/schema';
+import { type TransactionStatus } from '../schema';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+
+type LedgerAccountType = LedgerAccount['type'];
+
+// The platform's cut of every sale, in percent of what escrow releases
+export const platformFeePercent = (): number =>
+  Number(process.env['PLATFORM_FEE_PERCENT'] ?? 5);
+
+// How long a shipped sale waits for the buyer to confirm before escrow pays the seller anyway
+export const escrowReleaseAfterMs = (): number =>
+  Number(process.env['ESCROW_RELEASE_AFTER_DAYS'] ?? 14) * 24 * 60 * 60 * 1000;
+
+// Money is booked in whole cents so fee splits never drift
+export const toCents = (amount: string | number): number => Math.round(Number(amount) * 100);
+
+export const fromCents = (cents: number): string => (cents / 100).toFixed(2);
+
+// Finds or opens the account; platform accounts have no user
+export const ledgerAccount = async (
+  executor: DbExecutor,
+  type: LedgerAccountType,
+  userId: number | null,
+  currency: string
+): Promise<number> => {
+  const inserted = await executor.insert(ledgerAccountsTable)
+    .values({ type, user_id: userId, currency })
+    .onConflictDoNothing()
+    .returning({ id: ledgerAccountsTable.id })
+    .execute();
+
+  if (inserted.length > 0) {
+    return inserted[0].id;
+  }
+
+  const existing = await executor.select({ id: ledgerAccountsTable.id })
+    .from(ledgerAccountsTable)
+    .where(and(
+      eq(ledgerAccountsTable.type, type),
+      userId === null ? isNull(ledgerAccountsTable.user_id) : eq(ledgerAccountsTable.user_id, userId),
+      eq(ledgerAccountsTable.currency, currency)
+    ))
+    .execute();
+
+  return existing[0].id;
+};
+
+export const accountBalanceCents = async (executor: DbExecutor, accountId: number): Promise<number> => {
+  const result = await executor.select({ total: sql<string | null>`sum(${ledgerEntriesTable.amount})` })
+    .from(ledgerEntriesTable)
+    .where(eq(ledgerEntriesTable.account_id, accountId))
+    .execute();
+
+  return toCents(result[0].total ?? 0);
+};
+
+interface Posting {
+  accountId: number;
+  cents: number;
+}
+
+// Books one money movement. Every journal must balance to zero, so money is only ever moved
+// between accounts, never created or lost.
+export const postJournal = async (
+  executor: DbExecutor,
+  journal: Pick<LedgerJournal, 'kind'> & Partial<Pick<LedgerJournal, 'transaction_id' | 'payout_id'>>,
+  postings: Posting[]
+): Promise<void> => {
+  if (postings.reduce((sum, posting) => sum + posting.cents, 0) !== 0) {
+    throw new Error(`Ledger journal ${journal.kind} does not balance`);
+  }
+
+  const inserted = await executor.insert(ledgerJournalsTable)
+    .values(journal)
+    .returning({ id: ledgerJournalsTable.id })
+    .execute();
+
+  await executor.insert(ledgerEntriesTable)
+    .values(postings
+      .filter(posting => posting.cents !== 0)
+      .map(posting => ({
+        journal_id: inserted[0].id,
+        account_id: posting.accountId,
+        amount: fromCents(posting.cents)
+      })))
+    .execute();
+};
+
+// What escrow still holds for the transaction
+const escrowHeldCents = async (executor: DbExecutor, escrowId: number, transactionId: number): Promise<number> => {
+  const result = await executor.select({ total: sql<string | null>`sum(${ledgerEntriesTable.amount})` })
+    .from(ledgerEntriesTable)
+    .innerJoin(ledgerJournalsTable, eq(ledgerEntriesTable.journal_id, ledgerJournalsTable.id))
+    .where(and(
+      eq(ledgerEntriesTable.account_id, escrowId),
+      eq(ledgerJournalsTable.transaction_id, transactionId)
+    ))
+    .execute();
+
+  return toCents(result[0].total ?? 0);
+};
+
+// Books the money side of a transaction status change: payment goes into escrow, completion
+// releases it to the seller minus the platform fee, a refund returns it to the buyer.
+export const moveTransactionFunds = async (
+  executor: DbExecutor,
+  transaction: TransactionRow,
+  status: TransactionStatus
+): Promise<void> => {
+  if (status !== 'paid' && status !== 'completed' && status !== 'refunded') {
+    return;
+  }
+
+  const escrowId = await ledgerAccount(executor, 'escrow', null, transaction.currency);
+
+  if (status === 'paid') {
+    const cents = toCents(transaction.amount);
+    await postJournal(executor, { kind: 'payment', transaction_id: transaction.id }, [
+      { accountId: await ledgerAccount(executor, 'buyer', transaction.buyer_id, transaction.currency), cents: -cents },
+      { accountId: escrowId, cents },
+    ]);
+    return;
+  }
+
+  // Only what actually went into escrow comes out of it
+  const held = await escrowHeldCents(executor, escrowId, transaction.id);
+  if (held <= 0) {
+    return;
+  }
+
+  if (status === 'completed') {
+    const fee = Math.round(held * platformFeePercent() / 100);
+    await postJournal(executor, { kind: 'release', transaction_id: transaction.id }, [
+      { accountId: escrowId, cents: -held },
+      { accountId: await ledgerAccount(executor, 'seller_balance', transaction.seller_id, transaction.currency), cents: held - fee },
+      { accountId: await ledgerAccount(executor, 'platform_fees', null, transaction.currency), cents: fee },
+    ]);
+  } else {
+    await postJournal(executor, { kind: 'refund', transaction_id: transaction.id }, [
+      { accountId: escrowId, cents: -held },
+      { accountId: await ledgerAccount(executor, 'buyer', transaction.buyer_id, transaction.currency), cents: held },
+    ]);
+  }
+};
+
+// Returns part of what escrow holds for the transaction to the buyer, as a dispute settled with
+// a partial refund does before the rest is released
+export const refundPartOfEscrow = async (
+  executor: DbExecutor,
+  transaction: TransactionRow,
+  cents: number
+): Promise<void> => {
+  const escrowId = await ledgerAccount(executor, 'escrow', null, transaction.currency);
+  const refunded = Math.min(cents, await escrowHeldCents(executor, escrowId, transaction.id));
+  if (refunded <= 0) {
+    return;
+  }
+
+  await postJournal(executor, { kind: 'refund', transaction_id: transaction.id }, [
+    { accountId: escrowId, cents: -refunded },
+    { accountId: await ledgerAccount(executor, 'buyer', transaction.buyer_id, transaction.currency), cents: refunded },
+  ]);
+};
@@ -0,0 +1,203 @@
+import { db } from '../db';
+import { type Page, type PageInput } from '../schema';
+import { ValidationError } from './errors';
+import { z } from 'zod';
+import { asc, count, desc, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { type PgTable } from 'drizzle-orm/pg-core';
+
+// Keyset position: the row's timestamp at full database precision plus its id as a tie-breaker.
+// JS Dates only keep milliseconds, so the timestamp travels as Postgres text to avoid skipping rows.
+export interface KeysetCursor {
+  ts: string;
+  id: number;
+}
+
+// Keyset position for result sets ordered by a relevance score
+export interface RankCursor {
+  rank: number;
+  id: number;
+}
+
+// Keyset position for an arbitrary sort key. The key travels as Postgres text, like KeysetCursor's
+// timestamp, so numeric and float keys round-trip exactly; `sort` ties the cursor to its ordering.
+export interface SortKeyCursor {
+  sort: string;
+  value: string;
+  id: number;
+}
+
+const encode = (cursor: object): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+// Parsing drops any extra keys, so a cursor only ever carries the fields its schema names
+const decode = <T>(cursor: string, schema: z.ZodType<T>): T => {
+  try {
+    return schema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString()));
+  } catch {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+};
+
+const keysetCursorSchema = z.object({ ts: z.string(), id: z.number() });
+const rankCursorSchema = z.object({ rank: z.number(), id: z.number() });
+const sortKeyCursorSchema = z.object({ sort: z.string(), value: z.string(), id: z.number() });
+
+export const encodeCursor = (cursor: KeysetCursor): string => encode(cursor);
+
+export const decodeCursor = (cursor: string): KeysetCursor => decode(cursor, keysetCursorSchema);
+
+export const encodeRankCursor = (cursor: RankCursor): string => encode(cursor);
+
+export const decodeRankCursor = (cursor: string): RankCursor => decode(cursor, rankCursorSchema);
+
+export const encodeSortKeyCursor = (cursor: SortKeyCursor): string => encode(cursor);
+
+export const decodeSortKeyCursor = (cursor: string): SortKeyCursor => decode(cursor, sortKeyCursorSchema);
+
+// Keeps the first `limit` rows and builds the cursor from the last of them when another page exists
+const slicePage = <R extends { cursor_id: number }, T>(
+  rows: R[],
+  limit: number,
+  totalEstimate: number,
+  toItem: (row: R) => T,
+  toCursor: (row: R) => string
+): Page<T> => {
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    items: page.map(toItem),
+    nextCursor: rows.length > limit && last ? toCursor(last) : null,
+    totalEstimate,
+  };
+};
+
+// Select expression that captures a timestamp column for use in a cursor
+export const cursorTimestamp = (column: AnyColumn) => sql<string>`${column}::text`;
+
+// Rows strictly after the cursor when ordering by (timestamp DESC, id DESC)
+export const afterCursorDesc = (tsColumn: AnyColumn, idColumn: AnyColumn, cursor: KeysetCursor) =>
+  sql`(${tsColumn}, ${idColumn}) < (${cursor.ts}::timestamp, ${cursor.id})`;
+
+// Rows strictly after the cursor when ordering by (timestamp ASC, id ASC)
+export const afterCursorAsc = (tsColumn: AnyColumn, idColumn: AnyColumn, cursor: KeysetCursor) =>
+  sql`(${tsColumn}, ${idColumn}) > (${cursor.ts}::timestamp, ${cursor.id})`;
+
+// Shared keyset pagination over a (timestamp, id) ordering. Spread `cursorColumns` into the select,
+// apply `where`, `orderBy` and `limit`, then hand the rows to `toPage`:
+//
+//   const pager = keysetPaginator({ ts: postsTable.created_at, id: postsTable.id }, input);
+//   const rows = await db.select({ ...getTableColumns(postsTable), ...pager.cursorColumns })
+//     .from(postsTable)
+//     .where(and(condition, pager.where))
+//     .orderBy(...pager.orderBy)
+//     .limit(pager.limit);
+//   return pager.toPage(rows, await estimateTotal(postsTable, condition));
+//
+// The id column must belong to the same row as the timestamp (e.g. the follow row, not the user).
+export const keysetPaginator = (
+  columns: { ts: AnyColumn; id: AnyColumn },
+  input: PageInput,
+  direction: 'asc' | 'desc' = 'desc'
+) => {
+  const cursor = input.cursor ? decodeCursor(input.cursor) : null;
+  const order = direction === 'desc' ? desc : asc;
+  const after = direction === 'desc' ? afterCursorDesc : afterCursorAsc;
+
+  return {
+    cursorColumns: {
+      cursor_ts: cursorTimestamp(columns.ts),
+      cursor_id: sql<number>`${columns.id}`.mapWith(Number),
+    },
+    where: cursor ? after(columns.ts, columns.id, cursor) : undefined,
+    orderBy: [order(columns.ts), order(columns.id)],
+    // One extra row tells whether another page exists
+    limit: input.limit + 1,
+    toPage: <R extends { cursor_ts: string; cursor_id: number }>(
+      rows: R[],
+      totalEstimate: number
+    ): Page<Omit<R, 'cursor_ts' | 'cursor_id'>> => slicePage(
+      rows,
+      input.limit,
+      totalEstimate,
+      ({ cursor_ts, cursor_id, ...item }) => item,
+      row => encodeCursor({ ts: row.cursor_ts, id: row.cursor_id })
+    ),
+  };
+};
+
+export interface SortKey {
+  name: string; // stored in the cursor so it cannot be replayed against another ordering
+  key: SQL | AnyColumn;
+  type: 'timestamp' | 'numeric' | 'integer' | 'double precision';
+  direction: 'asc' | 'desc';
+}
+
+// Keyset pagination over (key, id) for orderings other than a plain timestamp, such as price or
+// distance. Used the same way as keysetPaginator; the key must not be null, so coalesce it first.
+export const sortKeyPaginator = (sortKey: SortKey, idColumn: AnyColumn, input: PageInput) => {
+  const cursor = input.cursor ? decodeSortKeyCursor(input.cursor) : null;
+  if (cursor && cursor.sort !== sortKey.name) {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+
+  const order = sortKey.direction === 'desc' ? desc : asc;
+  const comparison = sortKey.direction === 'desc' ? sql`<` : sql`>`;
+
+  return {
+    cursorColumns: {
+      cursor_key: sql<string>`(${sortKey.key})::text`,
+      cursor_id: sql<number>`${idColumn}`.mapWith(Number),
+    },
+    where: cursor
+      ? sql`(${sortKey.key}, ${idColumn}) ${comparison} (${cursor.value}::${sql.raw(sortKey.type)}, ${cursor.id})`
+      : undefined,
+    orderBy: [order(sortKey.key), order(idColumn)],
+    limit: input.limit + 1,
+    toPage: <R extends { cursor_key: string; cursor_id: number }>(
+      rows: R[],
+      totalEstimate: number
+    ): Page<Omit<R, 'cursor_key' | 'cursor_id'>> => slicePage(
+      rows,
+      input.limit,
+      totalEstimate,
+      ({ cursor_key, cursor_id, ...item }) => item,
+      row => encodeSortKeyCursor({ sort: sortKey.name, value: row.cursor_key, id: row.cursor_id })
+    ),
+  };
+};
+
+// The part of `explain (format json)` output the estimate reads
+type QueryPlanRow = {
+  'QUERY PLAN': Array<{ Plan: { 'Plan Rows': number } }>;
+};
+
+// Counting a large match set exactly costs a full scan, so past this many rows we ask the planner
+const EXACT_COUNT_LIMIT = 1000;
+
+// Exact count for small result sets, the query planner's row estimate for large ones
+export const estimateTotal = async (table: PgTable, where?: SQL): Promise<number> => {
+  const capped = db.select({ one: sql`1` })
+    .from(table)
+    .where(where)
+    .limit(EXACT_COUNT_LIMIT + 1)
+    .as('capped');
+
+  const exact = await db.select({ count: count() })
+    .from(capped)
+    .execute();
+
+  if (exact[0].count <= EXACT_COUNT_LIMIT) {
+    return exact[0].count;
+  }
+
+  const plan = await db.execute<QueryPlanRow>(sql`explain (format json) select 1 from ${table} where ${where ?? sql`true`}`);
+  const planRows = Number(plan.rows[0]['QUERY PLAN'][0].Plan['Plan Rows']);
+
+  // The planner can undershoot on stale statistics; we know there are more rows than the cap
+  return Math.max(Math.round(planRows), exact[0].count);
+};
+
+// Rows strictly after the cursor when ordering by (rank DESC, id DESC). Ranks are float4 in
+// Postgres, so the cursor value is cast back to real to compare equal to the stored score.
+export const afterRankCursorDesc = (rank: SQL, idColumn: AnyColumn, cursor: RankCursor) =>
+  sql`(${rank}, ${idColumn}) < (${cursor.rank}::real, ${cursor.id})`;
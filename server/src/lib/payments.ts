@@ -0,0 +1,166 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import { paymentIntentStatusSchema, type PaymentIntentStatus } from '../schema';
+import { UnauthorizedError, ValidationError } from './errors';
+
+export interface AuthorizeRequest {
+  amount: number;
+  currency: string;
+  payment_method: string;
+  reference: string; // our side of the payment, shown in the provider's dashboard
+}
+
+// Where the provider says an intent stands. Gateways that settle later may still answer
+// 'authorized' to a capture and report the outcome through a webhook.
+export interface PaymentResult {
+  intentId: string;
+  status: PaymentIntentStatus;
+  failureReason?: string;
+}
+
+// Gateway behind the payment handlers. The fake one below charges nobody; a real gateway
+// replaces it via setPaymentProvider.
+export interface PaymentProvider {
+  readonly name: string;
+  readonly signatureHeader: string; // HTTP header carrying the webhook signature
+  supportsMethod(method: string): boolean;
+  authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+  capture(intentId: string): Promise<PaymentResult>;
+  cancel(intentId: string): Promise<PaymentResult>; // releases an authorization that was never captured
+  // The whole payment unless an amount is given. Repeating a refund with the same idempotency key
+  // returns the first answer instead of refunding again.
+  refund(intentId: string, amount?: number, idempotencyKey?: string): Promise<PaymentResult>;
+  // Throws UnauthorizedError for a bad signature and ValidationError for a payload it cannot read
+  verifyWebhook(payload: string, signature: string | undefined): PaymentResult;
+}
+
+const getWebhookSecret = (): string => {
+  const secret = process.env['PAYMENT_WEBHOOK_SECRET'];
+  if (secret) {
+    return secret;
+  }
+  if (process.env['NODE_ENV'] === 'production') {
+    throw new Error('PAYMENT_WEBHOOK_SECRET must be set in production');
+  }
+  return 'amancores-development-webhook-secret';
+};
+
+const FAKE_METHODS = ['credit_card', 'debit_card', 'paypal', 'bank_transfer'];
+
+const fakeWebhookSchema = z.object({
+  intent_id: z.string(),
+  status: paymentIntentStatusSchema,
+  failure_reason: z.string().optional(),
+});
+
+export interface FakePaymentProviderOptions {
+  decline?: (request: AuthorizeRequest) => string | null; // the reason to decline, if any
+  asyncCapture?: boolean; // captures only settle through a webhook
+}
+
+export interface FakePaymentProvider extends PaymentProvider {
+  // Builds the webhook the gateway would send, for tests and local development
+  signWebhook(result: PaymentResult): { payload: string; signature: string };
+}
+
+// Deterministic in-process gateway for tests and local development
+export const createFakePaymentProvider = (options: FakePaymentProviderOptions = {}): FakePaymentProvider => {
+  const intents = new Map<string, PaymentIntentStatus>();
+  const refunds = new Map<string, PaymentResult>(); // by idempotency key
+  let nextId = 1;
+
+  const sign = (payload: string) => createHmac('sha256', getWebhookSecret()).update(payload).digest('hex');
+
+  const find = (intentId: string): PaymentIntentStatus => {
+    const status = intents.get(intentId);
+    if (!status) {
+      throw new Error(`Fake payment intent ${intentId} does not exist`);
+    }
+    return status;
+  };
+
+  return {
+    name: 'fake',
+    signatureHeader: 'x-fake-signature',
+    supportsMethod: method => FAKE_METHODS.includes(method),
+    async authorize(request) {
+      const intentId = `fake_pi_${nextId++}`;
+      const declined = options.decline?.(request) ?? null;
+      intents.set(intentId, declined ? 'failed' : 'authorized');
+      return declined
+        ? { intentId, status: 'failed', failureReason: declined }
+        : { intentId, status: 'authorized' };
+    },
+    async capture(intentId) {
+      const status = find(intentId);
+      if (status === 'authorized' && !options.asyncCapture) {
+        intents.set(intentId, 'captured');
+      }
+      return { intentId, status: intents.get(intentId)! };
+    },
+    async cancel(intentId) {
+      if (find(intentId) === 'authorized') {
+        intents.set(intentId, 'failed');
+      }
+      return { intentId, status: intents.get(intentId)! };
+    },
+    async refund(intentId, amount, idempotencyKey) {
+      const repeated = idempotencyKey === undefined ? undefined : refunds.get(idempotencyKey);
+      if (repeated) {
+        return repeated;
+      }
+
+      // A partial refund leaves the rest of the payment captured
+      if (find(intentId) === 'captured' && amount === undefined) {
+        intents.set(intentId, 'refunded');
+      }
+      const result: PaymentResult = { intentId, status: intents.get(intentId)! };
+      if (idempotencyKey !== undefined) {
+        refunds.set(idempotencyKey, result);
+      }
+      return result;
+    },
+    verifyWebhook(payload, signature) {
+      const expected = Buffer.from(sign(payload));
+      if (!signature || signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), expected)) {
+        throw new UnauthorizedError('Invalid webhook signature');
+      }
+
+      let parsed;
+      try {
+        parsed = fakeWebhookSchema.parse(JSON.parse(payload));
+      } catch {
+        throw new ValidationError('Malformed webhook payload');
+      }
+
+      return { intentId: parsed.intent_id, status: parsed.status, failureReason: parsed.failure_reason };
+    },
+    signWebhook(result) {
+      // The gateway reports what it did, so its own record moves along
+      if (intents.has(result.intentId)) {
+        intents.set(result.intentId, result.status);
+      }
+      const payload = JSON.stringify({
+        intent_id: result.intentId,
+        status: result.status,
+        failure_reason: result.failureReason,
+      });
+      return { payload, signature: sign(payload) };
+    },
+  };
+};
+
+let provider: PaymentProvider = createFakePaymentProvider();
+
+export const getPaymentProvider = (): PaymentProvider => provider;
+
+export const setPaymentProvider = (next: PaymentProvider): void => {
+  provider = next;
+};
+
+// Called at startup: the fake gateway charges nobody, so production must not fall back to it
+export const assertPaymentProviderConfigured = (): void => {
+  if (process.env['NODE_ENV'] === 'production' && provider.name === 'fake') {
+    throw new Error('A real payment provider must be set with setPaymentProvider in production');
+  }
+};
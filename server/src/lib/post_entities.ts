@@ -0,0 +1,93 @@
+import { type DbExecutor } from '../db';
+import { hashtagsTable, postHashtagsTable, postMentionsTable, usersTable } from '../db/schema';
+import { eq, and, inArray, notInArray, sql } from 'drizzle-orm';
+
+// @username follows the username rules; the lookbehind skips email addresses like a@b.com
+const MENTION_PATTERN = /(?<![\w@])@([a-zA-Z0-9_]{3,50})(?!\w)/g;
+// #tag may use any letters or digits, but a tag made only of digits (#1) is not a hashtag
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_#&])#([\p{L}\p{N}_]{1,100})(?![\p{L}\p{N}_])/gu;
+
+// Lowercased, de-duplicated usernames in order of first appearance
+export const extractMentions = (content: string): string[] =>
+  [...new Set([...content.matchAll(MENTION_PATTERN)].map(match => match[1].toLowerCase()))];
+
+// Lowercased, de-duplicated tags without the leading #
+export const extractHashtags = (content: string): string[] =>
+  [...new Set(
+    [...content.matchAll(HASHTAG_PATTERN)]
+      .map(match => match[1].toLowerCase())
+      .filter(tag => /\p{L}/u.test(tag))
+  )];
+
+// Accepts "#Tag" or "tag" and returns the stored form
+export const normalizeHashtag = (tag: string): string =>
+  tag.replace(/^#/, '').toLowerCase();
+
+// Replaces the post's mention and hashtag rows with what its content references now.
+// Returns the ids of users who were not mentioned before, so only they get notified.
+export const syncPostEntities = async (
+  executor: DbExecutor,
+  postId: number,
+  content: string
+): Promise<number[]> => {
+  const usernames = extractMentions(content);
+  const tags = extractHashtags(content);
+
+  // Mentions of unknown usernames are left as plain text
+  const mentionedUsers = usernames.length > 0
+    ? await executor.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(inArray(sql`lower(${usersTable.username})`, usernames))
+        .execute()
+    : [];
+  const mentionedIds = mentionedUsers.map(user => user.id);
+
+  const existingMentions = await executor.select({ user_id: postMentionsTable.user_id })
+    .from(postMentionsTable)
+    .where(eq(postMentionsTable.post_id, postId))
+    .execute();
+  const previousIds = new Set(existingMentions.map(mention => mention.user_id));
+
+  await executor.delete(postMentionsTable)
+    .where(mentionedIds.length > 0
+      ? and(eq(postMentionsTable.post_id, postId), notInArray(postMentionsTable.user_id, mentionedIds))
+      : eq(postMentionsTable.post_id, postId))
+    .execute();
+
+  const newMentionIds = mentionedIds.filter(id => !previousIds.has(id));
+  if (newMentionIds.length > 0) {
+    await executor.insert(postMentionsTable)
+      .values(newMentionIds.map(userId => ({ post_id: postId, user_id: userId })))
+      .onConflictDoNothing()
+      .execute();
+  }
+
+  let hashtagIds: number[] = [];
+  if (tags.length > 0) {
+    await executor.insert(hashtagsTable)
+      .values(tags.map(tag => ({ tag })))
+      .onConflictDoNothing()
+      .execute();
+
+    const hashtags = await executor.select({ id: hashtagsTable.id })
+      .from(hashtagsTable)
+      .where(inArray(hashtagsTable.tag, tags))
+      .execute();
+    hashtagIds = hashtags.map(hashtag => hashtag.id);
+  }
+
+  await executor.delete(postHashtagsTable)
+    .where(hashtagIds.length > 0
+      ? and(eq(postHashtagsTable.post_id, postId), notInArray(postHashtagsTable.hashtag_id, hashtagIds))
+      : eq(postHashtagsTable.post_id, postId))
+    .execute();
+
+  if (hashtagIds.length > 0) {
+    await executor.insert(postHashtagsTable)
+      .values(hashtagIds.map(hashtagId => ({ post_id: postId, hashtag_id: hashtagId })))
+      .onConflictDoNothing()
+      .execute();
+  }
+
+  return newMentionIds;
+};
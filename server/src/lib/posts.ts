@@ -0,0 +1,66 @@
+import { type DbExecutor } from '../db';
+import { postHashtagsTable, postMentionsTable, postsTable, usersTable, type Post as PostRow } from '../db/schema';
+import { type Post } from '../schema';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+
+// Shown in place of a deleted post's text wherever the post still has to appear, e.g. in threads
+export const DELETED_POST_TEXT = 'This post was deleted';
+
+// Shapes a posts row for clients. Deleted posts come back as tombstones without their text or media.
+export const renderPost = ({ purged_at: _purgedAt, ...post }: PostRow): Post => post.deleted_at
+  ? { ...post, content: DELETED_POST_TEXT, media_urls: null }
+  : { ...post, media_urls: post.media_urls as string[] | null };
+
+// Turns the post into a tombstone and takes it out of the counts it contributed to. Returns false
+// when the post was already deleted, e.g. by a concurrent request, so nothing is counted twice.
+export const softDeletePost = async (executor: DbExecutor, post: PostRow): Promise<boolean> => {
+  const deleted = await executor.update(postsTable)
+    .set({
+      deleted_at: new Date(),
+      is_pinned: false,
+      updated_at: new Date()
+    })
+    .where(and(eq(postsTable.id, post.id), isNull(postsTable.deleted_at)))
+    .returning({ id: postsTable.id })
+    .execute();
+
+  if (deleted.length === 0) {
+    return false;
+  }
+
+  // A deleted post no longer shows up in hashtag feeds or mentions
+  await executor.delete(postMentionsTable)
+    .where(eq(postMentionsTable.post_id, post.id))
+    .execute();
+  await executor.delete(postHashtagsTable)
+    .where(eq(postHashtagsTable.post_id, post.id))
+    .execute();
+
+  if (post.parent_post_id !== null) {
+    await executor.update(postsTable)
+      .set({
+        reply_count: sql`GREATEST(${postsTable.reply_count} - 1, 0)`
+      })
+      .where(eq(postsTable.id, post.parent_post_id))
+      .execute();
+  }
+
+  if (post.repost_of_id !== null) {
+    await executor.update(postsTable)
+      .set({
+        repost_count: sql`GREATEST(${postsTable.repost_count} - 1, 0)`
+      })
+      .where(eq(postsTable.id, post.repost_of_id))
+      .execute();
+  }
+
+  await executor.update(usersTable)
+    .set({
+      post_count: sql`GREATEST(${usersTable.post_count} - 1, 0)`,
+      updated_at: new Date()
+    })
+    .where(eq(usersTable.id, post.user_id))
+    .execute();
+
+  return true;
+};
@@ -0,0 +1,52 @@
+import { EventEmitter, on } from 'node:events';
+import { type Notification, type Post } from '../schema';
+
+// Payload carried by each topic. Every message is scoped to one user (the key).
+export interface RealtimeTopics {
+  notification: Notification;
+  unreadCountChanged: null;
+  timelinePost: Post;
+}
+
+export type RealtimeTopic = keyof RealtimeTopics;
+
+// Transport behind the subscription procedures. The in-process implementation only reaches
+// subscribers of this server; a Postgres LISTEN/NOTIFY implementation can replace it via setPubSub.
+export interface PubSub {
+  publish<T extends RealtimeTopic>(topic: T, key: number, payload: RealtimeTopics[T]): Promise<void>;
+  subscribe<T extends RealtimeTopic>(topic: T, key: number, signal?: AbortSignal): AsyncIterable<RealtimeTopics[T]>;
+}
+
+const channelName = (topic: RealtimeTopic, key: number) => `${topic}:${key}`;
+
+export const createInProcessPubSub = (): PubSub => {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0); // one listener per open subscription
+
+  return {
+    async publish(topic, key, payload) {
+      emitter.emit(channelName(topic, key), payload);
+    },
+    async *subscribe<T extends RealtimeTopic>(topic: T, key: number, signal?: AbortSignal) {
+      try {
+        for await (const [payload] of on(emitter, channelName(topic, key), { signal })) {
+          yield payload as RealtimeTopics[T];
+        }
+      } catch (error) {
+        // Aborting is how subscriptions end when the client disconnects
+        if (signal?.aborted) {
+          return;
+        }
+        throw error;
+      }
+    },
+  };
+};
+
+let pubsub: PubSub = createInProcessPubSub();
+
+export const getPubSub = (): PubSub => pubsub;
+
+export const setPubSub = (next: PubSub): void => {
+  pubsub = next;
+};
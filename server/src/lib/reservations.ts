@@ -0,0 +1,39 @@
+import { type DbExecutor } from '../db';
+import { listingsTable } from '../db/schema';
+import { eq, and, or, isNull, lte } from 'drizzle-orm';
+
+// How long starting a checkout holds a listing for its buyer before others may buy it
+export const reservationWindowMs = (): number =>
+  Number(process.env['LISTING_RESERVATION_MINUTES'] ?? 15) * 60 * 1000;
+
+// Listings nobody but this buyer holds right now; a lapsed hold no longer counts
+export const notHeldByOthers = (buyerId: number) => or(
+  isNull(listingsTable.reserved_by),
+  eq(listingsTable.reserved_by, buyerId),
+  lte(listingsTable.reserved_until, new Date())
+);
+
+// Takes or renews the buyer's hold on the listing in a single conditional update, so two buyers
+// can never both hold it. Returns false while another buyer's hold is still running.
+export const reserveListing = async (
+  executor: DbExecutor,
+  listingId: number,
+  buyerId: number,
+  until: Date
+): Promise<boolean> => {
+  const reserved = await executor.update(listingsTable)
+    .set({ reserved_by: buyerId, reserved_until: until })
+    .where(and(eq(listingsTable.id, listingId), notHeldByOthers(buyerId)))
+    .returning({ id: listingsTable.id })
+    .execute();
+
+  return reserved.length > 0;
+};
+
+// Drops the buyer's hold; a hold that has since passed to someone else is left alone
+export const releaseListing = async (executor: DbExecutor, listingId: number, buyerId: number): Promise<void> => {
+  await executor.update(listingsTable)
+    .set({ reserved_by: null, reserved_until: null })
+    .where(and(eq(listingsTable.id, listingId), eq(listingsTable.reserved_by, buyerId)))
+    .execute();
+};
@@ -0,0 +1,25 @@
+// Runs `task` every `intervalMs`, skipping a tick while the previous run is still going.
+// Tasks log their own failures; a failed run is simply tried again on the next tick.
+// Returns a function that stops the schedule.
+export const scheduleRecurring = (intervalMs: number, task: () => Promise<void>): (() => void) => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await task();
+    } catch {
+      // Already logged by the task
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  // A schedule alone should not keep the process alive
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,7 @@
+// Turns free text into to_tsquery syntax, or null when it holds no searchable words.
+// Every word must match; in prefix mode each one also matches as the start of a longer word,
+// so "iph" finds "iPhone" while the user is still typing.
+export const toTsQueryText = (query: string, prefix: boolean): string | null => {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return terms ? terms.map(term => prefix ? `${term}:*` : term).join(' & ') : null;
+};
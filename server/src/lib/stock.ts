@@ -0,0 +1,45 @@
+import { type DbExecutor } from '../db';
+import { listingsTable } from '../db/schema';
+import { notHeldByOthers, releaseListing } from './reservations';
+import { eq, and, gte, sql } from 'drizzle-orm';
+
+// Takes the units a buyer paid for in a single conditional update, so stock never goes negative
+// and nobody buys from under another buyer's hold. The buyer's own hold has done its job and is
+// dropped. Returns the units left, or null when there are not enough or someone else holds them.
+export const takeStock = async (
+  executor: DbExecutor,
+  listingId: number,
+  buyerId: number,
+  quantity: number
+): Promise<number | null> => {
+  const taken = await executor.update(listingsTable)
+    .set({
+      quantity_available: sql`${listingsTable.quantity_available} - ${quantity}`,
+      updated_at: new Date()
+    })
+    .where(and(
+      eq(listingsTable.id, listingId),
+      gte(listingsTable.quantity_available, quantity),
+      notHeldByOthers(buyerId)
+    ))
+    .returning({ quantity_available: listingsTable.quantity_available })
+    .execute();
+
+  if (taken.length === 0) {
+    return null;
+  }
+
+  await releaseListing(executor, listingId, buyerId);
+  return taken[0].quantity_available;
+};
+
+// Puts units back on sale after a paid purchase was undone
+export const restoreStock = async (executor: DbExecutor, listingId: number, quantity: number): Promise<void> => {
+  await executor.update(listingsTable)
+    .set({
+      quantity_available: sql`${listingsTable.quantity_available} + ${quantity}`,
+      updated_at: new Date()
+    })
+    .where(eq(listingsTable.id, listingId))
+    .execute();
+};
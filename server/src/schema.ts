@@ -1,5 +1,32 @@
 import { z } from 'zod';
 
+// Pagination schemas shared by every list procedure
+export const pageInputSchema = z.object({
+  cursor: z.string().optional(), // opaque keyset cursor returned as nextCursor
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+export type PageInput = z.infer<typeof pageInputSchema>;
+
+export const pageSchema = <T extends z.ZodTypeAny>(item: T) => z.object({
+  items: z.array(item),
+  nextCursor: z.string().nullable(), // null on the last page
+  totalEstimate: z.number().int(), // exact for small lists, approximate for very large ones
+});
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  totalEstimate: number;
+}
+
+// Lists scoped to one user: their posts, listings, followers, transactions...
+export const userPageInputSchema = pageInputSchema.extend({
+  userId: z.number(),
+});
+
+export type UserPageInput = z.infer<typeof userPageInputSchema>;
+
 // User schemas
 export const userSchema = z.object({
   id: z.number(),
@@ -9,21 +36,29 @@ export const userSchema = z.object({
   bio: z.string().nullable(),
   avatar_url: z.string().nullable(),
   is_verified: z.boolean(),
+  is_admin: z.boolean(),
   follower_count: z.number().int(),
   following_count: z.number().int(),
   post_count: z.number().int(),
+  review_count: z.number().int(),
+  average_rating: z.number().nullable(), // null until the first review
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
 });
 
 export type User = z.infer<typeof userSchema>;
 
+export const userListPageSchema = pageSchema(userSchema);
+
+export type UserListPage = z.infer<typeof userListPageSchema>;
+
 export const createUserInputSchema = z.object({
   username: z.string().min(3).max(50).regex(/^[a-zA-Z0-9_]+$/),
   email: z.string().email(),
   display_name: z.string().min(1).max(100).nullable(),
   bio: z.string().max(500).nullable(),
   avatar_url: z.string().url().nullable(),
+  password: z.string().min(8).max(128).optional(),
 });
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
@@ -37,6 +72,30 @@ export const updateUserInputSchema = z.object({
 
 export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
 
+// Auth schemas
+export const loginInputSchema = z.object({
+  identifier: z.string().min(1), // username or email
+  password: z.string().min(1).max(128),
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+export const refreshSessionInputSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+export type RefreshSessionInput = z.infer<typeof refreshSessionInputSchema>;
+
+export const authSessionSchema = z.object({
+  user: userSchema,
+  access_token: z.string(),
+  access_token_expires_at: z.coerce.date(),
+  refresh_token: z.string(),
+  refresh_token_expires_at: z.coerce.date(),
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
 // Post schemas
 export const postSchema = z.object({
   id: z.number(),
@@ -48,6 +107,8 @@ export const postSchema = z.object({
   reply_count: z.number().int(),
   is_pinned: z.boolean(),
   parent_post_id: z.number().nullable(),
+  repost_of_id: z.number().nullable(),
+  deleted_at: z.coerce.date().nullable(), // set on tombstones, whose content is a placeholder
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
 });
@@ -71,7 +132,97 @@ export const updatePostInputSchema = z.object({
 
 export type UpdatePostInput = z.infer<typeof updatePostInputSchema>;
 
+export const createRepostInputSchema = z.object({
+  user_id: z.number(),
+  post_id: z.number(),
+  content: z.string().min(1).max(280).nullable(), // null for a plain repost, commentary for a quote post
+});
+
+export type CreateRepostInput = z.infer<typeof createRepostInputSchema>;
+
+export const postRepliesInputSchema = pageInputSchema.extend({
+  postId: z.number(),
+});
+
+export type PostRepliesInput = z.infer<typeof postRepliesInputSchema>;
+
+// Thread schemas
+export const threadSortSchema = z.enum(['top', 'newest']); // top: most liked replies first
+
+export const threadInputSchema = z.object({
+  postId: z.number(),
+  depth: z.number().int().min(1).max(10).default(3), // reply levels below the post
+  breadth: z.number().int().min(1).max(50).default(10), // replies shown per post before "load more"
+  sort: threadSortSchema.default('top'),
+  cursor: z.string().optional(), // a more_replies_cursor: continues the replies of postId
+});
+
+export type ThreadInput = z.infer<typeof threadInputSchema>;
+
+// Replies of a node at the depth limit are not loaded; its reply_count says whether opening
+// the thread at that post would show more
+export interface ThreadNode {
+  post: Post;
+  replies: ThreadNode[];
+  more_replies_cursor: string | null; // pass with postId = post.id to load the next replies
+}
+
+export const threadNodeSchema: z.ZodType<ThreadNode> = z.lazy(() => z.object({
+  post: postSchema,
+  replies: z.array(threadNodeSchema),
+  more_replies_cursor: z.string().nullable(),
+}));
+
+export const threadSchema = z.object({
+  ancestors: z.array(postSchema), // root post first, ending with the post's parent
+  post: postSchema,
+  replies: z.array(threadNodeSchema),
+  more_replies_cursor: z.string().nullable(),
+});
+
+export type Thread = z.infer<typeof threadSchema>;
+
+export const postPageSchema = pageSchema(postSchema);
+
+export type PostPage = z.infer<typeof postPageSchema>;
+
+export const homeTimelineInputSchema = pageInputSchema;
+
+export type HomeTimelineInput = z.infer<typeof homeTimelineInputSchema>;
+
+export const homeTimelineSchema = postPageSchema.extend({
+  pinned: z.array(postSchema), // only filled on the first page
+  reposted_posts: z.array(postSchema), // originals referenced by reposts in pinned/items
+});
+
+export type HomeTimeline = z.infer<typeof homeTimelineSchema>;
+
+// Hashtag schemas
+export const hashtagPostsInputSchema = pageInputSchema.extend({
+  tag: z.string().min(1).max(101), // with or without the leading #
+});
+
+export type HashtagPostsInput = z.infer<typeof hashtagPostsInputSchema>;
+
+export const trendingHashtagsInputSchema = z.object({
+  window_hours: z.number().int().min(1).max(24 * 30).default(24),
+  limit: z.number().int().min(1).max(50).default(10),
+});
+
+export type TrendingHashtagsInput = z.infer<typeof trendingHashtagsInputSchema>;
+
+export const trendingHashtagSchema = z.object({
+  tag: z.string(),
+  post_count: z.number().int(), // posts using the tag within the window
+});
+
+export type TrendingHashtag = z.infer<typeof trendingHashtagSchema>;
+
 // Listing schemas
+export const listingConditionSchema = z.enum(['new', 'like_new', 'good', 'fair', 'poor']);
+
+export type ListingCondition = z.infer<typeof listingConditionSchema>;
+
 export const listingSchema = z.object({
   id: z.number(),
   user_id: z.number(),
@@ -82,15 +233,35 @@ export const listingSchema = z.object({
   category: z.string(),
   condition: z.string(),
   location: z.string().nullable(),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
   media_urls: z.array(z.string()).nullable(),
   is_active: z.boolean(),
   view_count: z.number().int(),
+  quantity: z.number().int(),
+  quantity_available: z.number().int(), // units not yet paid for
+  seller_review_count: z.number().int(),
+  seller_average_rating: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
 });
 
 export type Listing = z.infer<typeof listingSchema>;
 
+// A buyer's checkout hold on a listing
+export const listingReservationSchema = z.object({
+  expires_at: z.coerce.date(),
+  held_by_viewer: z.boolean(),
+});
+
+export type ListingReservation = z.infer<typeof listingReservationSchema>;
+
+export const listingDetailSchema = listingSchema.extend({
+  reservation: listingReservationSchema.nullable(), // null when anyone may buy
+});
+
+export type ListingDetail = z.infer<typeof listingDetailSchema>;
+
 export const createListingInputSchema = z.object({
   user_id: z.number(),
   title: z.string().min(1).max(100),
@@ -98,9 +269,12 @@ export const createListingInputSchema = z.object({
   price: z.number().positive(),
   currency: z.string().length(3), // USD, EUR, etc.
   category: z.string(),
-  condition: z.enum(['new', 'like_new', 'good', 'fair', 'poor']),
+  condition: listingConditionSchema,
   location: z.string().nullable(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
   media_urls: z.array(z.string().url()).nullable(),
+  quantity: z.number().int().positive().max(10000).default(1),
 });
 
 export type CreateListingInput = z.infer<typeof createListingInputSchema>;
@@ -110,14 +284,89 @@ export const updateListingInputSchema = z.object({
   title: z.string().min(1).max(100).optional(),
   description: z.string().min(1).max(1000).optional(),
   price: z.number().positive().optional(),
-  condition: z.enum(['new', 'like_new', 'good', 'fair', 'poor']).optional(),
+  condition: listingConditionSchema.optional(),
   location: z.string().nullable().optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
   media_urls: z.array(z.string().url()).nullable().optional(),
+  quantity: z.number().int().positive().max(10000).optional(), // units listed in total, sold ones included
   is_active: z.boolean().optional(),
 });
 
 export type UpdateListingInput = z.infer<typeof updateListingInputSchema>;
 
+export const listingSortSchema = z.enum(['newest', 'price_asc', 'price_desc', 'most_viewed', 'nearest']);
+
+export type ListingSort = z.infer<typeof listingSortSchema>;
+
+export const listingQueryInputSchema = pageInputSchema.extend({
+  category: z.string().optional(),
+  location: z.string().optional(), // case-insensitive substring of the listing's location
+  condition: listingConditionSchema.optional(),
+  min_price: z.number().nonnegative().optional(),
+  max_price: z.number().nonnegative().optional(),
+  is_active: z.boolean().optional(), // both active and inactive when omitted
+  sort: listingSortSchema.default('newest'),
+  // Required by the nearest sort; listings without coordinates come last
+  near: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+  }).optional(),
+});
+
+export type ListingQueryInput = z.infer<typeof listingQueryInputSchema>;
+
+export const userListingQueryInputSchema = listingQueryInputSchema.extend({
+  userId: z.number(),
+});
+
+export type UserListingQueryInput = z.infer<typeof userListingQueryInputSchema>;
+
+export const listingPageSchema = pageSchema(listingSchema);
+
+export type ListingPage = z.infer<typeof listingPageSchema>;
+
+export const searchListingsInputSchema = pageInputSchema.extend({
+  query: z.string().max(200), // empty browses all active listings, newest first
+  category: z.string().optional(),
+  location: z.string().optional(),
+  condition: listingConditionSchema.optional(),
+  min_price: z.number().nonnegative().optional(),
+  max_price: z.number().nonnegative().optional(),
+});
+
+export type SearchListingsInput = z.infer<typeof searchListingsInputSchema>;
+
+export const listingSearchHitSchema = listingSchema.extend({
+  rank: z.number(),
+  // HTML-escaped text with matched terms wrapped in <mark></mark>
+  title_highlight: z.string(),
+  description_snippet: z.string(),
+});
+
+export type ListingSearchHit = z.infer<typeof listingSearchHitSchema>;
+
+export const listingSearchFacetsSchema = z.object({
+  // Each facet ignores its own filter so clients can show alternatives to the current choice
+  price: z.array(z.object({
+    min: z.number(),
+    max: z.number().nullable(), // null for the open-ended top bucket
+    count: z.number().int(),
+  })),
+  condition: z.array(z.object({
+    value: listingConditionSchema,
+    count: z.number().int(),
+  })),
+});
+
+export type ListingSearchFacets = z.infer<typeof listingSearchFacetsSchema>;
+
+export const listingSearchResultSchema = pageSchema(listingSearchHitSchema).extend({
+  facets: listingSearchFacetsSchema,
+});
+
+export type ListingSearchResult = z.infer<typeof listingSearchResultSchema>;
+
 // Follow relationship schemas
 export const followSchema = z.object({
   id: z.number(),
@@ -135,6 +384,14 @@ export const createFollowInputSchema = z.object({
 
 export type CreateFollowInput = z.infer<typeof createFollowInputSchema>;
 
+// Following someone twice is not an error; the existing relationship comes back instead
+export const followResultSchema = z.object({
+  status: z.enum(['followed', 'already_following']),
+  follow: followSchema,
+});
+
+export type FollowResult = z.infer<typeof followResultSchema>;
+
 // Like schemas
 export const likeSchema = z.object({
   id: z.number(),
@@ -152,16 +409,39 @@ export const createLikeInputSchema = z.object({
 
 export type CreateLikeInput = z.infer<typeof createLikeInputSchema>;
 
+// Liking a post twice is not an error; the existing like comes back instead
+export const likeResultSchema = z.object({
+  status: z.enum(['liked', 'already_liked']),
+  like: likeSchema,
+});
+
+export type LikeResult = z.infer<typeof likeResultSchema>;
+
 // Transaction schemas for marketplace
+export const transactionStatusSchema = z.enum([
+  'pending',
+  'paid',
+  'shipped',
+  'delivered',
+  'completed',
+  'cancelled',
+  'refunded',
+  'disputed',
+]);
+
+export type TransactionStatus = z.infer<typeof transactionStatusSchema>;
+
 export const transactionSchema = z.object({
   id: z.number(),
   listing_id: z.number(),
   buyer_id: z.number(),
   seller_id: z.number(),
+  quantity: z.number().int(),
   amount: z.number(),
   currency: z.string(),
-  status: z.string(),
+  status: transactionStatusSchema,
   payment_method: z.string().nullable(),
+  version: z.number().int(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
 });
@@ -172,13 +452,428 @@ export const createTransactionInputSchema = z.object({
   listing_id: z.number(),
   buyer_id: z.number(),
   seller_id: z.number(),
-  amount: z.number().positive(),
+  quantity: z.number().int().positive().default(1),
+  amount: z.number().positive(), // unit price times quantity
   currency: z.string().length(3),
   payment_method: z.string().nullable(),
+  offer_id: z.number().optional(), // an accepted offer whose amount replaces the list price
 });
 
 export type CreateTransactionInput = z.infer<typeof createTransactionInputSchema>;
 
+export const updateTransactionStatusInputSchema = z.object({
+  id: z.number(),
+  status: transactionStatusSchema,
+  expected_version: z.number().int().optional(), // reject the change if someone else moved the transaction first
+  reason: z.string().max(500).optional(),
+});
+
+export type UpdateTransactionStatusInput = z.infer<typeof updateTransactionStatusInputSchema>;
+
+export const updateTransactionDetailsInputSchema = z.object({
+  id: z.number(),
+  amount: z.number().positive().optional(),
+  payment_method: z.string().nullable().optional(),
+  reason: z.string().max(500).optional(),
+});
+
+export type UpdateTransactionDetailsInput = z.infer<typeof updateTransactionDetailsInputSchema>;
+
+export const listingTransactionsInputSchema = pageInputSchema.extend({
+  listingId: z.number(),
+});
+
+export type ListingTransactionsInput = z.infer<typeof listingTransactionsInputSchema>;
+
+export const transactionPageSchema = pageSchema(transactionSchema);
+
+export type TransactionPage = z.infer<typeof transactionPageSchema>;
+
+// Transaction audit trail schemas
+export const transactionEventTypeSchema = z.enum([
+  'created',
+  'status_changed',
+  'amount_changed',
+  'payment_method_changed',
+]);
+
+export type TransactionEventType = z.infer<typeof transactionEventTypeSchema>;
+
+export const transactionEventSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  actor_id: z.number().nullable(),
+  event_type: transactionEventTypeSchema,
+  from_value: z.string().nullable(),
+  to_value: z.string().nullable(),
+  reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+});
+
+export type TransactionEvent = z.infer<typeof transactionEventSchema>;
+
+export const transactionHistoryInputSchema = pageInputSchema.extend({
+  transactionId: z.number(),
+});
+
+export type TransactionHistoryInput = z.infer<typeof transactionHistoryInputSchema>;
+
+export const transactionEventPageSchema = pageSchema(transactionEventSchema);
+
+export type TransactionEventPage = z.infer<typeof transactionEventPageSchema>;
+
+// Offer schemas
+export const offerStatusSchema = z.enum(['pending', 'countered', 'accepted', 'declined', 'withdrawn', 'expired']);
+
+export type OfferStatus = z.infer<typeof offerStatusSchema>;
+
+export const offerSchema = z.object({
+  id: z.number(),
+  listing_id: z.number(),
+  buyer_id: z.number(),
+  seller_id: z.number(),
+  amount: z.number(),
+  currency: z.string(),
+  status: offerStatusSchema,
+  expires_at: z.coerce.date(),
+  transaction_id: z.number().nullable(),
+  version: z.number().int(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+
+export type Offer = z.infer<typeof offerSchema>;
+
+export const createOfferInputSchema = z.object({
+  listing_id: z.number(),
+  buyer_id: z.number(),
+  amount: z.number().positive(),
+  expires_in_hours: z.number().int().min(1).max(168).default(48),
+});
+
+export type CreateOfferInput = z.infer<typeof createOfferInputSchema>;
+
+export const offerActionSchema = z.enum(['accept', 'counter', 'decline', 'withdraw']);
+
+export type OfferAction = z.infer<typeof offerActionSchema>;
+
+export const respondToOfferInputSchema = z.object({
+  id: z.number(),
+  action: offerActionSchema,
+  amount: z.number().positive().optional(), // required to counter
+  expires_in_hours: z.number().int().min(1).max(168).default(48), // response window for a counter
+  expected_version: z.number().int().optional(),
+});
+
+export type RespondToOfferInput = z.infer<typeof respondToOfferInputSchema>;
+
+export const offerResponseSchema = z.object({
+  offer: offerSchema,
+  transaction: transactionSchema.nullable(), // created when the offer is accepted
+});
+
+export type OfferResponse = z.infer<typeof offerResponseSchema>;
+
+export const offersInputSchema = pageInputSchema.extend({
+  listingId: z.number().optional(),
+  role: z.enum(['buyer', 'seller']).optional(), // offers the user made or received
+  status: offerStatusSchema.optional(),
+});
+
+export type OffersInput = z.infer<typeof offersInputSchema>;
+
+export const offerPageSchema = pageSchema(offerSchema);
+
+export type OfferPage = z.infer<typeof offerPageSchema>;
+
+// Payment schemas
+export const paymentIntentStatusSchema = z.enum(['authorized', 'captured', 'failed', 'refunded']);
+
+export type PaymentIntentStatus = z.infer<typeof paymentIntentStatusSchema>;
+
+export const paymentIntentSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  provider: z.string(),
+  provider_intent_id: z.string(),
+  amount: z.number(),
+  currency: z.string(),
+  status: paymentIntentStatusSchema,
+  failure_reason: z.string().nullable(), // why the provider declined, or why the payment was returned
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+
+export type PaymentIntent = z.infer<typeof paymentIntentSchema>;
+
+export const payTransactionInputSchema = z.object({
+  transaction_id: z.number(),
+});
+
+export type PayTransactionInput = z.infer<typeof payTransactionInputSchema>;
+
+export const refundTransactionInputSchema = z.object({
+  transaction_id: z.number(),
+  reason: z.string().max(500).optional(),
+});
+
+export type RefundTransactionInput = z.infer<typeof refundTransactionInputSchema>;
+
+// Ledger schemas
+export const sellerBalanceSchema = z.object({
+  currency: z.string(),
+  available: z.number(), // released to the seller and not yet paid out
+  in_escrow: z.number(), // paid by buyers, waiting for them to confirm
+  pending_payouts: z.number(),
+});
+
+export type SellerBalance = z.infer<typeof sellerBalanceSchema>;
+
+export const payoutStatusSchema = z.enum(['requested', 'paid', 'failed']);
+
+export type PayoutStatus = z.infer<typeof payoutStatusSchema>;
+
+export const payoutSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  amount: z.number(),
+  currency: z.string(),
+  status: payoutStatusSchema,
+  failure_reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+
+export type Payout = z.infer<typeof payoutSchema>;
+
+export const requestPayoutInputSchema = z.object({
+  user_id: z.number(),
+  amount: z.number().positive(),
+  currency: z.string().length(3),
+});
+
+export type RequestPayoutInput = z.infer<typeof requestPayoutInputSchema>;
+
+export const updatePayoutStatusInputSchema = z.object({
+  id: z.number(),
+  status: z.enum(['paid', 'failed']),
+  reason: z.string().max(500).optional(), // why the payout failed
+});
+
+export type UpdatePayoutStatusInput = z.infer<typeof updatePayoutStatusInputSchema>;
+
+export const payoutPageSchema = pageSchema(payoutSchema);
+
+export type PayoutPage = z.infer<typeof payoutPageSchema>;
+
+// Dispute schemas
+export const disputeStatusSchema = z.enum(['open', 'under_review', 'resolved']);
+
+export type DisputeStatus = z.infer<typeof disputeStatusSchema>;
+
+export const disputeReasonSchema = z.enum(['not_received', 'not_as_described', 'damaged', 'other']);
+
+export type DisputeReason = z.infer<typeof disputeReasonSchema>;
+
+export const disputeResolutionSchema = z.enum(['full_refund', 'partial_refund', 'release_to_seller']);
+
+export type DisputeResolution = z.infer<typeof disputeResolutionSchema>;
+
+export const disputeSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  buyer_id: z.number(),
+  seller_id: z.number(),
+  reason: disputeReasonSchema,
+  description: z.string(),
+  evidence_urls: z.array(z.string()),
+  seller_response: z.string().nullable(),
+  seller_evidence_urls: z.array(z.string()).nullable(),
+  responded_at: z.coerce.date().nullable(),
+  status: disputeStatusSchema,
+  resolution: disputeResolutionSchema.nullable(),
+  refund_amount: z.number().nullable(),
+  refund_pending: z.boolean(), // resolved with a refund the provider has not confirmed yet
+  resolution_note: z.string().nullable(),
+  resolved_by: z.number().nullable(),
+  resolved_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+
+export type Dispute = z.infer<typeof disputeSchema>;
+
+export const openDisputeInputSchema = z.object({
+  transaction_id: z.number(),
+  buyer_id: z.number(),
+  reason: disputeReasonSchema,
+  description: z.string().trim().min(1).max(2000),
+  evidence_urls: z.array(z.string().url()).max(10).default([]),
+});
+
+export type OpenDisputeInput = z.infer<typeof openDisputeInputSchema>;
+
+export const respondToDisputeInputSchema = z.object({
+  id: z.number(),
+  response: z.string().trim().min(1).max(2000),
+  evidence_urls: z.array(z.string().url()).max(10).default([]),
+});
+
+export type RespondToDisputeInput = z.infer<typeof respondToDisputeInputSchema>;
+
+export const resolveDisputeInputSchema = z.object({
+  id: z.number(),
+  resolution: disputeResolutionSchema,
+  refund_amount: z.number().positive().optional(), // required for a partial refund
+  note: z.string().max(1000).optional(),
+});
+
+export type ResolveDisputeInput = z.infer<typeof resolveDisputeInputSchema>;
+
+export const disputesInputSchema = pageInputSchema.extend({
+  status: disputeStatusSchema.optional(),
+});
+
+export type DisputesInput = z.infer<typeof disputesInputSchema>;
+
+export const disputePageSchema = pageSchema(disputeSchema);
+
+export type DisputePage = z.infer<typeof disputePageSchema>;
+
+// Review schemas
+export const reviewerRoleSchema = z.enum(['buyer', 'seller']);
+
+export type ReviewerRole = z.infer<typeof reviewerRoleSchema>;
+
+export const reviewSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  reviewer_id: z.number(),
+  reviewee_id: z.number(),
+  reviewer_role: reviewerRoleSchema,
+  rating: z.number().int(),
+  text: z.string(),
+  created_at: z.coerce.date(),
+});
+
+export type Review = z.infer<typeof reviewSchema>;
+
+export const createReviewInputSchema = z.object({
+  transaction_id: z.number(),
+  reviewer_id: z.number(),
+  rating: z.number().int().min(1).max(5),
+  text: z.string().trim().min(1).max(1000),
+});
+
+export type CreateReviewInput = z.infer<typeof createReviewInputSchema>;
+
+export const reviewsForUserInputSchema = userPageInputSchema.extend({
+  as: z.enum(['buyer', 'seller']).optional(), // only reviews received in that role
+});
+
+export type ReviewsForUserInput = z.infer<typeof reviewsForUserInputSchema>;
+
+export const reviewPageSchema = pageSchema(reviewSchema);
+
+export type ReviewPage = z.infer<typeof reviewPageSchema>;
+
+// Built from the reviews buyers left the user, not from reviews received as a buyer
+export const sellerReputationSchema = z.object({
+  user_id: z.number(),
+  review_count: z.number().int(),
+  average_rating: z.number().nullable(),
+  rating_distribution: z.record(z.enum(['1', '2', '3', '4', '5']), z.number().int()),
+  completed_sales: z.number().int(),
+});
+
+export type SellerReputation = z.infer<typeof sellerReputationSchema>;
+
+// Messaging schemas
+export const conversationSchema = z.object({
+  id: z.number(),
+  listing_id: z.number(),
+  buyer_id: z.number(),
+  seller_id: z.number(),
+  last_message_at: z.coerce.date(),
+  created_at: z.coerce.date(),
+});
+
+export type Conversation = z.infer<typeof conversationSchema>;
+
+export const messageSchema = z.object({
+  id: z.number(),
+  conversation_id: z.number(),
+  sender_id: z.number(),
+  body: z.string(),
+  read_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+});
+
+export type Message = z.infer<typeof messageSchema>;
+
+export const startConversationInputSchema = z.object({
+  listing_id: z.number(),
+  buyer_id: z.number(),
+  message: z.string().trim().min(1).max(2000).optional(), // sent right away when given
+});
+
+export type StartConversationInput = z.infer<typeof startConversationInputSchema>;
+
+export const sendMessageInputSchema = z.object({
+  conversation_id: z.number(),
+  sender_id: z.number(),
+  body: z.string().trim().min(1).max(2000),
+});
+
+export type SendMessageInput = z.infer<typeof sendMessageInputSchema>;
+
+export const conversationMessagesInputSchema = pageInputSchema.extend({
+  conversationId: z.number(),
+});
+
+export type ConversationMessagesInput = z.infer<typeof conversationMessagesInputSchema>;
+
+export const messagePageSchema = pageSchema(messageSchema);
+
+export type MessagePage = z.infer<typeof messagePageSchema>;
+
+export const inboxEntrySchema = z.object({
+  conversation: conversationSchema,
+  last_message: messageSchema.nullable(),
+  unread_count: z.number().int(), // messages from the other participant not read yet
+});
+
+export type InboxEntry = z.infer<typeof inboxEntrySchema>;
+
+export const inboxPageSchema = pageSchema(inboxEntrySchema).extend({
+  unread_total: z.number().int(), // across all conversations, for the inbox badge
+});
+
+export type InboxPage = z.infer<typeof inboxPageSchema>;
+
+// Unified search schemas
+export const searchTypeSchema = z.enum(['users', 'posts', 'listings']);
+
+export type SearchType = z.infer<typeof searchTypeSchema>;
+
+export const searchInputSchema = z.object({
+  query: z.string().min(1).max(100), // a leading # searches posts by hashtag
+  types: z.array(searchTypeSchema).min(1).default(['users', 'posts', 'listings']),
+  mode: z.enum(['full', 'prefix']).default('full'), // prefix matches partial words for autocomplete
+  limit: z.number().int().min(1).max(20).default(5), // per group
+});
+
+export type SearchInput = z.infer<typeof searchInputSchema>;
+
+// `count` is the total number of matches, of which the best `limit` are returned
+export const searchResultsSchema = z.object({
+  users: z.object({ items: z.array(userSchema), count: z.number().int() }),
+  posts: z.object({ items: z.array(postSchema), count: z.number().int() }),
+  listings: z.object({ items: z.array(listingSchema), count: z.number().int() }),
+});
+
+export type SearchResults = z.infer<typeof searchResultsSchema>;
+
 // Notification schemas
 export const notificationSchema = z.object({
   id: z.number(),
@@ -188,17 +883,61 @@ export const notificationSchema = z.object({
   message: z.string(),
   is_read: z.boolean(),
   related_id: z.number().nullable(),
+  actor_id: z.number().nullable(),
+  actor_count: z.number().int(),
   created_at: z.coerce.date(),
 });
 
 export type Notification = z.infer<typeof notificationSchema>;
 
+export const notificationsInputSchema = pageInputSchema.extend({
+  isRead: z.boolean().optional(),
+  type: z.string().optional(),
+});
+
+export type NotificationsInput = z.infer<typeof notificationsInputSchema>;
+
+export const notificationPageSchema = pageSchema(notificationSchema);
+
+export type NotificationPage = z.infer<typeof notificationPageSchema>;
+
 export const createNotificationInputSchema = z.object({
   user_id: z.number(),
-  type: z.enum(['like', 'follow', 'mention', 'reply', 'transaction']),
+  type: z.enum(['like', 'follow', 'mention', 'reply', 'repost', 'transaction', 'review', 'message', 'offer', 'dispute']),
   title: z.string().min(1).max(100),
   message: z.string().min(1).max(500),
   related_id: z.number().nullable(),
 });
 
-export type CreateNotificationInput = z.infer<typeof createNotificationInputSchema>;
\ No newline at end of file
+export type CreateNotificationInput = z.infer<typeof createNotificationInputSchema>;
+
+// Counter reconciliation schemas (admin)
+export const counterTableSchema = z.enum(['users', 'posts']);
+
+export type CounterTable = z.infer<typeof counterTableSchema>;
+
+export const reconcileCountersInputSchema = z.object({
+  fix: z.boolean().default(false), // report drift only unless set
+  batch_size: z.number().int().min(1).max(5000).default(500),
+});
+
+export type ReconcileCountersInput = z.infer<typeof reconcileCountersInputSchema>;
+
+export const counterDriftSchema = z.object({
+  table: counterTableSchema,
+  id: z.number(),
+  counter: z.string(), // column name, e.g. follower_count
+  stored: z.number().int(),
+  actual: z.number().int(),
+});
+
+export type CounterDrift = z.infer<typeof counterDriftSchema>;
+
+export const counterReconciliationReportSchema = z.object({
+  checked: z.number().int(), // user and post rows examined
+  drifted: z.number().int(), // counter values that disagreed with their source tables
+  fixed: z.number().int(),
+  samples: z.array(counterDriftSchema), // the first drifts found, for inspection
+});
+
+export type CounterReconciliationReport = z.infer<typeof counterReconciliationReportSchema>;
@@ -0,0 +1,370 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  disputesTable,
+  listingsTable,
+  notificationsTable,
+  paymentIntentsTable,
+  transactionsTable,
+  usersTable
+} from '../db/schema';
+import { type OpenDisputeInput } from '../schema';
+import { openDispute, respondToDispute, resolveDispute } from '../handlers/create_dispute';
+import { updateTransactionStatus } from '../handlers/create_transaction';
+import { payTransaction, refundTransaction } from '../handlers/create_payment';
+import { getSellerBalance } from '../handlers/get_payouts';
+import { createFakePaymentProvider, setPaymentProvider } from '../lib/payments';
+import { ForbiddenError, InvalidStateTransitionError, NotFoundError, ValidationError } from '../lib/errors';
+import { eq } from 'drizzle-orm';
+
+describe('disputes', () => {
+  let buyerId: number;
+  let sellerId: number;
+  let adminId: number;
+  let listingId: number;
+  let transactionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    setPaymentProvider(createFakePaymentProvider());
+
+    const [buyer, seller, admin] = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' },
+        { username: 'admin', email: 'admin@example.com', is_admin: true }
+      ])
+      .returning()
+      .execute();
+    buyerId = buyer.id;
+    sellerId = seller.id;
+    adminId = admin.id;
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Camera',
+        description: 'Mirrorless body, no lens',
+        price: '100.00',
+        currency: 'USD',
+        category: 'electronics',
+        condition: 'good'
+      })
+      .returning()
+      .execute();
+    listingId = listing.id;
+
+    const [transaction] = await db.insert(transactionsTable)
+      .values({
+        listing_id: listingId,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        amount: '100.00',
+        currency: 'USD',
+        payment_method: 'credit_card'
+      })
+      .returning()
+      .execute();
+    transactionId = transaction.id;
+  });
+
+  afterEach(resetDB);
+
+  const disputeInput = (): OpenDisputeInput => ({
+    transaction_id: transactionId,
+    buyer_id: buyerId,
+    reason: 'not_as_described',
+    description: 'The sensor is scratched',
+    evidence_urls: ['https://example.com/sensor.jpg'],
+  });
+
+  // Paid outside the provider, shipped and then disputed
+  const openShippedDispute = async () => {
+    await updateTransactionStatus({ id: transactionId, status: 'paid' });
+    await updateTransactionStatus({ id: transactionId, status: 'shipped' });
+    return openDispute(disputeInput());
+  };
+
+  const findTransaction = async () => {
+    const [transaction] = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, transactionId))
+      .execute();
+    return transaction;
+  };
+
+  const findDispute = async (id: number) => {
+    const [dispute] = await db.select()
+      .from(disputesTable)
+      .where(eq(disputesTable.id, id))
+      .execute();
+    return dispute;
+  };
+
+  const notificationsFor = (userId: number) =>
+    db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, userId))
+      .execute();
+
+  describe('openDispute', () => {
+    it('should open a dispute and hold the transaction as disputed', async () => {
+      const dispute = await openShippedDispute();
+
+      expect(dispute.status).toEqual('open');
+      expect(dispute.reason).toEqual('not_as_described');
+      expect(dispute.evidence_urls).toEqual(['https://example.com/sensor.jpg']);
+      expect(dispute.buyer_id).toEqual(buyerId);
+      expect(dispute.seller_id).toEqual(sellerId);
+      expect(dispute.resolution).toBeNull();
+
+      const transaction = await findTransaction();
+      expect(transaction.status).toEqual('disputed');
+    });
+
+    it('should tell the seller about the dispute', async () => {
+      const dispute = await openShippedDispute();
+
+      const disputeNotifications = (await notificationsFor(sellerId)).filter(n => n.type === 'dispute');
+      expect(disputeNotifications).toHaveLength(1);
+      expect(disputeNotifications[0].title).toEqual('Dispute opened');
+      expect(disputeNotifications[0].message).toEqual(`buyer opened a dispute on transaction #${transactionId}`);
+      expect(disputeNotifications[0].related_id).toEqual(dispute.id);
+
+      // The dispute notification stands in for the status change one
+      const statusNotifications = (await notificationsFor(sellerId)).filter(n => n.title === 'Order disputed');
+      expect(statusNotifications).toHaveLength(0);
+    });
+
+    it('should only let the buyer open a dispute', async () => {
+      await updateTransactionStatus({ id: transactionId, status: 'paid' });
+
+      await expect(openDispute({ ...disputeInput(), buyer_id: sellerId })).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('should refuse transactions that were never paid', async () => {
+      await expect(openDispute(disputeInput())).rejects.toBeInstanceOf(InvalidStateTransitionError);
+    });
+
+    it('should allow one dispute per transaction', async () => {
+      await openShippedDispute();
+
+      await expect(openDispute(disputeInput())).rejects.toBeInstanceOf(InvalidStateTransitionError);
+    });
+
+    it('should throw error for non-existent transaction', async () => {
+      await expect(openDispute({ ...disputeInput(), transaction_id: 999 })).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('respondToDispute', () => {
+    it("should record the seller's side and put the dispute under review", async () => {
+      const dispute = await openShippedDispute();
+
+      const result = await respondToDispute({
+        id: dispute.id,
+        response: 'It left here without a scratch',
+        evidence_urls: ['https://example.com/packing.jpg'],
+      }, sellerId);
+
+      expect(result.status).toEqual('under_review');
+      expect(result.seller_response).toEqual('It left here without a scratch');
+      expect(result.seller_evidence_urls).toEqual(['https://example.com/packing.jpg']);
+      expect(result.responded_at).toBeInstanceOf(Date);
+
+      const disputeNotifications = (await notificationsFor(buyerId)).filter(n => n.type === 'dispute');
+      expect(disputeNotifications).toHaveLength(1);
+      expect(disputeNotifications[0].title).toEqual('Dispute answered');
+    });
+
+    it('should only let the seller respond', async () => {
+      const dispute = await openShippedDispute();
+
+      await expect(respondToDispute({ id: dispute.id, response: 'Not me', evidence_urls: [] }, buyerId))
+        .rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('should take one response', async () => {
+      const dispute = await openShippedDispute();
+      await respondToDispute({ id: dispute.id, response: 'First answer', evidence_urls: [] }, sellerId);
+
+      await expect(respondToDispute({ id: dispute.id, response: 'Second answer', evidence_urls: [] }, sellerId))
+        .rejects.toBeInstanceOf(InvalidStateTransitionError);
+    });
+
+    it('should throw error for non-existent dispute', async () => {
+      await expect(respondToDispute({ id: 999, response: 'Hello', evidence_urls: [] }, sellerId))
+        .rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('resolveDispute', () => {
+    it('should refund the buyer in full', async () => {
+      const dispute = await openShippedDispute();
+
+      const result = await resolveDispute({ id: dispute.id, resolution: 'full_refund', note: 'Damage confirmed' }, adminId);
+
+      expect(result.status).toEqual('resolved');
+      expect(result.resolution).toEqual('full_refund');
+      expect(result.refund_amount).toEqual(100);
+      expect(result.resolution_note).toEqual('Damage confirmed');
+      expect(result.resolved_by).toEqual(adminId);
+      expect(result.resolved_at).toBeInstanceOf(Date);
+
+      const transaction = await findTransaction();
+      expect(transaction.status).toEqual('refunded');
+
+      // The unit goes back on the shelf
+      const [listing] = await db.select()
+        .from(listingsTable)
+        .where(eq(listingsTable.id, listingId))
+        .execute();
+      expect(listing.quantity_available).toEqual(1);
+
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'USD', available: 0, in_escrow: 0, pending_payouts: 0 }
+      ]);
+    });
+
+    it('should return a full refund through the provider', async () => {
+      await payTransaction({ transaction_id: transactionId }, buyerId);
+      const dispute = await openDispute(disputeInput());
+
+      await resolveDispute({ id: dispute.id, resolution: 'full_refund' }, adminId);
+
+      const [intent] = await db.select()
+        .from(paymentIntentsTable)
+        .where(eq(paymentIntentsTable.transaction_id, transactionId))
+        .execute();
+      expect(intent.status).toEqual('refunded');
+      expect((await findTransaction()).status).toEqual('refunded');
+    });
+
+    it('should refund through the provider once the resolution committed, keyed on the dispute', async () => {
+      const provider = createFakePaymentProvider();
+      const keys: Array<string | undefined> = [];
+      setPaymentProvider({
+        ...provider,
+        refund: async (intentId, amount, idempotencyKey) => {
+          // The resolution is already visible outside the resolving transaction
+          const [dispute] = await db.select().from(disputesTable).execute();
+          expect(dispute.status).toEqual('resolved');
+          keys.push(idempotencyKey);
+          return provider.refund(intentId, amount, idempotencyKey);
+        }
+      });
+      await payTransaction({ transaction_id: transactionId }, buyerId);
+      const dispute = await openDispute(disputeInput());
+
+      const result = await resolveDispute({ id: dispute.id, resolution: 'partial_refund', refund_amount: 30 }, adminId);
+
+      expect(keys).toEqual([`dispute:${dispute.id}`]);
+      expect(result.refund_pending).toBe(false);
+    });
+
+    it('should keep the refund pending when the provider cannot refund', async () => {
+      const provider = createFakePaymentProvider();
+      setPaymentProvider({
+        ...provider,
+        refund: async () => {
+          throw new Error('Gateway timeout');
+        }
+      });
+      await payTransaction({ transaction_id: transactionId }, buyerId);
+      const dispute = await openDispute(disputeInput());
+
+      const result = await resolveDispute({ id: dispute.id, resolution: 'partial_refund', refund_amount: 30 }, adminId);
+
+      expect(result.status).toEqual('resolved');
+      expect(result.refund_pending).toBe(true);
+      expect((await findDispute(dispute.id)).refund_pending).toBe(true);
+      expect((await findTransaction()).status).toEqual('completed');
+    });
+
+    it('should refund part and release the rest to the seller', async () => {
+      const dispute = await openShippedDispute();
+
+      const result = await resolveDispute({ id: dispute.id, resolution: 'partial_refund', refund_amount: 30 }, adminId);
+
+      expect(result.resolution).toEqual('partial_refund');
+      expect(result.refund_amount).toEqual(30);
+      expect((await findTransaction()).status).toEqual('completed');
+
+      // 70 released, minus the 5% platform fee
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'USD', available: 66.5, in_escrow: 0, pending_payouts: 0 }
+      ]);
+    });
+
+    it('should release the payment to the seller', async () => {
+      const dispute = await openShippedDispute();
+
+      const result = await resolveDispute({ id: dispute.id, resolution: 'release_to_seller' }, adminId);
+
+      expect(result.resolution).toEqual('release_to_seller');
+      expect(result.refund_amount).toBeNull();
+      expect((await findTransaction()).status).toEqual('completed');
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'USD', available: 95, in_escrow: 0, pending_payouts: 0 }
+      ]);
+    });
+
+    it('should tell both parties how the dispute ended', async () => {
+      const dispute = await openShippedDispute();
+      await resolveDispute({ id: dispute.id, resolution: 'release_to_seller' }, adminId);
+
+      for (const userId of [buyerId, sellerId]) {
+        const resolved = (await notificationsFor(userId)).filter(n => n.title === 'Dispute resolved');
+        expect(resolved).toHaveLength(1);
+        expect(resolved[0].message).toEqual(`Dispute on transaction #${transactionId} resolved: the payment goes to the seller`);
+      }
+    });
+
+    it('should validate the partial refund amount', async () => {
+      const dispute = await openShippedDispute();
+
+      await expect(resolveDispute({ id: dispute.id, resolution: 'partial_refund' }, adminId))
+        .rejects.toThrow(/needs a refund amount/i);
+      await expect(resolveDispute({ id: dispute.id, resolution: 'partial_refund', refund_amount: 100 }, adminId))
+        .rejects.toBeInstanceOf(ValidationError);
+      await expect(resolveDispute({ id: dispute.id, resolution: 'release_to_seller', refund_amount: 10 }, adminId))
+        .rejects.toBeInstanceOf(ValidationError);
+
+      expect((await findDispute(dispute.id)).status).toEqual('open');
+    });
+
+    it('should resolve a dispute once', async () => {
+      const dispute = await openShippedDispute();
+      await resolveDispute({ id: dispute.id, resolution: 'release_to_seller' }, adminId);
+
+      await expect(resolveDispute({ id: dispute.id, resolution: 'full_refund' }, adminId))
+        .rejects.toBeInstanceOf(InvalidStateTransitionError);
+    });
+  });
+
+  describe('settled by the parties', () => {
+    it('should close the dispute when the seller refunds', async () => {
+      await payTransaction({ transaction_id: transactionId }, buyerId);
+      const dispute = await openDispute(disputeInput());
+
+      await refundTransaction({ transaction_id: transactionId }, sellerId);
+
+      const settled = await findDispute(dispute.id);
+      expect(settled.status).toEqual('resolved');
+      expect(settled.resolution).toEqual('full_refund');
+      expect(settled.resolved_by).toBeNull();
+    });
+
+    it('should close the dispute when the buyer completes the order', async () => {
+      const dispute = await openShippedDispute();
+
+      await updateTransactionStatus({ id: transactionId, status: 'completed' }, buyerId);
+
+      const settled = await findDispute(dispute.id);
+      expect(settled.status).toEqual('resolved');
+      expect(settled.resolution).toEqual('release_to_seller');
+    });
+  });
+});
@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, followsTable } from '../db/schema';
+import { usersTable, followsTable, notificationsTable } from '../db/schema';
 import { type CreateFollowInput } from '../schema';
 import { createFollow, deleteFollow } from '../handlers/create_follow';
+import { ValidationError } from '../lib/errors';
 import { eq, and } from 'drizzle-orm';
 
 describe('createFollow', () => {
@@ -58,9 +59,10 @@ describe('createFollow', () => {
       following_id: testUser2.id
     };
 
-    const result = await createFollow(input);
+    const { status, follow: result } = await createFollow(input);
 
     // Verify follow record fields
+    expect(status).toEqual('followed');
     expect(result.follower_id).toEqual(testUser1.id);
     expect(result.following_id).toEqual(testUser2.id);
     expect(result.id).toBeDefined();
@@ -73,7 +75,7 @@ describe('createFollow', () => {
       following_id: testUser2.id
     };
 
-    const result = await createFollow(input);
+    const { follow: result } = await createFollow(input);
 
     // Verify follow record exists in database
     const follows = await db.select()
@@ -110,6 +112,23 @@ describe('createFollow', () => {
     expect(followingUser[0].follower_count).toEqual(1);
   });
 
+  it('should notify the followed user', async () => {
+    await createFollow({
+      follower_id: testUser1.id,
+      following_id: testUser2.id
+    });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, testUser2.id))
+      .execute();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('follow');
+    expect(notifications[0].related_id).toEqual(testUser1.id);
+    expect(notifications[0].message).toEqual('follower_user started following you');
+  });
+
   it('should prevent self-follow', async () => {
     const input = {
       follower_id: testUser1.id,
@@ -117,19 +136,52 @@ describe('createFollow', () => {
     };
 
     await expect(createFollow(input)).rejects.toThrow(/cannot follow themselves/i);
+    await expect(createFollow(input)).rejects.toBeInstanceOf(ValidationError);
   });
 
-  it('should prevent duplicate follow relationships', async () => {
+  it('should report an existing follow instead of duplicating it', async () => {
     const input = {
       follower_id: testUser1.id,
       following_id: testUser2.id
     };
 
     // Create first follow
-    await createFollow(input);
+    const first = await createFollow(input);
+
+    // Follow again
+    const second = await createFollow(input);
 
-    // Attempt duplicate follow
-    await expect(createFollow(input)).rejects.toThrow(/already exists/i);
+    expect(second.status).toEqual('already_following');
+    expect(second.follow.id).toEqual(first.follow.id);
+
+    const followed = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, testUser2.id))
+      .execute();
+    expect(followed[0].follower_count).toEqual(1);
+  });
+
+  it('should keep a single follow when requests race', async () => {
+    const input = {
+      follower_id: testUser1.id,
+      following_id: testUser2.id
+    };
+
+    const results = await Promise.all([createFollow(input), createFollow(input), createFollow(input)]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['already_following', 'already_following', 'followed']);
+
+    const follows = await db.select()
+      .from(followsTable)
+      .where(eq(followsTable.follower_id, testUser1.id))
+      .execute();
+    expect(follows).toHaveLength(1);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, testUser1.id))
+      .execute();
+    expect(users[0].following_count).toEqual(1);
   });
 
   it('should throw error for non-existent follower', async () => {
@@ -237,6 +289,28 @@ describe('deleteFollow', () => {
     expect(followingUser[0].follower_count).toEqual(0);
   });
 
+  it('should count concurrent unfollows once', async () => {
+    const results = await Promise.allSettled([
+      deleteFollow(testUser1.id, testUser2.id),
+      deleteFollow(testUser1.id, testUser2.id),
+      deleteFollow(testUser1.id, testUser2.id)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const [followerUser] = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, testUser1.id))
+      .execute();
+    const [followingUser] = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, testUser2.id))
+      .execute();
+
+    expect(followerUser.following_count).toEqual(0);
+    expect(followingUser.follower_count).toEqual(0);
+  });
+
   it('should throw error when follow relationship does not exist', async () => {
     // Try to delete non-existent follow relationship
     await expect(deleteFollow(testUser2.id, testUser1.id)).rejects.toThrow(/does not exist/i);
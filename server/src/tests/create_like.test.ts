@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { likesTable, postsTable, usersTable } from '../db/schema';
+import { likesTable, notificationsTable, postsTable, usersTable } from '../db/schema';
 import { type CreateLikeInput } from '../schema';
 import { createLike, deleteLike } from '../handlers/create_like';
 import { eq, and } from 'drizzle-orm';
@@ -35,9 +35,10 @@ describe('createLike', () => {
       post_id: postResult[0].id
     };
 
-    const result = await createLike(testInput);
+    const { status, like: result } = await createLike(testInput);
 
     // Verify like was created
+    expect(status).toEqual('liked');
     expect(result.id).toBeDefined();
     expect(result.user_id).toEqual(testInput.user_id);
     expect(result.post_id).toEqual(testInput.post_id);
@@ -67,7 +68,7 @@ describe('createLike', () => {
       post_id: postResult[0].id
     };
 
-    const result = await createLike(testInput);
+    const { like: result } = await createLike(testInput);
 
     // Verify like exists in database
     const likes = await db.select()
@@ -117,6 +118,61 @@ describe('createLike', () => {
     expect(updatedPost[0].like_count).toEqual(initialLikeCount + 1);
   });
 
+  it('should notify the post author', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com' },
+        { username: 'liker', email: 'liker@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    const postResult = await db.insert(postsTable)
+      .values({
+        user_id: users[0].id,
+        content: 'Test post content'
+      })
+      .returning()
+      .execute();
+
+    await createLike({ user_id: users[1].id, post_id: postResult[0].id });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, users[0].id))
+      .execute();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('like');
+    expect(notifications[0].related_id).toEqual(postResult[0].id);
+  });
+
+  it('should not notify when liking own post', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: 'testuser',
+        email: 'test@example.com'
+      })
+      .returning()
+      .execute();
+
+    const postResult = await db.insert(postsTable)
+      .values({
+        user_id: userResult[0].id,
+        content: 'Test post content'
+      })
+      .returning()
+      .execute();
+
+    await createLike({ user_id: userResult[0].id, post_id: postResult[0].id });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .execute();
+
+    expect(notifications).toHaveLength(0);
+  });
+
   it('should throw error when user does not exist', async () => {
     // Create a post with a different user
     const userResult = await db.insert(usersTable)
@@ -161,7 +217,7 @@ describe('createLike', () => {
     await expect(createLike(testInput)).rejects.toThrow(/post not found/i);
   });
 
-  it('should prevent duplicate likes', async () => {
+  it('should report an existing like instead of duplicating it', async () => {
     // Create prerequisite data
     const userResult = await db.insert(usersTable)
       .values({
@@ -185,10 +241,58 @@ describe('createLike', () => {
     };
 
     // Create first like
-    await createLike(testInput);
+    const first = await createLike(testInput);
+
+    // Like again
+    const second = await createLike(testInput);
+
+    expect(second.status).toEqual('already_liked');
+    expect(second.like.id).toEqual(first.like.id);
+
+    const posts = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postResult[0].id))
+      .execute();
+    expect(posts[0].like_count).toEqual(1);
+  });
+
+  it('should count concurrent likes from one user once', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: 'testuser',
+        email: 'test@example.com'
+      })
+      .returning()
+      .execute();
 
-    // Attempt to create duplicate like
-    await expect(createLike(testInput)).rejects.toThrow(/like already exists/i);
+    const postResult = await db.insert(postsTable)
+      .values({
+        user_id: userResult[0].id,
+        content: 'Test post content'
+      })
+      .returning()
+      .execute();
+
+    const testInput: CreateLikeInput = {
+      user_id: userResult[0].id,
+      post_id: postResult[0].id
+    };
+
+    const results = await Promise.all([createLike(testInput), createLike(testInput), createLike(testInput)]);
+
+    expect(results.filter(result => result.status === 'liked')).toHaveLength(1);
+
+    const likes = await db.select()
+      .from(likesTable)
+      .where(eq(likesTable.post_id, postResult[0].id))
+      .execute();
+    expect(likes).toHaveLength(1);
+
+    const posts = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postResult[0].id))
+      .execute();
+    expect(posts[0].like_count).toEqual(1);
   });
 });
 
@@ -378,4 +482,38 @@ describe('deleteLike', () => {
 
     expect(updatedPost[0].like_count).toEqual(1);
   });
+
+  it('should count concurrent unlikes from one user once', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: 'testuser',
+        email: 'test@example.com'
+      })
+      .returning()
+      .execute();
+
+    const postResult = await db.insert(postsTable)
+      .values({
+        user_id: userResult[0].id,
+        content: 'Test post content'
+      })
+      .returning()
+      .execute();
+
+    await createLike({ user_id: userResult[0].id, post_id: postResult[0].id });
+
+    const results = await Promise.allSettled([
+      deleteLike(userResult[0].id, postResult[0].id),
+      deleteLike(userResult[0].id, postResult[0].id),
+      deleteLike(userResult[0].id, postResult[0].id)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const posts = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postResult[0].id))
+      .execute();
+    expect(posts[0].like_count).toEqual(0);
+  });
 });
\ No newline at end of file
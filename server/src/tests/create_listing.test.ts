@@ -26,6 +26,7 @@ const testInput: CreateListingInput = {
   condition: 'like_new',
   location: 'San Francisco, CA',
   media_urls: ['https://example.com/image1.jpg', 'https://example.com/image2.jpg'],
+  quantity: 1,
 };
 
 describe('createListing', () => {
@@ -114,6 +115,7 @@ describe('createListing', () => {
       condition: 'good',
       location: null,
       media_urls: null,
+      quantity: 1,
     };
     
     const result = await createListing(minimalInput);
@@ -182,12 +184,50 @@ describe('createListing', () => {
     }
   });
 
+  it('should put the whole quantity on sale', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const result = await createListing({ ...testInput, user_id: userResult[0].id, quantity: 5 });
+
+    expect(result.quantity).toBe(5);
+    expect(result.quantity_available).toBe(5);
+  });
+
   it('should throw error when user does not exist', async () => {
     const input = { ...testInput, user_id: 999 }; // Non-existent user
 
     await expect(createListing(input)).rejects.toThrow(/User with id 999 does not exist/i);
   });
 
+  it('should store map coordinates', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const result = await createListing({ ...testInput, user_id: userResult[0].id, latitude: 37.7749, longitude: -122.4194 });
+
+    expect(result.latitude).toEqual(37.7749);
+    expect(result.longitude).toEqual(-122.4194);
+
+    const withoutPosition = await createListing({ ...testInput, user_id: userResult[0].id });
+    expect(withoutPosition.latitude).toBeNull();
+    expect(withoutPosition.longitude).toBeNull();
+  });
+
+  it('should reject a latitude without a longitude', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    await expect(createListing({ ...testInput, user_id: userResult[0].id, latitude: 37.7749 }))
+      .rejects.toThrow(/latitude and longitude must be provided together/i);
+  });
+
   it('should handle empty media_urls array', async () => {
     // Create user first
     const userResult = await db.insert(usersTable)
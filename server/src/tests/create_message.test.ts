@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, listingsTable, conversationsTable, messagesTable, notificationsTable } from '../db/schema';
+import { startConversation, sendMessage, markConversationRead } from '../handlers/create_message';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../lib/errors';
+import { eq, and } from 'drizzle-orm';
+
+describe('messaging', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let buyerId: number;
+  let sellerId: number;
+  let strangerId: number;
+  let listingId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' },
+        { username: 'stranger', email: 'stranger@example.com' }
+      ])
+      .returning()
+      .execute();
+    [buyerId, sellerId, strangerId] = users.map(user => user.id);
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Camera',
+        description: 'Film camera',
+        price: '120.00',
+        currency: 'USD',
+        category: 'electronics',
+        condition: 'good'
+      })
+      .returning()
+      .execute();
+    listingId = listing.id;
+  });
+
+  const notificationsFor = (userId: number) => db.select()
+    .from(notificationsTable)
+    .where(and(eq(notificationsTable.user_id, userId), eq(notificationsTable.type, 'message')))
+    .execute();
+
+  describe('startConversation', () => {
+    it('should start a conversation about a listing with a first message', async () => {
+      const conversation = await startConversation({ listing_id: listingId, buyer_id: buyerId, message: 'Is it available?' });
+
+      expect(conversation.listing_id).toEqual(listingId);
+      expect(conversation.buyer_id).toEqual(buyerId);
+      expect(conversation.seller_id).toEqual(sellerId);
+
+      const messages = await db.select()
+        .from(messagesTable)
+        .where(eq(messagesTable.conversation_id, conversation.id))
+        .execute();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].sender_id).toEqual(buyerId);
+      expect(messages[0].body).toEqual('Is it available?');
+      expect(messages[0].read_at).toBeNull();
+
+      const notifications = await notificationsFor(sellerId);
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].message).toEqual('buyer sent you a message');
+      expect(notifications[0].related_id).toEqual(conversation.id);
+    });
+
+    it('should continue the existing conversation about the same listing', async () => {
+      const first = await startConversation({ listing_id: listingId, buyer_id: buyerId });
+      const second = await startConversation({ listing_id: listingId, buyer_id: buyerId, message: 'Still there?' });
+
+      expect(second.id).toEqual(first.id);
+
+      const conversations = await db.select().from(conversationsTable).execute();
+      expect(conversations).toHaveLength(1);
+    });
+
+    it('should reject conversations about your own listing', async () => {
+      await expect(startConversation({ listing_id: listingId, buyer_id: sellerId }))
+        .rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should reject missing and inactive listings', async () => {
+      await expect(startConversation({ listing_id: 999999, buyer_id: buyerId }))
+        .rejects.toBeInstanceOf(NotFoundError);
+
+      await db.update(listingsTable)
+        .set({ is_active: false })
+        .where(eq(listingsTable.id, listingId))
+        .execute();
+
+      await expect(startConversation({ listing_id: listingId, buyer_id: buyerId }))
+        .rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('sendMessage', () => {
+    let conversationId: number;
+
+    beforeEach(async () => {
+      const conversation = await startConversation({ listing_id: listingId, buyer_id: buyerId });
+      conversationId = conversation.id;
+    });
+
+    it('should deliver messages both ways and bump the conversation', async () => {
+      const question = await sendMessage({ conversation_id: conversationId, sender_id: buyerId, body: 'Any scratches?' });
+      const answer = await sendMessage({ conversation_id: conversationId, sender_id: sellerId, body: 'None at all' });
+
+      expect(question.sender_id).toEqual(buyerId);
+      expect(answer.sender_id).toEqual(sellerId);
+
+      const [conversation] = await db.select()
+        .from(conversationsTable)
+        .where(eq(conversationsTable.id, conversationId))
+        .execute();
+      expect(conversation.last_message_at).toEqual(answer.created_at);
+
+      expect(await notificationsFor(sellerId)).toHaveLength(1);
+      expect(await notificationsFor(buyerId)).toHaveLength(1);
+    });
+
+    it('should fold repeated messages into one unread notification', async () => {
+      await sendMessage({ conversation_id: conversationId, sender_id: buyerId, body: 'Hello?' });
+      await sendMessage({ conversation_id: conversationId, sender_id: buyerId, body: 'Hello??' });
+
+      expect(await notificationsFor(sellerId)).toHaveLength(1);
+    });
+
+    it('should reject senders outside the conversation', async () => {
+      await expect(sendMessage({ conversation_id: conversationId, sender_id: strangerId, body: 'Psst' }))
+        .rejects.toBeInstanceOf(ForbiddenError);
+      await expect(sendMessage({ conversation_id: 999999, sender_id: buyerId, body: 'Hello' }))
+        .rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('markConversationRead', () => {
+    let conversationId: number;
+
+    beforeEach(async () => {
+      const conversation = await startConversation({ listing_id: listingId, buyer_id: buyerId, message: 'Hi' });
+      conversationId = conversation.id;
+      await sendMessage({ conversation_id: conversationId, sender_id: buyerId, body: 'Can you ship?' });
+      await sendMessage({ conversation_id: conversationId, sender_id: sellerId, body: 'Yes' });
+    });
+
+    it("should mark only the other participant's messages as read", async () => {
+      const marked = await markConversationRead(conversationId, sellerId);
+
+      expect(marked).toEqual(2);
+
+      const messages = await db.select()
+        .from(messagesTable)
+        .where(eq(messagesTable.conversation_id, conversationId))
+        .execute();
+      for (const message of messages) {
+        if (message.sender_id === buyerId) {
+          expect(message.read_at).toBeInstanceOf(Date);
+        } else {
+          expect(message.read_at).toBeNull();
+        }
+      }
+
+      const notifications = await notificationsFor(sellerId);
+      expect(notifications.every(notification => notification.is_read)).toBe(true);
+
+      expect(await markConversationRead(conversationId, sellerId)).toEqual(0);
+    });
+
+    it('should reject users outside the conversation', async () => {
+      await expect(markConversationRead(conversationId, strangerId)).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+});
@@ -182,6 +182,36 @@ describe('markNotificationAsRead', () => {
     expect(result).toBe(false);
   });
 
+  it('should not mark another user\'s notification as read', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const notificationResult = await db.insert(notificationsTable)
+      .values({
+        user_id: userResult[0].id,
+        type: 'like',
+        title: 'Test Notification',
+        message: 'Test message',
+        is_read: false,
+        related_id: null,
+      })
+      .returning()
+      .execute();
+
+    const result = await markNotificationAsRead(notificationResult[0].id, userResult[0].id + 1);
+
+    expect(result).toBe(false);
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.id, notificationResult[0].id))
+      .execute();
+
+    expect(notifications[0].is_read).toBe(false);
+  });
+
   it('should handle already read notification', async () => {
     // Create test user first
     const userResult = await db.insert(usersTable)
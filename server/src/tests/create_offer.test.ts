@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, listingsTable, offersTable, notificationsTable, transactionsTable } from '../db/schema';
+import { type RespondToOfferInput } from '../schema';
+import { createOffer, respondToOffer } from '../handlers/create_offer';
+import { createTransaction } from '../handlers/create_transaction';
+import {
+  ConflictError,
+  ForbiddenError,
+  InvalidStateTransitionError,
+  ValidationError
+} from '../lib/errors';
+import { eq, and } from 'drizzle-orm';
+
+describe('offers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let buyerId: number;
+  let sellerId: number;
+  let strangerId: number;
+  let listingId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' },
+        { username: 'stranger', email: 'stranger@example.com' }
+      ])
+      .returning()
+      .execute();
+    [buyerId, sellerId, strangerId] = users.map(user => user.id);
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Guitar',
+        description: 'Acoustic guitar',
+        price: '200.00',
+        currency: 'USD',
+        category: 'music',
+        condition: 'good'
+      })
+      .returning()
+      .execute();
+    listingId = listing.id;
+  });
+
+  const respond = (input: Omit<RespondToOfferInput, 'expires_in_hours'> & { expires_in_hours?: number }, actorId: number) =>
+    respondToOffer({ expires_in_hours: 48, ...input }, actorId);
+
+  describe('createOffer', () => {
+    it('should create a pending offer in the listing currency', async () => {
+      const offer = await createOffer({ listing_id: listingId, buyer_id: buyerId, amount: 150, expires_in_hours: 24 });
+
+      expect(offer.status).toEqual('pending');
+      expect(offer.amount).toEqual(150);
+      expect(typeof offer.amount).toBe('number');
+      expect(offer.currency).toEqual('USD');
+      expect(offer.seller_id).toEqual(sellerId);
+      expect(offer.transaction_id).toBeNull();
+      expect(offer.expires_at.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+
+      const notifications = await db.select()
+        .from(notificationsTable)
+        .where(eq(notificationsTable.user_id, sellerId))
+        .execute();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].type).toEqual('offer');
+      expect(notifications[0].message).toEqual('buyer made an offer of 150.00 USD');
+    });
+
+    it('should allow only one open offer per buyer and listing', async () => {
+      await createOffer({ listing_id: listingId, buyer_id: buyerId, amount: 150, expires_in_hours: 48 });
+
+      await expect(createOffer({ listing_id: listingId, buyer_id: buyerId, amount: 160, expires_in_hours: 48 }))
+        .rejects.toBeInstanceOf(ConflictError);
+
+      // Another buyer may still make an offer
+      const other = await createOffer({ listing_id: listingId, buyer_id: strangerId, amount: 170, expires_in_hours: 48 });
+      expect(other.status).toEqual('pending');
+    });
+
+    it('should reject offers on your own or inactive listings', async () => {
+      await expect(createOffer({ listing_id: listingId, buyer_id: sellerId, amount: 150, expires_in_hours: 48 }))
+        .rejects.toBeInstanceOf(ValidationError);
+
+      await db.update(listingsTable)
+        .set({ is_active: false })
+        .where(eq(listingsTable.id, listingId))
+        .execute();
+
+      await expect(createOffer({ listing_id: listingId, buyer_id: buyerId, amount: 150, expires_in_hours: 48 }))
+        .rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('respondToOffer', () => {
+    let offerId: number;
+
+    beforeEach(async () => {
+      const offer = await createOffer({ listing_id: listingId, buyer_id: buyerId, amount: 150, expires_in_hours: 48 });
+      offerId = offer.id;
+    });
+
+    it('should negotiate back and forth and create the transaction on acceptance', async () => {
+      const countered = await respond({ id: offerId, action: 'counter', amount: 180 }, sellerId);
+      expect(countered.offer.status).toEqual('countered');
+      expect(countered.offer.amount).toEqual(180);
+      expect(countered.transaction).toBeNull();
+
+      const recountered = await respond({ id: offerId, action: 'counter', amount: 170 }, buyerId);
+      expect(recountered.offer.status).toEqual('pending');
+
+      const accepted = await respond({ id: offerId, action: 'accept' }, sellerId);
+
+      expect(accepted.offer.status).toEqual('accepted');
+      expect(accepted.transaction).not.toBeNull();
+      expect(accepted.transaction!.amount).toEqual(170);
+      expect(accepted.transaction!.status).toEqual('pending');
+      expect(accepted.offer.transaction_id).toEqual(accepted.transaction!.id);
+
+      const [stored] = await db.select()
+        .from(offersTable)
+        .where(eq(offersTable.id, offerId))
+        .execute();
+      expect(stored.transaction_id).toEqual(accepted.transaction!.id);
+      expect(stored.version).toEqual(4);
+
+      const buyerNotifications = await db.select()
+        .from(notificationsTable)
+        .where(and(eq(notificationsTable.user_id, buyerId), eq(notificationsTable.type, 'offer')))
+        .execute();
+      expect(buyerNotifications.map(notification => notification.title).sort())
+        .toEqual(['Counter offer', 'Offer accepted']);
+    });
+
+    it('should only let the awaited party accept, counter or decline', async () => {
+      await expect(respond({ id: offerId, action: 'accept' }, buyerId)).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(respond({ id: offerId, action: 'decline' }, strangerId)).rejects.toBeInstanceOf(ForbiddenError);
+
+      await respond({ id: offerId, action: 'counter', amount: 190 }, sellerId);
+
+      await expect(respond({ id: offerId, action: 'accept' }, sellerId)).rejects.toThrow(/waiting for the buyer/i);
+    });
+
+    it('should let the proposer withdraw', async () => {
+      await expect(respond({ id: offerId, action: 'withdraw' }, sellerId)).rejects.toBeInstanceOf(ForbiddenError);
+
+      const withdrawn = await respond({ id: offerId, action: 'withdraw' }, buyerId);
+      expect(withdrawn.offer.status).toEqual('withdrawn');
+
+      // The buyer may start over with a new offer
+      const fresh = await createOffer({ listing_id: listingId, buyer_id: buyerId, amount: 140, expires_in_hours: 48 });
+      expect(fresh.id).not.toEqual(offerId);
+    });
+
+    it('should reject responses to settled offers', async () => {
+      await respond({ id: offerId, action: 'decline' }, sellerId);
+
+      await expect(respond({ id: offerId, action: 'accept' }, sellerId))
+        .rejects.toBeInstanceOf(InvalidStateTransitionError);
+    });
+
+    it('should require an amount to counter', async () => {
+      await expect(respond({ id: offerId, action: 'counter' }, sellerId)).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should expire offers past their window', async () => {
+      await db.update(offersTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(offersTable.id, offerId))
+        .execute();
+
+      await expect(respond({ id: offerId, action: 'accept' }, sellerId)).rejects.toThrow(/expired/i);
+
+      const [stored] = await db.select()
+        .from(offersTable)
+        .where(eq(offersTable.id, offerId))
+        .execute();
+      expect(stored.status).toEqual('expired');
+    });
+
+    it('should reject a stale expected version', async () => {
+      await respond({ id: offerId, action: 'counter', amount: 190 }, sellerId);
+
+      await expect(respond({ id: offerId, action: 'accept', expected_version: 1 }, buyerId))
+        .rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('createTransaction with an offer', () => {
+    let offerId: number;
+
+    beforeEach(async () => {
+      const offer = await createOffer({ listing_id: listingId, buyer_id: buyerId, amount: 150, expires_in_hours: 48 });
+      offerId = offer.id;
+    });
+
+    const checkout = (amount: number) => createTransaction({
+      listing_id: listingId,
+      buyer_id: buyerId,
+      seller_id: sellerId,
+      quantity: 1,
+      amount,
+      currency: 'USD',
+      payment_method: 'card',
+      offer_id: offerId
+    });
+
+    it('should refuse offers that are not accepted', async () => {
+      await expect(checkout(150)).rejects.toBeInstanceOf(InvalidStateTransitionError);
+    });
+
+    it('should honor the accepted amount and reuse the transaction it created', async () => {
+      const { transaction } = await respond({ id: offerId, action: 'accept' }, sellerId);
+
+      await expect(checkout(200)).rejects.toThrow(/accepted offer/i);
+
+      const again = await checkout(150);
+      expect(again.id).toEqual(transaction!.id);
+
+      const transactions = await db.select().from(transactionsTable).execute();
+      expect(transactions).toHaveLength(1);
+    });
+
+    it("should refuse another buyer's offer", async () => {
+      await respond({ id: offerId, action: 'accept' }, sellerId);
+
+      await expect(createTransaction({
+        listing_id: listingId,
+        buyer_id: strangerId,
+        seller_id: sellerId,
+        quantity: 1,
+        amount: 150,
+        currency: 'USD',
+        payment_method: null,
+        offer_id: offerId
+      })).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,362 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { listingsTable, paymentIntentsTable, transactionsTable, usersTable } from '../db/schema';
+import { handlePaymentWebhook, payTransaction, refundTransaction } from '../handlers/create_payment';
+import {
+  assertPaymentProviderConfigured,
+  createFakePaymentProvider,
+  setPaymentProvider,
+  type FakePaymentProvider
+} from '../lib/payments';
+import {
+  ConflictError,
+  ForbiddenError,
+  InvalidStateTransitionError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError
+} from '../lib/errors';
+import { eq, sql } from 'drizzle-orm';
+
+describe('payments', () => {
+  let provider: FakePaymentProvider;
+  let buyerId: number;
+  let sellerId: number;
+  let listingId: number;
+  let transactionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    provider = createFakePaymentProvider();
+    setPaymentProvider(provider);
+
+    const [buyer, seller] = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' }
+      ])
+      .returning()
+      .execute();
+    buyerId = buyer.id;
+    sellerId = seller.id;
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Record player',
+        description: 'Belt drive, works fine',
+        price: '120.00',
+        currency: 'EUR',
+        category: 'music',
+        condition: 'good'
+      })
+      .returning()
+      .execute();
+    listingId = listing.id;
+
+    const [transaction] = await db.insert(transactionsTable)
+      .values({
+        listing_id: listingId,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        amount: '120.00',
+        currency: 'EUR',
+        payment_method: 'credit_card'
+      })
+      .returning()
+      .execute();
+    transactionId = transaction.id;
+  });
+
+  afterEach(resetDB);
+
+  const findTransaction = async () => {
+    const [transaction] = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, transactionId))
+      .execute();
+    return transaction;
+  };
+
+  const findListing = async () => {
+    const [listing] = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+    return listing;
+  };
+
+  describe('payTransaction', () => {
+    it('should capture the payment and mark the transaction paid', async () => {
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      expect(intent.status).toEqual('captured');
+      expect(intent.provider).toEqual('fake');
+      expect(intent.amount).toEqual(120);
+      expect(intent.currency).toEqual('EUR');
+
+      expect((await findTransaction()).status).toEqual('paid');
+      expect((await findListing()).quantity_available).toEqual(0);
+    });
+
+    it('should leave the transaction pending when the payment is declined', async () => {
+      setPaymentProvider(createFakePaymentProvider({ decline: () => 'Insufficient funds' }));
+
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      expect(intent.status).toEqual('failed');
+      expect(intent.failure_reason).toEqual('Insufficient funds');
+      expect((await findTransaction()).status).toEqual('pending');
+    });
+
+    it('should only let the buyer pay', async () => {
+      await expect(payTransaction({ transaction_id: transactionId }, sellerId)).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('should refuse transactions that are no longer pending', async () => {
+      await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      await expect(payTransaction({ transaction_id: transactionId }, buyerId))
+        .rejects.toBeInstanceOf(InvalidStateTransitionError);
+
+      const intents = await db.select().from(paymentIntentsTable).execute();
+      expect(intents).toHaveLength(1);
+    });
+
+    it('should require a payment method the provider supports', async () => {
+      await db.update(transactionsTable)
+        .set({ payment_method: 'seashells' })
+        .where(eq(transactionsTable.id, transactionId))
+        .execute();
+      await expect(payTransaction({ transaction_id: transactionId }, buyerId)).rejects.toBeInstanceOf(ValidationError);
+
+      await db.update(transactionsTable)
+        .set({ payment_method: null })
+        .where(eq(transactionsTable.id, transactionId))
+        .execute();
+      await expect(payTransaction({ transaction_id: transactionId }, buyerId)).rejects.toThrow(/payment method/i);
+    });
+
+    it('should give the money back when the listing sold out in the meantime', async () => {
+      await db.update(listingsTable)
+        .set({ quantity_available: 0 })
+        .where(eq(listingsTable.id, listingId))
+        .execute();
+
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      expect(intent.status).toEqual('refunded');
+      expect(intent.failure_reason).toMatch(/sold out/i);
+      expect((await findTransaction()).status).toEqual('pending');
+    });
+
+    it('should keep the capture and the status change together when the database fails', async () => {
+      await db.execute(sql`
+        create function fail_transaction_events() returns trigger as $$
+        begin raise exception 'database unavailable'; end $$ language plpgsql`);
+      await db.execute(sql`
+        create trigger fail_transaction_events before insert on transaction_events
+        for each row execute function fail_transaction_events()`);
+
+      await expect(payTransaction({ transaction_id: transactionId }, buyerId)).rejects.toThrow(/database unavailable/);
+
+      let intents = await db.select().from(paymentIntentsTable).execute();
+      expect(intents.map(intent => intent.status)).toEqual(['authorized']);
+      expect((await findTransaction()).status).toEqual('pending');
+
+      // The retry finishes the same payment instead of charging again
+      await db.execute(sql`drop trigger fail_transaction_events on transaction_events`);
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      expect(intent.status).toEqual('captured');
+      expect((await findTransaction()).status).toEqual('paid');
+      intents = await db.select().from(paymentIntentsTable).execute();
+      expect(intents).toHaveLength(1);
+    });
+
+    it('should finish a capture that never reached the transaction', async () => {
+      const authorization = await provider.authorize({
+        amount: 120,
+        currency: 'EUR',
+        payment_method: 'credit_card',
+        reference: `transaction:${transactionId}`
+      });
+      await provider.capture(authorization.intentId);
+      await db.insert(paymentIntentsTable)
+        .values({
+          transaction_id: transactionId,
+          provider: 'fake',
+          provider_intent_id: authorization.intentId,
+          amount: '120.00',
+          currency: 'EUR',
+          status: 'captured'
+        })
+        .execute();
+
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      expect(intent.provider_intent_id).toEqual(authorization.intentId);
+      expect((await findTransaction()).status).toEqual('paid');
+      const intents = await db.select().from(paymentIntentsTable).execute();
+      expect(intents).toHaveLength(1);
+    });
+
+    it('should authorize again when the amount changed since the last authorization', async () => {
+      setPaymentProvider(createFakePaymentProvider({ asyncCapture: true }));
+      const stale = await payTransaction({ transaction_id: transactionId }, buyerId);
+      await db.update(transactionsTable)
+        .set({ amount: '100.00' })
+        .where(eq(transactionsTable.id, transactionId))
+        .execute();
+
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      expect(intent.id).not.toEqual(stale.id);
+      expect(intent.amount).toEqual(100);
+      const [old] = await db.select()
+        .from(paymentIntentsTable)
+        .where(eq(paymentIntentsTable.id, stale.id))
+        .execute();
+      expect(old.status).toEqual('failed');
+      expect(old.failure_reason).toEqual('Transaction amount changed');
+    });
+
+    it('should throw error for non-existent transaction', async () => {
+      await expect(payTransaction({ transaction_id: 999999 }, buyerId)).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('refundTransaction', () => {
+    it('should refund the captured payment and the transaction', async () => {
+      await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      const intent = await refundTransaction({ transaction_id: transactionId, reason: 'Item damaged' }, sellerId);
+
+      expect(intent.status).toEqual('refunded');
+      expect((await findTransaction()).status).toEqual('refunded');
+      expect((await findListing()).quantity_available).toEqual(1);
+    });
+
+    it('should only let the seller refund', async () => {
+      await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      await expect(refundTransaction({ transaction_id: transactionId }, buyerId)).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('should refuse transactions without a captured payment', async () => {
+      await db.update(transactionsTable)
+        .set({ status: 'paid' })
+        .where(eq(transactionsTable.id, transactionId))
+        .execute();
+
+      await expect(refundTransaction({ transaction_id: transactionId }, sellerId)).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should refuse transactions that cannot be refunded', async () => {
+      await expect(refundTransaction({ transaction_id: transactionId }, sellerId))
+        .rejects.toBeInstanceOf(InvalidStateTransitionError);
+    });
+  });
+
+  describe('handlePaymentWebhook', () => {
+    beforeEach(() => {
+      provider = createFakePaymentProvider({ asyncCapture: true });
+      setPaymentProvider(provider);
+    });
+
+    it('should mark the transaction paid once the capture settles', async () => {
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+      expect(intent.status).toEqual('authorized');
+      expect((await findTransaction()).status).toEqual('pending');
+
+      const { payload, signature } = provider.signWebhook({ intentId: intent.provider_intent_id, status: 'captured' });
+      const settled = await handlePaymentWebhook(payload, signature);
+
+      expect(settled.status).toEqual('captured');
+      expect((await findTransaction()).status).toEqual('paid');
+    });
+
+    it('should ignore replayed and out-of-order updates', async () => {
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+      const captured = provider.signWebhook({ intentId: intent.provider_intent_id, status: 'captured' });
+      await handlePaymentWebhook(captured.payload, captured.signature);
+
+      await handlePaymentWebhook(captured.payload, captured.signature);
+      const late = provider.signWebhook({ intentId: intent.provider_intent_id, status: 'failed' });
+      const result = await handlePaymentWebhook(late.payload, late.signature);
+
+      expect(result.status).toEqual('captured');
+      const transaction = await findTransaction();
+      expect(transaction.status).toEqual('paid');
+      expect(transaction.version).toEqual(2);
+    });
+
+    it('should record a failed capture and keep the transaction pending', async () => {
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+
+      const { payload, signature } = provider.signWebhook({
+        intentId: intent.provider_intent_id,
+        status: 'failed',
+        failureReason: 'Card expired'
+      });
+      const failed = await handlePaymentWebhook(payload, signature);
+
+      expect(failed.status).toEqual('failed');
+      expect(failed.failure_reason).toEqual('Card expired');
+      expect((await findTransaction()).status).toEqual('pending');
+    });
+
+    it('should reject a bad signature', async () => {
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+      const { payload } = provider.signWebhook({ intentId: intent.provider_intent_id, status: 'captured' });
+
+      await expect(handlePaymentWebhook(payload, 'forged')).rejects.toBeInstanceOf(UnauthorizedError);
+      await expect(handlePaymentWebhook(payload, undefined)).rejects.toBeInstanceOf(UnauthorizedError);
+      expect((await findTransaction()).status).toEqual('pending');
+    });
+
+    it('should reject updates for unknown intents', async () => {
+      const { payload, signature } = provider.signWebhook({ intentId: 'fake_pi_404', status: 'captured' });
+
+      await expect(handlePaymentWebhook(payload, signature)).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should give back a capture for an amount the transaction no longer has', async () => {
+      const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+      await db.update(transactionsTable)
+        .set({ amount: '100.00' })
+        .where(eq(transactionsTable.id, transactionId))
+        .execute();
+
+      const { payload, signature } = provider.signWebhook({ intentId: intent.provider_intent_id, status: 'captured' });
+      const settled = await handlePaymentWebhook(payload, signature);
+
+      expect(settled.status).toEqual('refunded');
+      expect(settled.failure_reason).toMatch(/no longer matches/i);
+      expect((await findTransaction()).status).toEqual('pending');
+    });
+  });
+
+  describe('assertPaymentProviderConfigured', () => {
+    const nodeEnv = process.env['NODE_ENV'];
+    afterEach(() => {
+      if (nodeEnv === undefined) {
+        delete process.env['NODE_ENV'];
+      } else {
+        process.env['NODE_ENV'] = nodeEnv;
+      }
+    });
+
+    it('should refuse the fake gateway in production only', () => {
+      expect(() => assertPaymentProviderConfigured()).not.toThrow();
+
+      process.env['NODE_ENV'] = 'production';
+      expect(() => assertPaymentProviderConfigured()).toThrow(/real payment provider/i);
+
+      setPaymentProvider({ ...provider, name: 'stripe' });
+      expect(() => assertPaymentProviderConfigured()).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { listingsTable, payoutsTable, transactionsTable, usersTable } from '../db/schema';
+import { updateTransactionStatus } from '../handlers/create_transaction';
+import { requestPayout, updatePayoutStatus } from '../handlers/create_payout';
+import { getSellerBalance } from '../handlers/get_payouts';
+import { ConflictError, InvalidStateTransitionError, NotFoundError, ValidationError } from '../lib/errors';
+
+describe('payouts', () => {
+  let sellerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [buyer, seller] = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' }
+      ])
+      .returning()
+      .execute();
+    sellerId = seller.id;
+
+    // One completed 100.00 sale leaves 95.00 after the default 5% fee
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Desk',
+        description: 'Standing desk',
+        price: '100.00',
+        currency: 'USD',
+        category: 'home',
+        condition: 'good'
+      })
+      .returning()
+      .execute();
+    const [transaction] = await db.insert(transactionsTable)
+      .values({ listing_id: listing.id, buyer_id: buyer.id, seller_id: sellerId, amount: '100.00', currency: 'USD' })
+      .returning()
+      .execute();
+    for (const status of ['paid', 'shipped', 'delivered', 'completed'] as const) {
+      await updateTransactionStatus({ id: transaction.id, status });
+    }
+  });
+
+  afterEach(resetDB);
+
+  describe('requestPayout', () => {
+    it('should move the amount out of the available balance', async () => {
+      const payout = await requestPayout({ user_id: sellerId, amount: 60, currency: 'USD' });
+
+      expect(payout.status).toEqual('requested');
+      expect(payout.amount).toEqual(60);
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'USD', available: 35, in_escrow: 0, pending_payouts: 60 }
+      ]);
+    });
+
+    it('should refuse more than is available', async () => {
+      await expect(requestPayout({ user_id: sellerId, amount: 95.01, currency: 'USD' }))
+        .rejects.toThrow(/only 95.00 USD/i);
+      await expect(requestPayout({ user_id: sellerId, amount: 1, currency: 'EUR' }))
+        .rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should refuse amounts that round to nothing', async () => {
+      await expect(requestPayout({ user_id: sellerId, amount: 0.004, currency: 'USD' }))
+        .rejects.toBeInstanceOf(ValidationError);
+      await expect(requestPayout({ user_id: sellerId, amount: 0, currency: 'USD' }))
+        .rejects.toBeInstanceOf(ValidationError);
+
+      const payouts = await db.select().from(payoutsTable).execute();
+      expect(payouts).toHaveLength(0);
+    });
+
+    it('should never let concurrent requests overdraw the balance', async () => {
+      const results = await Promise.allSettled([
+        requestPayout({ user_id: sellerId, amount: 60, currency: 'USD' }),
+        requestPayout({ user_id: sellerId, amount: 60, currency: 'USD' })
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const [balance] = await getSellerBalance(sellerId);
+      expect(balance.available).toEqual(35);
+    });
+  });
+
+  describe('updatePayoutStatus', () => {
+    it('should settle a paid payout', async () => {
+      const payout = await requestPayout({ user_id: sellerId, amount: 60, currency: 'USD' });
+
+      const paid = await updatePayoutStatus({ id: payout.id, status: 'paid' });
+
+      expect(paid.status).toEqual('paid');
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'USD', available: 35, in_escrow: 0, pending_payouts: 0 }
+      ]);
+    });
+
+    it('should return a failed payout to the balance', async () => {
+      const payout = await requestPayout({ user_id: sellerId, amount: 60, currency: 'USD' });
+
+      const failed = await updatePayoutStatus({ id: payout.id, status: 'failed', reason: 'Bank account closed' });
+
+      expect(failed.status).toEqual('failed');
+      expect(failed.failure_reason).toEqual('Bank account closed');
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'USD', available: 95, in_escrow: 0, pending_payouts: 0 }
+      ]);
+    });
+
+    it('should refuse settling a payout twice', async () => {
+      const payout = await requestPayout({ user_id: sellerId, amount: 60, currency: 'USD' });
+      await updatePayoutStatus({ id: payout.id, status: 'failed' });
+
+      await expect(updatePayoutStatus({ id: payout.id, status: 'failed' }))
+        .rejects.toBeInstanceOf(InvalidStateTransitionError);
+
+      const [balance] = await getSellerBalance(sellerId);
+      expect(balance.available).toEqual(95);
+      expect(await db.select().from(payoutsTable).execute()).toHaveLength(1);
+    });
+
+    it('should throw error for non-existent payout', async () => {
+      await expect(updatePayoutStatus({ id: 999999, status: 'paid' })).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+});
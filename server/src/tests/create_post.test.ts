@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { postsTable, usersTable } from '../db/schema';
+import { hashtagsTable, notificationsTable, postHashtagsTable, postMentionsTable, postsTable, usersTable } from '../db/schema';
 import { type CreatePostInput } from '../schema';
 import { createPost } from '../handlers/create_post';
 import { eq } from 'drizzle-orm';
@@ -139,6 +139,132 @@ describe('createPost', () => {
     expect(updatedParentPosts[0].reply_count).toEqual(1);
   });
 
+  it('should notify the parent author of a reply', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        testUser,
+        { ...testUser, username: 'replier', email: 'replier@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    const parentPost = await createPost({ ...testInput, user_id: users[0].id });
+    const replyPost = await createPost({
+      user_id: users[1].id,
+      content: 'Replying here',
+      media_urls: null,
+      parent_post_id: parentPost.id
+    });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, users[0].id))
+      .execute();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('reply');
+    expect(notifications[0].related_id).toEqual(replyPost.id);
+  });
+
+  it('should not notify when replying to own post', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const parentPost = await createPost({ ...testInput, user_id: userResult[0].id });
+    await createPost({
+      user_id: userResult[0].id,
+      content: 'Thread continues',
+      media_urls: null,
+      parent_post_id: parentPost.id
+    });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .execute();
+
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should link mentioned users and notify them', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        testUser,
+        { ...testUser, username: 'Mentioned', email: 'mentioned@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    const post = await createPost({
+      ...testInput,
+      user_id: users[0].id,
+      content: 'Hey @mentioned and @nobody_here, mail me at test@example.com'
+    });
+
+    const mentions = await db.select()
+      .from(postMentionsTable)
+      .where(eq(postMentionsTable.post_id, post.id))
+      .execute();
+
+    expect(mentions.map(m => m.user_id)).toEqual([users[1].id]);
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, users[1].id))
+      .execute();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('mention');
+    expect(notifications[0].related_id).toEqual(post.id);
+  });
+
+  it('should not send a mention notification on top of a reply notification', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        testUser,
+        { ...testUser, username: 'replier', email: 'replier@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    const parentPost = await createPost({ ...testInput, user_id: users[0].id });
+    await createPost({
+      user_id: users[1].id,
+      content: '@testuser good point',
+      media_urls: null,
+      parent_post_id: parentPost.id
+    });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, users[0].id))
+      .execute();
+
+    expect(notifications.map(n => n.type)).toEqual(['reply']);
+  });
+
+  it('should link hashtags case-insensitively', async () => {
+    const userResult = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const post = await createPost({
+      ...testInput,
+      user_id: userResult[0].id,
+      content: 'Selling my #Bike, see #bike and #1 #cycling'
+    });
+
+    const tags = await db.select({ tag: hashtagsTable.tag })
+      .from(postHashtagsTable)
+      .innerJoin(hashtagsTable, eq(postHashtagsTable.hashtag_id, hashtagsTable.id))
+      .where(eq(postHashtagsTable.post_id, post.id))
+      .execute();
+
+    expect(tags.map(t => t.tag).sort()).toEqual(['bike', 'cycling']);
+  });
+
   it('should handle posts with null media_urls', async () => {
     // Create test user first
     const userResult = await db.insert(usersTable)
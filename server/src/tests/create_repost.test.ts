@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { notificationsTable, postsTable, usersTable } from '../db/schema';
+import { type CreateRepostInput } from '../schema';
+import { createRepost, deleteRepost } from '../handlers/create_repost';
+import { eq, and, isNull } from 'drizzle-orm';
+
+describe('createRepost', () => {
+  let authorId: number;
+  let reposterId: number;
+  let postId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com' },
+        { username: 'reposter', email: 'reposter@example.com' },
+      ])
+      .returning()
+      .execute();
+    [authorId, reposterId] = users.map(u => u.id);
+
+    const posts = await db.insert(postsTable)
+      .values({ user_id: authorId, content: 'Original post' })
+      .returning()
+      .execute();
+    postId = posts[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should create a plain repost', async () => {
+    const input: CreateRepostInput = { user_id: reposterId, post_id: postId, content: null };
+
+    const result = await createRepost(input);
+
+    expect(result.user_id).toEqual(reposterId);
+    expect(result.repost_of_id).toEqual(postId);
+    expect(result.content).toEqual('');
+    expect(result.parent_post_id).toBeNull();
+  });
+
+  it('should create a quote post with commentary', async () => {
+    const result = await createRepost({ user_id: reposterId, post_id: postId, content: 'So true' });
+
+    expect(result.repost_of_id).toEqual(postId);
+    expect(result.content).toEqual('So true');
+  });
+
+  it('should increment repost and post counts', async () => {
+    await createRepost({ user_id: reposterId, post_id: postId, content: null });
+    await createRepost({ user_id: reposterId, post_id: postId, content: 'Quote' });
+
+    const [original] = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postId))
+      .execute();
+    const [reposter] = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, reposterId))
+      .execute();
+
+    expect(original.repost_count).toEqual(2);
+    expect(reposter.post_count).toEqual(2);
+  });
+
+  it('should prevent duplicate plain reposts', async () => {
+    await createRepost({ user_id: reposterId, post_id: postId, content: null });
+
+    await expect(createRepost({ user_id: reposterId, post_id: postId, content: null }))
+      .rejects.toThrow(/repost already exists/i);
+  });
+
+  it('should point reposts of a plain repost at the original', async () => {
+    const repost = await createRepost({ user_id: reposterId, post_id: postId, content: null });
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'third', email: 'third@example.com' })
+      .returning()
+      .execute();
+
+    const result = await createRepost({ user_id: users[0].id, post_id: repost.id, content: null });
+
+    expect(result.repost_of_id).toEqual(postId);
+  });
+
+  it('should notify the original author', async () => {
+    const result = await createRepost({ user_id: reposterId, post_id: postId, content: 'Quote' });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, authorId))
+      .execute();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('repost');
+    expect(notifications[0].related_id).toEqual(result.id);
+    expect(notifications[0].message).toContain('reposter');
+  });
+
+  it('should not notify on self-reposts', async () => {
+    await createRepost({ user_id: authorId, post_id: postId, content: null });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .execute();
+
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should throw error when post does not exist', async () => {
+    await expect(createRepost({ user_id: reposterId, post_id: 99999, content: null }))
+      .rejects.toThrow(/post not found/i);
+  });
+
+  it('should throw error when user does not exist', async () => {
+    await expect(createRepost({ user_id: 99999, post_id: postId, content: null }))
+      .rejects.toThrow(/user not found/i);
+  });
+});
+
+describe('deleteRepost', () => {
+  let authorId: number;
+  let reposterId: number;
+  let postId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com' },
+        { username: 'reposter', email: 'reposter@example.com', post_count: 1 },
+      ])
+      .returning()
+      .execute();
+    [authorId, reposterId] = users.map(u => u.id);
+
+    const posts = await db.insert(postsTable)
+      .values({ user_id: authorId, content: 'Original post', repost_count: 1 })
+      .returning()
+      .execute();
+    postId = posts[0].id;
+
+    await db.insert(postsTable)
+      .values({ user_id: reposterId, content: '', repost_of_id: postId })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should undo a plain repost and decrement counts', async () => {
+    const result = await deleteRepost(reposterId, postId);
+
+    expect(result).toBe(true);
+
+    const reposts = await db.select()
+      .from(postsTable)
+      .where(and(eq(postsTable.repost_of_id, postId), isNull(postsTable.deleted_at)))
+      .execute();
+    const [original] = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postId))
+      .execute();
+    const [reposter] = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, reposterId))
+      .execute();
+
+    expect(reposts).toHaveLength(0);
+    expect(original.repost_count).toEqual(0);
+    expect(reposter.post_count).toEqual(0);
+  });
+
+  it('should allow reposting again after undoing', async () => {
+    await deleteRepost(reposterId, postId);
+
+    const repost = await createRepost({ user_id: reposterId, post_id: postId, content: null });
+
+    expect(repost.repost_of_id).toEqual(postId);
+    await expect(deleteRepost(reposterId, postId)).resolves.toBe(true);
+  });
+
+  it('should throw error when repost does not exist', async () => {
+    await expect(deleteRepost(authorId, postId)).rejects.toThrow(/repost not found/i);
+  });
+});
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, listingsTable, transactionsTable, notificationsTable, reviewsTable } from '../db/schema';
+import { createReview } from '../handlers/create_review';
+import { getListingById } from '../handlers/get_listings';
+import { reconcileCounters } from '../handlers/reconcile_counters';
+import { ConflictError, ForbiddenError, NotFoundError } from '../lib/errors';
+import { eq } from 'drizzle-orm';
+
+describe('createReview', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let buyerId: number;
+  let sellerId: number;
+  let strangerId: number;
+  let listingId: number;
+  let transactionId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' },
+        { username: 'stranger', email: 'stranger@example.com' }
+      ])
+      .returning()
+      .execute();
+    [buyerId, sellerId, strangerId] = users.map(user => user.id);
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Road bike',
+        description: 'Barely used',
+        price: '300.00',
+        currency: 'USD',
+        category: 'sports',
+        condition: 'good'
+      })
+      .returning()
+      .execute();
+    listingId = listing.id;
+
+    const [transaction] = await db.insert(transactionsTable)
+      .values({
+        listing_id: listingId,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        amount: '300.00',
+        currency: 'USD',
+        status: 'completed'
+      })
+      .returning()
+      .execute();
+    transactionId = transaction.id;
+  });
+
+  const getUser = async (id: number) => {
+    const [user] = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, id))
+      .execute();
+    return user;
+  };
+
+  it('should let the buyer review the seller', async () => {
+    const review = await createReview({
+      transaction_id: transactionId,
+      reviewer_id: buyerId,
+      rating: 5,
+      text: 'Smooth sale'
+    });
+
+    expect(review.reviewer_id).toEqual(buyerId);
+    expect(review.reviewee_id).toEqual(sellerId);
+    expect(review.reviewer_role).toEqual('buyer');
+    expect(review.rating).toEqual(5);
+    expect(review.text).toEqual('Smooth sale');
+    expect(review.created_at).toBeInstanceOf(Date);
+
+    const seller = await getUser(sellerId);
+    expect(seller.review_count).toEqual(1);
+    expect(seller.average_rating).toEqual(5);
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, sellerId))
+      .execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('review');
+    expect(notifications[0].message).toEqual('buyer left you a 5-star review');
+  });
+
+  it('should let each side review the other once', async () => {
+    await createReview({ transaction_id: transactionId, reviewer_id: buyerId, rating: 4, text: 'Good' });
+    const review = await createReview({ transaction_id: transactionId, reviewer_id: sellerId, rating: 2, text: 'Paid late' });
+
+    expect(review.reviewee_id).toEqual(buyerId);
+    expect(review.reviewer_role).toEqual('seller');
+
+    const buyer = await getUser(buyerId);
+    expect(buyer.review_count).toEqual(1);
+    expect(buyer.average_rating).toEqual(2);
+
+    await expect(createReview({ transaction_id: transactionId, reviewer_id: buyerId, rating: 1, text: 'Changed my mind' }))
+      .rejects.toBeInstanceOf(ConflictError);
+
+    const seller = await getUser(sellerId);
+    expect(seller.review_count).toEqual(1);
+    expect(seller.average_rating).toEqual(4);
+  });
+
+  it('should count concurrent duplicate reviews once', async () => {
+    const results = await Promise.allSettled([1, 2, 3].map(() =>
+      createReview({ transaction_id: transactionId, reviewer_id: buyerId, rating: 5, text: 'Great' })
+    ));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const reviews = await db.select()
+      .from(reviewsTable)
+      .where(eq(reviewsTable.transaction_id, transactionId))
+      .execute();
+    expect(reviews).toHaveLength(1);
+
+    const seller = await getUser(sellerId);
+    expect(seller.review_count).toEqual(1);
+  });
+
+  it('should average ratings across transactions', async () => {
+    const [second] = await db.insert(transactionsTable)
+      .values({
+        listing_id: listingId,
+        buyer_id: strangerId,
+        seller_id: sellerId,
+        amount: '300.00',
+        currency: 'USD',
+        status: 'completed'
+      })
+      .returning()
+      .execute();
+
+    await createReview({ transaction_id: transactionId, reviewer_id: buyerId, rating: 5, text: 'Great' });
+    await createReview({ transaction_id: second.id, reviewer_id: strangerId, rating: 2, text: 'Meh' });
+
+    const seller = await getUser(sellerId);
+    expect(seller.review_count).toEqual(2);
+    expect(seller.average_rating).toEqual(3.5);
+
+    // Listings carry their seller's aggregates
+    const listing = await getListingById(listingId);
+    expect(listing!.seller_review_count).toEqual(2);
+    expect(listing!.seller_average_rating).toEqual(3.5);
+  });
+
+  it('should not count reviews the seller received as a buyer on their listings', async () => {
+    const [purchase] = await db.insert(transactionsTable)
+      .values({
+        listing_id: listingId,
+        buyer_id: sellerId,
+        seller_id: strangerId,
+        amount: '10.00',
+        currency: 'USD',
+        status: 'completed'
+      })
+      .returning()
+      .execute();
+
+    await createReview({ transaction_id: transactionId, reviewer_id: buyerId, rating: 4, text: 'Good seller' });
+    await createReview({ transaction_id: purchase.id, reviewer_id: strangerId, rating: 1, text: 'Slow to pay' });
+
+    const listing = await getListingById(listingId);
+    expect(listing!.seller_review_count).toEqual(1);
+    expect(listing!.seller_average_rating).toEqual(4);
+  });
+
+  it('should leave users without reviews unrated', async () => {
+    const seller = await getUser(sellerId);
+    expect(seller.review_count).toEqual(0);
+    expect(seller.average_rating).toBeNull();
+
+    const listing = await getListingById(listingId);
+    expect(listing!.seller_review_count).toEqual(0);
+    expect(listing!.seller_average_rating).toBeNull();
+  });
+
+  it('should reject reviews of unfinished transactions', async () => {
+    await db.update(transactionsTable)
+      .set({ status: 'shipped' })
+      .where(eq(transactionsTable.id, transactionId))
+      .execute();
+
+    await expect(createReview({ transaction_id: transactionId, reviewer_id: buyerId, rating: 5, text: 'Early' }))
+      .rejects.toThrow(/only completed transactions/i);
+  });
+
+  it('should reject reviews from outside the transaction', async () => {
+    await expect(createReview({ transaction_id: transactionId, reviewer_id: strangerId, rating: 1, text: 'Hearsay' }))
+      .rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should throw for a missing transaction', async () => {
+    await expect(createReview({ transaction_id: 999999, reviewer_id: buyerId, rating: 5, text: 'Ghost' }))
+      .rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should reconcile drifted review aggregates', async () => {
+    await createReview({ transaction_id: transactionId, reviewer_id: buyerId, rating: 4, text: 'Good' });
+    await db.update(usersTable)
+      .set({ review_count: 3, rating_sum: 7 })
+      .where(eq(usersTable.id, sellerId))
+      .execute();
+
+    const report = await reconcileCounters({ fix: true, batch_size: 500 });
+
+    expect(report.samples.map(drift => drift.counter).sort()).toEqual(['rating_sum', 'review_count']);
+
+    const seller = await getUser(sellerId);
+    expect(seller.review_count).toEqual(1);
+    expect(seller.average_rating).toEqual(4);
+  });
+});
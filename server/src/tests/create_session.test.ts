@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { credentialsTable, sessionsTable, usersTable } from '../db/schema';
+import { type LoginInput } from '../schema';
+import { createSession, refreshSession, deleteSession, getSessionUser } from '../handlers/create_session';
+import { hashPassword, signAccessToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+const testPassword = 'correct-horse-battery';
+
+const createUserWithPassword = async () => {
+  const users = await db.insert(usersTable)
+    .values({
+      username: 'testuser',
+      email: 'test@example.com',
+      display_name: 'Test User'
+    })
+    .returning()
+    .execute();
+
+  await db.insert(credentialsTable)
+    .values({
+      user_id: users[0].id,
+      type: 'password',
+      secret_hash: await hashPassword(testPassword)
+    })
+    .execute();
+
+  return users[0];
+};
+
+describe('createSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should log in with username and password', async () => {
+    const user = await createUserWithPassword();
+    const input: LoginInput = { identifier: 'testuser', password: testPassword };
+
+    const result = await createSession(input);
+
+    expect(result.user.id).toEqual(user.id);
+    expect(result.access_token).toBeString();
+    expect(result.refresh_token).toBeString();
+    expect(result.access_token_expires_at).toBeInstanceOf(Date);
+    expect(result.refresh_token_expires_at.getTime()).toBeGreaterThan(result.access_token_expires_at.getTime());
+  });
+
+  it('should log in with email', async () => {
+    const user = await createUserWithPassword();
+
+    const result = await createSession({ identifier: 'test@example.com', password: testPassword });
+
+    expect(result.user.id).toEqual(user.id);
+  });
+
+  it('should store only the hash of the refresh token', async () => {
+    const user = await createUserWithPassword();
+
+    const result = await createSession({ identifier: 'testuser', password: testPassword });
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, user.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].refresh_token_hash).not.toEqual(result.refresh_token);
+    expect(sessions[0].revoked_at).toBeNull();
+  });
+
+  it('should reject a wrong password', async () => {
+    await createUserWithPassword();
+
+    await expect(createSession({ identifier: 'testuser', password: 'wrong-password' }))
+      .rejects.toThrow(/invalid credentials/i);
+  });
+
+  it('should reject an unknown user', async () => {
+    await expect(createSession({ identifier: 'nobody', password: testPassword }))
+      .rejects.toThrow(/invalid credentials/i);
+  });
+});
+
+describe('refreshSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should rotate the refresh token', async () => {
+    await createUserWithPassword();
+    const login = await createSession({ identifier: 'testuser', password: testPassword });
+
+    const refreshed = await refreshSession({ refresh_token: login.refresh_token });
+
+    expect(refreshed.refresh_token).not.toEqual(login.refresh_token);
+    expect(refreshed.user.id).toEqual(login.user.id);
+
+    // The old refresh token can no longer be used
+    await expect(refreshSession({ refresh_token: login.refresh_token }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should let only one of two concurrent refreshes spend the token', async () => {
+    await createUserWithPassword();
+    const login = await createSession({ identifier: 'testuser', password: testPassword });
+
+    const results = await Promise.allSettled([
+      refreshSession({ refresh_token: login.refresh_token }),
+      refreshSession({ refresh_token: login.refresh_token })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+  });
+
+  it('should reject a refresh token of a revoked session', async () => {
+    await createUserWithPassword();
+    const login = await createSession({ identifier: 'testuser', password: testPassword });
+    const sessionUser = await getSessionUser(login.access_token);
+
+    await deleteSession(sessionUser!.sessionId);
+
+    await expect(refreshSession({ refresh_token: login.refresh_token }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+});
+
+describe('getSessionUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should resolve the user from an access token', async () => {
+    const user = await createUserWithPassword();
+    const login = await createSession({ identifier: 'testuser', password: testPassword });
+
+    const result = await getSessionUser(login.access_token);
+
+    expect(result).not.toBeNull();
+    expect(result!.user.id).toEqual(user.id);
+    expect(result!.user.username).toEqual('testuser');
+  });
+
+  it('should return null for a tampered token', async () => {
+    await createUserWithPassword();
+    const login = await createSession({ identifier: 'testuser', password: testPassword });
+    const [payload] = login.access_token.split('.');
+
+    const result = await getSessionUser(`${payload}.forged-signature`);
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for an expired token', async () => {
+    const user = await createUserWithPassword();
+    const login = await createSession({ identifier: 'testuser', password: testPassword });
+    const sessionUser = await getSessionUser(login.access_token);
+
+    const expiredToken = signAccessToken({
+      sid: sessionUser!.sessionId,
+      uid: user.id,
+      exp: Date.now() - 1000
+    });
+
+    expect(await getSessionUser(expiredToken)).toBeNull();
+  });
+
+  it('should return null after logout', async () => {
+    await createUserWithPassword();
+    const login = await createSession({ identifier: 'testuser', password: testPassword });
+    const sessionUser = await getSessionUser(login.access_token);
+
+    const loggedOut = await deleteSession(sessionUser!.sessionId);
+
+    expect(loggedOut).toBe(true);
+    expect(await getSessionUser(login.access_token)).toBeNull();
+  });
+});
@@ -1,9 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { transactionsTable, listingsTable, usersTable } from '../db/schema';
+import {
+  transactionsTable,
+  transactionEventsTable,
+  listingsTable,
+  usersTable,
+  notificationsTable,
+  offersTable,
+  paymentIntentsTable
+} from '../db/schema';
 import { type CreateTransactionInput } from '../schema';
-import { createTransaction } from '../handlers/create_transaction';
+import {
+  createTransaction,
+  updateTransactionStatus,
+  updateTransactionDetails
+} from '../handlers/create_transaction';
+import { payTransaction, refundTransaction } from '../handlers/create_payment';
+import { createFakePaymentProvider, setPaymentProvider } from '../lib/payments';
+import { ConflictError, ForbiddenError, InvalidStateTransitionError } from '../lib/errors';
 import { eq, and } from 'drizzle-orm';
 
 // Test users for buyer and seller
@@ -75,6 +90,7 @@ describe('createTransaction', () => {
     listing_id: listingId,
     buyer_id: buyerId,
     seller_id: sellerId,
+    quantity: 1,
     amount: 99.99,
     currency: 'USD',
     payment_method: 'credit_card',
@@ -118,6 +134,33 @@ describe('createTransaction', () => {
     expect(transactions[0].created_at).toBeInstanceOf(Date);
   });
 
+  it('should record a created event', async () => {
+    const result = await createTransaction(createValidTransactionInput());
+
+    const events = await db.select()
+      .from(transactionEventsTable)
+      .where(eq(transactionEventsTable.transaction_id, result.id))
+      .execute();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].event_type).toEqual('created');
+    expect(events[0].actor_id).toEqual(buyerId);
+    expect(events[0].to_value).toEqual('pending');
+  });
+
+  it('should notify the seller of a new order', async () => {
+    const result = await createTransaction(createValidTransactionInput());
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, sellerId))
+      .execute();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('transaction');
+    expect(notifications[0].related_id).toEqual(result.id);
+  });
+
   it('should handle null payment method', async () => {
     const input = createValidTransactionInput();
     input.payment_method = null;
@@ -242,6 +285,115 @@ describe('createTransaction', () => {
     expect(typeof result.amount).toEqual('number');
   });
 
+  it('should let only one of two concurrent buyers check out', async () => {
+    const others = await db.insert(usersTable)
+      .values({ username: 'other_buyer', email: 'other@test.com' })
+      .returning()
+      .execute();
+
+    const results = await Promise.allSettled([
+      createTransaction(createValidTransactionInput()),
+      createTransaction({ ...createValidTransactionInput(), buyer_id: others[0].id })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(ConflictError);
+
+    const transactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.listing_id, listingId))
+      .execute();
+    expect(transactions).toHaveLength(1);
+
+    const listings = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+    expect(listings[0].reserved_by).toEqual(transactions[0].buyer_id);
+    expect(listings[0].reserved_until!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should let another buyer take over a lapsed reservation', async () => {
+    await createTransaction(createValidTransactionInput());
+    await db.update(listingsTable)
+      .set({ reserved_until: new Date(Date.now() - 1000) })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    const others = await db.insert(usersTable)
+      .values({ username: 'other_buyer', email: 'other@test.com' })
+      .returning()
+      .execute();
+    const result = await createTransaction({ ...createValidTransactionInput(), buyer_id: others[0].id });
+
+    expect(result.buyer_id).toEqual(others[0].id);
+
+    // The first buyer's retry no longer holds the listing
+    await expect(createTransaction(createValidTransactionInput())).rejects.toThrow(ConflictError);
+  });
+
+  it('should renew the reservation when the buyer retries', async () => {
+    await createTransaction(createValidTransactionInput());
+    const lapsing = new Date(Date.now() + 1000);
+    await db.update(listingsTable)
+      .set({ reserved_until: lapsing })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    await createTransaction(createValidTransactionInput());
+
+    const listings = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+    expect(listings[0].reserved_until!.getTime()).toBeGreaterThan(lapsing.getTime());
+  });
+
+  it('should charge the list price for every unit bought', async () => {
+    await db.update(listingsTable)
+      .set({ quantity: 5, quantity_available: 5 })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    const result = await createTransaction({ ...createValidTransactionInput(), quantity: 3, amount: 299.97 });
+    expect(result.quantity).toEqual(3);
+    expect(result.amount).toEqual(299.97);
+
+    await expect(createTransaction({ ...createValidTransactionInput(), quantity: 2 }))
+      .rejects.toThrow(/listing price/i);
+  });
+
+  it('should refuse more units than are left', async () => {
+    await db.update(listingsTable)
+      .set({ quantity: 5, quantity_available: 2 })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    await expect(createTransaction({ ...createValidTransactionInput(), quantity: 3, amount: 299.97 }))
+      .rejects.toThrow(/only 2 left/i);
+  });
+
+  it('should let buyers check out side by side while units are to spare', async () => {
+    await db.update(listingsTable)
+      .set({ quantity: 3, quantity_available: 3 })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+    const others = await db.insert(usersTable)
+      .values({ username: 'other_buyer', email: 'other@test.com' })
+      .returning()
+      .execute();
+
+    await createTransaction(createValidTransactionInput());
+    await createTransaction({ ...createValidTransactionInput(), buyer_id: others[0].id });
+
+    const listings = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+    expect(listings[0].reserved_by).toBeNull();
+  });
+
   it('should handle different payment methods', async () => {
     const paymentMethods = ['credit_card', 'paypal', 'bank_transfer', 'crypto'];
 
@@ -264,4 +416,456 @@ describe('createTransaction', () => {
       expect(result.payment_method).toEqual(method);
     }
   });
-});
\ No newline at end of file
+});
+
+describe('updateTransactionStatus', () => {
+  let buyerId: number;
+  let sellerId: number;
+  let listingId: number;
+  let transactionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const buyers = await db.insert(usersTable)
+      .values(testBuyer)
+      .returning()
+      .execute();
+    buyerId = buyers[0].id;
+
+    const sellers = await db.insert(usersTable)
+      .values(testSeller)
+      .returning()
+      .execute();
+    sellerId = sellers[0].id;
+
+    const listings = await db.insert(listingsTable)
+      .values({
+        ...testListing,
+        user_id: sellerId,
+      })
+      .returning()
+      .execute();
+    listingId = listings[0].id;
+
+    const transactions = await db.insert(transactionsTable)
+      .values({
+        listing_id: listingId,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        amount: '99.99',
+        currency: 'USD',
+        payment_method: 'credit_card',
+      })
+      .returning()
+      .execute();
+    transactionId = transactions[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should move a pending transaction to paid once the payment is captured', async () => {
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+
+    const transactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, transactionId))
+      .execute();
+
+    expect(transactions[0].status).toEqual('paid');
+    expect(transactions[0].version).toEqual(2);
+  });
+
+  it('should not let either party mark a transaction paid or refunded by hand', async () => {
+    await expect(updateTransactionStatus({ id: transactionId, status: 'paid' }, buyerId))
+      .rejects.toThrow(/cannot be marked as paid by hand/i);
+    await expect(updateTransactionStatus({ id: transactionId, status: 'paid' }, sellerId))
+      .rejects.toBeInstanceOf(ForbiddenError);
+
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+
+    await expect(updateTransactionStatus({ id: transactionId, status: 'refunded' }, sellerId))
+      .rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should take the stock and drop the hold once paid', async () => {
+    await db.update(listingsTable)
+      .set({ reserved_by: buyerId, reserved_until: new Date(Date.now() + 60 * 1000) })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+
+    const listings = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+    expect(listings[0].quantity_available).toEqual(0);
+    expect(listings[0].reserved_by).toBeNull();
+    expect(listings[0].reserved_until).toBeNull();
+  });
+
+  it('should refuse payment when the stock ran out', async () => {
+    await db.update(listingsTable)
+      .set({ quantity_available: 0 })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+    expect(intent.status).toEqual('refunded');
+    expect(intent.failure_reason).toMatch(/sold out/i);
+
+    const transactions = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, transactionId))
+      .execute();
+    expect(transactions[0].status).toEqual('pending');
+  });
+
+  it('should put the units back when a paid purchase is refunded', async () => {
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+    await refundTransaction({ transaction_id: transactionId }, sellerId);
+
+    const listings = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+    expect(listings[0].quantity_available).toEqual(1);
+  });
+
+  it('should refuse payment once another buyer holds the listing', async () => {
+    const others = await db.insert(usersTable)
+      .values({ username: 'other_buyer', email: 'other@test.com' })
+      .returning()
+      .execute();
+    await db.update(listingsTable)
+      .set({ reserved_by: others[0].id, reserved_until: new Date(Date.now() + 60 * 1000) })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    const intent = await payTransaction({ transaction_id: transactionId }, buyerId);
+    expect(intent.status).toEqual('refunded');
+    expect(intent.failure_reason).toMatch(/reserved by another buyer/i);
+  });
+
+  it('should release the listing when the transaction is cancelled', async () => {
+    await db.update(listingsTable)
+      .set({ reserved_by: buyerId, reserved_until: new Date(Date.now() + 60 * 1000) })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    await updateTransactionStatus({ id: transactionId, status: 'cancelled' }, sellerId);
+
+    const listings = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+    expect(listings[0].reserved_by).toBeNull();
+    expect(listings[0].reserved_until).toBeNull();
+  });
+
+  it('should walk through the full lifecycle', async () => {
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+    await updateTransactionStatus({ id: transactionId, status: 'shipped' }, sellerId);
+    await updateTransactionStatus({ id: transactionId, status: 'delivered' }, buyerId);
+    const result = await updateTransactionStatus({ id: transactionId, status: 'completed' }, buyerId);
+
+    expect(result.status).toEqual('completed');
+    expect(result.version).toEqual(5);
+  });
+
+  it('should reject transitions that are not allowed', async () => {
+    await expect(updateTransactionStatus({ id: transactionId, status: 'shipped' }, sellerId))
+      .rejects.toThrow(/cannot change transaction status from pending to shipped/i);
+    await expect(updateTransactionStatus({ id: transactionId, status: 'shipped' }, sellerId))
+      .rejects.toBeInstanceOf(InvalidStateTransitionError);
+  });
+
+  it('should leave disputes to openDispute', async () => {
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+
+    await expect(updateTransactionStatus({ id: transactionId, status: 'disputed' }, buyerId))
+      .rejects.toBeInstanceOf(InvalidStateTransitionError);
+    await expect(updateTransactionStatus({ id: transactionId, status: 'disputed' }))
+      .rejects.toBeInstanceOf(InvalidStateTransitionError);
+  });
+
+  it('should reject leaving a terminal state', async () => {
+    await updateTransactionStatus({ id: transactionId, status: 'cancelled' }, sellerId);
+
+    await expect(updateTransactionStatus({ id: transactionId, status: 'paid' }, buyerId))
+      .rejects.toThrow(/cannot change transaction status/i);
+  });
+
+  it('should reject a move by the wrong party', async () => {
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+
+    await expect(updateTransactionStatus({ id: transactionId, status: 'shipped' }, buyerId))
+      .rejects.toThrow(/only the seller/i);
+    await expect(updateTransactionStatus({ id: transactionId, status: 'shipped' }, buyerId))
+      .rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should reject users outside the transaction', async () => {
+    const others = await db.insert(usersTable)
+      .values({ username: 'outsider', email: 'outsider@test.com' })
+      .returning()
+      .execute();
+
+    await expect(updateTransactionStatus({ id: transactionId, status: 'cancelled' }, others[0].id))
+      .rejects.toThrow(/only the buyer or seller/i);
+  });
+
+  it('should allow system updates without an actor', async () => {
+    const result = await updateTransactionStatus({ id: transactionId, status: 'paid' });
+
+    expect(result.status).toEqual('paid');
+  });
+
+  it('should reject a stale expected version', async () => {
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+
+    await expect(updateTransactionStatus({ id: transactionId, status: 'shipped', expected_version: 1 }, sellerId))
+      .rejects.toThrow(/modified concurrently/i);
+    await expect(updateTransactionStatus({ id: transactionId, status: 'shipped', expected_version: 1 }, sellerId))
+      .rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should deactivate the listing once payment takes the last unit', async () => {
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+
+    const listings = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    expect(listings[0].is_active).toBe(false);
+  });
+
+  it('should keep a listing with stock left on sale', async () => {
+    await db.update(listingsTable)
+      .set({ quantity: 3, quantity_available: 3 })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+
+    const listings = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    expect(listings[0].quantity_available).toBe(2);
+    expect(listings[0].is_active).toBe(true);
+  });
+
+  it('should notify the other party', async () => {
+    await updateTransactionStatus({ id: transactionId, status: 'cancelled' }, buyerId);
+
+    const sellerNotifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, sellerId))
+      .execute();
+
+    const buyerNotifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.user_id, buyerId))
+      .execute();
+
+    expect(sellerNotifications).toHaveLength(1);
+    expect(sellerNotifications[0].type).toEqual('transaction');
+    expect(sellerNotifications[0].related_id).toEqual(transactionId);
+    expect(buyerNotifications).toHaveLength(0);
+  });
+
+  it('should record every status change with actor and reason', async () => {
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+    await updateTransactionStatus({ id: transactionId, status: 'shipped', reason: 'Sent with tracking' }, sellerId);
+
+    const events = await db.select()
+      .from(transactionEventsTable)
+      .where(eq(transactionEventsTable.transaction_id, transactionId))
+      .execute();
+
+    expect(events).toHaveLength(2);
+    expect(events[0].event_type).toEqual('status_changed');
+    expect(events[0].from_value).toEqual('pending');
+    expect(events[0].to_value).toEqual('paid');
+    expect(events[0].actor_id).toBeNull(); // the payment provider moved it
+    expect(events[0].reason).toEqual('Payment captured');
+    expect(events[1].actor_id).toEqual(sellerId);
+    expect(events[1].reason).toEqual('Sent with tracking');
+  });
+
+  it('should not record an event for a rejected transition', async () => {
+    await expect(updateTransactionStatus({ id: transactionId, status: 'completed' }, buyerId)).rejects.toThrow();
+
+    const events = await db.select()
+      .from(transactionEventsTable)
+      .where(eq(transactionEventsTable.transaction_id, transactionId))
+      .execute();
+
+    expect(events).toHaveLength(0);
+  });
+
+  it('should throw error for non-existent transaction', async () => {
+    await expect(updateTransactionStatus({ id: 99999, status: 'paid' }, buyerId))
+      .rejects.toThrow(/not found/i);
+  });
+});
+
+
+describe('updateTransactionDetails', () => {
+  let buyerId: number;
+  let sellerId: number;
+  let transactionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const buyers = await db.insert(usersTable)
+      .values(testBuyer)
+      .returning()
+      .execute();
+    buyerId = buyers[0].id;
+
+    const sellers = await db.insert(usersTable)
+      .values(testSeller)
+      .returning()
+      .execute();
+    sellerId = sellers[0].id;
+
+    const listings = await db.insert(listingsTable)
+      .values({
+        ...testListing,
+        user_id: sellerId,
+      })
+      .returning()
+      .execute();
+
+    const transactions = await db.insert(transactionsTable)
+      .values({
+        listing_id: listings[0].id,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        amount: '99.99',
+        currency: 'USD',
+        payment_method: 'credit_card',
+      })
+      .returning()
+      .execute();
+    transactionId = transactions[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should let the seller change the amount and record it', async () => {
+    const result = await updateTransactionDetails({ id: transactionId, amount: 89.99, reason: 'Bundle discount' }, sellerId);
+
+    expect(result.amount).toEqual(89.99);
+    expect(typeof result.amount).toEqual('number');
+    expect(result.version).toEqual(2);
+
+    const events = await db.select()
+      .from(transactionEventsTable)
+      .where(eq(transactionEventsTable.transaction_id, transactionId))
+      .execute();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].event_type).toEqual('amount_changed');
+    expect(events[0].from_value).toEqual('99.99');
+    expect(events[0].to_value).toEqual('89.99');
+    expect(events[0].actor_id).toEqual(sellerId);
+    expect(events[0].reason).toEqual('Bundle discount');
+  });
+
+  it('should let the buyer change the payment method and record it', async () => {
+    const result = await updateTransactionDetails({ id: transactionId, payment_method: 'paypal' }, buyerId);
+
+    expect(result.payment_method).toEqual('paypal');
+
+    const events = await db.select()
+      .from(transactionEventsTable)
+      .where(eq(transactionEventsTable.transaction_id, transactionId))
+      .execute();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].event_type).toEqual('payment_method_changed');
+    expect(events[0].from_value).toEqual('credit_card');
+    expect(events[0].to_value).toEqual('paypal');
+  });
+
+  it('should not record anything when nothing changes', async () => {
+    const result = await updateTransactionDetails({ id: transactionId, payment_method: 'credit_card' }, buyerId);
+
+    expect(result.version).toEqual(1);
+
+    const events = await db.select()
+      .from(transactionEventsTable)
+      .where(eq(transactionEventsTable.transaction_id, transactionId))
+      .execute();
+
+    expect(events).toHaveLength(0);
+  });
+
+  it('should void the payment authorized for the old amount', async () => {
+    setPaymentProvider(createFakePaymentProvider({ asyncCapture: true }));
+    let authorized;
+    try {
+      authorized = await payTransaction({ transaction_id: transactionId }, buyerId);
+      expect(authorized.status).toEqual('authorized');
+
+      await updateTransactionDetails({ id: transactionId, amount: 89.99 }, sellerId);
+    } finally {
+      setPaymentProvider(createFakePaymentProvider());
+    }
+
+    const [intent] = await db.select()
+      .from(paymentIntentsTable)
+      .where(eq(paymentIntentsTable.id, authorized.id))
+      .execute();
+    expect(intent.status).toEqual('failed');
+    expect(intent.failure_reason).toEqual('Transaction amount changed');
+  });
+
+  it('should keep the amount of a sale agreed through an offer', async () => {
+    const [transaction] = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, transactionId))
+      .execute();
+    await db.insert(offersTable)
+      .values({
+        listing_id: transaction.listing_id,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        amount: '99.99',
+        currency: 'USD',
+        status: 'accepted',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000),
+        transaction_id: transactionId
+      })
+      .execute();
+
+    await expect(updateTransactionDetails({ id: transactionId, amount: 120 }, sellerId))
+      .rejects.toBeInstanceOf(ForbiddenError);
+
+    // The buyer may still choose how to pay
+    const result = await updateTransactionDetails({ id: transactionId, payment_method: 'paypal' }, buyerId);
+    expect(result.payment_method).toEqual('paypal');
+  });
+
+  it('should reject amount changes by the buyer', async () => {
+    await expect(updateTransactionDetails({ id: transactionId, amount: 1 }, buyerId))
+      .rejects.toThrow(/only the seller/i);
+  });
+
+  it('should reject changes once the transaction is no longer pending', async () => {
+    await db.update(transactionsTable)
+      .set({ status: 'paid' })
+      .where(eq(transactionsTable.id, transactionId))
+      .execute();
+
+    await expect(updateTransactionDetails({ id: transactionId, payment_method: 'paypal' }, buyerId))
+      .rejects.toThrow(/only pending/i);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { credentialsTable, usersTable } from '../db/schema';
 import { type CreateUserInput } from '../schema';
 import { createUser } from '../handlers/create_user';
 import { eq } from 'drizzle-orm';
@@ -84,6 +84,31 @@ describe('createUser', () => {
     expect(users[0].updated_at).toBeInstanceOf(Date);
   });
 
+  it('should store hashed password credentials when a password is given', async () => {
+    const result = await createUser({ ...testInput, password: 'correct-horse-battery' });
+
+    const credentials = await db.select()
+      .from(credentialsTable)
+      .where(eq(credentialsTable.user_id, result.id))
+      .execute();
+
+    expect(credentials).toHaveLength(1);
+    expect(credentials[0].type).toEqual('password');
+    expect(credentials[0].secret_hash).not.toContain('correct-horse-battery');
+    expect(credentials[0].secret_hash).toMatch(/^scrypt\$/);
+  });
+
+  it('should not store credentials without a password', async () => {
+    const result = await createUser(testInput);
+
+    const credentials = await db.select()
+      .from(credentialsTable)
+      .where(eq(credentialsTable.user_id, result.id))
+      .execute();
+
+    expect(credentials).toHaveLength(0);
+  });
+
   it('should enforce unique username constraint', async () => {
     // Create first user
     await createUser(testInput);
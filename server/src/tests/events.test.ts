@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { notificationsTable, postsTable, usersTable } from '../db/schema';
+import { dispatchEvent } from '../lib/events';
+import { createLike, deleteLike } from '../handlers/create_like';
+import { eq } from 'drizzle-orm';
+
+describe('dispatchEvent', () => {
+  let authorId: number;
+  let fanIds: number[];
+  let postId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com' },
+        { username: 'fan1', email: 'fan1@example.com' },
+        { username: 'fan2', email: 'fan2@example.com' },
+        { username: 'fan3', email: 'fan3@example.com' },
+      ])
+      .returning()
+      .execute();
+    authorId = users[0].id;
+    fanIds = users.slice(1).map(u => u.id);
+
+    const posts = await db.insert(postsTable)
+      .values({ user_id: authorId, content: 'Popular post' })
+      .returning()
+      .execute();
+    postId = posts[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const authorNotifications = () => db.select()
+    .from(notificationsTable)
+    .where(eq(notificationsTable.user_id, authorId))
+    .execute();
+
+  it('should create a like notification with actor and target', async () => {
+    await dispatchEvent({ type: 'post.liked', actorId: fanIds[0], postId, postAuthorId: authorId });
+
+    const notifications = await authorNotifications();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('like');
+    expect(notifications[0].related_id).toEqual(postId);
+    expect(notifications[0].actor_id).toEqual(fanIds[0]);
+    expect(notifications[0].actor_count).toEqual(1);
+    expect(notifications[0].message).toEqual('fan1 liked your post');
+  });
+
+  it('should aggregate unread likes on the same post', async () => {
+    for (const fanId of fanIds) {
+      await dispatchEvent({ type: 'post.liked', actorId: fanId, postId, postAuthorId: authorId });
+    }
+
+    const notifications = await authorNotifications();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].actor_count).toEqual(3);
+    expect(notifications[0].actor_id).toEqual(fanIds[2]);
+    expect(notifications[0].message).toEqual('fan3 and 2 others liked your post');
+  });
+
+  it('should start a new notification once the previous one was read', async () => {
+    await dispatchEvent({ type: 'post.liked', actorId: fanIds[0], postId, postAuthorId: authorId });
+    await db.update(notificationsTable)
+      .set({ is_read: true })
+      .execute();
+
+    await dispatchEvent({ type: 'post.liked', actorId: fanIds[1], postId, postAuthorId: authorId });
+
+    const notifications = await authorNotifications();
+
+    expect(notifications).toHaveLength(2);
+    expect(notifications.find(n => !n.is_read)!.message).toEqual('fan2 liked your post');
+  });
+
+  it('should ignore the same actor repeating an aggregated action', async () => {
+    await dispatchEvent({ type: 'post.liked', actorId: fanIds[0], postId, postAuthorId: authorId });
+    await dispatchEvent({ type: 'post.liked', actorId: fanIds[0], postId, postAuthorId: authorId });
+
+    const notifications = await authorNotifications();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].actor_count).toEqual(1);
+  });
+
+  it('should count an actor who likes again after an unlike once', async () => {
+    await createLike({ user_id: fanIds[0], post_id: postId });
+    await createLike({ user_id: fanIds[1], post_id: postId });
+    await deleteLike(fanIds[0], postId);
+    await createLike({ user_id: fanIds[0], post_id: postId });
+
+    const notifications = await authorNotifications();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].actor_count).toEqual(2);
+    expect(notifications[0].message).toEqual('fan1 and 1 other liked your post');
+  });
+
+  it('should take unliking actors back out of the notification', async () => {
+    await createLike({ user_id: fanIds[0], post_id: postId });
+    await createLike({ user_id: fanIds[1], post_id: postId });
+
+    await deleteLike(fanIds[1], postId);
+
+    let notifications = await authorNotifications();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].actor_count).toEqual(1);
+    expect(notifications[0].actor_id).toEqual(fanIds[0]);
+    expect(notifications[0].message).toEqual('fan1 liked your post');
+
+    await deleteLike(fanIds[0], postId);
+
+    notifications = await authorNotifications();
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should drop unread duplicate follow notifications', async () => {
+    await dispatchEvent({ type: 'user.followed', actorId: fanIds[0], followingId: authorId });
+    await dispatchEvent({ type: 'user.followed', actorId: fanIds[0], followingId: authorId });
+
+    const notifications = await authorNotifications();
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toEqual('follow');
+    expect(notifications[0].related_id).toEqual(fanIds[0]);
+  });
+
+  it('should keep different news from the same actor about the same target', async () => {
+    const statusChange = (status: 'shipped' | 'refunded') => dispatchEvent({
+      type: 'transaction.status_changed',
+      actorId: fanIds[0],
+      transactionId: 42,
+      buyerId: authorId,
+      sellerId: fanIds[0],
+      status
+    });
+    await statusChange('shipped');
+    await statusChange('refunded');
+
+    const notifications = await authorNotifications();
+
+    expect(notifications.map(notification => notification.title).sort()).toEqual(['Order refunded', 'Order shipped']);
+  });
+
+  it('should skip self-actions', async () => {
+    await dispatchEvent({ type: 'post.liked', actorId: authorId, postId, postAuthorId: authorId });
+
+    expect(await authorNotifications()).toHaveLength(0);
+  });
+
+  it('should notify both parties of system transaction changes', async () => {
+    await dispatchEvent({
+      type: 'transaction.status_changed',
+      actorId: null,
+      transactionId: 42,
+      buyerId: fanIds[0],
+      sellerId: authorId,
+      status: 'refunded'
+    });
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .execute();
+
+    expect(notifications).toHaveLength(2);
+    expect(notifications.map(n => n.user_id).sort()).toEqual([authorId, fanIds[0]].sort());
+    expect(notifications[0].title).toEqual('Order refunded');
+    expect(notifications[0].actor_id).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, listingsTable, offersTable } from '../db/schema';
+import { expireOffers } from '../handlers/expire_offers';
+import { eq } from 'drizzle-orm';
+
+describe('expireOffers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should expire only open offers past their window', async () => {
+    const [buyer, seller] = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: seller.id,
+        title: 'Bike',
+        description: 'City bike',
+        price: '90.00',
+        currency: 'USD',
+        category: 'sports',
+        condition: 'fair'
+      })
+      .returning()
+      .execute();
+
+    const past = new Date(Date.now() - 60 * 1000);
+    const future = new Date(Date.now() + 60 * 60 * 1000);
+    const offer = { listing_id: listing.id, buyer_id: buyer.id, seller_id: seller.id, amount: '80.00', currency: 'USD' };
+    const offers = await db.insert(offersTable)
+      .values([
+        { ...offer, status: 'pending' as const, expires_at: past },
+        { ...offer, status: 'declined' as const, expires_at: past },
+        { ...offer, status: 'accepted' as const, expires_at: past },
+        { ...offer, status: 'withdrawn' as const, expires_at: future }
+      ])
+      .returning()
+      .execute();
+
+    expect(await expireOffers()).toEqual(1);
+    expect(await expireOffers()).toEqual(0);
+
+    const [expired] = await db.select()
+      .from(offersTable)
+      .where(eq(offersTable.id, offers[0].id))
+      .execute();
+    expect(expired.status).toEqual('expired');
+    expect(expired.version).toEqual(2);
+
+    const [declined] = await db.select()
+      .from(offersTable)
+      .where(eq(offersTable.id, offers[1].id))
+      .execute();
+    expect(declined.status).toEqual('declined');
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { disputesTable, listingsTable, transactionsTable, usersTable } from '../db/schema';
+import { getDisputeById, getDisputes } from '../handlers/get_disputes';
+import { ForbiddenError } from '../lib/errors';
+
+describe('get disputes', () => {
+  let buyerId: number;
+  let sellerId: number;
+  let strangerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [buyer, seller, stranger] = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' },
+        { username: 'stranger', email: 'stranger@example.com' }
+      ])
+      .returning()
+      .execute();
+    buyerId = buyer.id;
+    sellerId = seller.id;
+    strangerId = stranger.id;
+  });
+
+  afterEach(resetDB);
+
+  const createDispute = async (status: 'open' | 'under_review' | 'resolved' = 'open', createdAt = new Date()) => {
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Lamp',
+        description: 'Brass desk lamp',
+        price: '25.00',
+        currency: 'USD',
+        category: 'home',
+        condition: 'fair'
+      })
+      .returning()
+      .execute();
+
+    const [transaction] = await db.insert(transactionsTable)
+      .values({ listing_id: listing.id, buyer_id: buyerId, seller_id: sellerId, amount: '25.00', currency: 'USD', status: 'disputed' })
+      .returning()
+      .execute();
+
+    const [dispute] = await db.insert(disputesTable)
+      .values({
+        transaction_id: transaction.id,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        reason: 'not_received',
+        description: 'Never arrived',
+        evidence_urls: [],
+        status,
+        refund_amount: status === 'resolved' ? '25.00' : null,
+        created_at: createdAt
+      })
+      .returning()
+      .execute();
+
+    return dispute;
+  };
+
+  describe('getDisputeById', () => {
+    it('should show the dispute to both parties', async () => {
+      const dispute = await createDispute('resolved');
+
+      const forBuyer = await getDisputeById(dispute.id, buyerId);
+      expect(forBuyer?.id).toEqual(dispute.id);
+      expect(forBuyer?.refund_amount).toEqual(25);
+      expect(typeof forBuyer?.refund_amount).toBe('number');
+
+      const forSeller = await getDisputeById(dispute.id, sellerId);
+      expect(forSeller?.id).toEqual(dispute.id);
+    });
+
+    it('should hide the dispute from other users but not from admins', async () => {
+      const dispute = await createDispute();
+
+      await expect(getDisputeById(dispute.id, strangerId)).rejects.toBeInstanceOf(ForbiddenError);
+
+      const forAdmin = await getDisputeById(dispute.id, strangerId, true);
+      expect(forAdmin?.id).toEqual(dispute.id);
+    });
+
+    it('should return null for non-existent dispute', async () => {
+      expect(await getDisputeById(999, buyerId)).toBeNull();
+    });
+  });
+
+  describe('getDisputes', () => {
+    it('should page through disputes, newest first', async () => {
+      const older = await createDispute('open', new Date('2024-01-01T00:00:00Z'));
+      const newer = await createDispute('open', new Date('2024-01-02T00:00:00Z'));
+
+      const first = await getDisputes({ limit: 1 });
+      expect(first.items.map(dispute => dispute.id)).toEqual([newer.id]);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = await getDisputes({ limit: 1, cursor: first.nextCursor! });
+      expect(second.items.map(dispute => dispute.id)).toEqual([older.id]);
+    });
+
+    it('should filter by status', async () => {
+      const open = await createDispute('open');
+      await createDispute('resolved');
+
+      const result = await getDisputes({ limit: 20, status: 'open' });
+      expect(result.items.map(dispute => dispute.id)).toEqual([open.id]);
+    });
+  });
+});
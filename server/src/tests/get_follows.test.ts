@@ -49,7 +49,7 @@ describe('getFollows', () => {
         .execute();
 
       const userId = userResult[0].id;
-      const followers = await getFollowers(userId);
+      const { items: followers } = await getFollowers({ userId, limit: 20 });
 
       expect(followers).toEqual([]);
     });
@@ -90,7 +90,7 @@ describe('getFollows', () => {
         .execute();
 
       // Get followers of user2 (should include user1)
-      const followers = await getFollowers(followedId);
+      const { items: followers } = await getFollowers({ userId: followedId, limit: 20 });
 
       expect(followers).toHaveLength(1);
       expect(followers[0].id).toEqual(followerId);
@@ -142,7 +142,7 @@ describe('getFollows', () => {
       ]);
 
       // Get followers of user2
-      const followers = await getFollowers(user2Id);
+      const { items: followers } = await getFollowers({ userId: user2Id, limit: 20 });
 
       expect(followers).toHaveLength(2);
       const followerIds = followers.map(f => f.id).sort();
@@ -165,7 +165,7 @@ describe('getFollows', () => {
         .execute();
 
       const userId = userResult[0].id;
-      const following = await getFollowing(userId);
+      const { items: following } = await getFollowing({ userId, limit: 20 });
 
       expect(following).toEqual([]);
     });
@@ -206,7 +206,7 @@ describe('getFollows', () => {
         .execute();
 
       // Get users that user1 follows (should include user2)
-      const following = await getFollowing(followerId);
+      const { items: following } = await getFollowing({ userId: followerId, limit: 20 });
 
       expect(following).toHaveLength(1);
       expect(following[0].id).toEqual(followedId);
@@ -258,7 +258,7 @@ describe('getFollows', () => {
       ]);
 
       // Get users that user1 follows
-      const following = await getFollowing(user1Id);
+      const { items: following } = await getFollowing({ userId: user1Id, limit: 20 });
 
       expect(following).toHaveLength(2);
       const followingIds = following.map(f => f.id).sort();
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { postHashtagsTable, usersTable } from '../db/schema';
+import { getPostsByHashtag, getTrendingHashtags } from '../handlers/get_hashtags';
+import { createPost } from '../handlers/create_post';
+import { deletePost } from '../handlers/update_post';
+import { extractHashtags, extractMentions } from '../lib/post_entities';
+
+describe('extractMentions and extractHashtags', () => {
+  it('should find mentions but skip email addresses', () => {
+    expect(extractMentions('@Alice meet @bob_1, not me@example.com or @ab'))
+      .toEqual(['alice', 'bob_1']);
+  });
+
+  it('should find unicode hashtags but skip numbers and html entities', () => {
+    expect(extractHashtags('#Café #café #2024 #tag_2 &#39; a#b'))
+      .toEqual(['café', 'tag_2']);
+  });
+});
+
+describe('getPostsByHashtag', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'tagger', email: 'tagger@example.com' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const post = (content: string) => createPost({ user_id: userId, content, media_urls: null, parent_post_id: null });
+
+  it('should return tagged posts newest first', async () => {
+    const first = await post('First #bikes');
+    await post('Unrelated #cars');
+    const second = await post('Second #Bikes');
+
+    const result = await getPostsByHashtag({ tag: '#BIKES', limit: 20 });
+
+    expect(result.items.map(p => p.id)).toEqual([second.id, first.id]);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should paginate with a cursor', async () => {
+    for (let i = 0; i < 3; i++) {
+      await post(`Post ${i} #paged`);
+    }
+
+    const page1 = await getPostsByHashtag({ tag: 'paged', limit: 2 });
+    const page2 = await getPostsByHashtag({ tag: 'paged', limit: 2, cursor: page1.nextCursor! });
+
+    expect(page1.items).toHaveLength(2);
+    expect(page2.items).toHaveLength(1);
+    expect(page2.nextCursor).toBeNull();
+  });
+
+  it('should drop posts once they are deleted', async () => {
+    const tagged = await post('Gone soon #temp');
+
+    await deletePost(tagged.id);
+
+    const result = await getPostsByHashtag({ tag: 'temp', limit: 20 });
+    expect(result.items).toHaveLength(0);
+  });
+
+  it('should return nothing for an unknown tag', async () => {
+    const result = await getPostsByHashtag({ tag: 'nothing', limit: 20 });
+
+    expect(result.items).toHaveLength(0);
+  });
+});
+
+describe('getTrendingHashtags', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'tagger', email: 'tagger@example.com' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const post = (content: string) => createPost({ user_id: userId, content, media_urls: null, parent_post_id: null });
+
+  it('should rank tags by posts within the window', async () => {
+    await post('#popular #niche');
+    await post('#popular');
+    await post('#popular #rising');
+    await post('#rising');
+
+    const result = await getTrendingHashtags({ window_hours: 24, limit: 2 });
+
+    expect(result).toEqual([
+      { tag: 'popular', post_count: 3 },
+      { tag: 'rising', post_count: 2 },
+    ]);
+  });
+
+  it('should ignore uses outside the window', async () => {
+    await post('#stale');
+    await db.update(postHashtagsTable)
+      .set({ created_at: new Date(Date.now() - 48 * 60 * 60 * 1000) })
+      .execute();
+    await post('#fresh');
+
+    const result = await getTrendingHashtags({ window_hours: 24, limit: 10 });
+
+    expect(result.map(t => t.tag)).toEqual(['fresh']);
+  });
+});
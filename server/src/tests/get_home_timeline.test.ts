@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { followsTable, postsTable, usersTable } from '../db/schema';
+import { type HomeTimelineInput } from '../schema';
+import { getHomeTimeline } from '../handlers/get_home_timeline';
+
+describe('getHomeTimeline', () => {
+  let viewerId: number;
+  let followedId: number;
+  let strangerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'viewer', email: 'viewer@example.com' },
+        { username: 'followed', email: 'followed@example.com' },
+        { username: 'stranger', email: 'stranger@example.com' },
+      ])
+      .returning()
+      .execute();
+
+    [viewerId, followedId, strangerId] = users.map(u => u.id);
+
+    await db.insert(followsTable)
+      .values({ follower_id: viewerId, following_id: followedId })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const firstPage: HomeTimelineInput = { limit: 20 };
+
+  it('should include own and followed posts but not strangers', async () => {
+    await db.insert(postsTable)
+      .values([
+        { user_id: viewerId, content: 'Own post' },
+        { user_id: followedId, content: 'Followed post' },
+        { user_id: strangerId, content: 'Stranger post' },
+      ])
+      .execute();
+
+    const result = await getHomeTimeline(viewerId, firstPage);
+
+    const contents = result.items.map(p => p.content);
+    expect(contents).toHaveLength(2);
+    expect(contents).toContain('Own post');
+    expect(contents).toContain('Followed post');
+    expect(contents).not.toContain('Stranger post');
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should exclude replies', async () => {
+    const [parent] = await db.insert(postsTable)
+      .values({ user_id: followedId, content: 'Parent' })
+      .returning()
+      .execute();
+
+    await db.insert(postsTable)
+      .values({ user_id: followedId, content: 'Reply', parent_post_id: parent.id })
+      .execute();
+
+    const result = await getHomeTimeline(viewerId, firstPage);
+
+    expect(result.items.map(p => p.content)).toEqual(['Parent']);
+  });
+
+  it('should include reposts by followed accounts with their originals', async () => {
+    const [original] = await db.insert(postsTable)
+      .values({ user_id: strangerId, content: 'Stranger original' })
+      .returning()
+      .execute();
+
+    await db.insert(postsTable)
+      .values({ user_id: followedId, content: '', repost_of_id: original.id })
+      .execute();
+
+    const result = await getHomeTimeline(viewerId, firstPage);
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].repost_of_id).toEqual(original.id);
+    expect(result.reposted_posts.map(p => p.content)).toEqual(['Stranger original']);
+  });
+
+  it('should order newest first', async () => {
+    await db.insert(postsTable)
+      .values([
+        { user_id: followedId, content: 'Older', created_at: new Date('2024-01-01T00:00:00Z') },
+        { user_id: viewerId, content: 'Newer', created_at: new Date('2024-01-02T00:00:00Z') },
+      ])
+      .execute();
+
+    const result = await getHomeTimeline(viewerId, firstPage);
+
+    expect(result.items.map(p => p.content)).toEqual(['Newer', 'Older']);
+  });
+
+  it('should return pinned posts separately on the first page only', async () => {
+    await db.insert(postsTable)
+      .values([
+        { user_id: followedId, content: 'Pinned', is_pinned: true },
+        { user_id: followedId, content: 'Regular 1' },
+        { user_id: followedId, content: 'Regular 2' },
+      ])
+      .execute();
+
+    const page1 = await getHomeTimeline(viewerId, { limit: 1 });
+
+    expect(page1.pinned.map(p => p.content)).toEqual(['Pinned']);
+    expect(page1.items.map(p => p.content)).not.toContain('Pinned');
+    expect(page1.nextCursor).not.toBeNull();
+
+    const page2 = await getHomeTimeline(viewerId, { limit: 1, cursor: page1.nextCursor! });
+
+    expect(page2.pinned).toHaveLength(0);
+  });
+
+  it('should paginate posts sharing a timestamp without gaps or duplicates', async () => {
+    const sameTime = new Date('2024-01-01T12:00:00Z');
+    await db.insert(postsTable)
+      .values(Array.from({ length: 5 }, (_, i) => ({
+        user_id: followedId,
+        content: `Post ${i}`,
+        created_at: sameTime,
+      })))
+      .execute();
+
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getHomeTimeline(viewerId, { limit: 2, cursor });
+      seen.push(...page.items.map(p => p.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toHaveLength(5);
+    expect(new Set(seen).size).toEqual(5);
+  });
+
+  it('should keep pages stable when new posts arrive', async () => {
+    await db.insert(postsTable)
+      .values([
+        { user_id: followedId, content: 'A', created_at: new Date('2024-01-03T00:00:00Z') },
+        { user_id: followedId, content: 'B', created_at: new Date('2024-01-02T00:00:00Z') },
+        { user_id: followedId, content: 'C', created_at: new Date('2024-01-01T00:00:00Z') },
+      ])
+      .execute();
+
+    const page1 = await getHomeTimeline(viewerId, { limit: 2 });
+    expect(page1.items.map(p => p.content)).toEqual(['A', 'B']);
+
+    // A new post lands at the top while the user scrolls
+    await db.insert(postsTable)
+      .values({ user_id: followedId, content: 'New' })
+      .execute();
+
+    const page2 = await getHomeTimeline(viewerId, { limit: 2, cursor: page1.nextCursor! });
+    expect(page2.items.map(p => p.content)).toEqual(['C']);
+    expect(page2.nextCursor).toBeNull();
+  });
+
+  it('should reject an invalid cursor', async () => {
+    await expect(getHomeTimeline(viewerId, { limit: 20, cursor: 'not-a-cursor' }))
+      .rejects.toThrow(/invalid pagination cursor/i);
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(getHomeTimeline(99999, firstPage)).rejects.toThrow(/does not exist/i);
+  });
+});
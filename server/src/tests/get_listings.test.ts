@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { listingsTable, usersTable } from '../db/schema';
-import { type CreateUserInput, type CreateListingInput } from '../schema';
+import { type CreateUserInput, type CreateListingInput, type SearchListingsInput } from '../schema';
 import { getListings, getListingById, getListingsByUserId, searchListings } from '../handlers/get_listings';
 import { eq } from 'drizzle-orm';
 
@@ -32,7 +32,8 @@ const testListing: CreateListingInput = {
   category: 'electronics',
   condition: 'new',
   location: 'New York',
-  media_urls: ['https://example.com/photo1.jpg', 'https://example.com/photo2.jpg']
+  media_urls: ['https://example.com/photo1.jpg', 'https://example.com/photo2.jpg'],
+  quantity: 1
 };
 
 const testListing2: CreateListingInput = {
@@ -44,7 +45,8 @@ const testListing2: CreateListingInput = {
   category: 'electronics',
   condition: 'good',
   location: 'Los Angeles',
-  media_urls: ['https://example.com/macbook1.jpg']
+  media_urls: ['https://example.com/macbook1.jpg'],
+  quantity: 1
 };
 
 const testListing3: CreateListingInput = {
@@ -56,7 +58,8 @@ const testListing3: CreateListingInput = {
   category: 'camera',
   condition: 'fair',
   location: 'New York',
-  media_urls: null
+  media_urls: null,
+  quantity: 1
 };
 
 describe('getListings', () => {
@@ -124,7 +127,7 @@ describe('getListings', () => {
   });
 
   it('should fetch all listings without filters', async () => {
-    const result = await getListings();
+    const { items: result } = await getListings({ limit: 20, sort: 'newest' });
 
     expect(result).toHaveLength(3);
     // Results should be ordered by created_at desc (most recent first)
@@ -137,7 +140,7 @@ describe('getListings', () => {
   });
 
   it('should filter by category', async () => {
-    const result = await getListings({ category: 'electronics' });
+    const { items: result } = await getListings({ limit: 20, category: 'electronics', sort: 'newest' });
 
     expect(result).toHaveLength(2);
     result.forEach(listing => {
@@ -146,7 +149,7 @@ describe('getListings', () => {
   });
 
   it('should filter by location (case insensitive)', async () => {
-    const result = await getListings({ location: 'new york' });
+    const { items: result } = await getListings({ limit: 20, location: 'new york', sort: 'newest' });
 
     expect(result).toHaveLength(2);
     result.forEach(listing => {
@@ -155,10 +158,7 @@ describe('getListings', () => {
   });
 
   it('should filter by price range', async () => {
-    const result = await getListings({ 
-      minPrice: 500, 
-      maxPrice: 1000 
-    });
+    const { items: result } = await getListings({ limit: 20, min_price: 500, max_price: 1000, sort: 'newest' });
 
     expect(result).toHaveLength(1);
     expect(result[0].title).toEqual('Test iPhone 15');
@@ -168,7 +168,7 @@ describe('getListings', () => {
   });
 
   it('should filter by condition', async () => {
-    const result = await getListings({ condition: 'new' });
+    const { items: result } = await getListings({ limit: 20, condition: 'new', sort: 'newest' });
 
     expect(result).toHaveLength(1);
     expect(result[0].condition).toEqual('new');
@@ -176,10 +176,12 @@ describe('getListings', () => {
   });
 
   it('should apply multiple filters', async () => {
-    const result = await getListings({ 
+    const { items: result } = await getListings({
+      limit: 20,
       category: 'electronics',
       condition: 'good',
-      location: 'los angeles'
+      location: 'los angeles',
+      sort: 'newest'
     });
 
     expect(result).toHaveLength(1);
@@ -190,15 +192,15 @@ describe('getListings', () => {
   });
 
   it('should apply pagination', async () => {
-    const result = await getListings({ 
-      limit: 2, 
-      offset: 1 
-    });
+    const firstPage = await getListings({ limit: 1, sort: 'newest' });
+    const { items: result, nextCursor } = await getListings({ limit: 2, cursor: firstPage.nextCursor!, sort: 'newest' });
 
+    expect(firstPage.totalEstimate).toEqual(3);
     expect(result).toHaveLength(2);
     // Should skip the first (most recent) listing
     expect(result[0].title).toEqual('Used MacBook Pro');
     expect(result[1].title).toEqual('Test iPhone 15');
+    expect(nextCursor).toBeNull();
   });
 
   it('should filter by active status', async () => {
@@ -208,13 +210,78 @@ describe('getListings', () => {
       .where(eq(listingsTable.title, 'Test iPhone 15'))
       .execute();
 
-    const activeResult = await getListings({ isActive: true });
+    const { items: activeResult } = await getListings({ limit: 20, is_active: true, sort: 'newest' });
     expect(activeResult).toHaveLength(2);
 
-    const inactiveResult = await getListings({ isActive: false });
+    const { items: inactiveResult } = await getListings({ limit: 20, is_active: false, sort: 'newest' });
     expect(inactiveResult).toHaveLength(1);
     expect(inactiveResult[0].title).toEqual('Test iPhone 15');
   });
+
+  it('should sort by price in both directions across pages', async () => {
+    const firstPage = await getListings({ limit: 2, sort: 'price_asc' });
+    const secondPage = await getListings({ limit: 2, cursor: firstPage.nextCursor!, sort: 'price_asc' });
+
+    expect(firstPage.items.map(listing => listing.price)).toEqual([450, 999.99]);
+    expect(secondPage.items.map(listing => listing.price)).toEqual([1299.5]);
+    expect(secondPage.nextCursor).toBeNull();
+
+    const { items: descending } = await getListings({ limit: 20, sort: 'price_desc' });
+    expect(descending.map(listing => listing.price)).toEqual([1299.5, 999.99, 450]);
+  });
+
+  it('should sort by most viewed', async () => {
+    await db.update(listingsTable)
+      .set({ view_count: 7 })
+      .where(eq(listingsTable.title, 'Used MacBook Pro'))
+      .execute();
+
+    const firstPage = await getListings({ limit: 1, sort: 'most_viewed' });
+    const { items: rest } = await getListings({ limit: 20, cursor: firstPage.nextCursor!, sort: 'most_viewed' });
+
+    expect(firstPage.items[0].title).toEqual('Used MacBook Pro');
+    // Equal view counts fall back to the newest id first
+    expect(rest.map(listing => listing.title)).toEqual(['Vintage Camera', 'Test iPhone 15']);
+  });
+
+  it('should sort by distance with unplaced listings last', async () => {
+    await db.update(listingsTable)
+      .set({ latitude: 40.7128, longitude: -74.006 })
+      .where(eq(listingsTable.title, 'Test iPhone 15'))
+      .execute();
+    await db.update(listingsTable)
+      .set({ latitude: 34.0522, longitude: -118.2437 })
+      .where(eq(listingsTable.title, 'Used MacBook Pro'))
+      .execute();
+
+    // From San Diego, one listing per page
+    const near = { latitude: 32.7157, longitude: -117.1611 };
+    const titles: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getListings({ limit: 1, cursor, sort: 'nearest', near });
+      titles.push(...page.items.map(listing => listing.title));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(titles).toEqual(['Used MacBook Pro', 'Test iPhone 15', 'Vintage Camera']);
+  });
+
+  it('should combine filters with a sort', async () => {
+    const { items: result } = await getListings({ limit: 20, location: 'new york', sort: 'price_desc' });
+
+    expect(result.map(listing => listing.title)).toEqual(['Test iPhone 15', 'Vintage Camera']);
+  });
+
+  it('should require a point to sort by nearest', async () => {
+    await expect(getListings({ limit: 20, sort: 'nearest' })).rejects.toThrow(/requires a location/i);
+  });
+
+  it('should reject a cursor from a different sort', async () => {
+    const page = await getListings({ limit: 1, sort: 'price_asc' });
+
+    await expect(getListings({ limit: 1, cursor: page.nextCursor!, sort: 'newest' })).rejects.toThrow(/invalid pagination cursor/i);
+  });
 });
 
 describe('getListingById', () => {
@@ -271,6 +338,46 @@ describe('getListingById', () => {
     expect(result!.view_count).toEqual(3);
   });
 
+  it('should show no reservation on a free listing', async () => {
+    const result = await getListingById(listingId);
+
+    expect(result!.reservation).toBeNull();
+    expect(result).not.toHaveProperty('reserved_by');
+  });
+
+  it('should show the reservation and whether the viewer holds it', async () => {
+    const buyers = await db.insert(usersTable)
+      .values({ username: 'buyer', email: 'buyer@example.com' })
+      .returning()
+      .execute();
+    const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+    await db.update(listingsTable)
+      .set({ reserved_by: buyers[0].id, reserved_until: expiresAt })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    const forBuyer = await getListingById(listingId, buyers[0].id);
+    expect(forBuyer!.reservation).toEqual({ expires_at: expiresAt, held_by_viewer: true });
+
+    const forOthers = await getListingById(listingId);
+    expect(forOthers!.reservation).toEqual({ expires_at: expiresAt, held_by_viewer: false });
+  });
+
+  it('should treat a lapsed reservation as released', async () => {
+    const buyers = await db.insert(usersTable)
+      .values({ username: 'buyer', email: 'buyer@example.com' })
+      .returning()
+      .execute();
+    await db.update(listingsTable)
+      .set({ reserved_by: buyers[0].id, reserved_until: new Date(Date.now() - 1000) })
+      .where(eq(listingsTable.id, listingId))
+      .execute();
+
+    const result = await getListingById(listingId, buyers[0].id);
+
+    expect(result!.reservation).toBeNull();
+  });
+
   it('should return null for non-existent listing', async () => {
     const result = await getListingById(999999);
 
@@ -364,7 +471,7 @@ describe('getListingsByUserId', () => {
   });
 
   it('should fetch listings by user ID', async () => {
-    const result = await getListingsByUserId(userId1);
+    const { items: result } = await getListingsByUserId({ userId: userId1, limit: 20, sort: 'newest' });
 
     expect(result).toHaveLength(2);
     result.forEach(listing => {
@@ -381,17 +488,17 @@ describe('getListingsByUserId', () => {
       .where(eq(listingsTable.title, 'Test iPhone 15'))
       .execute();
 
-    const activeResult = await getListingsByUserId(userId1, { isActive: true });
+    const { items: activeResult } = await getListingsByUserId({ userId: userId1, limit: 20, is_active: true, sort: 'newest' });
     expect(activeResult).toHaveLength(1);
     expect(activeResult[0].title).toEqual('Vintage Camera');
 
-    const inactiveResult = await getListingsByUserId(userId1, { isActive: false });
+    const { items: inactiveResult } = await getListingsByUserId({ userId: userId1, limit: 20, is_active: false, sort: 'newest' });
     expect(inactiveResult).toHaveLength(1);
     expect(inactiveResult[0].title).toEqual('Test iPhone 15');
   });
 
   it('should filter by category', async () => {
-    const result = await getListingsByUserId(userId1, { category: 'electronics' });
+    const { items: result } = await getListingsByUserId({ userId: userId1, limit: 20, category: 'electronics', sort: 'newest' });
 
     expect(result).toHaveLength(1);
     expect(result[0].title).toEqual('Test iPhone 15');
@@ -399,17 +506,21 @@ describe('getListingsByUserId', () => {
   });
 
   it('should apply pagination', async () => {
-    const result = await getListingsByUserId(userId1, { 
-      limit: 1, 
-      offset: 1 
-    });
+    const firstPage = await getListingsByUserId({ userId: userId1, limit: 1, sort: 'newest' });
+    const { items: result } = await getListingsByUserId({ userId: userId1, limit: 1, cursor: firstPage.nextCursor!, sort: 'newest' });
 
     expect(result).toHaveLength(1);
     expect(result[0].title).toEqual('Test iPhone 15'); // Second most recent for userId1
   });
 
+  it('should sort a seller\'s listings', async () => {
+    const { items: result } = await getListingsByUserId({ userId: userId1, limit: 20, sort: 'price_desc' });
+
+    expect(result.map(listing => listing.title)).toEqual(['Test iPhone 15', 'Vintage Camera']);
+  });
+
   it('should return empty array for user with no listings', async () => {
-    const result = await getListingsByUserId(999999);
+    const { items: result } = await getListingsByUserId({ userId: 999999, limit: 20, sort: 'newest' });
 
     expect(result).toHaveLength(0);
   });
@@ -479,48 +590,147 @@ describe('searchListings', () => {
       .execute();
   });
 
+  const search = (query: string, filters: Partial<SearchListingsInput> = {}) =>
+    searchListings({ query, limit: 20, ...filters });
+
   it('should search by title (case insensitive)', async () => {
-    const result = await searchListings('iphone');
+    const result = await search('iphone');
 
-    expect(result).toHaveLength(1);
-    expect(result[0].title).toEqual('Test iPhone 15');
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].title).toEqual('Test iPhone 15');
   });
 
   it('should search by description (case insensitive)', async () => {
-    const result = await searchListings('photography');
+    const result = await search('photography');
 
-    expect(result).toHaveLength(1);
-    expect(result[0].title).toEqual('Vintage Camera');
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].title).toEqual('Vintage Camera');
   });
 
   it('should search both title and description', async () => {
-    const result = await searchListings('macbook');
+    const result = await search('macbook');
 
-    expect(result).toHaveLength(1);
-    expect(result[0].title).toEqual('Used MacBook Pro');
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].title).toEqual('Used MacBook Pro');
+  });
+
+  it('should match word prefixes and stemmed forms', async () => {
+    expect((await search('mac')).items.map(l => l.title)).toEqual(['Used MacBook Pro']);
+    expect((await search('cameras')).items.map(l => l.title)).toEqual(['Vintage Camera']);
+  });
+
+  it('should require every word to match', async () => {
+    const result = await search('vintage iphone');
+
+    expect(result.items).toHaveLength(0);
+  });
+
+  it('should rank title matches above description matches', async () => {
+    await db.insert(listingsTable)
+      .values({
+        ...testListing,
+        user_id: userId2,
+        title: 'Phone case',
+        description: 'Fits the iPhone 15 perfectly',
+        price: '19.99'
+      })
+      .execute();
+
+    const result = await search('iphone');
+
+    expect(result.items.map(l => l.title)).toEqual(['Test iPhone 15', 'Phone case']);
+    expect(result.items[0].rank).toBeGreaterThan(result.items[1].rank);
+  });
+
+  it('should highlight matches in escaped title and description snippets', async () => {
+    await db.insert(listingsTable)
+      .values({
+        ...testListing,
+        user_id: userId2,
+        title: 'Guitar <b>amp</b>',
+        description: 'Tube guitar amp & cabinet',
+        price: '300'
+      })
+      .execute();
+
+    const result = await search('guitar');
+
+    expect(result.items[0].title_highlight).toEqual('<mark>Guitar</mark> &lt;b&gt;amp&lt;/b&gt;');
+    expect(result.items[0].description_snippet).toContain('<mark>guitar</mark>');
+    expect(result.items[0].description_snippet).toContain('&amp;');
+  });
+
+  it('should return price and condition facets with counts', async () => {
+    const result = await search('condition');
+
+    expect(result.totalEstimate).toEqual(2);
+    expect(result.facets.condition).toEqual([
+      { value: 'good', count: 1 },
+      { value: 'new', count: 1 },
+    ]);
+    expect(result.facets.price.find(b => b.min === 500)!.count).toEqual(1);
+    expect(result.facets.price.find(b => b.min === 1000)!.count).toEqual(1);
+  });
+
+  it('should keep each facet independent of its own filter', async () => {
+    const result = await search('condition', { condition: 'new', max_price: 1000 });
+
+    expect(result.items.map(l => l.title)).toEqual(['Test iPhone 15']);
+    expect(result.totalEstimate).toEqual(1);
+    // The MacBook is over budget, so only the iPhone is left to count per condition
+    expect(result.facets.condition).toEqual([{ value: 'new', count: 1 }]);
+    // Price buckets still count only new items, across every price
+    expect(result.facets.price.find(b => b.min === 500)!.count).toEqual(1);
+    expect(result.facets.price.find(b => b.min === 1000)!.count).toEqual(0);
+  });
+
+  it('should paginate results with a cursor', async () => {
+    const page1 = await search('', { limit: 2 });
+    expect(page1.items).toHaveLength(2);
+    expect(page1.nextCursor).not.toBeNull();
+
+    const page2 = await search('', { limit: 2, cursor: page1.nextCursor! });
+    expect(page2.items).toHaveLength(1);
+    expect(page2.nextCursor).toBeNull();
+
+    const ids = [...page1.items, ...page2.items].map(l => l.id);
+    expect(new Set(ids).size).toEqual(3);
+  });
+
+  it('should paginate ranked results with a cursor', async () => {
+    const page1 = await search('condition', { limit: 1 });
+    const page2 = await search('condition', { limit: 1, cursor: page1.nextCursor! });
+
+    expect(page2.items).toHaveLength(1);
+    expect(page2.items[0].id).not.toEqual(page1.items[0].id);
+    expect(page2.nextCursor).toBeNull();
+  });
+
+  it('should reject an invalid cursor', async () => {
+    await expect(search('iphone', { cursor: 'garbage' })).rejects.toThrow(/invalid pagination cursor/i);
   });
 
   it('should combine search with category filter', async () => {
-    const result = await searchListings('test', 'electronics');
+    const result = await search('test', { category: 'electronics' });
 
-    expect(result).toHaveLength(1);
-    expect(result[0].title).toEqual('Test iPhone 15');
-    expect(result[0].category).toEqual('electronics');
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].title).toEqual('Test iPhone 15');
+    expect(result.items[0].category).toEqual('electronics');
   });
 
   it('should combine search with location filter', async () => {
-    const result = await searchListings('test', undefined, 'new york');
+    const result = await search('test', { location: 'new york' });
 
-    expect(result).toHaveLength(1);
-    expect(result[0].title).toEqual('Test iPhone 15');
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].title).toEqual('Test iPhone 15');
   });
 
   it('should combine search with both category and location', async () => {
-    const result = await searchListings('test', 'electronics', 'new york');
+    const result = await search('test', { category: 'electronics', location: 'new york' });
 
-    expect(result).toHaveLength(1);
-    expect(result[0].title).toEqual('Test iPhone 15');
-    expect(result[0].category).toEqual('electronics');
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].title).toEqual('Test iPhone 15');
+    expect(result.items[0].category).toEqual('electronics');
   });
 
   it('should only search active listings', async () => {
@@ -530,30 +740,37 @@ describe('searchListings', () => {
       .where(eq(listingsTable.title, 'Test iPhone 15'))
       .execute();
 
-    const result = await searchListings('iphone');
+    const result = await search('iphone');
 
-    expect(result).toHaveLength(0); // Should not find inactive listing
+    expect(result.items).toHaveLength(0); // Should not find inactive listing
   });
 
   it('should return empty array for no matches', async () => {
-    const result = await searchListings('nonexistentproduct');
+    const result = await search('nonexistentproduct');
 
-    expect(result).toHaveLength(0);
+    expect(result.items).toHaveLength(0);
+    expect(result.totalEstimate).toEqual(0);
+  });
+
+  it('should return nothing for a query without words', async () => {
+    const result = await search('!!!');
+
+    expect(result.items).toHaveLength(0);
   });
 
   it('should return all active listings when search query is empty', async () => {
-    const result = await searchListings('');
+    const result = await search('');
 
-    expect(result).toHaveLength(3); // Should return all active listings
-    expect(result[0].title).toEqual('Vintage Camera'); // Most recent first
+    expect(result.items).toHaveLength(3); // Should return all active listings
+    expect(result.items[0].title).toEqual('Vintage Camera'); // Most recent first
   });
 
   it('should filter by category only', async () => {
-    const result = await searchListings('', 'electronics');
+    const result = await search('', { category: 'electronics' });
 
-    expect(result).toHaveLength(2); // iPhone and MacBook
-    result.forEach(listing => {
+    expect(result.items).toHaveLength(2); // iPhone and MacBook
+    result.items.forEach(listing => {
       expect(listing.category).toEqual('electronics');
     });
   });
-});
\ No newline at end of file
+});
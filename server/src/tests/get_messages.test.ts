@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, listingsTable } from '../db/schema';
+import { startConversation, sendMessage, markConversationRead } from '../handlers/create_message';
+import { getConversationMessages, getInbox } from '../handlers/get_messages';
+import { ForbiddenError } from '../lib/errors';
+
+describe('messaging reads', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let sellerId: number;
+  let aliceId: number;
+  let bobId: number;
+  let listingIds: number[];
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values(['seller', 'alice', 'bob'].map(username => ({ username, email: `${username}@example.com` })))
+      .returning()
+      .execute();
+    [sellerId, aliceId, bobId] = users.map(user => user.id);
+
+    const listings = await db.insert(listingsTable)
+      .values(['Desk', 'Chair'].map(title => ({
+        user_id: sellerId,
+        title,
+        description: `A ${title.toLowerCase()}`,
+        price: '50.00',
+        currency: 'USD',
+        category: 'home',
+        condition: 'good'
+      })))
+      .returning()
+      .execute();
+    listingIds = listings.map(listing => listing.id);
+  });
+
+  describe('getConversationMessages', () => {
+    it('should page through messages newest first', async () => {
+      const conversation = await startConversation({ listing_id: listingIds[0], buyer_id: aliceId, message: 'one' });
+      await sendMessage({ conversation_id: conversation.id, sender_id: sellerId, body: 'two' });
+      await sendMessage({ conversation_id: conversation.id, sender_id: aliceId, body: 'three' });
+
+      const firstPage = await getConversationMessages({ conversationId: conversation.id, limit: 2 }, sellerId);
+
+      expect(firstPage.items.map(message => message.body)).toEqual(['three', 'two']);
+      expect(firstPage.totalEstimate).toEqual(3);
+
+      const secondPage = await getConversationMessages(
+        { conversationId: conversation.id, limit: 2, cursor: firstPage.nextCursor! },
+        aliceId
+      );
+
+      expect(secondPage.items.map(message => message.body)).toEqual(['one']);
+      expect(secondPage.nextCursor).toBeNull();
+    });
+
+    it('should hide conversations from other users', async () => {
+      const conversation = await startConversation({ listing_id: listingIds[0], buyer_id: aliceId, message: 'private' });
+
+      await expect(getConversationMessages({ conversationId: conversation.id, limit: 20 }, bobId))
+        .rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+
+  describe('getInbox', () => {
+    it('should list conversations by latest activity with unread counts', async () => {
+      const desk = await startConversation({ listing_id: listingIds[0], buyer_id: aliceId, message: 'Desk still there?' });
+      const chair = await startConversation({ listing_id: listingIds[1], buyer_id: bobId, message: 'Chair?' });
+      await sendMessage({ conversation_id: chair.id, sender_id: bobId, body: 'Hello?' });
+      await sendMessage({ conversation_id: desk.id, sender_id: sellerId, body: 'Yes it is' });
+
+      const inbox = await getInbox(sellerId, { limit: 20 });
+
+      expect(inbox.items.map(entry => entry.conversation.id)).toEqual([desk.id, chair.id]);
+      expect(inbox.items[0].last_message!.body).toEqual('Yes it is');
+      expect(inbox.items[0].unread_count).toEqual(1);
+      expect(inbox.items[1].last_message!.body).toEqual('Hello?');
+      expect(inbox.items[1].unread_count).toEqual(2);
+      expect(inbox.unread_total).toEqual(3);
+
+      await markConversationRead(chair.id, sellerId);
+
+      const after = await getInbox(sellerId, { limit: 20 });
+      expect(after.items[1].unread_count).toEqual(0);
+      expect(after.unread_total).toEqual(1);
+
+      const aliceInbox = await getInbox(aliceId, { limit: 20 });
+      expect(aliceInbox.items.map(entry => entry.conversation.id)).toEqual([desk.id]);
+      expect(aliceInbox.items[0].unread_count).toEqual(1);
+    });
+
+    it('should page through the inbox', async () => {
+      const desk = await startConversation({ listing_id: listingIds[0], buyer_id: aliceId });
+      const chair = await startConversation({ listing_id: listingIds[1], buyer_id: aliceId });
+
+      const firstPage = await getInbox(aliceId, { limit: 1 });
+
+      expect(firstPage.items.map(entry => entry.conversation.id)).toEqual([chair.id]);
+      expect(firstPage.items[0].last_message).toBeNull();
+
+      const secondPage = await getInbox(aliceId, { limit: 1, cursor: firstPage.nextCursor! });
+
+      expect(secondPage.items.map(entry => entry.conversation.id)).toEqual([desk.id]);
+      expect(secondPage.nextCursor).toBeNull();
+    });
+
+    it('should return an empty inbox', async () => {
+      const inbox = await getInbox(bobId, { limit: 20 });
+
+      expect(inbox.items).toEqual([]);
+      expect(inbox.unread_total).toEqual(0);
+    });
+  });
+});
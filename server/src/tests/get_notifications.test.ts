@@ -3,7 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, notificationsTable } from '../db/schema';
 import { type CreateUserInput, type CreateNotificationInput } from '../schema';
-import { getNotificationsByUserId, getUnreadNotificationCount, type GetNotificationsFilters } from '../handlers/get_notifications';
+import { getNotificationsByUserId, getUnreadNotificationCount } from '../handlers/get_notifications';
 import { eq } from 'drizzle-orm';
 
 // Test data setup
@@ -59,7 +59,7 @@ describe('getNotificationsByUserId', () => {
   afterEach(resetDB);
 
   it('should return empty array when user has no notifications', async () => {
-    const result = await getNotificationsByUserId(userId);
+    const { items: result } = await getNotificationsByUserId(userId, { limit: 20 });
 
     expect(result).toEqual([]);
   });
@@ -92,7 +92,7 @@ describe('getNotificationsByUserId', () => {
       .values(notification2)
       .execute();
 
-    const result = await getNotificationsByUserId(userId);
+    const { items: result } = await getNotificationsByUserId(userId, { limit: 20 });
 
     expect(result).toHaveLength(2);
     expect(result[0].title).toBe('Second notification'); // More recent first
@@ -122,7 +122,7 @@ describe('getNotificationsByUserId', () => {
       .values([notification1, notification2])
       .execute();
 
-    const result = await getNotificationsByUserId(userId);
+    const { items: result } = await getNotificationsByUserId(userId, { limit: 20 });
 
     expect(result).toHaveLength(1);
     expect(result[0].title).toBe('User 1 notification');
@@ -163,13 +163,13 @@ describe('getNotificationsByUserId', () => {
       .execute();
 
     // Test filtering for read notifications
-    const readResults = await getNotificationsByUserId(userId, { isRead: true });
+    const { items: readResults } = await getNotificationsByUserId(userId, { limit: 20, isRead: true });
     expect(readResults).toHaveLength(1);
     expect(readResults[0].title).toBe('Read notification');
     expect(readResults[0].is_read).toBe(true);
 
     // Test filtering for unread notifications
-    const unreadResults = await getNotificationsByUserId(userId, { isRead: false });
+    const { items: unreadResults } = await getNotificationsByUserId(userId, { limit: 20, isRead: false });
     expect(unreadResults).toHaveLength(1);
     expect(unreadResults[0].title).toBe('Unread notification');
     expect(unreadResults[0].is_read).toBe(false);
@@ -196,12 +196,12 @@ describe('getNotificationsByUserId', () => {
       .values([likeNotification, followNotification])
       .execute();
 
-    const likeResults = await getNotificationsByUserId(userId, { type: 'like' });
+    const { items: likeResults } = await getNotificationsByUserId(userId, { limit: 20, type: 'like' });
     expect(likeResults).toHaveLength(1);
     expect(likeResults[0].type).toBe('like');
     expect(likeResults[0].title).toBe('Like notification');
 
-    const followResults = await getNotificationsByUserId(userId, { type: 'follow' });
+    const { items: followResults } = await getNotificationsByUserId(userId, { limit: 20, type: 'follow' });
     expect(followResults).toHaveLength(1);
     expect(followResults[0].type).toBe('follow');
     expect(followResults[0].title).toBe('Follow notification');
@@ -222,25 +222,27 @@ describe('getNotificationsByUserId', () => {
       .execute();
 
     // Test first page
-    const firstPage = await getNotificationsByUserId(userId, { limit: 2, offset: 0 });
-    expect(firstPage).toHaveLength(2);
+    const firstPage = await getNotificationsByUserId(userId, { limit: 2 });
+    expect(firstPage.items).toHaveLength(2);
+    expect(firstPage.nextCursor).not.toBeNull();
 
     // Test second page
-    const secondPage = await getNotificationsByUserId(userId, { limit: 2, offset: 2 });
-    expect(secondPage).toHaveLength(2);
+    const secondPage = await getNotificationsByUserId(userId, { limit: 2, cursor: firstPage.nextCursor! });
+    expect(secondPage.items).toHaveLength(2);
 
     // Test third page
-    const thirdPage = await getNotificationsByUserId(userId, { limit: 2, offset: 4 });
-    expect(thirdPage).toHaveLength(1);
+    const thirdPage = await getNotificationsByUserId(userId, { limit: 2, cursor: secondPage.nextCursor! });
+    expect(thirdPage.items).toHaveLength(1);
+    expect(thirdPage.nextCursor).toBeNull();
 
     // Ensure no overlap between pages
-    const firstPageIds = firstPage.map(n => n.id);
-    const secondPageIds = secondPage.map(n => n.id);
+    const firstPageIds = firstPage.items.map(n => n.id);
+    const secondPageIds = secondPage.items.map(n => n.id);
     expect(firstPageIds.some(id => secondPageIds.includes(id))).toBe(false);
   });
 
-  it('should use default pagination values', async () => {
-    // Create 60 notifications (more than default limit of 50)
+  it('should report the total alongside a limited page', async () => {
+    // Create 60 notifications
     const notifications = Array.from({ length: 60 }, (_, i) => ({
       user_id: userId,
       type: 'like',
@@ -253,8 +255,10 @@ describe('getNotificationsByUserId', () => {
       .values(notifications)
       .execute();
 
-    const result = await getNotificationsByUserId(userId);
-    expect(result).toHaveLength(50); // Should use default limit of 50
+    const result = await getNotificationsByUserId(userId, { limit: 50 });
+    expect(result.items).toHaveLength(50);
+    expect(result.totalEstimate).toEqual(60);
+    expect(result.nextCursor).not.toBeNull();
   });
 
   it('should combine multiple filters correctly', async () => {
@@ -299,7 +303,7 @@ describe('getNotificationsByUserId', () => {
       .execute();
 
     // Filter for unread like notifications
-    const result = await getNotificationsByUserId(userId, { 
+    const { items: result } = await getNotificationsByUserId(userId, { limit: 20, 
       isRead: false, 
       type: 'like' 
     });
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, listingsTable } from '../db/schema';
+import { createOffer, respondToOffer } from '../handlers/create_offer';
+import { getOfferById, getOffers } from '../handlers/get_offers';
+import { ForbiddenError } from '../lib/errors';
+
+describe('getOffers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let sellerId: number;
+  let aliceId: number;
+  let bobId: number;
+  let listingIds: number[];
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values(['seller', 'alice', 'bob'].map(username => ({ username, email: `${username}@example.com` })))
+      .returning()
+      .execute();
+    [sellerId, aliceId, bobId] = users.map(user => user.id);
+
+    const listings = await db.insert(listingsTable)
+      .values(['Sofa', 'Rug'].map(title => ({
+        user_id: sellerId,
+        title,
+        description: `A ${title.toLowerCase()}`,
+        price: '100.00',
+        currency: 'EUR',
+        category: 'home',
+        condition: 'good'
+      })))
+      .returning()
+      .execute();
+    listingIds = listings.map(listing => listing.id);
+  });
+
+  it('should list offers made and received, newest first', async () => {
+    const sofaFromAlice = await createOffer({ listing_id: listingIds[0], buyer_id: aliceId, amount: 80, expires_in_hours: 48 });
+    const rugFromAlice = await createOffer({ listing_id: listingIds[1], buyer_id: aliceId, amount: 60, expires_in_hours: 48 });
+    const sofaFromBob = await createOffer({ listing_id: listingIds[0], buyer_id: bobId, amount: 90, expires_in_hours: 48 });
+
+    const received = await getOffers({ limit: 20, role: 'seller' }, sellerId);
+    expect(received.items.map(offer => offer.id)).toEqual([sofaFromBob.id, rugFromAlice.id, sofaFromAlice.id]);
+    expect(received.items[0].amount).toEqual(90);
+
+    const made = await getOffers({ limit: 20 }, aliceId);
+    expect(made.items.map(offer => offer.id)).toEqual([rugFromAlice.id, sofaFromAlice.id]);
+
+    const forSofa = await getOffers({ limit: 20, listingId: listingIds[0] }, sellerId);
+    expect(forSofa.items.map(offer => offer.id)).toEqual([sofaFromBob.id, sofaFromAlice.id]);
+
+    const firstPage = await getOffers({ limit: 2 }, sellerId);
+    const secondPage = await getOffers({ limit: 2, cursor: firstPage.nextCursor! }, sellerId);
+    expect(secondPage.items.map(offer => offer.id)).toEqual([sofaFromAlice.id]);
+    expect(secondPage.nextCursor).toBeNull();
+  });
+
+  it('should filter by status', async () => {
+    const offer = await createOffer({ listing_id: listingIds[0], buyer_id: aliceId, amount: 80, expires_in_hours: 48 });
+    await createOffer({ listing_id: listingIds[1], buyer_id: aliceId, amount: 60, expires_in_hours: 48 });
+    await respondToOffer({ id: offer.id, action: 'decline', expires_in_hours: 48 }, sellerId);
+
+    const declined = await getOffers({ limit: 20, status: 'declined' }, aliceId);
+
+    expect(declined.items.map(item => item.id)).toEqual([offer.id]);
+  });
+
+  it('should show an offer only to its buyer and seller', async () => {
+    const offer = await createOffer({ listing_id: listingIds[0], buyer_id: aliceId, amount: 80, expires_in_hours: 48 });
+
+    const seen = await getOfferById(offer.id, sellerId);
+    expect(seen!.amount).toEqual(80);
+
+    await expect(getOfferById(offer.id, bobId)).rejects.toBeInstanceOf(ForbiddenError);
+    expect(await getOfferById(999999, aliceId)).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { ledgerAccountsTable, ledgerEntriesTable, listingsTable, transactionsTable, usersTable } from '../db/schema';
+import { updateTransactionStatus } from '../handlers/create_transaction';
+import { requestPayout } from '../handlers/create_payout';
+import { getPayouts, getSellerBalance } from '../handlers/get_payouts';
+import { eq, sql } from 'drizzle-orm';
+
+describe('seller funds', () => {
+  let buyerId: number;
+  let sellerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [buyer, seller] = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' }
+      ])
+      .returning()
+      .execute();
+    buyerId = buyer.id;
+    sellerId = seller.id;
+  });
+
+  afterEach(resetDB);
+
+  const createSale = async (amount: string, currency = 'USD') => {
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Chair',
+        description: 'Oak chair',
+        price: amount,
+        currency,
+        category: 'home',
+        condition: 'good'
+      })
+      .returning()
+      .execute();
+
+    const [transaction] = await db.insert(transactionsTable)
+      .values({ listing_id: listing.id, buyer_id: buyerId, seller_id: sellerId, amount, currency })
+      .returning()
+      .execute();
+
+    return transaction.id;
+  };
+
+  const advance = async (id: number, ...statuses: ('paid' | 'shipped' | 'delivered' | 'completed' | 'refunded')[]) => {
+    for (const status of statuses) {
+      await updateTransactionStatus({ id, status });
+    }
+  };
+
+  const ledgerTotal = async () => {
+    const result = await db.select({ total: sql<string>`coalesce(sum(${ledgerEntriesTable.amount}), 0)` })
+      .from(ledgerEntriesTable)
+      .execute();
+    return parseFloat(result[0].total);
+  };
+
+  const platformBalance = async (type: 'escrow' | 'platform_fees') => {
+    const result = await db.select({ total: sql<string>`coalesce(sum(${ledgerEntriesTable.amount}), 0)` })
+      .from(ledgerEntriesTable)
+      .innerJoin(ledgerAccountsTable, eq(ledgerEntriesTable.account_id, ledgerAccountsTable.id))
+      .where(eq(ledgerAccountsTable.type, type))
+      .execute();
+    return parseFloat(result[0].total);
+  };
+
+  describe('getSellerBalance', () => {
+    it('should hold paid money in escrow', async () => {
+      const id = await createSale('100.00');
+      await advance(id, 'paid');
+
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'USD', available: 0, in_escrow: 100, pending_payouts: 0 }
+      ]);
+      expect(await platformBalance('escrow')).toEqual(100);
+    });
+
+    it('should release escrow minus the platform fee on completion', async () => {
+      const id = await createSale('100.00');
+      await advance(id, 'paid', 'shipped', 'delivered', 'completed');
+
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'USD', available: 95, in_escrow: 0, pending_payouts: 0 }
+      ]);
+      expect(await platformBalance('platform_fees')).toEqual(5);
+      expect(await platformBalance('escrow')).toEqual(0);
+      expect(await ledgerTotal()).toEqual(0);
+    });
+
+    it('should use the configured platform fee', async () => {
+      process.env['PLATFORM_FEE_PERCENT'] = '12.5';
+      try {
+        const id = await createSale('10.00');
+        await advance(id, 'paid', 'shipped', 'delivered', 'completed');
+      } finally {
+        delete process.env['PLATFORM_FEE_PERCENT'];
+      }
+
+      const [balance] = await getSellerBalance(sellerId);
+      expect(balance.available).toEqual(8.75);
+      expect(await platformBalance('platform_fees')).toEqual(1.25);
+    });
+
+    it('should return escrow to the buyer on refund', async () => {
+      const id = await createSale('40.00');
+      await advance(id, 'paid', 'refunded');
+
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'USD', available: 0, in_escrow: 0, pending_payouts: 0 }
+      ]);
+      expect(await platformBalance('escrow')).toEqual(0);
+      expect(await ledgerTotal()).toEqual(0);
+    });
+
+    it('should keep currencies apart', async () => {
+      await advance(await createSale('100.00'), 'paid', 'shipped', 'delivered', 'completed');
+      await advance(await createSale('20.00', 'EUR'), 'paid');
+
+      expect(await getSellerBalance(sellerId)).toEqual([
+        { currency: 'EUR', available: 0, in_escrow: 20, pending_payouts: 0 },
+        { currency: 'USD', available: 95, in_escrow: 0, pending_payouts: 0 }
+      ]);
+    });
+
+    it('should return nothing for users without sales', async () => {
+      expect(await getSellerBalance(buyerId)).toEqual([]);
+    });
+  });
+
+  describe('getPayouts', () => {
+    it("should page through the seller's payouts, newest first", async () => {
+      await advance(await createSale('100.00'), 'paid', 'shipped', 'delivered', 'completed');
+      const first = await requestPayout({ user_id: sellerId, amount: 30, currency: 'USD' });
+      const second = await requestPayout({ user_id: sellerId, amount: 20, currency: 'USD' });
+
+      const page = await getPayouts(sellerId, { limit: 1 });
+      expect(page.items.map(payout => payout.id)).toEqual([second.id]);
+      expect(page.items[0].amount).toEqual(20);
+
+      const next = await getPayouts(sellerId, { limit: 1, cursor: page.nextCursor! });
+      expect(next.items.map(payout => payout.id)).toEqual([first.id]);
+
+      expect((await getPayouts(buyerId, { limit: 10 })).items).toHaveLength(0);
+    });
+  });
+});
@@ -9,7 +9,7 @@ describe('getPosts', () => {
   afterEach(resetDB);
 
   it('should return empty array when no posts exist', async () => {
-    const result = await getPosts();
+    const { items: result } = await getPosts({ limit: 20 });
     expect(result).toEqual([]);
   });
 
@@ -45,7 +45,7 @@ describe('getPosts', () => {
       ])
       .execute();
 
-    const result = await getPosts();
+    const { items: result } = await getPosts({ limit: 20 });
 
     expect(result).toHaveLength(3);
     expect(result[0].content).toBe('Third post'); // Most recent first
@@ -83,7 +83,7 @@ describe('getPosts', () => {
       })
       .execute();
 
-    const result = await getPosts();
+    const { items: result } = await getPosts({ limit: 20 });
 
     expect(result).toHaveLength(1);
     expect(result[0].content).toBe('Parent post');
@@ -109,7 +109,7 @@ describe('getPosts', () => {
       })
       .execute();
 
-    const result = await getPosts();
+    const { items: result } = await getPosts({ limit: 20 });
 
     expect(result).toHaveLength(1);
     expect(result[0].media_urls).toEqual(['https://example.com/image1.jpg', 'https://example.com/image2.jpg']);
@@ -208,7 +208,7 @@ describe('getPostsByUserId', () => {
   afterEach(resetDB);
 
   it('should throw error when user does not exist', async () => {
-    await expect(getPostsByUserId(999)).rejects.toThrow(/User with id 999 does not exist/i);
+    await expect(getPostsByUserId({ userId: 999, limit: 20 })).rejects.toThrow(/User with id 999 does not exist/i);
   });
 
   it('should return empty array when user exists but has no posts', async () => {
@@ -222,7 +222,7 @@ describe('getPostsByUserId', () => {
       .execute();
     const userId = userResult[0].id;
 
-    const result = await getPostsByUserId(userId);
+    const { items: result } = await getPostsByUserId({ userId, limit: 20 });
 
     expect(result).toEqual([]);
   });
@@ -268,7 +268,7 @@ describe('getPostsByUserId', () => {
       ])
       .execute();
 
-    const result = await getPostsByUserId(user1Id);
+    const { items: result } = await getPostsByUserId({ userId: user1Id, limit: 20 });
 
     expect(result).toHaveLength(2);
     expect(result[0].content).toBe('User1 post 2'); // Most recent first
@@ -306,7 +306,7 @@ describe('getPostsByUserId', () => {
       })
       .execute();
 
-    const result = await getPostsByUserId(userId);
+    const { items: result } = await getPostsByUserId({ userId, limit: 20 });
 
     expect(result).toHaveLength(2);
     const parentPost = result.find(p => p.parent_post_id === null);
@@ -324,7 +324,7 @@ describe('getPostReplies', () => {
   afterEach(resetDB);
 
   it('should throw error when parent post does not exist', async () => {
-    await expect(getPostReplies(999)).rejects.toThrow(/Post with id 999 does not exist/i);
+    await expect(getPostReplies({ postId: 999, limit: 20 })).rejects.toThrow(/Post with id 999 does not exist/i);
   });
 
   it('should return empty array when post exists but has no replies', async () => {
@@ -348,7 +348,7 @@ describe('getPostReplies', () => {
       .execute();
     const postId = postResult[0].id;
 
-    const result = await getPostReplies(postId);
+    const { items: result } = await getPostReplies({ postId, limit: 20 });
 
     expect(result).toEqual([]);
   });
@@ -398,7 +398,7 @@ describe('getPostReplies', () => {
       ])
       .execute();
 
-    const result = await getPostReplies(parentPostId);
+    const { items: result } = await getPostReplies({ postId: parentPostId, limit: 20 });
 
     expect(result).toHaveLength(3);
     expect(result[0].content).toBe('Third reply'); // Most recent first
@@ -448,7 +448,7 @@ describe('getPostReplies', () => {
       })
       .execute();
 
-    const result = await getPostReplies(parentPostId);
+    const { items: result } = await getPostReplies({ postId: parentPostId, limit: 20 });
 
     expect(result).toHaveLength(1);
     expect(result[0].content).toBe('Direct reply');
@@ -486,7 +486,7 @@ describe('getPostReplies', () => {
       })
       .execute();
 
-    const result = await getPostReplies(parentPostId);
+    const { items: result } = await getPostReplies({ postId: parentPostId, limit: 20 });
 
     expect(result).toHaveLength(1);
     expect(result[0].content).toBe('Reply with media');
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, listingsTable, transactionsTable } from '../db/schema';
+import { type TransactionStatus } from '../schema';
+import { createReview } from '../handlers/create_review';
+import { getReviewsForUser, getSellerReputation } from '../handlers/get_reviews';
+import { NotFoundError } from '../lib/errors';
+
+describe('reviews', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let sellerId: number;
+  let buyerIds: number[];
+  let listingId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values(['seller', 'buyer1', 'buyer2', 'buyer3'].map(username => ({
+        username,
+        email: `${username}@example.com`
+      })))
+      .returning()
+      .execute();
+    [sellerId, ...buyerIds] = users.map(user => user.id);
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Lamp',
+        description: 'Warm light',
+        price: '25.00',
+        currency: 'USD',
+        category: 'home',
+        condition: 'good'
+      })
+      .returning()
+      .execute();
+    listingId = listing.id;
+  });
+
+  const createTransaction = async (buyerId: number, status: TransactionStatus = 'completed') => {
+    const [transaction] = await db.insert(transactionsTable)
+      .values({
+        listing_id: listingId,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        amount: '25.00',
+        currency: 'USD',
+        status
+      })
+      .returning()
+      .execute();
+    return transaction.id;
+  };
+
+  describe('getReviewsForUser', () => {
+    it('should page through reviews newest first', async () => {
+      for (const [index, buyerId] of buyerIds.entries()) {
+        const transactionId = await createTransaction(buyerId);
+        await createReview({ transaction_id: transactionId, reviewer_id: buyerId, rating: index + 3, text: `Review ${index + 1}` });
+      }
+
+      const firstPage = await getReviewsForUser({ userId: sellerId, limit: 2 });
+
+      expect(firstPage.items.map(review => review.text)).toEqual(['Review 3', 'Review 2']);
+      expect(firstPage.totalEstimate).toEqual(3);
+      expect(firstPage.nextCursor).not.toBeNull();
+
+      const secondPage = await getReviewsForUser({ userId: sellerId, limit: 2, cursor: firstPage.nextCursor! });
+
+      expect(secondPage.items.map(review => review.text)).toEqual(['Review 1']);
+      expect(secondPage.nextCursor).toBeNull();
+    });
+
+    it('should filter by the role the user was reviewed in', async () => {
+      const transactionId = await createTransaction(buyerIds[0]);
+      await createReview({ transaction_id: transactionId, reviewer_id: buyerIds[0], rating: 5, text: 'Great seller' });
+      await createReview({ transaction_id: transactionId, reviewer_id: sellerId, rating: 4, text: 'Great buyer' });
+
+      const asSeller = await getReviewsForUser({ userId: sellerId, limit: 20, as: 'seller' });
+      expect(asSeller.items.map(review => review.text)).toEqual(['Great seller']);
+
+      const asBuyer = await getReviewsForUser({ userId: sellerId, limit: 20, as: 'buyer' });
+      expect(asBuyer.items).toEqual([]);
+
+      const buyerReviews = await getReviewsForUser({ userId: buyerIds[0], limit: 20, as: 'buyer' });
+      expect(buyerReviews.items.map(review => review.text)).toEqual(['Great buyer']);
+    });
+
+    it('should throw for a missing user', async () => {
+      await expect(getReviewsForUser({ userId: 999999, limit: 20 })).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('getSellerReputation', () => {
+    it('should summarize reviews from buyers and completed sales', async () => {
+      const ratings = [5, 5, 2];
+      for (const [index, buyerId] of buyerIds.entries()) {
+        const transactionId = await createTransaction(buyerId);
+        await createReview({ transaction_id: transactionId, reviewer_id: buyerId, rating: ratings[index], text: 'Review' });
+      }
+      await createTransaction(buyerIds[0], 'pending');
+
+      // Reviews the seller received as a buyer elsewhere do not count
+      const [otherListing] = await db.insert(listingsTable)
+        .values({
+          user_id: buyerIds[1],
+          title: 'Chair',
+          description: 'Sturdy',
+          price: '40.00',
+          currency: 'USD',
+          category: 'home',
+          condition: 'fair'
+        })
+        .returning()
+        .execute();
+      const [purchase] = await db.insert(transactionsTable)
+        .values({
+          listing_id: otherListing.id,
+          buyer_id: sellerId,
+          seller_id: buyerIds[1],
+          amount: '40.00',
+          currency: 'USD',
+          status: 'completed'
+        })
+        .returning()
+        .execute();
+      await createReview({ transaction_id: purchase.id, reviewer_id: buyerIds[1], rating: 1, text: 'Rude buyer' });
+
+      const reputation = await getSellerReputation(sellerId);
+
+      expect(reputation).toEqual({
+        user_id: sellerId,
+        review_count: 3,
+        average_rating: 4,
+        rating_distribution: { 1: 0, 2: 1, 3: 0, 4: 0, 5: 2 },
+        completed_sales: 3
+      });
+    });
+
+    it('should report a seller without reviews', async () => {
+      const reputation = await getSellerReputation(sellerId);
+
+      expect(reputation.review_count).toEqual(0);
+      expect(reputation.average_rating).toBeNull();
+      expect(reputation.completed_sales).toEqual(0);
+    });
+
+    it('should throw for a missing user', async () => {
+      await expect(getSellerReputation(999999)).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+});
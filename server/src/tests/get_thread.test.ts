@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable } from '../db/schema';
+import { type ThreadInput, type ThreadNode } from '../schema';
+import { getThread } from '../handlers/get_thread';
+import { deletePost } from '../handlers/update_post';
+import { NotFoundError, ValidationError } from '../lib/errors';
+import { DELETED_POST_TEXT } from '../lib/posts';
+
+const threadInput = (postId: number, overrides: Partial<ThreadInput> = {}): ThreadInput => ({
+  postId,
+  depth: 3,
+  breadth: 10,
+  sort: 'top',
+  ...overrides
+});
+
+const contents = (nodes: ThreadNode[]) => nodes.map(node => node.post.content);
+
+describe('getThread', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let rootId: number;
+  let quietReplyId: number;
+  let nestedReplyId: number;
+  let deepReplyId: number;
+
+  // root
+  // ├── liked reply (2 likes, older)
+  // └── quiet reply (0 likes, newer)
+  //     └── nested reply
+  //         └── deep reply
+  beforeEach(async () => {
+    const [user] = await db.insert(usersTable)
+      .values({ username: 'threader', email: 'threader@example.com' })
+      .returning()
+      .execute();
+    userId = user.id;
+
+    const [root] = await db.insert(postsTable)
+      .values({ user_id: userId, content: 'root', reply_count: 2, created_at: new Date('2024-01-01') })
+      .returning()
+      .execute();
+    rootId = root.id;
+
+    const [, quietReply] = await db.insert(postsTable)
+      .values([
+        { user_id: userId, content: 'liked reply', like_count: 2, parent_post_id: rootId, created_at: new Date('2024-01-02') },
+        { user_id: userId, content: 'quiet reply', reply_count: 1, parent_post_id: rootId, created_at: new Date('2024-01-03') }
+      ])
+      .returning()
+      .execute();
+    quietReplyId = quietReply.id;
+
+    const [nestedReply] = await db.insert(postsTable)
+      .values({ user_id: userId, content: 'nested reply', reply_count: 1, parent_post_id: quietReplyId, created_at: new Date('2024-01-04') })
+      .returning()
+      .execute();
+    nestedReplyId = nestedReply.id;
+
+    const [deepReply] = await db.insert(postsTable)
+      .values({ user_id: userId, content: 'deep reply', parent_post_id: nestedReplyId, created_at: new Date('2024-01-05') })
+      .returning()
+      .execute();
+    deepReplyId = deepReply.id;
+  });
+
+  it('should return the ancestor chain from the root down', async () => {
+    const thread = await getThread(threadInput(deepReplyId));
+
+    expect(thread.ancestors.map(post => post.content)).toEqual(['root', 'quiet reply', 'nested reply']);
+    expect(thread.post.id).toEqual(deepReplyId);
+    expect(thread.replies).toEqual([]);
+    expect(thread.more_replies_cursor).toBeNull();
+  });
+
+  it('should return the reply tree ranked by likes', async () => {
+    const thread = await getThread(threadInput(rootId));
+
+    expect(thread.ancestors).toEqual([]);
+    expect(thread.post.content).toEqual('root');
+    expect(contents(thread.replies)).toEqual(['liked reply', 'quiet reply']);
+
+    const quietReply = thread.replies[1];
+    expect(contents(quietReply.replies)).toEqual(['nested reply']);
+    expect(contents(quietReply.replies[0].replies)).toEqual(['deep reply']);
+  });
+
+  it('should rank replies by recency', async () => {
+    const thread = await getThread(threadInput(rootId, { sort: 'newest' }));
+
+    expect(contents(thread.replies)).toEqual(['quiet reply', 'liked reply']);
+  });
+
+  it('should stop at the depth limit', async () => {
+    const thread = await getThread(threadInput(rootId, { depth: 2 }));
+
+    const nestedReply = thread.replies[1].replies[0];
+    expect(nestedReply.post.id).toEqual(nestedReplyId);
+    expect(nestedReply.replies).toEqual([]);
+    expect(nestedReply.more_replies_cursor).toBeNull();
+    expect(nestedReply.post.reply_count).toEqual(1);
+  });
+
+  it('should page through replies of a branch with its cursor', async () => {
+    await db.insert(postsTable)
+      .values([1, 2, 3].map(n => ({
+        user_id: userId,
+        content: `nested reply ${n}`,
+        parent_post_id: quietReplyId,
+        created_at: new Date(`2024-02-0${n}`)
+      })))
+      .execute();
+
+    const thread = await getThread(threadInput(rootId, { breadth: 2, sort: 'newest' }));
+
+    const quietReply = thread.replies[0];
+    expect(contents(quietReply.replies)).toEqual(['nested reply 3', 'nested reply 2']);
+    expect(quietReply.more_replies_cursor).not.toBeNull();
+    expect(thread.more_replies_cursor).toBeNull();
+
+    const more = await getThread(threadInput(quietReplyId, {
+      breadth: 2,
+      sort: 'newest',
+      cursor: quietReply.more_replies_cursor!
+    }));
+
+    expect(more.post.id).toEqual(quietReplyId);
+    expect(contents(more.replies)).toEqual(['nested reply 1', 'nested reply']);
+    expect(contents(more.replies[1].replies)).toEqual(['deep reply']);
+    expect(more.more_replies_cursor).toBeNull();
+  });
+
+  it('should keep deleted replies as tombstones with their replies', async () => {
+    await deletePost(nestedReplyId);
+
+    const thread = await getThread(threadInput(rootId));
+
+    const tombstone = thread.replies[1].replies[0];
+    expect(tombstone.post.content).toEqual(DELETED_POST_TEXT);
+    expect(contents(tombstone.replies)).toEqual(['deep reply']);
+
+    const fromBelow = await getThread(threadInput(deepReplyId));
+    expect(fromBelow.ancestors[2].content).toEqual(DELETED_POST_TEXT);
+  });
+
+  it('should reject a cursor from another ordering', async () => {
+    await db.insert(postsTable)
+      .values({ user_id: userId, content: 'third reply', parent_post_id: rootId })
+      .execute();
+
+    const thread = await getThread(threadInput(rootId, { breadth: 1 }));
+    expect(thread.more_replies_cursor).not.toBeNull();
+
+    await expect(getThread(threadInput(rootId, { sort: 'newest', cursor: thread.more_replies_cursor! })))
+      .rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should throw for a missing post', async () => {
+    await expect(getThread(threadInput(999999))).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -1,9 +1,14 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, listingsTable, transactionsTable } from '../db/schema';
+import { usersTable, listingsTable, transactionsTable, transactionEventsTable } from '../db/schema';
 import { type CreateUserInput, type CreateListingInput, type CreateTransactionInput } from '../schema';
-import { getTransactionById, getTransactionsByUserId, getTransactionsByListingId } from '../handlers/get_transactions';
+import {
+  getTransactionById,
+  getTransactionsByUserId,
+  getTransactionsByListingId,
+  getTransactionHistory
+} from '../handlers/get_transactions';
 
 // Test data
 const testUser1: CreateUserInput = {
@@ -32,12 +37,14 @@ const testListing: CreateListingInput = {
   condition: 'new',
   location: 'Test City',
   media_urls: ['https://example.com/image1.jpg'],
+  quantity: 1,
 };
 
 const testTransaction: CreateTransactionInput = {
   listing_id: 0, // Will be set after listing creation
   buyer_id: 0, // Will be set after user creation
   seller_id: 0, // Will be set after user creation
+  quantity: 1,
   amount: 99.99,
   currency: 'USD',
   payment_method: 'credit_card',
@@ -112,6 +119,32 @@ describe('getTransactionById', () => {
     expect(result).toBeNull();
   });
 
+  it('should only show the transaction to its parties and admins', async () => {
+    const [buyer, seller, outsider] = await db.insert(usersTable)
+      .values([
+        { username: testUser1.username, email: testUser1.email },
+        { username: testUser2.username, email: testUser2.email },
+        { username: 'outsider', email: 'outsider@test.com' }
+      ])
+      .returning()
+      .execute();
+
+    const [listing] = await db.insert(listingsTable)
+      .values({ ...testListing, user_id: seller.id, price: testListing.price.toString() })
+      .returning()
+      .execute();
+
+    const [transaction] = await db.insert(transactionsTable)
+      .values({ ...testTransaction, listing_id: listing.id, buyer_id: buyer.id, seller_id: seller.id, amount: '99.99' })
+      .returning()
+      .execute();
+
+    expect((await getTransactionById(transaction.id, buyer.id))?.id).toEqual(transaction.id);
+    expect((await getTransactionById(transaction.id, seller.id))?.id).toEqual(transaction.id);
+    expect((await getTransactionById(transaction.id, outsider.id, true))?.id).toEqual(transaction.id);
+    await expect(getTransactionById(transaction.id, outsider.id)).rejects.toThrow(/only the buyer or seller/i);
+  });
+
   it('should handle numeric amount conversion correctly', async () => {
     // Create prerequisite data
     const [buyer] = await db.insert(usersTable)
@@ -212,7 +245,7 @@ describe('getTransactionsByUserId', () => {
       })
       .execute();
 
-    const result = await getTransactionsByUserId(buyer.id);
+    const { items: result } = await getTransactionsByUserId({ userId: buyer.id, limit: 20 });
 
     expect(result).toHaveLength(1);
     expect(result[0].buyer_id).toEqual(buyer.id);
@@ -264,7 +297,7 @@ describe('getTransactionsByUserId', () => {
       })
       .execute();
 
-    const result = await getTransactionsByUserId(seller.id);
+    const { items: result } = await getTransactionsByUserId({ userId: seller.id, limit: 20 });
 
     expect(result).toHaveLength(1);
     expect(result[0].buyer_id).toEqual(buyer.id);
@@ -352,7 +385,7 @@ describe('getTransactionsByUserId', () => {
       })
       .execute();
 
-    const result = await getTransactionsByUserId(user1.id);
+    const { items: result } = await getTransactionsByUserId({ userId: user1.id, limit: 20 });
 
     expect(result).toHaveLength(2);
     
@@ -367,9 +400,24 @@ describe('getTransactionsByUserId', () => {
   });
 
   it('should return empty array when no transactions found', async () => {
-    const result = await getTransactionsByUserId(999);
+    const { items: result } = await getTransactionsByUserId({ userId: 999, limit: 20 });
     expect(result).toHaveLength(0);
   });
+
+  it("should keep a user's transactions to themselves and admins", async () => {
+    const [user, other] = await db.insert(usersTable)
+      .values([
+        { username: testUser1.username, email: testUser1.email },
+        { username: testUser2.username, email: testUser2.email }
+      ])
+      .returning()
+      .execute();
+
+    expect((await getTransactionsByUserId({ userId: user.id, limit: 20 }, user.id)).items).toHaveLength(0);
+    expect((await getTransactionsByUserId({ userId: user.id, limit: 20 }, other.id, true)).items).toHaveLength(0);
+    await expect(getTransactionsByUserId({ userId: user.id, limit: 20 }, other.id))
+      .rejects.toThrow(/only the user/i);
+  });
 });
 
 describe('getTransactionsByListingId', () => {
@@ -419,7 +467,7 @@ describe('getTransactionsByListingId', () => {
       })
       .execute();
 
-    const result = await getTransactionsByListingId(listing.id);
+    const { items: result } = await getTransactionsByListingId({ listingId: listing.id, limit: 20 });
 
     expect(result).toHaveLength(1);
     expect(result[0].listing_id).toEqual(listing.id);
@@ -495,7 +543,7 @@ describe('getTransactionsByListingId', () => {
       ])
       .execute();
 
-    const result = await getTransactionsByListingId(listing.id);
+    const { items: result } = await getTransactionsByListingId({ listingId: listing.id, limit: 20 });
 
     expect(result).toHaveLength(2);
     expect(result.every(t => t.listing_id === listing.id)).toBe(true);
@@ -504,10 +552,16 @@ describe('getTransactionsByListingId', () => {
     const buyerIds = result.map(t => t.buyer_id);
     expect(buyerIds).toContain(buyer1.id);
     expect(buyerIds).toContain(buyer2.id);
+
+    // A buyer only sees their own purchases; the seller and admins see them all
+    const forBuyer = await getTransactionsByListingId({ listingId: listing.id, limit: 20 }, buyer1.id);
+    expect(forBuyer.items.map(t => t.buyer_id)).toEqual([buyer1.id]);
+    expect((await getTransactionsByListingId({ listingId: listing.id, limit: 20 }, seller.id)).items).toHaveLength(2);
+    expect((await getTransactionsByListingId({ listingId: listing.id, limit: 20 }, buyer2.id, true)).items).toHaveLength(2);
   });
 
   it('should return empty array when no transactions found for listing', async () => {
-    const result = await getTransactionsByListingId(999);
+    const { items: result } = await getTransactionsByListingId({ listingId: 999, limit: 20 });
     expect(result).toHaveLength(0);
   });
 
@@ -568,11 +622,127 @@ describe('getTransactionsByListingId', () => {
       ])
       .execute();
 
-    const result = await getTransactionsByListingId(listing.id);
+    const { items: result } = await getTransactionsByListingId({ listingId: listing.id, limit: 20 });
 
     expect(result).toHaveLength(2);
     const statuses = result.map(t => t.status);
     expect(statuses).toContain('pending');
     expect(statuses).toContain('completed');
   });
-});
\ No newline at end of file
+});
+
+describe('getTransactionHistory', () => {
+  let buyerId: number;
+  let sellerId: number;
+  let transactionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [buyer] = await db.insert(usersTable)
+      .values({ username: testUser1.username, email: testUser1.email })
+      .returning()
+      .execute();
+    buyerId = buyer.id;
+
+    const [seller] = await db.insert(usersTable)
+      .values({ username: testUser2.username, email: testUser2.email })
+      .returning()
+      .execute();
+    sellerId = seller.id;
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        ...testListing,
+        user_id: sellerId,
+        price: testListing.price.toString(),
+      })
+      .returning()
+      .execute();
+
+    const [transaction] = await db.insert(transactionsTable)
+      .values({
+        ...testTransaction,
+        listing_id: listing.id,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        amount: testTransaction.amount.toString(),
+      })
+      .returning()
+      .execute();
+    transactionId = transaction.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return events oldest first', async () => {
+    await db.insert(transactionEventsTable)
+      .values([
+        { transaction_id: transactionId, actor_id: buyerId, event_type: 'created', to_value: 'pending' },
+        { transaction_id: transactionId, actor_id: buyerId, event_type: 'status_changed', from_value: 'pending', to_value: 'paid' },
+        { transaction_id: transactionId, actor_id: null, event_type: 'status_changed', from_value: 'paid', to_value: 'disputed', reason: 'Item never arrived' },
+      ])
+      .execute();
+
+    const { items: result } = await getTransactionHistory({ transactionId, limit: 20 }, sellerId);
+
+    expect(result).toHaveLength(3);
+    expect(result.map(e => e.event_type)).toEqual(['created', 'status_changed', 'status_changed']);
+    expect(result[2].actor_id).toBeNull();
+    expect(result[2].reason).toEqual('Item never arrived');
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should page through events oldest first', async () => {
+    await db.insert(transactionEventsTable)
+      .values(['created', 'status_changed', 'amount_changed'].map(eventType => ({
+        transaction_id: transactionId,
+        actor_id: buyerId,
+        event_type: eventType as 'created' | 'status_changed' | 'amount_changed',
+        created_at: new Date('2024-01-01T00:00:00Z') // same instant, ordered by id
+      })))
+      .execute();
+
+    const page1 = await getTransactionHistory({ transactionId, limit: 2 });
+    const page2 = await getTransactionHistory({ transactionId, limit: 2, cursor: page1.nextCursor! });
+
+    expect(page1.items.map(e => e.event_type)).toEqual(['created', 'status_changed']);
+    expect(page2.items.map(e => e.event_type)).toEqual(['amount_changed']);
+    expect(page2.nextCursor).toBeNull();
+    expect(page1.totalEstimate).toEqual(3);
+  });
+
+  it('should return empty history for transaction without events', async () => {
+    const { items: result } = await getTransactionHistory({ transactionId, limit: 20 });
+
+    expect(result).toHaveLength(0);
+  });
+
+  it('should reject users outside the transaction', async () => {
+    const [outsider] = await db.insert(usersTable)
+      .values({ username: 'outsider', email: 'outsider@test.com' })
+      .returning()
+      .execute();
+
+    await expect(getTransactionHistory({ transactionId, limit: 20 }, outsider.id))
+      .rejects.toThrow(/only the buyer or seller/i);
+  });
+
+  it('should let admins reconstruct the history', async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({ username: 'support', email: 'support@test.com', is_admin: true })
+      .returning()
+      .execute();
+    await db.insert(transactionEventsTable)
+      .values({ transaction_id: transactionId, actor_id: buyerId, event_type: 'created', to_value: 'pending' })
+      .execute();
+
+    const { items: result } = await getTransactionHistory({ transactionId, limit: 20 }, admin.id, true);
+
+    expect(result).toHaveLength(1);
+  });
+
+  it('should throw error for non-existent transaction', async () => {
+    await expect(getTransactionHistory({ transactionId: 99999, limit: 20 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -4,6 +4,7 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput } from '../schema';
 import { getUsers, getUserById, getUserByUsername } from '../handlers/get_users';
+import { sql } from 'drizzle-orm';
 
 // Test user data
 const testUser1: CreateUserInput = {
@@ -27,7 +28,7 @@ describe('getUsers', () => {
   afterEach(resetDB);
 
   it('should return empty array when no users exist', async () => {
-    const users = await getUsers();
+    const { items: users } = await getUsers({ limit: 20 });
     expect(users).toEqual([]);
   });
 
@@ -52,7 +53,7 @@ describe('getUsers', () => {
       ])
       .execute();
 
-    const users = await getUsers();
+    const { items: users } = await getUsers({ limit: 20 });
 
     expect(users).toHaveLength(2);
     expect(users[0].username).toEqual('testuser1');
@@ -69,6 +70,47 @@ describe('getUsers', () => {
   });
 });
 
+describe('getUsers pagination', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should walk every user once through the cursor', async () => {
+    await db.insert(usersTable)
+      .values(Array.from({ length: 5 }, (_, i) => ({
+        username: `user${i}`,
+        email: `user${i}@example.com`,
+      })))
+      .execute();
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getUsers({ limit: 2, cursor });
+      expect(page.totalEstimate).toEqual(5);
+      seen.push(...page.items.map(u => u.username));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(['user0', 'user1', 'user2', 'user3', 'user4']);
+  });
+
+  it('should fall back to an estimate for very large lists', async () => {
+    await db.execute(sql`
+      insert into users (username, email)
+      select 'bulk' || n, 'bulk' || n || '@example.com' from generate_series(1, 1001) as n
+    `);
+
+    const page = await getUsers({ limit: 1 });
+
+    expect(page.items).toHaveLength(1);
+    expect(page.totalEstimate).toBeGreaterThanOrEqual(1001);
+  });
+
+  it('should reject an invalid cursor', async () => {
+    await expect(getUsers({ limit: 2, cursor: 'nope' })).rejects.toThrow(/invalid pagination cursor/i);
+  });
+});
+
 describe('getUserById', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { likesTable, postsTable, usersTable } from '../db/schema';
+import { purgeDeletedPosts } from '../handlers/purge_deleted_posts';
+import { createLike } from '../handlers/create_like';
+import { createPost } from '../handlers/create_post';
+import { deletePost } from '../handlers/update_post';
+import { getPostById, getPostReplies } from '../handlers/get_posts';
+import { DELETED_POST_TEXT } from '../lib/posts';
+import { eq } from 'drizzle-orm';
+
+describe('purgeDeletedPosts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let authorId: number;
+  let fanId: number;
+  let postId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com' },
+        { username: 'fan', email: 'fan@example.com' }
+      ])
+      .returning()
+      .execute();
+    [authorId, fanId] = users.map(user => user.id);
+
+    const post = await createPost({
+      user_id: authorId,
+      content: 'Going away soon',
+      media_urls: ['https://example.com/photo.jpg'],
+      parent_post_id: null
+    });
+    postId = post.id;
+    await createLike({ user_id: fanId, post_id: postId });
+  });
+
+  it('should drop likes, text and media of deleted posts', async () => {
+    await deletePost(postId);
+
+    const purged = await purgeDeletedPosts();
+
+    expect(purged).toEqual(1);
+
+    const likes = await db.select()
+      .from(likesTable)
+      .where(eq(likesTable.post_id, postId))
+      .execute();
+    expect(likes).toHaveLength(0);
+
+    const [post] = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postId))
+      .execute();
+    expect(post.content).toEqual('');
+    expect(post.media_urls).toBeNull();
+    expect(post.like_count).toEqual(0);
+    expect(post.purged_at).toBeInstanceOf(Date);
+
+    // Still renders as a tombstone
+    const tombstone = await getPostById(postId);
+    expect(tombstone!.content).toEqual(DELETED_POST_TEXT);
+  });
+
+  it('should leave live posts alone', async () => {
+    const purged = await purgeDeletedPosts();
+
+    expect(purged).toEqual(0);
+
+    const [post] = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postId))
+      .execute();
+    expect(post.content).toEqual('Going away soon');
+    expect(post.like_count).toEqual(1);
+  });
+
+  it('should purge each tombstone once, across batches', async () => {
+    const reply = await createPost({ user_id: fanId, content: 'Reply', media_urls: null, parent_post_id: postId });
+    await deletePost(reply.id);
+    await deletePost(postId);
+
+    expect(await purgeDeletedPosts(1)).toEqual(2);
+    expect(await purgeDeletedPosts(1)).toEqual(0);
+
+    const { items: replies } = await getPostReplies({ postId, limit: 20 });
+    expect(replies[0].content).toEqual(DELETED_POST_TEXT);
+  });
+});
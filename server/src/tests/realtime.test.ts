@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { followsTable, notificationsTable, postsTable, usersTable } from '../db/schema';
+import { onNotification, onUnreadCountChanged, onNewTimelinePosts } from '../handlers/realtime';
+import { createLike } from '../handlers/create_like';
+import { createPost } from '../handlers/create_post';
+import { markAllNotificationsAsRead } from '../handlers/create_notification';
+import { publishRealtime, transactional } from '../lib/events';
+
+describe('realtime subscriptions', () => {
+  let authorId: number;
+  let fanId: number;
+  let postId: number;
+  let controller: AbortController;
+
+  beforeEach(async () => {
+    await createDB();
+    controller = new AbortController();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'author', email: 'author@example.com' },
+        { username: 'fan', email: 'fan@example.com' },
+      ])
+      .returning()
+      .execute();
+    [authorId, fanId] = users.map(u => u.id);
+
+    const posts = await db.insert(postsTable)
+      .values({ user_id: authorId, content: 'Hello world' })
+      .returning()
+      .execute();
+    postId = posts[0].id;
+  });
+
+  afterEach(async () => {
+    controller.abort();
+    await resetDB();
+  });
+
+  it('should push new notifications to the recipient', async () => {
+    const stream = onNotification(authorId, controller.signal);
+    const next = stream.next();
+
+    await createLike({ user_id: fanId, post_id: postId });
+
+    const { value } = await next;
+    expect(value!.type).toEqual('like');
+    expect(value!.user_id).toEqual(authorId);
+    expect(value!.related_id).toEqual(postId);
+  });
+
+  it('should not push anything when the transaction rolls back', async () => {
+    const received: unknown[] = [];
+    const stream = onNotification(authorId, controller.signal);
+    const pending = stream.next().then(result => received.push(result.value));
+
+    await expect(transactional(async (tx) => {
+      await publishRealtime('notification', authorId, {
+        id: 1,
+        user_id: authorId,
+        type: 'like',
+        title: 'New like',
+        message: 'fan liked your post',
+        is_read: false,
+        related_id: postId,
+        actor_id: fanId,
+        actor_count: 1,
+        created_at: new Date()
+      }, tx);
+      throw new Error('Rolled back');
+    })).rejects.toThrow(/rolled back/i);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(received).toHaveLength(0);
+
+    controller.abort();
+    await pending;
+  });
+
+  it('should push the unread count on subscribe and on every change', async () => {
+    await db.insert(notificationsTable)
+      .values({ user_id: authorId, type: 'follow', title: 'New follower', message: 'fan started following you' })
+      .execute();
+
+    const stream = onUnreadCountChanged(authorId, controller.signal);
+
+    expect((await stream.next()).value).toEqual(1);
+
+    const next = stream.next();
+    await markAllNotificationsAsRead(authorId);
+
+    expect((await next).value).toEqual(0);
+  });
+
+  it('should push new posts to followers timelines', async () => {
+    await db.insert(followsTable)
+      .values({ follower_id: fanId, following_id: authorId })
+      .execute();
+
+    const stream = onNewTimelinePosts(fanId, controller.signal);
+    const next = stream.next();
+
+    const post = await createPost({
+      user_id: authorId,
+      content: 'Fresh post',
+      media_urls: null,
+      parent_post_id: null
+    });
+
+    const { value } = await next;
+    expect(value!.id).toEqual(post.id);
+    expect(value!.content).toEqual('Fresh post');
+  });
+
+  it('should end the stream when the subscription is aborted', async () => {
+    const stream = onNotification(authorId, controller.signal);
+    const next = stream.next();
+
+    controller.abort();
+
+    expect((await next).done).toBe(true);
+  });
+});
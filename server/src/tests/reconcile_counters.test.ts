@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { followsTable, likesTable, postsTable, usersTable } from '../db/schema';
+import { reconcileCounters, scheduleCounterReconciliation } from '../handlers/reconcile_counters';
+import { createFollow } from '../handlers/create_follow';
+import { createLike } from '../handlers/create_like';
+import { createPost } from '../handlers/create_post';
+import { eq } from 'drizzle-orm';
+
+describe('reconcileCounters', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let aliceId: number;
+  let bobId: number;
+  let postId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com' },
+        { username: 'bob', email: 'bob@example.com' }
+      ])
+      .returning()
+      .execute();
+    aliceId = users[0].id;
+    bobId = users[1].id;
+
+    // Build consistent counts through the handlers
+    await createFollow({ follower_id: bobId, following_id: aliceId });
+    const post = await createPost({ user_id: aliceId, content: 'Hello', media_urls: null, parent_post_id: null });
+    postId = post.id;
+    await createPost({ user_id: bobId, content: 'Hi back', media_urls: null, parent_post_id: postId });
+    await createLike({ user_id: bobId, post_id: postId });
+  });
+
+  const drift = async () => {
+    await db.update(usersTable)
+      .set({ follower_count: 5, post_count: 0 })
+      .where(eq(usersTable.id, aliceId))
+      .execute();
+    await db.update(postsTable)
+      .set({ like_count: -1, reply_count: 3 })
+      .where(eq(postsTable.id, postId))
+      .execute();
+  };
+
+  it('should report nothing when counts match their source rows', async () => {
+    const report = await reconcileCounters({ fix: false, batch_size: 500 });
+
+    expect(report.checked).toEqual(4); // two users, two posts
+    expect(report.drifted).toEqual(0);
+    expect(report.fixed).toEqual(0);
+    expect(report.samples).toEqual([]);
+  });
+
+  it('should report drift without changing anything by default', async () => {
+    await drift();
+
+    const report = await reconcileCounters({ fix: false, batch_size: 500 });
+
+    expect(report.drifted).toEqual(4);
+    expect(report.fixed).toEqual(0);
+    expect(report.samples).toContainEqual({ table: 'users', id: aliceId, counter: 'follower_count', stored: 5, actual: 1 });
+    expect(report.samples).toContainEqual({ table: 'users', id: aliceId, counter: 'post_count', stored: 0, actual: 1 });
+    expect(report.samples).toContainEqual({ table: 'posts', id: postId, counter: 'like_count', stored: -1, actual: 1 });
+    expect(report.samples).toContainEqual({ table: 'posts', id: postId, counter: 'reply_count', stored: 3, actual: 1 });
+
+    const alice = await db.select().from(usersTable).where(eq(usersTable.id, aliceId)).execute();
+    expect(alice[0].follower_count).toEqual(5);
+  });
+
+  it('should fix drifted counters in batches', async () => {
+    await drift();
+
+    const report = await reconcileCounters({ fix: true, batch_size: 1 });
+
+    expect(report.checked).toEqual(4);
+    expect(report.fixed).toEqual(4);
+
+    const alice = await db.select().from(usersTable).where(eq(usersTable.id, aliceId)).execute();
+    expect(alice[0].follower_count).toEqual(1);
+    expect(alice[0].following_count).toEqual(0);
+    expect(alice[0].post_count).toEqual(1);
+
+    const post = await db.select().from(postsTable).where(eq(postsTable.id, postId)).execute();
+    expect(post[0].like_count).toEqual(1);
+    expect(post[0].reply_count).toEqual(1);
+    expect(post[0].repost_count).toEqual(0);
+
+    const again = await reconcileCounters({ fix: false, batch_size: 500 });
+    expect(again.drifted).toEqual(0);
+  });
+
+  it('should recount rows removed behind the counters\' backs', async () => {
+    await db.delete(followsTable).execute();
+    await db.delete(likesTable).execute();
+
+    await reconcileCounters({ fix: true, batch_size: 500 });
+
+    const users = await db.select().from(usersTable).execute();
+    users.forEach(user => {
+      expect(user.follower_count).toEqual(0);
+      expect(user.following_count).toEqual(0);
+    });
+
+    const post = await db.select().from(postsTable).where(eq(postsTable.id, postId)).execute();
+    expect(post[0].like_count).toEqual(0);
+  });
+
+  it('should fix drift on a schedule until stopped', async () => {
+    await drift();
+
+    const stop = scheduleCounterReconciliation(20);
+    try {
+      await new Promise(resolve => setTimeout(resolve, 300));
+    } finally {
+      stop();
+    }
+
+    const alice = await db.select().from(usersTable).where(eq(usersTable.id, aliceId)).execute();
+    expect(alice[0].follower_count).toEqual(1);
+  });
+});
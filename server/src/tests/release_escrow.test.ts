@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { listingsTable, transactionsTable, usersTable } from '../db/schema';
+import { updateTransactionStatus } from '../handlers/create_transaction';
+import { releaseOverdueEscrow } from '../handlers/release_escrow';
+import { getSellerBalance } from '../handlers/get_payouts';
+import { eq } from 'drizzle-orm';
+
+describe('releaseOverdueEscrow', () => {
+  let buyerId: number;
+  let sellerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [buyer, seller] = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' }
+      ])
+      .returning()
+      .execute();
+    buyerId = buyer.id;
+    sellerId = seller.id;
+  });
+
+  afterEach(resetDB);
+
+  // A paid sale moved on to `status`, last touched `ageDays` ago
+  const sale = async (status: 'shipped' | 'delivered' | 'disputed', ageDays: number) => {
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Kettle',
+        description: 'Electric kettle',
+        price: '20.00',
+        currency: 'USD',
+        category: 'home',
+        condition: 'new'
+      })
+      .returning()
+      .execute();
+    const [transaction] = await db.insert(transactionsTable)
+      .values({ listing_id: listing.id, buyer_id: buyerId, seller_id: sellerId, amount: '20.00', currency: 'USD' })
+      .returning()
+      .execute();
+
+    await updateTransactionStatus({ id: transaction.id, status: 'paid' });
+    await db.update(transactionsTable)
+      .set({ status, updated_at: new Date(Date.now() - ageDays * 24 * 60 * 60 * 1000) })
+      .where(eq(transactionsTable.id, transaction.id))
+      .execute();
+
+    return transaction.id;
+  };
+
+  const statusOf = async (id: number) => {
+    const [transaction] = await db.select().from(transactionsTable).where(eq(transactionsTable.id, id)).execute();
+    return transaction.status;
+  };
+
+  it('should complete unconfirmed sales past the window and pay the seller', async () => {
+    const shipped = await sale('shipped', 15);
+    const delivered = await sale('delivered', 15);
+
+    expect(await releaseOverdueEscrow()).toEqual(2);
+
+    expect(await statusOf(shipped)).toEqual('completed');
+    expect(await statusOf(delivered)).toEqual('completed');
+    expect(await getSellerBalance(sellerId)).toEqual([
+      { currency: 'USD', available: 38, in_escrow: 0, pending_payouts: 0 }
+    ]);
+  });
+
+  it('should leave recent and disputed sales in escrow', async () => {
+    const recent = await sale('delivered', 2);
+    const disputed = await sale('disputed', 30);
+
+    expect(await releaseOverdueEscrow()).toEqual(0);
+
+    expect(await statusOf(recent)).toEqual('delivered');
+    expect(await statusOf(disputed)).toEqual('disputed');
+    expect(await getSellerBalance(sellerId)).toEqual([
+      { currency: 'USD', available: 0, in_escrow: 40, pending_payouts: 0 }
+    ]);
+  });
+});
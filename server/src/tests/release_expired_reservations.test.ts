@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, listingsTable, transactionsTable } from '../db/schema';
+import { releaseExpiredReservations } from '../handlers/release_expired_reservations';
+import { eq } from 'drizzle-orm';
+
+describe('releaseExpiredReservations', () => {
+  let buyerId: number;
+  let sellerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const [buyer, seller] = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' }
+      ])
+      .returning()
+      .execute();
+    buyerId = buyer.id;
+    sellerId = seller.id;
+  });
+
+  afterEach(resetDB);
+
+  const reservedListing = async (reservedUntil: Date) => {
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: sellerId,
+        title: 'Lamp',
+        description: 'Desk lamp',
+        price: '25.00',
+        currency: 'USD',
+        category: 'home',
+        condition: 'good',
+        reserved_by: buyerId,
+        reserved_until: reservedUntil
+      })
+      .returning()
+      .execute();
+
+    const [transaction] = await db.insert(transactionsTable)
+      .values({
+        listing_id: listing.id,
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        amount: '25.00',
+        currency: 'USD',
+        status: 'pending'
+      })
+      .returning()
+      .execute();
+
+    return { listing, transaction };
+  };
+
+  const findListing = async (id: number) => {
+    const [listing] = await db.select().from(listingsTable).where(eq(listingsTable.id, id)).execute();
+    return listing;
+  };
+
+  const findTransaction = async (id: number) => {
+    const [transaction] = await db.select().from(transactionsTable).where(eq(transactionsTable.id, id)).execute();
+    return transaction;
+  };
+
+  it('should cancel the abandoned checkout and free the listing', async () => {
+    const { listing, transaction } = await reservedListing(new Date(Date.now() - 1000));
+
+    expect(await releaseExpiredReservations()).toEqual(1);
+    expect(await releaseExpiredReservations()).toEqual(0);
+
+    const released = await findListing(listing.id);
+    expect(released.reserved_by).toBeNull();
+    expect(released.reserved_until).toBeNull();
+
+    const cancelled = await findTransaction(transaction.id);
+    expect(cancelled.status).toEqual('cancelled');
+  });
+
+  it('should leave running holds alone', async () => {
+    const running = await reservedListing(new Date(Date.now() + 60 * 1000));
+
+    expect(await releaseExpiredReservations()).toEqual(0);
+
+    expect((await findListing(running.listing.id)).reserved_by).toEqual(buyerId);
+    expect((await findTransaction(running.transaction.id)).status).toEqual('pending');
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { listingsTable, postsTable, usersTable } from '../db/schema';
+import { type SearchInput } from '../schema';
+import { search } from '../handlers/search';
+import { createPost } from '../handlers/create_post';
+import { eq } from 'drizzle-orm';
+
+describe('search', () => {
+  let aliceId: number;
+  let bobId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice_rides', email: 'alice@example.com', display_name: 'Alice Cooper', bio: 'Road cycling and photography' },
+        { username: 'bob', email: 'bob@example.com', display_name: 'Bob Builder', bio: 'I fix bikes' },
+      ])
+      .returning()
+      .execute();
+    [aliceId, bobId] = users.map(u => u.id);
+
+    await createPost({ user_id: aliceId, content: 'Selling my old road bike soon #cycling', media_urls: null, parent_post_id: null });
+    await createPost({ user_id: bobId, content: 'Fixed three bikes today #bikerepair', media_urls: null, parent_post_id: null });
+
+    await db.insert(listingsTable)
+      .values([
+        {
+          user_id: aliceId,
+          title: 'Road bike',
+          description: 'Carbon road bike, barely used',
+          price: '1200',
+          currency: 'USD',
+          category: 'sports',
+          condition: 'like_new'
+        },
+        {
+          user_id: bobId,
+          title: 'Bike pump',
+          description: 'Floor pump for road and mountain bikes',
+          price: '30',
+          currency: 'USD',
+          category: 'sports',
+          condition: 'good',
+          is_active: false
+        },
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  const query = (text: string, options: Partial<SearchInput> = {}) =>
+    search({ query: text, types: ['users', 'posts', 'listings'], mode: 'full', limit: 5, ...options });
+
+  it('should return grouped results with counts', async () => {
+    const result = await query('road');
+
+    expect(result.users.items.map(u => u.username)).toEqual(['alice_rides']);
+    expect(result.users.count).toEqual(1);
+    expect(result.posts.items.map(p => p.user_id)).toEqual([aliceId]);
+    expect(result.posts.count).toEqual(1);
+    // The inactive pump listing is left out
+    expect(result.listings.items.map(l => l.title)).toEqual(['Road bike']);
+    expect(result.listings.count).toEqual(1);
+  });
+
+  it('should match stemmed words in posts and listings', async () => {
+    const result = await query('bikes');
+
+    expect(result.posts.count).toEqual(2);
+    expect(result.listings.items[0].price).toEqual(1200);
+  });
+
+  it('should search users by display name and bio', async () => {
+    expect((await query('cooper', { types: ['users'] })).users.items[0].id).toEqual(aliceId);
+    expect((await query('cycle', { types: ['users'] })).users.items[0].id).toEqual(aliceId);
+  });
+
+  it('should only query the requested groups', async () => {
+    const result = await query('road', { types: ['listings'] });
+
+    expect(result.users).toEqual({ items: [], count: 0 });
+    expect(result.posts).toEqual({ items: [], count: 0 });
+    expect(result.listings.count).toEqual(1);
+  });
+
+  it('should match partial words in prefix mode only', async () => {
+    expect((await query('ali', { types: ['users'] })).users.count).toEqual(0);
+
+    const result = await query('ali', { types: ['users'], mode: 'prefix' });
+    expect(result.users.items.map(u => u.username)).toEqual(['alice_rides']);
+  });
+
+  it('should search posts by hashtag', async () => {
+    const exact = await query('#Cycling', { types: ['posts'] });
+    expect(exact.posts.items.map(p => p.user_id)).toEqual([aliceId]);
+
+    expect((await query('#bike', { types: ['posts'] })).posts.count).toEqual(0);
+
+    const prefix = await query('#bike', { types: ['posts'], mode: 'prefix' });
+    expect(prefix.posts.items.map(p => p.user_id)).toEqual([bobId]);
+  });
+
+  it('should limit items per group but count every match', async () => {
+    const result = await query('bike', { types: ['posts'], limit: 1 });
+
+    expect(result.posts.items).toHaveLength(1);
+    expect(result.posts.count).toEqual(2);
+  });
+
+  it('should not match plain reposts', async () => {
+    const [original] = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.user_id, aliceId))
+      .execute();
+    await db.insert(postsTable)
+      .values({ user_id: bobId, content: '', repost_of_id: original.id })
+      .execute();
+
+    const result = await query('road', { types: ['posts'] });
+
+    expect(result.posts.count).toEqual(1);
+  });
+
+  it('should return empty groups for a query without words', async () => {
+    const result = await query('!?');
+
+    expect(result.users.count + result.posts.count + result.listings.count).toEqual(0);
+  });
+});
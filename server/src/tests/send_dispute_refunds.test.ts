@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { disputesTable, listingsTable, paymentIntentsTable, transactionsTable, usersTable } from '../db/schema';
+import { openDispute, resolveDispute } from '../handlers/create_dispute';
+import { payTransaction } from '../handlers/create_payment';
+import { sendPendingDisputeRefunds } from '../handlers/send_dispute_refunds';
+import { createFakePaymentProvider, setPaymentProvider, type FakePaymentProvider } from '../lib/payments';
+import { eq } from 'drizzle-orm';
+
+describe('sendPendingDisputeRefunds', () => {
+  let provider: FakePaymentProvider;
+  let refundsAvailable: boolean;
+  let refundCalls: number;
+  let buyerId: number;
+  let adminId: number;
+  let transactionId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    provider = createFakePaymentProvider();
+    refundsAvailable = false;
+    refundCalls = 0;
+    setPaymentProvider({
+      ...provider,
+      refund: async (intentId, amount, idempotencyKey) => {
+        refundCalls++;
+        if (!refundsAvailable) {
+          throw new Error('Gateway timeout');
+        }
+        return provider.refund(intentId, amount, idempotencyKey);
+      }
+    });
+
+    const [buyer, seller, admin] = await db.insert(usersTable)
+      .values([
+        { username: 'buyer', email: 'buyer@example.com' },
+        { username: 'seller', email: 'seller@example.com' },
+        { username: 'admin', email: 'admin@example.com', is_admin: true }
+      ])
+      .returning()
+      .execute();
+    buyerId = buyer.id;
+    adminId = admin.id;
+
+    const [listing] = await db.insert(listingsTable)
+      .values({
+        user_id: seller.id,
+        title: 'Kettle',
+        description: 'Stainless steel, 1.7 l',
+        price: '40.00',
+        currency: 'USD',
+        category: 'home',
+        condition: 'good'
+      })
+      .returning()
+      .execute();
+
+    const [transaction] = await db.insert(transactionsTable)
+      .values({
+        listing_id: listing.id,
+        buyer_id: buyerId,
+        seller_id: seller.id,
+        amount: '40.00',
+        currency: 'USD',
+        payment_method: 'credit_card'
+      })
+      .returning()
+      .execute();
+    transactionId = transaction.id;
+
+    await payTransaction({ transaction_id: transactionId }, buyerId);
+  });
+
+  afterEach(resetDB);
+
+  const resolveWithFailedRefund = async () => {
+    const dispute = await openDispute({
+      transaction_id: transactionId,
+      buyer_id: buyerId,
+      reason: 'not_received',
+      description: 'Never arrived',
+      evidence_urls: []
+    });
+    return resolveDispute({ id: dispute.id, resolution: 'full_refund' }, adminId);
+  };
+
+  const findIntent = async () => {
+    const [intent] = await db.select()
+      .from(paymentIntentsTable)
+      .where(eq(paymentIntentsTable.transaction_id, transactionId))
+      .execute();
+    return intent;
+  };
+
+  it('should send refunds the provider refused before', async () => {
+    const dispute = await resolveWithFailedRefund();
+    expect(dispute.refund_pending).toBe(true);
+    expect((await findIntent()).status).toEqual('captured');
+
+    refundsAvailable = true;
+    expect(await sendPendingDisputeRefunds()).toEqual(1);
+
+    const [stored] = await db.select()
+      .from(disputesTable)
+      .where(eq(disputesTable.id, dispute.id))
+      .execute();
+    expect(stored.refund_pending).toBe(false);
+    expect((await findIntent()).status).toEqual('refunded');
+
+    // Nothing left to send
+    expect(await sendPendingDisputeRefunds()).toEqual(0);
+    expect(refundCalls).toEqual(2);
+  });
+
+  it('should keep refunds pending while the provider keeps failing', async () => {
+    await resolveWithFailedRefund();
+
+    expect(await sendPendingDisputeRefunds()).toEqual(0);
+
+    const disputes = await db.select().from(disputesTable).execute();
+    expect(disputes[0].refund_pending).toBe(true);
+  });
+});
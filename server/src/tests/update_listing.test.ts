@@ -4,6 +4,7 @@ import { db } from '../db';
 import { listingsTable, usersTable } from '../db/schema';
 import { type UpdateListingInput, type CreateUserInput } from '../schema';
 import { updateListing, deactivateListing } from '../handlers/update_listing';
+import { ForbiddenError, NotFoundError, ValidationError } from '../lib/errors';
 import { eq } from 'drizzle-orm';
 
 // Test user for creating listings
@@ -127,6 +128,26 @@ describe('updateListing', () => {
     expect(result.location).toBe('New City Location');
   });
 
+  it('should update and clear map coordinates', async () => {
+    const placed = await updateListing({ id: testListingId, latitude: 51.5072, longitude: -0.1276 });
+    expect(placed.latitude).toBe(51.5072);
+    expect(placed.longitude).toBe(-0.1276);
+
+    // Moving one coordinate keeps the other
+    const moved = await updateListing({ id: testListingId, latitude: 48.8566 });
+    expect(moved.latitude).toBe(48.8566);
+    expect(moved.longitude).toBe(-0.1276);
+
+    const cleared = await updateListing({ id: testListingId, latitude: null, longitude: null });
+    expect(cleared.latitude).toBeNull();
+    expect(cleared.longitude).toBeNull();
+  });
+
+  it('should reject leaving a listing with only one coordinate', async () => {
+    await expect(updateListing({ id: testListingId, latitude: 51.5072 }))
+      .rejects.toThrow(/latitude and longitude must be provided together/i);
+  });
+
   it('should update media URLs', async () => {
     const newMediaUrls = [
       'https://example.com/new-image1.jpg',
@@ -208,6 +229,38 @@ describe('updateListing', () => {
     expect(dbListing[0].updated_at).toBeInstanceOf(Date);
   });
 
+  it('should move the unsold stock along with the quantity', async () => {
+    // Five listed, two of them sold
+    await db.update(listingsTable)
+      .set({ quantity: 5, quantity_available: 3 })
+      .where(eq(listingsTable.id, testListingId))
+      .execute();
+
+    const restocked = await updateListing({ id: testListingId, quantity: 8 });
+    expect(restocked.quantity).toBe(8);
+    expect(restocked.quantity_available).toBe(6);
+
+    const reduced = await updateListing({ id: testListingId, quantity: 2 });
+    expect(reduced.quantity).toBe(2);
+    expect(reduced.quantity_available).toBe(0);
+  });
+
+  it('should refuse a quantity below the units already sold', async () => {
+    await db.update(listingsTable)
+      .set({ quantity: 5, quantity_available: 3 })
+      .where(eq(listingsTable.id, testListingId))
+      .execute();
+
+    await expect(updateListing({ id: testListingId, quantity: 1 })).rejects.toBeInstanceOf(ValidationError);
+
+    const listings = await db.select()
+      .from(listingsTable)
+      .where(eq(listingsTable.id, testListingId))
+      .execute();
+    expect(listings[0].quantity).toBe(5);
+    expect(listings[0].quantity_available).toBe(3);
+  });
+
   it('should throw error for non-existent listing', async () => {
     const input: UpdateListingInput = {
       id: 99999,
@@ -215,6 +268,17 @@ describe('updateListing', () => {
     };
 
     await expect(updateListing(input)).rejects.toThrow(/not found/i);
+    await expect(updateListing(input)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should reject updates from someone other than the seller', async () => {
+    const input: UpdateListingInput = {
+      id: testListingId,
+      title: 'Hijacked title'
+    };
+
+    await expect(updateListing(input, testUserId + 1)).rejects.toThrow(/only the seller/i);
+    await expect(updateListing(input, testUserId + 1)).rejects.toBeInstanceOf(ForbiddenError);
   });
 
   it('should preserve unchanged fields', async () => {
@@ -303,6 +367,10 @@ describe('deactivateListing', () => {
     await expect(deactivateListing(99999)).rejects.toThrow(/not found/i);
   });
 
+  it('should reject deactivation by someone other than the seller', async () => {
+    await expect(deactivateListing(testListingId, testUserId + 1)).rejects.toThrow(/only the seller/i);
+  });
+
   it('should update timestamp when deactivating', async () => {
     const beforeDeactivation = new Date();
     
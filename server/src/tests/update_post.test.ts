@@ -1,10 +1,14 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { postsTable, usersTable } from '../db/schema';
+import { notificationsTable, postHashtagsTable, postMentionsTable, postsTable, usersTable } from '../db/schema';
 import { type UpdatePostInput, type CreateUserInput, type CreatePostInput } from '../schema';
 import { updatePost, deletePost } from '../handlers/update_post';
-import { eq } from 'drizzle-orm';
+import { createPost } from '../handlers/create_post';
+import { createLike } from '../handlers/create_like';
+import { getPostById, getPostReplies, getPosts } from '../handlers/get_posts';
+import { DELETED_POST_TEXT } from '../lib/posts';
+import { eq, and, isNull } from 'drizzle-orm';
 
 // Test data
 const testUser: CreateUserInput = {
@@ -147,6 +151,72 @@ describe('updatePost', () => {
     await expect(updatePost(updateInput)).rejects.toThrow(/Post not found/i);
   });
 
+  it('should reject updates from someone other than the author', async () => {
+    const updateInput: UpdatePostInput = {
+      id: postId,
+      content: 'Hijacked content',
+    };
+
+    await expect(updatePost(updateInput, userId + 1)).rejects.toThrow(/only the author/i);
+  });
+
+  it('should allow the author to update their post', async () => {
+    const result = await updatePost({ id: postId, content: 'Edited by author' }, userId);
+
+    expect(result.content).toEqual('Edited by author');
+  });
+
+  it('should reject adding text to a plain repost', async () => {
+    const [repost] = await db.insert(postsTable)
+      .values({ user_id: userId, content: '', repost_of_id: postId })
+      .returning()
+      .execute();
+
+    await expect(updatePost({ id: repost.id, content: 'Now a quote' }))
+      .rejects.toThrow(/plain reposts cannot be edited/i);
+  });
+
+  it('should re-link mentions and notify only newly mentioned users', async () => {
+    const others = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com' },
+        { username: 'bob', email: 'bob@example.com' },
+      ])
+      .returning()
+      .execute();
+    const [aliceId, bobId] = others.map(u => u.id);
+
+    await updatePost({ id: postId, content: 'Hello @alice' });
+    await updatePost({ id: postId, content: 'Hello @alice and @bob' });
+    await updatePost({ id: postId, content: 'Hello @bob' });
+
+    const mentions = await db.select()
+      .from(postMentionsTable)
+      .where(eq(postMentionsTable.post_id, postId))
+      .execute();
+
+    expect(mentions.map(m => m.user_id)).toEqual([bobId]);
+
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(eq(notificationsTable.type, 'mention'))
+      .execute();
+
+    expect(notifications.map(n => n.user_id).sort((a, b) => a - b)).toEqual([aliceId, bobId].sort((a, b) => a - b));
+  });
+
+  it('should leave links alone when only the pin status changes', async () => {
+    await updatePost({ id: postId, content: 'Now with #news' });
+    await updatePost({ id: postId, is_pinned: true });
+
+    const links = await db.select()
+      .from(postHashtagsTable)
+      .where(eq(postHashtagsTable.post_id, postId))
+      .execute();
+
+    expect(links).toHaveLength(1);
+  });
+
   it('should handle partial updates correctly', async () => {
     // Update only is_pinned
     const pinUpdate: UpdatePostInput = {
@@ -213,13 +283,85 @@ describe('deletePost', () => {
 
     expect(result).toBe(true);
 
-    // Verify post is deleted from database
+    // The post stays behind as a tombstone
+    const posts = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postId))
+      .execute();
+
+    expect(posts).toHaveLength(1);
+    expect(posts[0].deleted_at).toBeInstanceOf(Date);
+
+    const tombstone = await getPostById(postId);
+    expect(tombstone!.content).toEqual(DELETED_POST_TEXT);
+    expect(tombstone!.media_urls).toBeNull();
+    expect(tombstone!.deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should delete a post that has likes and replies', async () => {
+    const [fan] = await db.insert(usersTable)
+      .values({ username: 'fan', email: 'fan@example.com' })
+      .returning()
+      .execute();
+    await createLike({ user_id: fan.id, post_id: postId });
+    const reply = await createPost({ user_id: fan.id, content: 'Nice', media_urls: null, parent_post_id: postId });
+
+    await deletePost(postId);
+
+    // The reply still hangs off the tombstone
+    const { items: replies } = await getPostReplies({ postId, limit: 20 });
+    expect(replies.map(post => post.id)).toEqual([reply.id]);
+
+    const { items: feed } = await getPosts({ limit: 20 });
+    expect(feed.map(post => post.id)).not.toContain(postId);
+  });
+
+  it('should decrement the parent reply count and keep a tombstone in the thread', async () => {
+    const reply = await createPost({ user_id: userId, content: 'Replying to myself', media_urls: null, parent_post_id: postId });
+
+    await deletePost(reply.id);
+
+    const [parent] = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postId))
+      .execute();
+    expect(parent.reply_count).toEqual(0);
+
+    const { items: replies } = await getPostReplies({ postId, limit: 20 });
+    expect(replies).toHaveLength(1);
+    expect(replies[0].content).toEqual(DELETED_POST_TEXT);
+  });
+
+  it('should not delete the same post twice', async () => {
+    await deletePost(postId);
+
+    await expect(deletePost(postId)).rejects.toThrow(/Post not found/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(users[0].post_count).toEqual(0);
+  });
+
+  it('should reject replies, likes and edits on a deleted post', async () => {
+    await deletePost(postId);
+
+    await expect(createPost({ user_id: userId, content: 'Too late', media_urls: null, parent_post_id: postId }))
+      .rejects.toThrow(/parent post not found/i);
+    await expect(createLike({ user_id: userId, post_id: postId })).rejects.toThrow(/post not found/i);
+    await expect(updatePost({ id: postId, content: 'Edited' })).rejects.toThrow(/post not found/i);
+  });
+
+  it('should reject deletion by someone other than the author', async () => {
+    await expect(deletePost(postId, userId + 1)).rejects.toThrow(/only the author/i);
+
     const posts = await db.select()
       .from(postsTable)
       .where(eq(postsTable.id, postId))
       .execute();
 
-    expect(posts).toHaveLength(0);
+    expect(posts).toHaveLength(1);
   });
 
   it('should update user post count after deletion', async () => {
@@ -236,6 +378,27 @@ describe('deletePost', () => {
     expect(users[0].updated_at).toBeInstanceOf(Date);
   });
 
+  it('should decrement the original repost count when deleting a quote', async () => {
+    const [quote] = await db.insert(postsTable)
+      .values({ user_id: userId, content: 'My take', repost_of_id: postId })
+      .returning()
+      .execute();
+
+    await db.update(postsTable)
+      .set({ repost_count: 1 })
+      .where(eq(postsTable.id, postId))
+      .execute();
+
+    await deletePost(quote.id);
+
+    const [original] = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, postId))
+      .execute();
+
+    expect(original.repost_count).toEqual(0);
+  });
+
   it('should handle multiple posts deletion correctly', async () => {
     // Create another post for the same user
     const secondPostResult = await db.insert(postsTable)
@@ -267,10 +430,10 @@ describe('deletePost', () => {
 
     expect(users[0].post_count).toEqual(1);
 
-    // Verify second post still exists
+    // Verify second post is still live
     const remainingPosts = await db.select()
       .from(postsTable)
-      .where(eq(postsTable.user_id, userId))
+      .where(and(eq(postsTable.user_id, userId), isNull(postsTable.deleted_at)))
       .execute();
 
     expect(remainingPosts).toHaveLength(1);